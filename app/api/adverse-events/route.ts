@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { hasPermission } from '@/lib/roles'
+import { listAuditEntries } from '@/lib/auditStore'
+import { AdverseEventReportError, fileAdverseEventReport, listAdverseEventReports } from '@/lib/adverseEvents'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/adverse-events — needs adverse_events.read
+ *
+ * Every filed AE report, newest first.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'adverse_events.read')
+  if (denied) return denied
+
+  try {
+    return NextResponse.json({ success: true, reports: (await listAdverseEventReports()).reverse() })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to load adverse event reports', details: errorMsg }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/adverse-events — needs adverse_events.report
+ *
+ *   { product, event, event_date: 'YYYY-MM-DD', reporter_type, narrative?,
+ *     query_id?, session_id?, source?: 'query' | 'answer' }
+ *
+ * Files an AE report. With a query_id the report is tied to that query's
+ * audit entry, which must be the user's own unless they can read AE reports,
+ * and the reporting window runs from the entry's first detection.
+ */
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'adverse_events.report')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+  try {
+    let detectedAt: string | undefined
+    const queryId = text(body?.query_id)
+    if (queryId) {
+      const entry = (await listAuditEntries()).find(e => (e.query_id || e.task_id) === queryId)
+      if (!entry) {
+        return NextResponse.json({ success: false, error: `No audit entry for query ${queryId}` }, { status: 404 })
+      }
+      if (entry.user_id !== user.id && !hasPermission(user.role, 'adverse_events.read')) {
+        return NextResponse.json({ success: false, error: 'You can only report adverse events from your own queries' }, { status: 403 })
+      }
+      detectedAt = [entry, ...entry.steps]
+        .flatMap(r => r.adverse_events || [])
+        .map(s => s.detected_at)
+        .sort()[0]
+    }
+
+    const report = await fileAdverseEventReport(
+      {
+        query_id: queryId,
+        session_id: text(body?.session_id),
+        source: body?.source,
+        product: text(body?.product),
+        event: text(body?.event),
+        event_date: text(body?.event_date),
+        reporter_type: text(body?.reporter_type),
+        narrative: text(body?.narrative),
+      },
+      user,
+      detectedAt
+    )
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    if (error instanceof AdverseEventReportError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to file adverse event report', details: errorMsg }, { status: 500 })
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { pollAgentTask, AgentStreamEvent } from '@/lib/agentTasks'
+import { authorize } from '@/lib/auth'
+import { getRegisteredTask } from '@/lib/taskRegistry'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const STREAM_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes, same budget as client polling
+
+function encodeEvent(event: AgentStreamEvent): string {
+  const { type, ...data } = event
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * GET /api/agent/stream?task_id=...
+ *
+ * Server-sent events for a task submitted through POST /api/agent.
+ * The server polls upstream and pushes:
+ *   status   — { status: processing | completed | failed | cancelled }, on change only
+ *   progress — { progress: SubAgentProgress[] }, when sub-agent progress changes
+ *   result   — the same body POST /api/agent returns for a finished task
+ *   error    — { error }, on timeout or upstream failure
+ * The stream closes after result or error. Only the user who submitted the
+ * task can follow it.
+ */
+export async function GET(request: NextRequest) {
+  const { user, denied } = await authorize(request)
+  if (denied) return denied
+  const taskId = request.nextUrl.searchParams.get('task_id')
+  if (!taskId) {
+    return NextResponse.json({ success: false, error: 'task_id is required' }, { status: 400 })
+  }
+  if (getRegisteredTask(taskId)?.user_id !== user.id) {
+    return NextResponse.json({ success: false, error: 'Task expired or not found' }, { status: 404 })
+  }
+
+  const backend = getLyzrBackend()
+  if (!backend.apiKey) {
+    return NextResponse.json({ success: false, error: 'LYZR_API_KEY not configured on server' }, { status: 500 })
+  }
+
+  const encoder = new TextEncoder()
+  const signal = request.signal
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: AgentStreamEvent) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(encodeEvent(event)))
+      }
+
+      const startTime = Date.now()
+      let attempt = 0
+      let lastStatus = ''
+      let lastProgress = ''
+
+      try {
+        while (!signal.aborted && Date.now() - startTime < STREAM_TIMEOUT_MS) {
+          const result = await pollAgentTask(taskId, backend, user)
+          const status = ['processing', 'completed', 'cancelled'].includes(result.body.status)
+            ? result.body.status
+            : 'failed'
+
+          if (status !== lastStatus) {
+            send({ type: 'status', status })
+            lastStatus = status
+          }
+
+          if (status === 'processing') {
+            const progress = JSON.stringify(result.body.progress || [])
+            if (result.body.progress && progress !== lastProgress) {
+              send({ type: 'progress', progress: result.body.progress })
+              lastProgress = progress
+            }
+            const delay = Math.min(250 * Math.pow(1.5, attempt), 2000)
+            attempt++
+            await new Promise(r => setTimeout(r, delay))
+            continue
+          }
+
+          send({ type: 'result', result: result.body })
+          return
+        }
+
+        if (!signal.aborted) {
+          send({ type: 'error', error: 'Agent task timed out after 5 minutes' })
+        }
+      } catch (error) {
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Server error' })
+      } finally {
+        try { controller.close() } catch {}
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
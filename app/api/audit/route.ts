@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exportAuditCsv, queryAuditLog, withoutReviewDrafts, type AuditQuery } from '@/lib/auditStore'
+import { authorize } from '@/lib/auth'
+import { hasPermission } from '@/lib/roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function parseQuery(params: URLSearchParams): AuditQuery {
+  const status = params.get('status')
+  return {
+    page: Number(params.get('page')) || undefined,
+    page_size: Number(params.get('page_size')) || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    status: status ? status.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+    domain: params.get('domain') || undefined,
+    q: params.get('q') || undefined,
+    session_id: params.get('session_id') || undefined,
+  }
+}
+
+/**
+ * GET /api/audit
+ *
+ * Audit entries from the server-side store, newest first, one per user query.
+ *
+ * Query params (all optional):
+ *   page, page_size   1-based page, default 50 per page (max 200)
+ *   from, to          ISO timestamps or YYYY-MM-DD dates, inclusive
+ *   status            comma-separated, e.g. compliant,flagged
+ *   domain            e.g. Sales Data
+ *   q                 free text over query, response, flags, session and agent
+ *   session_id        one chat session
+ *   format=csv        every matching entry as a CSV download, with the chain
+ *                     head in its first line and the X-Audit-Chain-Head header
+ *
+ * Needs audit.read, and audit.export for the CSV. Pre-review drafts
+ * (entry.review) are only returned to roles that review answers.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const { user, denied } = await authorize(request, params.get('format') === 'csv' ? 'audit.export' : 'audit.read')
+  if (denied) return denied
+
+  try {
+    const query = parseQuery(params)
+
+    if (params.get('format') === 'csv') {
+      const { csv, head } = await exportAuditCsv(query)
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit_log_${new Date().toISOString().split('T')[0]}.csv"`,
+          ...(head ? { 'X-Audit-Chain-Head': `${head.seq}:${head.hash}` } : {}),
+        },
+      })
+    }
+
+    const page = await queryAuditLog(query)
+    if (!hasPermission(user.role, 'reviews.decide')) {
+      page.entries = page.entries.map(withoutReviewDrafts)
+    }
+    return NextResponse.json({ success: true, ...page })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to read audit log', details: errorMsg }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuditChain } from '@/lib/auditStore'
+import { authorize } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/audit/verify — needs audit.read
+ *
+ * Walks the audit log's hash chain and reports the first broken link.
+ *
+ * Query params (optional, together):
+ *   seq, hash   a chain head from an export; the response says whether that
+ *               record is still in the log, unchanged
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'audit.read')
+  if (denied) return denied
+  const params = request.nextUrl.searchParams
+  const seq = params.get('seq')
+  const hash = params.get('hash')
+
+  if ((seq === null) !== (hash === null) || (seq !== null && !/^\d+$/.test(seq))) {
+    return NextResponse.json(
+      { success: false, error: 'seq (a positive integer) and hash must be given together' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const verification = await verifyAuditChain(seq !== null && hash ? { seq: Number(seq), hash: hash.toLowerCase() } : undefined)
+    return NextResponse.json({ success: true, ...verification })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to verify audit log', details: errorMsg }, { status: 500 })
+  }
+}
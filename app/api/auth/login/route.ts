@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, authenticateLocal, startSession } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/auth/login   { email, password }
+ *
+ * Signs in with the local credentials provider and sets the session cookie.
+ */
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    const user = await authenticateLocal(String(body?.email || ''), String(body?.password || ''))
+    return await startSession(NextResponse.json({ success: true, user }), user, 'local')
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Sign-in failed', details: errorMsg }, { status: 500 })
+  }
+}
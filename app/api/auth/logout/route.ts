@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { endSession } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/auth/logout
+ *
+ * Ends the server-side session and clears its cookie.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    return await endSession(request, NextResponse.json({ success: true }))
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Sign-out failed', details: errorMsg }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { startSession, upsertOidcUser } from '@/lib/auth'
+import { completeOidcSignIn, OIDC_STATE_COOKIE } from '@/lib/oidc'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/auth/oidc/callback?code=...&state=...
+ *
+ * Where the IdP returns after sign-in: exchanges the code, verifies the ID
+ * token, starts a session and sends the user back into the app. Failures go
+ * to the login page with the reason.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { identity, next } = await completeOidcSignIn(
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value
+    )
+    const user = await upsertOidcUser(identity)
+    const response = NextResponse.redirect(new URL(next, request.url), 303)
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 })
+    return await startSession(response, user, 'oidc')
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sign-in failed'
+    const response = NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, request.url), 303)
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 })
+    return response
+  }
+}
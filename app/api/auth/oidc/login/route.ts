@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { beginOidcSignIn, OIDC_STATE_COOKIE } from '@/lib/oidc'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/auth/oidc/login[?next=/path]
+ *
+ * Redirects to the OIDC IdP's sign-in page; the IdP comes back to
+ * /api/auth/oidc/callback.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { url, state } = await beginOidcSignIn(request.nextUrl.origin, request.nextUrl.searchParams.get('next'))
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oidc',
+      maxAge: 10 * 60,
+    })
+    return response
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sign-in failed'
+    return NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, request.url), 303)
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth'
+import { getOidcConfig } from '@/lib/oidc'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/auth/session
+ *
+ * The signed-in user (null when signed out) and the sign-in providers the
+ * login page offers.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const oidc = getOidcConfig()
+    return NextResponse.json({
+      success: true,
+      user: await getRequestUser(request),
+      providers: [
+        { id: 'local', label: 'Email and password' },
+        ...(oidc ? [{ id: 'oidc', label: oidc.label }] : []),
+      ],
+    })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to read session', details: errorMsg }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, authorize, createLocalUser, listUsers } from '@/lib/auth'
+import { USER_ROLES, type UserRole } from '@/lib/roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/auth/users — needs users.manage
+ *
+ * Every user who can sign in, local and OIDC.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'users.manage')
+  if (denied) return denied
+  try {
+    return NextResponse.json({ success: true, users: await listUsers() })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to list users', details: errorMsg }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/auth/users — needs users.manage
+ *   { email, name?, password, role }
+ *
+ * Adds a local credentials user.
+ */
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, 'users.manage')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (!USER_ROLES.some(r => r.value === body?.role)) {
+    return NextResponse.json(
+      { success: false, error: `role must be one of ${USER_ROLES.map(r => r.value).join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const user = await createLocalUser({
+      email: String(body.email || ''),
+      name: typeof body.name === 'string' ? body.name : undefined,
+      password: String(body.password || ''),
+      role: body.role as UserRole,
+    })
+    return NextResponse.json({ success: true, user }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to create user', details: errorMsg }, { status: 500 })
+  }
+}
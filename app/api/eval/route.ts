@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { loadAgentRegistry } from '@/lib/agentRegistry'
+import { ConfigFileError } from '@/lib/configFiles'
+import { authorize } from '@/lib/auth'
+import { getEvalRun, listEvalRuns, loadEvalSuite, runEvalSuite, saveEvalRun } from '@/lib/evalHarness'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+// A full suite on the hosted agents takes a few minutes
+export const maxDuration = 300
+
+function errorResponse(error: unknown, fallback: string) {
+  const errorMsg = error instanceof Error ? error.message : 'Server error'
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof ConfigFileError ? 'Invalid eval configuration' : fallback,
+      details: errorMsg,
+    },
+    { status: 500 }
+  )
+}
+
+/**
+ * GET /api/eval            → the suite and stored runs (newest first)
+ * GET /api/eval?run=<id>   → one run's full scored report and diff
+ *
+ * Both need eval.run.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'eval.run')
+  if (denied) return denied
+
+  try {
+    const runId = request.nextUrl.searchParams.get('run')
+    if (runId) {
+      const run = await getEvalRun(runId)
+      if (!run) {
+        return NextResponse.json({ success: false, error: `Eval run ${runId} not found` }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, run })
+    }
+    const suite = await loadEvalSuite()
+    return NextResponse.json({ success: true, suite, runs: await listEvalRuns(suite.name) })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load eval runs')
+  }
+}
+
+/**
+ * POST /api/eval — needs eval.run
+ *
+ * Body (all optional):
+ *   { backend: 'emulator' | 'lyzr' | 'replay', agent_id, case_ids: string[], concurrency }
+ *
+ * Runs the golden-question suite (default: the manager agent on the
+ * configured backend), stores the run and returns it with its diff against
+ * the previous run.
+ */
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, 'eval.run')
+  if (denied) return denied
+
+  let body: any = {}
+  try {
+    const text = await request.text()
+    body = text ? JSON.parse(text) : {}
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    if (body.backend && !['emulator', 'lyzr', 'replay'].includes(body.backend)) {
+      return NextResponse.json({ success: false, error: 'backend must be "emulator", "lyzr" or "replay"' }, { status: 400 })
+    }
+    const backend = getLyzrBackend(body.backend)
+    if (!backend.apiKey) {
+      return NextResponse.json({ success: false, error: 'LYZR_API_KEY not configured on server' }, { status: 500 })
+    }
+
+    const [suite, registry] = await Promise.all([loadEvalSuite(), loadAgentRegistry()])
+    const agentId = body.agent_id || registry.agents.find(a => a.type === 'manager')?.agent_id
+    const caseIds = Array.isArray(body.case_ids) ? body.case_ids.map(String) : undefined
+    const unknown = caseIds?.filter((id: string) => !suite.cases.some(c => c.id === id)) ?? []
+    if (unknown.length > 0) {
+      return NextResponse.json({ success: false, error: `Unknown case ids: ${unknown.join(', ')}` }, { status: 400 })
+    }
+
+    const run = await runEvalSuite(suite, {
+      agent_id: agentId,
+      backend,
+      case_ids: caseIds,
+      concurrency: Number(body.concurrency) || undefined,
+    })
+    return NextResponse.json({ success: true, run: await saveEvalRun(run) })
+  } catch (error) {
+    return errorResponse(error, 'Eval run failed')
+  }
+}
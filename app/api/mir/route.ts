@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { hasPermission } from '@/lib/roles'
+import {
+  createMedicalInfoRequest,
+  listMedicalInfoRequests,
+  MIR_STATUSES,
+  MirError,
+  updateMedicalInfoRequestStatus,
+  type MirStatus,
+} from '@/lib/medicalInfoRequests'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof MirError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+  const errorMsg = error instanceof Error ? error.message : 'Server error'
+  return NextResponse.json({ success: false, error: fallback, details: errorMsg }, { status: 500 })
+}
+
+/**
+ * GET /api/mir[?status=open|in_progress|answered|closed] — needs mir.create
+ *
+ * Medical information requests, newest first: every request for users who
+ * work the queue (mir.manage), a rep's own requests otherwise.
+ */
+export async function GET(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'mir.create')
+  if (denied) return denied
+  const status = request.nextUrl.searchParams.get('status') as MirStatus | null
+
+  try {
+    const requests = await listMedicalInfoRequests({
+      ...(hasPermission(user.role, 'mir.manage') ? {} : { userId: user.id }),
+      ...(status && MIR_STATUSES.includes(status) ? { status } : {}),
+    })
+    return NextResponse.json({ success: true, requests })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load medical information requests')
+  }
+}
+
+/**
+ * POST /api/mir — needs mir.create
+ *
+ *   { hcp, question, channel: 'email' | 'phone' | 'letter' | 'visit', contact?, query_id?, session_id? }
+ */
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'mir.create')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+  try {
+    const created = await createMedicalInfoRequest(
+      {
+        hcp: text(body?.hcp),
+        question: text(body?.question),
+        channel: text(body?.channel),
+        contact: text(body?.contact),
+        query_id: text(body?.query_id),
+        session_id: text(body?.session_id),
+      },
+      user
+    )
+    return NextResponse.json({ success: true, request: created })
+  } catch (error) {
+    return errorResponse(error, 'Failed to open medical information request')
+  }
+}
+
+/**
+ * PATCH /api/mir — needs mir.manage
+ *
+ *   { id, status, note? }
+ */
+export async function PATCH(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'mir.manage')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (typeof body?.id !== 'string' || !MIR_STATUSES.includes(body.status)) {
+    return NextResponse.json(
+      { success: false, error: `id and status (${MIR_STATUSES.join(', ')}) are required` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const updated = await updateMedicalInfoRequestStatus(body.id, body.status, user, typeof body.note === 'string' ? body.note : undefined)
+    return NextResponse.json({ success: true, request: updated })
+  } catch (error) {
+    return errorResponse(error, 'Failed to update medical information request')
+  }
+}
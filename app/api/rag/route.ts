@@ -8,7 +8,8 @@
  *
  * 1. POST /api/rag (JSON body { ragId })  →  GET /v3/rag/documents/{rag_id}/
  *    - Content-Type: application/json
- *    - Lists documents in a knowledge base
+ *    - Lists documents in a knowledge base, with uploader, size, hash,
+ *      chunk count, parser, tags and version from lib/kbCatalog
  *    - Headers: x-api-key
  *
  * 2. POST /api/rag (formData with file)  →  POST /v3/train/{fileType}/?rag_id={id}
@@ -17,6 +18,17 @@
  *    - fileType (pdf|docx|txt) in URL PATH
  *    - Body: multipart/form-data (file + parser params)
  *    - Headers: x-api-key
+ *    - CSV, XLSX, PPTX, Markdown and HTML are converted to text first
+ *      (lib/documentConversion) and trained as txt under "<name>.txt";
+ *      listings show them under the uploaded name
+ *    - Optional "tags" field, comma-separated
+ *    - A file name already in the knowledge base is replaced and recorded
+ *      as a new version (lib/kbCatalog); identical bytes train nothing.
+ *      Earlier versions are restored through /api/rag/versions
+ *    - Content already in any knowledge base under another name (same bytes,
+ *      or same normalized text) is refused with 409 and `duplicates`; resend
+ *      with duplicate=replace (deletes the matches once the upload has
+ *      trained, needs kb.delete) or duplicate=keep to upload anyway
  *
  * 3. DELETE /api/rag (with JSON)  →  DELETE /v3/rag/{rag_id}/docs/
  *    - rag_id in URL PATH
@@ -24,9 +36,34 @@
  *    - Headers: x-api-key, Content-Type: application/json
  *
  * NEVER expose LYZR_API_KEY to client — always proxy through this route.
+ *
+ * Listing needs the kb.read permission, upload and crawl kb.upload, and
+ * delete kb.delete (lib/roles). Changes are recorded with the signed-in
+ * user in the knowledge base change log (lib/kbChangeLog).
+ *
+ * Upstream hosts come from lib/lyzrBackend, so LYZR_BACKEND=emulator serves
+ * all of the above from the in-process emulator instead.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { getLyzrBackend } from "@/lib/lyzrBackend";
+import { authorize } from "@/lib/auth";
+import { hasPermission } from "@/lib/roles";
+import { loadAgentRegistry } from "@/lib/agentRegistry";
+import { recordKbChange } from "@/lib/kbChangeLog";
+import { DocumentConversionError, originalName } from "@/lib/documentConversion";
+import { deleteDocuments, RagUpstreamError } from "@/lib/ragUpstream";
+import {
+  currentVersion,
+  documentFingerprint,
+  DuplicateMatch,
+  findDuplicates,
+  KbCatalogEntry,
+  listCatalog,
+  markDeleted,
+  normalizeTags,
+  publishDocument,
+} from "@/lib/kbCatalog";
 
 // CRITICAL: Remove the default 1MB body size limit for file uploads.
 // Without this, Next.js App Router rejects any request body > 1MB,
@@ -34,20 +71,45 @@ import { NextRequest, NextResponse } from "next/server";
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const LYZR_RAG_BASE_URL = "https://rag-prod.studio.lyzr.ai/v3";
-const LYZR_API_KEY = process.env.LYZR_API_KEY || "";
-
-const FILE_TYPE_MAP: Record<string, "pdf" | "docx" | "txt"> = {
-  "application/pdf": "pdf",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-    "docx",
-  "text/plain": "txt",
-};
+const LISTED_TYPES = ["pdf", "docx", "txt", "csv", "xlsx", "pptx", "md", "html"];
+
+// A stored document path as listed to the client, with its catalog metadata
+// (lib/kbCatalog) when the file was uploaded through this route
+function listedDocument(filePath: unknown, catalog: KbCatalogEntry[] = []) {
+  const fullPath = typeof filePath === "string" ? filePath : String(filePath);
+  const storedName = fullPath.split("/").pop() || fullPath;
+  const { fileName, convertedFrom } = originalName(storedName);
+  const ext = fileName.split(".").pop()?.toLowerCase() || "";
+  const fileType = convertedFrom || (LISTED_TYPES.includes(ext) ? ext : "unknown");
+  const entry = catalog.find((e) => e.trained_name === storedName);
+  const version = entry && currentVersion(entry);
+  return {
+    fileName,
+    fullPath,
+    fileType,
+    status: "active",
+    ...(entry && version
+      ? {
+          fileSize: version.size,
+          uploadedAt: version.uploaded_at,
+          uploadedBy: version.user_name,
+          documentCount: version.chunk_count,
+          contentHash: version.sha256,
+          parser: version.parser,
+          version: version.version,
+          versionCount: entry.versions.length,
+          tags: entry.tags,
+        }
+      : {}),
+  };
+}
 
 // GET - Health check and document listing (for platform compatibility)
 export async function GET(request: NextRequest) {
   try {
-    if (!LYZR_API_KEY) {
+    const backend = getLyzrBackend();
+
+    if (!backend.apiKey) {
       return NextResponse.json(
         { success: false, error: "LYZR_API_KEY not configured" },
         { status: 500 }
@@ -57,13 +119,16 @@ export async function GET(request: NextRequest) {
     // Check if ragId is provided as query parameter
     const ragId = request.nextUrl.searchParams.get("ragId");
     if (ragId) {
-      const response = await fetch(
-        `${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
+      const { denied } = await authorize(request, "kb.read");
+      if (denied) return denied;
+
+      const response = await backend.fetch(
+        `${backend.ragBaseUrl}/rag/documents/${encodeURIComponent(ragId)}/`,
         {
           method: "GET",
           headers: {
             accept: "application/json",
-            "x-api-key": LYZR_API_KEY,
+            "x-api-key": backend.apiKey,
           },
         }
       );
@@ -74,21 +139,8 @@ export async function GET(request: NextRequest) {
           ? data
           : data.documents || data.data || [];
 
-        const documents = filePaths.map((filePath: string) => {
-          const fullPath =
-            typeof filePath === "string" ? filePath : String(filePath);
-          const fileName = fullPath.split("/").pop() || fullPath;
-          const ext = fileName.split(".").pop()?.toLowerCase() || "";
-          const fileType =
-            ext === "pdf"
-              ? "pdf"
-              : ext === "docx"
-                ? "docx"
-                : ext === "txt"
-                  ? "txt"
-                  : "unknown";
-          return { fileName, fullPath, fileType, status: "active" };
-        });
+        const catalog = await listCatalog(ragId);
+        const documents = filePaths.map((p: unknown) => listedDocument(p, catalog));
 
         return NextResponse.json({
           success: true,
@@ -119,7 +171,9 @@ export async function GET(request: NextRequest) {
 // POST - List documents (JSON body) or Upload and train (formData)
 export async function POST(request: NextRequest) {
   try {
-    if (!LYZR_API_KEY) {
+    const backend = getLyzrBackend();
+
+    if (!backend.apiKey) {
       return NextResponse.json(
         {
           success: false,
@@ -130,6 +184,11 @@ export async function POST(request: NextRequest) {
     }
 
     const contentType = request.headers.get("content-type") || "";
+    const { user, denied } = await authorize(
+      request,
+      contentType.includes("application/json") ? "kb.read" : "kb.upload"
+    );
+    if (denied) return denied;
 
     if (contentType.includes("application/json")) {
       // List documents flow (was GET)
@@ -146,13 +205,13 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const response = await fetch(
-        `${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
+      const response = await backend.fetch(
+        `${backend.ragBaseUrl}/rag/documents/${encodeURIComponent(ragId)}/`,
         {
           method: "GET",
           headers: {
             accept: "application/json",
-            "x-api-key": LYZR_API_KEY,
+            "x-api-key": backend.apiKey,
           },
         }
       );
@@ -164,26 +223,8 @@ export async function POST(request: NextRequest) {
           ? data
           : data.documents || data.data || [];
 
-        const documents = filePaths.map((filePath: string) => {
-          const fullPath = typeof filePath === 'string' ? filePath : String(filePath);
-          const fileName = fullPath.split("/").pop() || fullPath;
-          const ext = fileName.split(".").pop()?.toLowerCase() || "";
-          const fileType =
-            ext === "pdf"
-              ? "pdf"
-              : ext === "docx"
-                ? "docx"
-                : ext === "txt"
-                  ? "txt"
-                  : "unknown";
-
-          return {
-            fileName,
-            fullPath,
-            fileType,
-            status: "active",
-          };
-        });
+        const catalog = await listCatalog(ragId);
+        const documents = filePaths.map((p: unknown) => listedDocument(p, catalog));
 
         return NextResponse.json({
           success: true,
@@ -218,92 +259,94 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Determine file type from MIME type first, then fall back to file extension
-      let fileType = FILE_TYPE_MAP[file.type];
-      if (!fileType) {
-        const ext = file.name.split(".").pop()?.toLowerCase();
-        if (ext === "pdf") fileType = "pdf";
-        else if (ext === "docx") fileType = "docx";
-        else if (ext === "txt") fileType = "txt";
-      }
-      if (!fileType) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: `Unsupported file type: ${file.type || 'unknown'}. Supported: PDF, DOCX, TXT`,
-          },
-          { status: 400 }
-        );
-      }
-
-      // Direct upload and train in one step
-      // Try multiple parsers for best compatibility with all PDF types including
-      // Claude artifacts, scanned documents, and PDFs with graphics/tables.
-      // Larger chunk size (2000) preserves more context per chunk for better retrieval.
-      const trainUrl = `${LYZR_RAG_BASE_URL}/train/${fileType}/?rag_id=${encodeURIComponent(ragId)}`;
-      const trainHeaders = {
-        "x-api-key": LYZR_API_KEY,
-        accept: "application/json",
-      };
-
-      // Read file bytes once for reuse across parser attempts
-      const fileBytes = await file.arrayBuffer();
-
-      const buildTrainForm = (parser: string) => {
-        const fd = new FormData();
-        const blob = new Blob([fileBytes], { type: file.type || "application/octet-stream" });
-        fd.append("file", blob, file.name);
-        fd.append("data_parser", parser);
-        fd.append("chunk_size", "2000");
-        fd.append("chunk_overlap", "200");
-        fd.append("extra_info", "{}");
-        return fd;
-      };
-
-      // Try parsers in order: auto (best compat) → llmsherpa (layout-aware) → none (raw text)
-      const parsers = ["auto", "llmsherpa", "none"];
-      let trainData: any = null;
-      let lastTrainError = "";
-
-      for (const parser of parsers) {
-        try {
-          const resp = await fetch(trainUrl, {
-            method: "POST",
-            headers: trainHeaders,
-            body: buildTrainForm(parser),
-          });
-
-          if (resp.ok) {
-            trainData = await resp.json();
-            break;
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const fingerprint = documentFingerprint(file.name, bytes, file.type || undefined);
+        const duplicateChoice = formData.get("duplicate");
+        let replacing: DuplicateMatch[] = [];
+
+        // The same content under another name, here or in another knowledge base
+        if (duplicateChoice !== "keep") {
+          const duplicates = await findDuplicates(fingerprint, { ragId, fileName: file.name });
+          if (duplicates.length > 0 && duplicateChoice !== "replace") {
+            const registry = await loadAgentRegistry().catch(() => null);
+            const described = duplicates.map((d) => ({
+              ...d,
+              kb_label: registry?.knowledge_bases.find((kb) => kb.rag_id === d.rag_id)?.label || d.rag_id,
+            }));
+            const first = described[0];
+            return NextResponse.json(
+              {
+                success: false,
+                error: `${first.match === "exact" ? "Identical to" : "Same text as"} "${first.file_name}" in ${first.kb_label}`,
+                duplicates: described,
+              },
+              { status: 409 }
+            );
+          }
+          if (duplicates.length > 0) {
+            if (!hasPermission(user.role, "kb.delete")) {
+              return NextResponse.json(
+                { success: false, error: "Replacing a duplicate deletes it, which your role cannot do" },
+                { status: 403 }
+              );
+            }
+            replacing = duplicates;
           }
-
-          lastTrainError = await resp.text();
-        } catch (e) {
-          lastTrainError = e instanceof Error ? e.message : "Network error during upload";
         }
-      }
 
-      if (!trainData) {
-        return NextResponse.json(
+        const published = await publishDocument(
+          backend,
+          ragId,
           {
-            success: false,
-            error: `Failed to train document after trying multiple parsers`,
-            details: lastTrainError,
+            name: file.name,
+            ...(file.type ? { mime: file.type } : {}),
+            bytes,
+            fingerprint,
+            ...(formData.has("tags") ? { tags: normalizeTags(formData.get("tags")) } : {}),
           },
-          { status: 500 }
+          user
         );
-      }
+        const current = currentVersion(published.entry)!;
 
-      return NextResponse.json({
-        success: true,
-        message: "Document uploaded and trained successfully",
-        fileName: file.name,
-        fileType,
-        documentCount: trainData.document_count || trainData.chunks || 1,
-        ragId,
-        timestamp: new Date().toISOString(),
-      });
+        if (published.trained) {
+          await recordKbChange(user, { rag_id: ragId, action: "upload", documents: [file.name] });
+        }
+        // Only once the upload has trained, so a failed replace loses nothing
+        for (const duplicate of replacing) {
+          const deleted = await deleteDocuments(backend, duplicate.rag_id, [duplicate.trained_name]);
+          await markDeleted(duplicate.rag_id, deleted);
+          await recordKbChange(user, { rag_id: duplicate.rag_id, action: "delete", documents: [duplicate.file_name] });
+        }
+        return NextResponse.json({
+          success: true,
+          message: !published.trained
+            ? `Unchanged: identical to version ${current.version}, nothing was trained`
+            : published.replaced
+              ? `Uploaded as version ${current.version}, replacing version ${published.replaced}`
+              : "Document uploaded and trained successfully",
+          fileName: file.name,
+          fileType: listedDocument(published.entry.trained_name).fileType,
+          ...(current.converted_from ? { convertedFrom: current.converted_from } : {}),
+          documentCount: current.chunk_count,
+          version: current.version,
+          ...(published.replaced ? { replacedVersion: published.replaced } : {}),
+          ...(!published.trained ? { unchanged: true } : {}),
+          ragId,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (e) {
+        if (e instanceof DocumentConversionError) {
+          return NextResponse.json({ success: false, error: e.message }, { status: 422 });
+        }
+        if (e instanceof RagUpstreamError) {
+          return NextResponse.json(
+            { success: false, error: e.message, ...(e.details ? { details: e.details } : {}) },
+            { status: e.status }
+          );
+        }
+        throw e;
+      }
     }
   } catch (error) {
     return NextResponse.json(
@@ -318,8 +361,13 @@ export async function POST(request: NextRequest) {
 
 // PATCH - Crawl a website and add content to knowledge base
 export async function PATCH(request: NextRequest) {
+  const { user, denied } = await authorize(request, "kb.upload");
+  if (denied) return denied;
+
   try {
-    if (!LYZR_API_KEY) {
+    const backend = getLyzrBackend();
+
+    if (!backend.apiKey) {
       return NextResponse.json(
         {
           success: false,
@@ -342,11 +390,11 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const response = await fetch(`https://api.beta.architect.new/api/v1/rag/crawl`, {
+    const response = await backend.fetch(backend.crawlUrl, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "x-api-key": LYZR_API_KEY,
+        "x-api-key": backend.apiKey,
       },
       body: JSON.stringify({ url, rag_id: ragId }),
     });
@@ -363,6 +411,7 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    await recordKbChange(user, { rag_id: ragId, action: "crawl", documents: [url] });
     return NextResponse.json({
       success: true,
       message:
@@ -384,8 +433,13 @@ export async function PATCH(request: NextRequest) {
 
 // DELETE - Remove documents from knowledge base
 export async function DELETE(request: NextRequest) {
+  const { user, denied } = await authorize(request, "kb.delete");
+  if (denied) return denied;
+
   try {
-    if (!LYZR_API_KEY) {
+    const backend = getLyzrBackend();
+
+    if (!backend.apiKey) {
       return NextResponse.json(
         {
           success: false,
@@ -408,106 +462,24 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // First, try deleting with the provided names (which may include full paths)
-    const response = await fetch(
-      `${LYZR_RAG_BASE_URL}/rag/${encodeURIComponent(ragId)}/docs/`,
-      {
-        method: "DELETE",
-        headers: {
-          accept: "application/json",
-          "Content-Type": "application/json",
-          "x-api-key": LYZR_API_KEY,
-        },
-        body: JSON.stringify(documentNames),
-      }
-    );
-
-    if (response.ok) {
+    try {
+      const deleted = await deleteDocuments(backend, ragId, documentNames);
+      await markDeleted(ragId, deleted);
+      await recordKbChange(user, { rag_id: ragId, action: "delete", documents: deleted });
       return NextResponse.json({
         success: true,
         message: "Documents deleted successfully",
-        deletedCount: documentNames.length,
+        deletedCount: deleted.length,
         ragId,
         timestamp: new Date().toISOString(),
       });
+    } catch (e) {
+      if (!(e instanceof RagUpstreamError)) throw e;
+      return NextResponse.json(
+        { success: false, error: e.message, ...(e.details ? { details: e.details } : {}) },
+        { status: e.status }
+      );
     }
-
-    // If first attempt failed, the API may need the full storage paths.
-    // Fetch document list to find matching full paths and retry.
-    const listResponse = await fetch(
-      `${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
-      {
-        method: "GET",
-        headers: {
-          accept: "application/json",
-          "x-api-key": LYZR_API_KEY,
-        },
-      }
-    );
-
-    if (listResponse.ok) {
-      const listData = await listResponse.json();
-      const allPaths: string[] = Array.isArray(listData)
-        ? listData
-        : listData.documents || listData.data || [];
-
-      // Map provided filenames to their full storage paths
-      const fullPaths = documentNames
-        .map((name: string) => {
-          // If the name already looks like a full path, use it directly
-          if (name.includes("/")) return name;
-          // Otherwise, find the matching full path from the listing
-          return allPaths.find(
-            (p: string) => p.endsWith(`/${name}`) || p === name
-          );
-        })
-        .filter(Boolean) as string[];
-
-      if (fullPaths.length > 0) {
-        const retryResponse = await fetch(
-          `${LYZR_RAG_BASE_URL}/rag/${encodeURIComponent(ragId)}/docs/`,
-          {
-            method: "DELETE",
-            headers: {
-              accept: "application/json",
-              "Content-Type": "application/json",
-              "x-api-key": LYZR_API_KEY,
-            },
-            body: JSON.stringify(fullPaths),
-          }
-        );
-
-        if (retryResponse.ok) {
-          return NextResponse.json({
-            success: true,
-            message: "Documents deleted successfully",
-            deletedCount: fullPaths.length,
-            ragId,
-            timestamp: new Date().toISOString(),
-          });
-        }
-
-        const retryErrorText = await retryResponse.text();
-        return NextResponse.json(
-          {
-            success: false,
-            error: `Failed to delete documents: ${retryResponse.status}`,
-            details: retryErrorText,
-          },
-          { status: retryResponse.status }
-        );
-      }
-    }
-
-    const errorText = await response.text();
-    return NextResponse.json(
-      {
-        success: false,
-        error: `Failed to delete documents: ${response.status}`,
-        details: errorText,
-      },
-      { status: response.status }
-    );
   } catch (error) {
     return NextResponse.json(
       {
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { recordKbChange } from '@/lib/kbChangeLog'
+import { getCatalogEntry, KbCatalogError, normalizeTags, restoreVersion, setTags } from '@/lib/kbCatalog'
+import { RagUpstreamError } from '@/lib/ragUpstream'
+import { DocumentConversionError } from '@/lib/documentConversion'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof KbCatalogError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+  if (error instanceof RagUpstreamError) {
+    return NextResponse.json(
+      { success: false, error: error.message, ...(error.details ? { details: error.details } : {}) },
+      { status: error.status }
+    )
+  }
+  if (error instanceof DocumentConversionError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 422 })
+  }
+  const errorMsg = error instanceof Error ? error.message : 'Server error'
+  return NextResponse.json({ success: false, error: fallback, details: errorMsg }, { status: 500 })
+}
+
+async function readBody(request: NextRequest): Promise<any | null> {
+  try {
+    return await request.json()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * GET /api/rag/versions?ragId=...&fileName=... — needs kb.read
+ *
+ * A knowledge base file's catalog entry: tags, current version and every
+ * version with its uploader, size, hash, chunk count and parser.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'kb.read')
+  if (denied) return denied
+  const ragId = request.nextUrl.searchParams.get('ragId')
+  const fileName = request.nextUrl.searchParams.get('fileName')
+  if (!ragId || !fileName) {
+    return NextResponse.json({ success: false, error: 'ragId and fileName are required' }, { status: 400 })
+  }
+
+  try {
+    const entry = await getCatalogEntry(ragId, fileName)
+    if (!entry) {
+      return NextResponse.json({ success: false, error: `${fileName} has no version history` }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, entry })
+  } catch (error) {
+    return errorResponse(error, 'Failed to read version history')
+  }
+}
+
+/**
+ * POST /api/rag/versions — needs kb.upload
+ *
+ *   { ragId, fileName, version }
+ *
+ * Roll back: retrain the kept bytes of `version` in place of the current
+ * version. The rollback is recorded as a new version.
+ */
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'kb.upload')
+  if (denied) return denied
+  const body = await readBody(request)
+  if (typeof body?.ragId !== 'string' || typeof body?.fileName !== 'string' || !Number.isInteger(body?.version)) {
+    return NextResponse.json({ success: false, error: 'ragId, fileName and version are required' }, { status: 400 })
+  }
+
+  try {
+    const backend = getLyzrBackend()
+    if (!backend.apiKey) {
+      return NextResponse.json({ success: false, error: 'LYZR_API_KEY not configured on server' }, { status: 500 })
+    }
+    const restored = await restoreVersion(backend, body.ragId, body.fileName, body.version, user)
+    await recordKbChange(user, { rag_id: body.ragId, action: 'restore', documents: [`${restored.entry.file_name} v${body.version}`] })
+    return NextResponse.json({ success: true, entry: restored.entry })
+  } catch (error) {
+    return errorResponse(error, 'Failed to restore version')
+  }
+}
+
+/**
+ * PATCH /api/rag/versions — needs kb.upload
+ *
+ *   { ragId, fileName, tags: string[] | "a, b" }
+ */
+export async function PATCH(request: NextRequest) {
+  const { denied } = await authorize(request, 'kb.upload')
+  if (denied) return denied
+  const body = await readBody(request)
+  if (typeof body?.ragId !== 'string' || typeof body?.fileName !== 'string' || body?.tags === undefined) {
+    return NextResponse.json({ success: false, error: 'ragId, fileName and tags are required' }, { status: 400 })
+  }
+
+  try {
+    const entry = await setTags(body.ragId, body.fileName, normalizeTags(body.tags))
+    return NextResponse.json({ success: true, entry })
+  } catch (error) {
+    return errorResponse(error, 'Failed to update tags')
+  }
+}
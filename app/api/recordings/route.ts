@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRecording, isRecordingEnabled, listRecordings } from '@/lib/agentRecorder'
+import { authorize } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/recordings            → recorded agent tasks and fixtures, newest first
+ * GET /api/recordings?id=<id>    → one recording with its verbatim raw_response
+ *
+ * Needs recordings.read (admins): recordings hold users' questions and full
+ * agent answers.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'recordings.read')
+  if (denied) return denied
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (id) {
+      const recording = await getRecording(id)
+      if (!recording) {
+        return NextResponse.json({ success: false, error: `Recording ${id} not found` }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, recording })
+    }
+    return NextResponse.json({
+      success: true,
+      recording_enabled: isRecordingEnabled(),
+      recordings: await listRecordings(),
+    })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to load recordings', details: errorMsg }, { status: 500 })
+  }
+}
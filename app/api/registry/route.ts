@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadAgentRegistry } from '@/lib/agentRegistry'
+import { ConfigFileError } from '@/lib/configFiles'
+import { authorize } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/registry
+ *
+ * Agents, knowledge bases and the agent graph from workflow_state.json and
+ * the current workflow version (see lib/workflowStore.ts). Any signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request)
+  if (denied) return denied
+
+  try {
+    const registry = await loadAgentRegistry()
+    return NextResponse.json({ success: true, ...registry })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigFileError ? 'Invalid agent configuration' : 'Failed to load agent registry',
+        details: errorMsg,
+      },
+      { status: 500 }
+    )
+  }
+}
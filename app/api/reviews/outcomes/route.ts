@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { getReviewOutcomes } from '@/lib/reviewQueue'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reviews/outcomes?session_id=...
+ *
+ * Review status of the session's flagged and redacted answers, keyed by the
+ * query_id the chat sent, so the rep sees the outcome on their message.
+ * Only the signed-in user's own answers are included.
+ */
+export async function GET(request: NextRequest) {
+  const { user, denied } = await authorize(request)
+  if (denied) return denied
+  const sessionId = request.nextUrl.searchParams.get('session_id')
+  if (!sessionId) {
+    return NextResponse.json({ success: false, error: 'session_id is required' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ success: true, session_id: sessionId, outcomes: await getReviewOutcomes(sessionId, user.id) })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to load review outcomes', details: errorMsg }, { status: 500 })
+  }
+}
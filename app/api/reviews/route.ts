@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import {
+  canReview,
+  decideReview,
+  listReviewQueue,
+  ReviewDecisionError,
+  type ReviewDecisionType,
+  type ReviewState,
+} from '@/lib/reviewQueue'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const STATES: ReviewState[] = ['pending', 'decided', 'all']
+const DECISIONS: ReviewDecisionType[] = ['approved', 'rejected', 'released']
+
+/**
+ * GET /api/reviews[?state=pending|decided|all] — needs reviews.decide
+ *
+ * Flagged and redacted answers with their review decision, newest first.
+ * Defaults to the answers still awaiting review.
+ */
+export async function GET(request: NextRequest) {
+  const { user, denied } = await authorize(request)
+  if (denied) return denied
+  if (!canReview(user.role)) {
+    return NextResponse.json({ success: false, error: 'Only compliance officers can view the review queue' }, { status: 403 })
+  }
+  const requested = request.nextUrl.searchParams.get('state') as ReviewState | null
+  const state = requested && STATES.includes(requested) ? requested : 'pending'
+
+  try {
+    return NextResponse.json({ success: true, state, items: await listReviewQueue(state) })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to load review queue', details: errorMsg }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/reviews — needs reviews.decide
+ *
+ *   { entry_id, decision: 'approved' }
+ *   { entry_id, decision: 'rejected', reason }
+ *   { entry_id, decision: 'released', answer, reason? }   edit and release
+ */
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request)
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (typeof body?.entry_id !== 'string' || !DECISIONS.includes(body.decision)) {
+    return NextResponse.json(
+      { success: false, error: `entry_id and decision (${DECISIONS.join(', ')}) are required` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const decision = await decideReview(
+      {
+        entry_id: body.entry_id,
+        decision: body.decision,
+        reason: typeof body.reason === 'string' ? body.reason : undefined,
+        answer: typeof body.answer === 'string' ? body.answer : undefined,
+      },
+      user
+    )
+    return NextResponse.json({ success: true, decision })
+  } catch (error) {
+    if (error instanceof ReviewDecisionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to record review decision', details: errorMsg }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { getSalesCatalog, planSalesQuery, runSalesQuery, SalesDataError, type SalesQuery } from '@/lib/salesData'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/sales/query — needs kb.read
+ *
+ *   { query: { metric, group_by?, filters?, order?, limit?, compare? } }
+ *   { question: "Top 3 territories by revenue in Q3" }
+ *
+ * Runs a structured query against the sales table, or plans one from a
+ * question the way agent tasks do. The result carries the SQL it ran.
+ */
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, 'kb.read')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    let query: SalesQuery | null = body?.query && typeof body.query === 'object' ? body.query : null
+    if (!query && typeof body?.question === 'string') {
+      query = planSalesQuery(body.question, await getSalesCatalog())
+      if (!query) {
+        return NextResponse.json({ success: false, error: 'The question does not ask for a revenue, quota, TRx or NRx figure' }, { status: 422 })
+      }
+    }
+    if (!query) {
+      return NextResponse.json({ success: false, error: 'query or question is required' }, { status: 400 })
+    }
+    return NextResponse.json({ success: true, computation: await runSalesQuery(query) })
+  } catch (error) {
+    if (error instanceof SalesDataError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return NextResponse.json({ success: false, error: 'Failed to run sales query', details: errorMsg }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { getSalesCatalog, listSalesLoads, loadSalesFile, SalesDataError } from '@/lib/salesData'
+import { DocumentConversionError } from '@/lib/documentConversion'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof SalesDataError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+  if (error instanceof DocumentConversionError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 422 })
+  }
+  const errorMsg = error instanceof Error ? error.message : 'Server error'
+  return NextResponse.json({ success: false, error: fallback, details: errorMsg }, { status: 500 })
+}
+
+/**
+ * GET /api/sales — needs kb.read
+ *
+ * What the structured sales table holds (row count, territories, products,
+ * periods) and the files loaded into it, newest first.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, 'kb.read')
+  if (denied) return denied
+
+  try {
+    const [catalog, loads] = await Promise.all([getSalesCatalog(), listSalesLoads()])
+    return NextResponse.json({ success: true, catalog, loads })
+  } catch (error) {
+    return errorResponse(error, 'Failed to read sales data')
+  }
+}
+
+/**
+ * POST /api/sales (formData with file) — needs kb.upload
+ *
+ * Load a CSV or XLSX sales file. Rows replace earlier figures for the same
+ * territory, product and period; rows that cannot be read are skipped and
+ * reported in `load.errors`.
+ */
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'kb.upload')
+  if (denied) return denied
+
+  let file: FormDataEntryValue | null
+  try {
+    file = (await request.formData()).get('file')
+  } catch {
+    return NextResponse.json({ success: false, error: 'Expected multipart/form-data with a file' }, { status: 400 })
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ success: false, error: 'file is required' }, { status: 400 })
+  }
+
+  try {
+    const load = await loadSalesFile(file.name, new Uint8Array(await file.arrayBuffer()), user)
+    return NextResponse.json({ success: true, load, catalog: await getSalesCatalog() })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load sales data')
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getLyzrBackend, LyzrBackend } from '@/lib/lyzrBackend'
+import { authorize } from '@/lib/auth'
 
-const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
-
-function getHeaders() {
+function getHeaders(backend: LyzrBackend) {
   return {
     'Content-Type': 'application/json',
     'accept': 'application/json',
-    'x-api-key': LYZR_API_KEY,
+    'x-api-key': backend.apiKey,
   }
 }
 
-function apiKeyCheck() {
-  if (!LYZR_API_KEY) {
+function apiKeyCheck(backend: LyzrBackend) {
+  if (!backend.apiKey) {
     return NextResponse.json(
       { success: false, error: 'LYZR_API_KEY not configured on server' },
       { status: 500 }
@@ -21,11 +20,15 @@ function apiKeyCheck() {
   return null
 }
 
+
 // ---------------------------------------------------------------------------
-// GET — list | get | by-agent | logs | recent
+// GET — list | get | by-agent | logs | recent  (needs schedules.read)
 // ---------------------------------------------------------------------------
 export async function GET(request: NextRequest) {
-  const check = apiKeyCheck()
+  const { denied } = await authorize(request, 'schedules.read')
+  if (denied) return denied
+  const backend = getLyzrBackend()
+  const check = apiKeyCheck(backend)
   if (check) return check
 
   try {
@@ -42,7 +45,7 @@ export async function GET(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}`
+        url = `${backend.schedulerBaseUrl}/schedules/${scheduleId}`
         break
       }
 
@@ -51,7 +54,7 @@ export async function GET(request: NextRequest) {
         if (!agentId) {
           return NextResponse.json({ success: false, error: 'agentId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/by-agent/${agentId}`
+        url = `${backend.schedulerBaseUrl}/schedules/by-agent/${agentId}`
         break
       }
 
@@ -64,7 +67,7 @@ export async function GET(request: NextRequest) {
         if (searchParams.get('skip')) logsQuery.set('skip', searchParams.get('skip')!)
         if (searchParams.get('limit')) logsQuery.set('limit', searchParams.get('limit')!)
         const logsQs = logsQuery.toString() ? `?${logsQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/logs${logsQs}`
+        url = `${backend.schedulerBaseUrl}/schedules/${scheduleId}/logs${logsQs}`
         break
       }
 
@@ -78,7 +81,7 @@ export async function GET(request: NextRequest) {
         if (searchParams.get('skip')) recentQuery.set('skip', searchParams.get('skip')!)
         if (searchParams.get('limit')) recentQuery.set('limit', searchParams.get('limit')!)
         const recentQs = recentQuery.toString() ? `?${recentQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/executions/recent${recentQs}`
+        url = `${backend.schedulerBaseUrl}/schedules/executions/recent${recentQs}`
         break
       }
 
@@ -86,17 +89,17 @@ export async function GET(request: NextRequest) {
       case 'list':
       default: {
         const listQuery = new URLSearchParams()
-        listQuery.set('user_id', LYZR_API_KEY)
+        listQuery.set('user_id', backend.apiKey)
         if (agentId) listQuery.set('agent_id', agentId)
         if (searchParams.get('is_active')) listQuery.set('is_active', searchParams.get('is_active')!)
         if (searchParams.get('skip')) listQuery.set('skip', searchParams.get('skip')!)
         if (searchParams.get('limit')) listQuery.set('limit', searchParams.get('limit')!)
-        url = `${SCHEDULER_BASE_URL}/schedules/?${listQuery}`
+        url = `${backend.schedulerBaseUrl}/schedules/?${listQuery}`
         break
       }
     }
 
-    const response = await fetch(url, { headers: getHeaders() })
+    const response = await backend.fetch(url, { headers: getHeaders(backend) })
 
     if (!response.ok) {
       const errorText = await response.text()
@@ -117,10 +120,13 @@ export async function GET(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// POST — create | pause | resume | trigger
+// POST — create | pause | resume | trigger  (needs schedules.manage)
 // ---------------------------------------------------------------------------
 export async function POST(request: NextRequest) {
-  const check = apiKeyCheck()
+  const { denied } = await authorize(request, 'schedules.manage')
+  if (denied) return denied
+  const backend = getLyzrBackend()
+  const check = apiKeyCheck(backend)
   if (check) return check
 
   try {
@@ -136,7 +142,7 @@ export async function POST(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/trigger`
+        url = `${backend.schedulerBaseUrl}/schedules/${scheduleId}/trigger`
         break
       }
 
@@ -145,7 +151,7 @@ export async function POST(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/pause`
+        url = `${backend.schedulerBaseUrl}/schedules/${scheduleId}/pause`
         break
       }
 
@@ -154,7 +160,7 @@ export async function POST(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/resume`
+        url = `${backend.schedulerBaseUrl}/schedules/${scheduleId}/resume`
         break
       }
 
@@ -167,13 +173,13 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           )
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/`
+        url = `${backend.schedulerBaseUrl}/schedules/`
         fetchBody = JSON.stringify({
           agent_id: params.agent_id,
           cron_expression: params.cron_expression,
           message: params.message,
           timezone: params.timezone || 'UTC',
-          user_id: LYZR_API_KEY,
+          user_id: backend.apiKey,
           max_retries: params.max_retries ?? 3,
           retry_delay: params.retry_delay ?? 300,
         })
@@ -181,9 +187,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const response = await fetch(url, {
+    const response = await backend.fetch(url, {
       method: 'POST',
-      headers: getHeaders(),
+      headers: getHeaders(backend),
       ...(fetchBody && { body: fetchBody }),
     })
 
@@ -218,10 +224,13 @@ export async function POST(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// DELETE — delete schedule  (upstream returns 204 No Content)
+// DELETE — delete schedule  (upstream returns 204 No Content; needs schedules.manage)
 // ---------------------------------------------------------------------------
 export async function DELETE(request: NextRequest) {
-  const check = apiKeyCheck()
+  const { denied } = await authorize(request, 'schedules.manage')
+  if (denied) return denied
+  const backend = getLyzrBackend()
+  const check = apiKeyCheck(backend)
   if (check) return check
 
   try {
@@ -232,9 +241,9 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
     }
 
-    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
+    const response = await backend.fetch(`${backend.schedulerBaseUrl}/schedules/${scheduleId}`, {
       method: 'DELETE',
-      headers: getHeaders(),
+      headers: getHeaders(backend),
     })
 
     // Upstream returns 204 No Content on success
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { authorize } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request)
+  if (denied) return denied
+
   try {
-    if (!LYZR_API_KEY) {
+    const backend = getLyzrBackend()
+
+    if (!backend.apiKey) {
       return NextResponse.json(
         {
           success: false,
@@ -50,10 +54,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
+    const response = await backend.fetch(backend.uploadUrl, {
       method: 'POST',
       headers: {
-        'x-api-key': LYZR_API_KEY,
+        'x-api-key': backend.apiKey,
       },
       body: uploadFormData,
     })
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadAgentRegistry, type WorkflowGraph, type WorkflowNode } from '@/lib/agentRegistry'
+import { ConfigFileError } from '@/lib/configFiles'
+import { authorize } from '@/lib/auth'
+import { validateWorkflow } from '@/lib/workflowValidation'
+import {
+  getWorkflowVersion,
+  listWorkflowVersions,
+  loadCurrentWorkflow,
+  saveWorkflowVersion,
+} from '@/lib/workflowStore'
+
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: unknown, fallback: string) {
+  const errorMsg = error instanceof Error ? error.message : 'Server error'
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof ConfigFileError ? 'Invalid agent configuration' : fallback,
+      details: errorMsg,
+    },
+    { status: 500 }
+  )
+}
+
+/** Keep only the node and edge fields the graph uses. */
+function parseGraph(body: any): WorkflowGraph | null {
+  if (!Array.isArray(body?.nodes) || !Array.isArray(body?.edges)) return null
+  const nodes: WorkflowNode[] = []
+  for (const n of body.nodes) {
+    if (typeof n?.id !== 'string' || !n.id.trim()) return null
+    nodes.push({
+      id: n.id.trim(),
+      type: String(n.type || 'Agent'),
+      label: String(n.label || n.id),
+      nodeCategory: String(n.nodeCategory || 'agent'),
+      ...(n.agent ? { agent: String(n.agent) } : {}),
+    })
+  }
+  const edges = body.edges.map((e: any) => ({ source: String(e?.source ?? ''), target: String(e?.target ?? '') }))
+  return { nodes, edges }
+}
+
+/**
+ * GET /api/workflow[?version=N]
+ *
+ * The current agent graph (or version N), every saved version, and the
+ * validation issues of the returned graph. Any signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request)
+  if (denied) return denied
+
+  try {
+    const requested = request.nextUrl.searchParams.get('version')
+    const workflow = requested === null ? await loadCurrentWorkflow() : await getWorkflowVersion(Number(requested))
+    if (!workflow) {
+      return NextResponse.json({ success: false, error: `Workflow version ${requested} not found` }, { status: 404 })
+    }
+    const [registry, versions] = await Promise.all([loadAgentRegistry(), listWorkflowVersions()])
+    return NextResponse.json({
+      success: true,
+      workflow,
+      current_version: versions[0]?.version ?? 0,
+      versions,
+      issues: validateWorkflow(workflow, registry.agents),
+    })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load workflow')
+  }
+}
+
+/**
+ * POST /api/workflow — needs workflow.edit
+ *
+ *   { nodes, edges, note? }              save the graph as a new version
+ *   { action: 'restore', version, note? } save a copy of an older version
+ *
+ * Graphs that fail validation are rejected with 422 and the issue list.
+ */
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'workflow.edit')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    let graph: WorkflowGraph | null
+    let restoredFrom: number | undefined
+    if (body?.action === 'restore') {
+      restoredFrom = Number(body.version)
+      graph = Number.isInteger(restoredFrom) ? await getWorkflowVersion(restoredFrom) : null
+      if (!graph) {
+        return NextResponse.json({ success: false, error: `Workflow version ${body.version} not found` }, { status: 404 })
+      }
+    } else {
+      graph = parseGraph(body)
+      if (!graph) {
+        return NextResponse.json({ success: false, error: 'nodes and edges arrays are required' }, { status: 400 })
+      }
+    }
+
+    const registry = await loadAgentRegistry()
+    const issues = validateWorkflow(graph, registry.agents)
+    if (issues.length > 0) {
+      return NextResponse.json({ success: false, error: 'Workflow is invalid', issues }, { status: 422 })
+    }
+
+    const note = typeof body.note === 'string' ? body.note.trim().slice(0, 500) : ''
+    const saved = await saveWorkflowVersion(
+      { nodes: graph.nodes, edges: graph.edges },
+      {
+        saved_by: user.name,
+        note: note || (restoredFrom !== undefined ? `Restored version ${restoredFrom}` : undefined),
+        restored_from: restoredFrom,
+      }
+    )
+    return NextResponse.json({ success: true, workflow: saved, issues: [] })
+  } catch (error) {
+    return errorResponse(error, 'Failed to save workflow')
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { getWorkspaceSettings, updateWorkspaceSettings, WorkspaceSettingsError } from '@/lib/workspaceSettings'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof WorkspaceSettingsError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+  const errorMsg = error instanceof Error ? error.message : 'Server error'
+  return NextResponse.json({ success: false, error: fallback, details: errorMsg }, { status: 500 })
+}
+
+/**
+ * GET /api/workspace
+ *
+ * The workspace's settings (orchestration mode). Any signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request)
+  if (denied) return denied
+
+  try {
+    return NextResponse.json({ success: true, settings: await getWorkspaceSettings() })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load workspace settings')
+  }
+}
+
+/**
+ * PATCH /api/workspace — needs workflow.edit
+ *
+ *   { orchestrationMode?: 'manager' | 'parallel' }
+ *
+ * Changes the settings for everyone in the workspace.
+ */
+export async function PATCH(request: NextRequest) {
+  const { user, denied } = await authorize(request, 'workflow.edit')
+  if (denied) return denied
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    const settings = await updateWorkspaceSettings({ orchestrationMode: body?.orchestrationMode }, user)
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    return errorResponse(error, 'Failed to save workspace settings')
+  }
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { KeyRound, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { THEME_VARS } from '@/lib/theme'
+
+interface SignInProvider {
+  id: 'local' | 'oidc'
+  label: string
+}
+
+function LoginForm() {
+  const params = useSearchParams()
+  const next = params.get('next') || '/'
+  const [providers, setProviders] = useState<SignInProvider[]>([])
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(params.get('error'))
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => {
+        // Already signed in — nothing to do here
+        if (data?.user) window.location.href = next
+        else setProviders(Array.isArray(data?.providers) ? data.providers : [])
+      })
+      .catch(() => setProviders([{ id: 'local', label: 'Email and password' }]))
+  }, [next])
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        window.location.href = next
+        return
+      }
+      setError(data.error || 'Sign-in failed')
+    } catch {
+      setError('Cannot reach the server')
+    }
+    setBusy(false)
+  }
+
+  const sso = providers.find(p => p.id === 'oidc')
+
+  return (
+    <div className="w-full max-w-sm rounded-lg border border-border bg-card p-6 space-y-5">
+      <div className="text-center">
+        <h1 className="font-serif text-xl font-bold tracking-wide" style={{ color: 'hsl(36 60% 31%)' }}>
+          MedRep Intelligence Hub
+        </h1>
+        <p className="text-xs text-muted-foreground mt-1">Sign in to continue</p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-700/30 bg-red-900/20 px-3 py-2 text-xs text-red-300">{error}</div>
+      )}
+
+      <form onSubmit={submit} className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="email" className="text-xs">Email</Label>
+          <Input id="email" type="email" autoComplete="username" value={email} onChange={e => setEmail(e.target.value)} className="bg-input border-border" required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="password" className="text-xs">Password</Label>
+          <Input id="password" type="password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} className="bg-input border-border" required />
+        </div>
+        <Button type="submit" className="w-full" disabled={busy || !email || !password}>
+          {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />} Sign in
+        </Button>
+      </form>
+
+      {sso && (
+        <>
+          <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-muted-foreground">
+            <div className="h-px flex-1 bg-border" /> or <div className="h-px flex-1 bg-border" />
+          </div>
+          <Button variant="outline" className="w-full" asChild>
+            <a href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}>
+              <KeyRound className="h-4 w-4 mr-2" /> {sso.label}
+            </a>
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <div style={THEME_VARS} className="min-h-screen bg-background text-foreground flex items-center justify-center p-4 font-sans">
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  )
+}
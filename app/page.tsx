@@ -1,9 +1,10 @@
 'use client'
 
-import React, { useState, useRef, useEffect, useCallback } from 'react'
-import { callAIAgent, extractText } from '@/lib/aiAgent'
-import { uploadAndTrainDocument, getDocuments, deleteDocuments } from '@/lib/ragKnowledgeBase'
-import type { RAGDocument } from '@/lib/ragKnowledgeBase'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { streamAIAgent, extractText } from '@/lib/aiAgent'
+import type { SubAgentProgress, AgentTrace, AdverseEventSignal } from '@/lib/aiAgent'
+import { getDocuments, deleteDocuments, SUPPORTED_EXTENSIONS, SUPPORTED_FORMATS_LABEL } from '@/lib/ragKnowledgeBase'
+import type { DuplicateChoice, RAGDocument } from '@/lib/ragKnowledgeBase'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -22,53 +23,31 @@ import {
   FiSearch, FiCheck, FiAlertTriangle, FiMenu,
   FiFile, FiMaximize2
 } from 'react-icons/fi'
-
-// ========================
-// CONSTANTS
-// ========================
-const MANAGER_AGENT_ID = '69a00df43dc260b752bd74d9'
-const SALES_AGENT_ID = '69a00dc76fed800e9b9b52a9'
-const HCP_AGENT_ID = '69a00dc7d43403a91b332805'
-const COMPLIANCE_AGENT_ID = '69a00ddcfddac4fa01fac4e7'
-const SALES_RAG_ID = '69a00d98f572c99c0ffb7691'
-const HCP_RAG_ID = '69a00d9800c2d274880efd81'
-
-const AGENTS_INFO = [
-  { id: MANAGER_AGENT_ID, name: 'Query Orchestrator Manager', purpose: 'Routes queries and synthesizes responses' },
-  { id: SALES_AGENT_ID, name: 'Sales & Territory Agent', purpose: 'Sales performance and regional data' },
-  { id: HCP_AGENT_ID, name: 'HCP & Doctor Profile Agent', purpose: 'Doctor profiles and specialties' },
-  { id: COMPLIANCE_AGENT_ID, name: 'Compliance Guard Agent', purpose: 'Ensures regulatory compliance' },
-]
-
-// ========================
-// THEME
-// ========================
-const THEME_VARS = {
-  '--background': '20 30% 4%',
-  '--foreground': '35 20% 90%',
-  '--card': '20 25% 7%',
-  '--card-foreground': '35 20% 90%',
-  '--popover': '20 25% 10%',
-  '--popover-foreground': '35 20% 90%',
-  '--primary': '35 20% 90%',
-  '--primary-foreground': '20 30% 8%',
-  '--secondary': '20 20% 12%',
-  '--secondary-foreground': '35 20% 90%',
-  '--accent': '36 60% 31%',
-  '--accent-foreground': '35 20% 95%',
-  '--destructive': '0 63% 31%',
-  '--muted': '20 18% 15%',
-  '--muted-foreground': '35 15% 55%',
-  '--border': '20 18% 16%',
-  '--input': '20 20% 20%',
-  '--ring': '36 60% 31%',
-  '--sidebar-background': '20 28% 6%',
-  '--sidebar-foreground': '35 20% 90%',
-  '--sidebar-border': '20 18% 12%',
-  '--sidebar-primary': '36 60% 31%',
-  '--sidebar-accent': '20 18% 12%',
-  '--radius': '0.5rem',
-} as React.CSSProperties
+import { AlertOctagon, ChevronLeft, ChevronRight, ClipboardCheck, LogOut, Square, Stethoscope, Workflow } from 'lucide-react'
+import { AgentTraceTimeline } from '@/components/AgentTraceTimeline'
+import { runParallelOrchestration } from '@/lib/parallelOrchestrator'
+import type { OrchestrationMode } from '@/lib/parallelOrchestrator'
+import { useWorkspaceSettings } from '@/hooks/useWorkspaceSettings'
+import { formatValidationErrors } from '@/lib/agentSchemas'
+import { useAgentRegistry } from '@/hooks/useAgentRegistry'
+import { useSession } from '@/hooks/useSession'
+import { useAuditLog } from '@/hooks/useAuditLog'
+import type { AuditEntry as StoredAuditEntry, AuditAeReport, AuditReview } from '@/hooks/useAuditLog'
+import { roleLabel, type Permission } from '@/lib/roles'
+import { WorkflowView } from '@/components/WorkflowView'
+import { ReviewQueueView } from '@/components/ReviewQueueView'
+import { ReviewDiff } from '@/components/ReviewDiff'
+import { AdverseEventIntake } from '@/components/AdverseEventIntake'
+import { MedicalInfoRequestDialog } from '@/components/MedicalInfoRequestDialog'
+import { MirQueueView } from '@/components/MirQueueView'
+import { useReviewOutcomes } from '@/hooks/useReviewOutcomes'
+import { useUploadQueue, type UploadItem } from '@/hooks/useUploadQueue'
+import { UploadQueueList } from '@/components/UploadQueueList'
+import { SalesDataCard } from '@/components/SalesDataCard'
+import { DocumentVersionHistory } from '@/components/DocumentVersionHistory'
+import { SalesFigures } from '@/components/SalesFigures'
+import type { SalesComputation } from '@/hooks/useSalesData'
+import { THEME_VARS } from '@/lib/theme'
 
 // ========================
 // TYPES
@@ -88,6 +67,19 @@ interface ChatMessage {
   content: string
   timestamp: string
   parsedResponse?: ParsedResponse
+  trace?: AgentTrace
+  /** Groups the agent tasks of this answer in the audit log and review queue */
+  queryId?: string
+  /** Possible adverse events in the question or answer, until reported */
+  adverseEvents?: AdverseEventSignal[]
+  aeReportId?: string
+  /** The question this answers, verbatim, for a medical information request */
+  question?: string
+  mirId?: string
+  /** HCPs the agents profiled for this answer, offered when opening a medical information request */
+  hcpProfiles?: string[]
+  /** Exact figures from the structured sales data, with their SQL */
+  salesComputations?: SalesComputation[]
 }
 
 interface AuditEntry {
@@ -101,8 +93,22 @@ interface AuditEntry {
   fullResponse: string
   sourcesConsulted: string[]
   flags: string[]
+  trace?: AgentTrace
+  orchestrationMode?: OrchestrationMode
+  /** Draft and reviewed answer; only sent to reviewer roles */
+  review?: AuditReview
+  aeDetected?: boolean
+  aeReports?: AuditAeReport[]
 }
 
+interface KBState {
+  docs: RAGDocument[]
+  loading: boolean
+  statusMsg: string
+}
+
+const EMPTY_KB_STATE: KBState = { docs: [], loading: false, statusMsg: '' }
+
 // ========================
 // HELPERS
 // ========================
@@ -139,7 +145,7 @@ function deepExtractResponse(apiResult: any): {
   const defaults = {
     answer: '',
     sources_consulted: [] as string[],
-    compliance_status: 'compliant',
+    compliance_status: 'unverified',
     domains_accessed: [] as string[],
     confidence: 'medium',
     flags: [] as string[],
@@ -216,13 +222,44 @@ function deepExtractResponse(apiResult: any): {
   return {
     answer: data.answer || data.text || data.response || data.content || data.message || '',
     sources_consulted: safeArray(data.sources_consulted),
-    compliance_status: (data.compliance_status || 'compliant').toLowerCase(),
+    compliance_status: (data.compliance_status || 'unverified').toLowerCase(),
     domains_accessed: safeArray(data.domains_accessed),
     confidence: (data.confidence || 'medium').toLowerCase(),
     flags: safeArray(data.flags),
   }
 }
 
+/**
+ * Read the manager-shaped fields of an agent result. A schema-validated
+ * payload from the server is used as-is; when validation failed the answer
+ * text is still recovered, but the compliance status is 'unverified' and the
+ * validation errors are added to the flags.
+ */
+function extractAgentResponse(apiResult: any): ReturnType<typeof deepExtractResponse> {
+  const validation = apiResult?.validation
+  if (validation?.valid && validation.schema === 'query_orchestrator_manager') {
+    const data = validation.data
+    return {
+      answer: data.answer,
+      sources_consulted: data.sources_consulted,
+      compliance_status: data.compliance_status,
+      domains_accessed: data.domains_accessed,
+      confidence: data.confidence,
+      flags: data.flags,
+    }
+  }
+
+  const extracted = deepExtractResponse(apiResult)
+  if (validation && !validation.valid) {
+    return {
+      ...extracted,
+      compliance_status: 'unverified',
+      flags: [...extracted.flags, `Response failed schema validation: ${formatValidationErrors(validation.errors)}`],
+    }
+  }
+  return extracted
+}
+
 function formatTimestamp(ts: string): string {
   try {
     const d = new Date(ts)
@@ -241,10 +278,36 @@ function formatFullTimestamp(ts: string): string {
   }
 }
 
+/** Up to two initials for the header avatar */
+function initials(name?: string): string {
+  const parts = (name || '').split(/[\s@.]+/).filter(Boolean)
+  return parts.slice(0, 2).map(p => p[0].toUpperCase()).join('') || '?'
+}
+
 function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15)
 }
 
+function toAuditEntry(e: StoredAuditEntry): AuditEntry {
+  return {
+    id: e.id,
+    timestamp: e.timestamp,
+    query: e.query,
+    responseStatus: e.status,
+    domainsAccessed: e.domains_accessed,
+    confidence: e.confidence,
+    sessionId: e.session_id,
+    fullResponse: e.response,
+    sourcesConsulted: e.sources_consulted,
+    flags: e.flags,
+    trace: e.trace,
+    orchestrationMode: e.orchestration_mode,
+    review: e.review,
+    aeDetected: [e, ...e.steps].some(r => r.adverse_events?.length),
+    aeReports: e.ae_reports,
+  }
+}
+
 // ========================
 // MARKDOWN RENDERER
 // ========================
@@ -503,6 +566,14 @@ const SAMPLE_MESSAGES: ChatMessage[] = [
   },
 ]
 
+const AUDIT_PAGE_SIZE = 50
+
+const CHAIN_BREAK_LABELS: Record<string, string> = {
+  hash_mismatch: 'its content was changed after it was written',
+  prev_hash_mismatch: 'the record before it was changed, removed or reordered',
+  sequence_gap: 'its sequence number is out of order',
+}
+
 const SAMPLE_AUDIT: AuditEntry[] = [
   {
     id: 'audit-1',
@@ -555,15 +626,37 @@ const SUGGESTED_QUERIES = [
 // ========================
 // NAV ITEMS
 // ========================
-type ViewType = 'chat' | 'history' | 'audit' | 'kb'
-
-const NAV_ITEMS: { key: ViewType; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+type ViewType = 'chat' | 'history' | 'audit' | 'review' | 'mir' | 'kb' | 'workflow'
+
+const NAV_ITEMS: {
+  key: ViewType
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+  /** Shown only to roles with this permission */
+  permission?: Permission
+}[] = [
   { key: 'chat', label: 'Chat', icon: FiMessageSquare },
   { key: 'history', label: 'Query History', icon: FiClock },
-  { key: 'audit', label: 'Audit Log', icon: FiShield },
+  { key: 'audit', label: 'Audit Log', icon: FiShield, permission: 'audit.read' },
+  { key: 'review', label: 'Review Queue', icon: ClipboardCheck, permission: 'reviews.decide' },
+  { key: 'mir', label: 'Medical Info', icon: Stethoscope, permission: 'mir.create' },
   { key: 'kb', label: 'Knowledge Base', icon: FiDatabase },
+  { key: 'workflow', label: 'Workflow', icon: Workflow },
 ]
 
+const REVIEW_OUTCOME_LABELS: Record<string, string> = {
+  pending: 'Awaiting compliance review',
+  approved: 'Approved by compliance',
+  rejected: 'Rejected by compliance',
+  released: 'Edited and released by compliance',
+}
+
+/** Whether the Compliance Guard marked an answer as off-label */
+function isOffLabel(pr?: ParsedResponse): boolean {
+  if (!pr || !['flagged', 'redacted'].includes(String(pr.compliance_status).toLowerCase())) return false
+  return (pr.flags || []).some(flag => /OFF_LABEL|off[- ]label/i.test(flag))
+}
+
 // ========================
 // ERROR BOUNDARY
 // ========================
@@ -625,6 +718,20 @@ function ComplianceBadge({ status }: { status: string }) {
       </Badge>
     )
   }
+  if (s === 'unverified') {
+    return (
+      <Badge className="bg-red-900/50 text-red-300 border-red-700/50 hover:bg-red-900/50 text-xs" title="The compliance status could not be verified">
+        <FiAlertTriangle className="mr-1 h-3 w-3" /> Unverified
+      </Badge>
+    )
+  }
+  if (s === 'cancelled') {
+    return (
+      <Badge variant="outline" className="text-xs text-muted-foreground">
+        <Square className="mr-1 h-2.5 w-2.5" /> Cancelled
+      </Badge>
+    )
+  }
   return <Badge variant="outline" className="text-xs">{status || 'Unknown'}</Badge>
 }
 
@@ -651,7 +758,13 @@ function ConfidenceIndicator({ level }: { level: string }) {
 // ========================
 // LOADING SKELETON
 // ========================
-function AgentLoadingSkeleton() {
+function AgentLoadingSkeleton({ status, progress }: { status?: string | null; progress?: SubAgentProgress[] }) {
+  const steps = Array.isArray(progress) ? progress : []
+  const label = steps.length > 0
+    ? 'Consulting knowledge domains...'
+    : status === 'processing'
+      ? 'Orchestrating agents...'
+      : 'Retrieving from knowledge sources...'
   return (
     <div className="flex justify-start mb-4">
       <div className="max-w-[80%] w-full">
@@ -659,8 +772,19 @@ function AgentLoadingSkeleton() {
           <CardContent className="p-4 space-y-3">
             <div className="flex items-center gap-2 mb-2">
               <div className="h-2 w-2 rounded-full bg-accent animate-pulse" />
-              <span className="text-xs text-muted-foreground animate-pulse">Retrieving from knowledge sources...</span>
+              <span className="text-xs text-muted-foreground animate-pulse">{label}</span>
             </div>
+            {steps.length > 0 && (
+              <div className="space-y-1.5 pb-1">
+                {steps.map((step) => (
+                  <div key={step.agent_id} className="flex items-center gap-2">
+                    <div className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${step.status === 'completed' ? 'bg-green-400' : step.status === 'running' ? 'bg-amber-400 animate-pulse' : step.status === 'failed' ? 'bg-red-400' : 'bg-muted-foreground/40'}`} />
+                    <span className="text-[11px] text-muted-foreground truncate">{step.agent_name || step.agent_id}</span>
+                    <span className="text-[10px] text-muted-foreground/70 capitalize ml-auto">{step.status}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             <Skeleton className="h-4 w-full" />
             <Skeleton className="h-4 w-5/6" />
             <Skeleton className="h-4 w-4/6" />
@@ -681,25 +805,40 @@ function AgentLoadingSkeleton() {
 // ========================
 function KBSection({
   title,
+  description,
   ragId,
-  docs,
-  setDocs,
-  loading,
-  setLoading,
-  statusMsg,
-  setStatusMsg,
+  state,
+  onStateChange,
+  uploads,
+  onUpload,
+  onRetryUpload,
+  onResolveDuplicate,
+  onClearUploads,
+  canUpload,
+  canDelete,
 }: {
   title: string
+  description?: string
   ragId: string
-  docs: RAGDocument[]
-  setDocs: React.Dispatch<React.SetStateAction<RAGDocument[]>>
-  loading: boolean
-  setLoading: React.Dispatch<React.SetStateAction<boolean>>
-  statusMsg: string
-  setStatusMsg: React.Dispatch<React.SetStateAction<string>>
+  state?: KBState
+  onStateChange: (ragId: string, patch: Partial<KBState>) => void
+  /** This knowledge base's items in the page's upload queue */
+  uploads: UploadItem[]
+  onUpload: (files: File[]) => void
+  onRetryUpload: (id: string) => void
+  onResolveDuplicate: (id: string, choice: DuplicateChoice | 'skip') => void
+  onClearUploads: () => void
+  canUpload: boolean
+  canDelete: boolean
 }) {
+  const { docs, loading, statusMsg } = { ...EMPTY_KB_STATE, ...state }
+  const setDocs = useCallback((docs: RAGDocument[]) => onStateChange(ragId, { docs }), [ragId, onStateChange])
+  const setLoading = useCallback((loading: boolean) => onStateChange(ragId, { loading }), [ragId, onStateChange])
+  const setStatusMsg = useCallback((statusMsg: string) => onStateChange(ragId, { statusMsg }), [ragId, onStateChange])
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [dragOver, setDragOver] = useState(false)
+  // File whose version history is open
+  const [historyFile, setHistoryFile] = useState<string | null>(null)
 
   const loadDocs = useCallback(async () => {
     setLoading(true)
@@ -721,36 +860,13 @@ function KBSection({
     loadDocs()
   }, [loadDocs])
 
-  const handleUpload = async (file: File) => {
-    // Validate file size (max 50MB)
-    if (file.size > 50 * 1024 * 1024) {
-      setStatusMsg('File too large. Maximum size is 50MB.')
-      return
-    }
-
-    // Validate file extension
-    const ext = file.name.split('.').pop()?.toLowerCase()
-    if (!ext || !['pdf', 'docx', 'txt'].includes(ext)) {
-      setStatusMsg(`Unsupported file type: .${ext || 'unknown'}. Supported: PDF, DOCX, TXT`)
-      return
-    }
-
-    setLoading(true)
-    setStatusMsg(`Uploading "${file.name}"...`)
-    try {
-      const result = await uploadAndTrainDocument(ragId, file)
-      if (result.success) {
-        setStatusMsg(`"${file.name}" uploaded and indexed successfully`)
-        await loadDocs()
-      } else {
-        setStatusMsg(result.error || 'Upload failed. Please try again.')
-      }
-    } catch (err) {
-      const detail = err instanceof Error ? err.message : 'Unknown error'
-      setStatusMsg(`Error uploading file: ${detail}`)
-    }
-    setLoading(false)
-  }
+  // Refresh the list as uploads finish
+  const doneCount = uploads.filter(u => u.status === 'done').length
+  const seenDone = useRef(doneCount)
+  useEffect(() => {
+    if (doneCount > seenDone.current) loadDocs()
+    seenDone.current = doneCount
+  }, [doneCount, loadDocs])
 
   const handleDelete = async (doc: RAGDocument) => {
     setLoading(true)
@@ -774,8 +890,8 @@ function KBSection({
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setDragOver(false)
-    const file = e.dataTransfer.files?.[0]
-    if (file) handleUpload(file)
+    const files = Array.from(e.dataTransfer.files ?? [])
+    if (files.length > 0) onUpload(files)
   }
 
   return (
@@ -785,30 +901,44 @@ function KBSection({
           <FiDatabase className="h-4 w-4 text-accent" />
           {title}
         </CardTitle>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
       </CardHeader>
       <CardContent className="space-y-4">
-        <div
-          className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors cursor-pointer ${dragOver ? 'border-accent bg-accent/10' : 'border-border hover:border-muted-foreground'}`}
-          onDragOver={(e) => { e.preventDefault(); setDragOver(true) }}
-          onDragLeave={() => setDragOver(false)}
-          onDrop={handleDrop}
-          onClick={() => fileInputRef.current?.click()}
-        >
-          <FiUpload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-          <p className="text-sm text-muted-foreground">Drop files here or click to upload</p>
-          <p className="text-xs text-muted-foreground mt-1">PDF, DOCX, TXT supported</p>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".pdf,.docx,.txt"
-            className="hidden"
-            onChange={(e) => {
-              const f = e.target.files?.[0]
-              if (f) handleUpload(f)
-              e.target.value = ''
-            }}
-          />
-        </div>
+        {canUpload ? (
+          <div
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors cursor-pointer ${dragOver ? 'border-accent bg-accent/10' : 'border-border hover:border-muted-foreground'}`}
+            onDragOver={(e) => { e.preventDefault(); setDragOver(true) }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FiUpload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Drop files here or click to upload several at once</p>
+            <p className="text-xs text-muted-foreground mt-1">{SUPPORTED_FORMATS_LABEL} supported</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SUPPORTED_EXTENSIONS}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? [])
+                if (files.length > 0) onUpload(files)
+                e.target.value = ''
+              }}
+            />
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Your role can view these documents but not add to them.</p>
+        )}
+
+        <UploadQueueList
+          items={uploads}
+          onRetry={onRetryUpload}
+          onResolveDuplicate={onResolveDuplicate}
+          canReplace={canDelete}
+          onClear={onClearUploads}
+        />
 
         {statusMsg && (
           <p className={`text-xs ${
@@ -835,26 +965,57 @@ function KBSection({
               <div key={doc.id || doc.fileName || idx} className="flex items-center justify-between p-2 rounded-md bg-secondary/50 border border-border">
                 <div className="flex items-center gap-2 min-w-0 flex-1">
                   <FiFile className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                  <span className="text-xs truncate">{doc.fileName}</span>
+                  <div className="min-w-0">
+                    <span className="text-xs truncate block">{doc.fileName}</span>
+                    {doc.uploadedAt && (
+                      <span className="text-[10px] text-muted-foreground truncate block">
+                        {doc.uploadedBy} · {new Date(doc.uploadedAt).toLocaleDateString()}
+                        {typeof doc.fileSize === 'number' && ` · ${(doc.fileSize / 1024).toFixed(0)} KB`}
+                        {typeof doc.documentCount === 'number' && ` · ${doc.documentCount} chunks`}
+                        {doc.tags && doc.tags.length > 0 && ` · ${doc.tags.join(', ')}`}
+                      </span>
+                    )}
+                  </div>
                   {doc.status && (
                     <Badge variant="outline" className="text-[10px] flex-shrink-0">
                       {doc.status}
                     </Badge>
                   )}
+                  {doc.version && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-[10px] flex-shrink-0"
+                      title="Version history"
+                      onClick={() => setHistoryFile(doc.fileName)}
+                    >
+                      v{doc.version}
+                    </Button>
+                  )}
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive flex-shrink-0"
-                  onClick={() => handleDelete(doc)}
-                  disabled={loading}
-                >
-                  <FiTrash2 className="h-3 w-3" />
-                </Button>
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive flex-shrink-0"
+                    onClick={() => handleDelete(doc)}
+                    disabled={loading}
+                  >
+                    <FiTrash2 className="h-3 w-3" />
+                  </Button>
+                )}
               </div>
             ))}
           </div>
         )}
+
+        <DocumentVersionHistory
+          ragId={ragId}
+          fileName={historyFile}
+          canEdit={canUpload}
+          onChanged={loadDocs}
+          onClose={() => setHistoryFile(null)}
+        />
       </CardContent>
     </Card>
   )
@@ -869,24 +1030,42 @@ export default function Page() {
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [sessionId, setSessionId] = useState(() => generateId())
+  // Agent message whose adverse events the intake form is open for
+  const [aeIntakeMessageId, setAeIntakeMessageId] = useState<string | null>(null)
+  // Off-label answer a medical information request is being opened for
+  const [mirMessageId, setMirMessageId] = useState<string | null>(null)
 
   // Navigation
   const [activeView, setActiveView] = useState<ViewType>('chat')
   const [sidebarOpen, setSidebarOpen] = useState(true)
 
   // Audit log
-  const [auditLog, setAuditLog] = useState<AuditEntry[]>([])
   const [auditSearch, setAuditSearch] = useState('')
   const [auditFilter, setAuditFilter] = useState<string>('all')
+  const [auditDomain, setAuditDomain] = useState<string>('all')
+  const [auditFrom, setAuditFrom] = useState('')
+  const [auditTo, setAuditTo] = useState('')
+  const [auditPage, setAuditPage] = useState(1)
   const [auditDetailEntry, setAuditDetailEntry] = useState<AuditEntry | null>(null)
 
-  // Knowledge base
-  const [salesDocs, setSalesDocs] = useState<RAGDocument[]>([])
-  const [hcpDocs, setHcpDocs] = useState<RAGDocument[]>([])
-  const [salesLoading, setSalesLoading] = useState(false)
-  const [hcpLoading, setHcpLoading] = useState(false)
-  const [salesStatus, setSalesStatus] = useState('')
-  const [hcpStatus, setHcpStatus] = useState('')
+  // Agent & knowledge base registry
+  const { registry, manager: managerAgent, agentNames, error: registryError, reload: reloadRegistry } = useAgentRegistry()
+  const { user, role, can, signOut } = useSession()
+  // Reviewers see pre-review drafts; everyone else only the reviewed answer
+  const canReview = can('reviews.decide')
+  const navItems = NAV_ITEMS.filter(item => !item.permission || can(item.permission))
+  // Leave a view the role can no longer open
+  useEffect(() => {
+    if (!navItems.some(item => item.key === activeView)) setActiveView('chat')
+  }, [navItems, activeView])
+
+  // Knowledge base, keyed by rag_id
+  const [kbState, setKbState] = useState<Record<string, KBState>>({})
+  const updateKbState = useCallback((ragId: string, patch: Partial<KBState>) => {
+    setKbState(prev => ({ ...prev, [ragId]: { ...EMPTY_KB_STATE, ...prev[ragId], ...patch } }))
+  }, [])
+  // Lives here rather than in KBSection so uploads keep going while another view is open
+  const uploadQueue = useUploadQueue()
 
   // History search
   const [historySearch, setHistorySearch] = useState('')
@@ -894,12 +1073,34 @@ export default function Page() {
   // Sample data toggle
   const [showSample, setShowSample] = useState(false)
 
+  // Workspace settings
+  const { settings: workspaceSettings, error: workspaceSettingsError, updateSettings: updateWorkspaceSettings } = useWorkspaceSettings()
+  const orchestrationMode = workspaceSettings.orchestrationMode
+
+  // Server-side audit log, read while the audit view is open
+  const auditFilters = {
+    q: auditSearch,
+    status: auditFilter,
+    domain: auditDomain,
+    from: auditFrom,
+    to: auditTo,
+    page: auditPage,
+    page_size: AUDIT_PAGE_SIZE,
+  }
+  const auditLog = useAuditLog(auditFilters, activeView === 'audit' && !showSample)
+  useEffect(() => {
+    setAuditPage(1)
+  }, [auditSearch, auditFilter, auditDomain, auditFrom, auditTo])
+
   // Active agent tracking
   const [activeAgentId, setActiveAgentId] = useState<string | null>(null)
+  const [streamStatus, setStreamStatus] = useState<string | null>(null)
+  const [streamProgress, setStreamProgress] = useState<SubAgentProgress[]>([])
 
   // Refs
   const chatEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   // Scroll to bottom on new messages
   useEffect(() => {
@@ -908,7 +1109,17 @@ export default function Page() {
 
   // Get current display data
   const displayMessages = showSample ? SAMPLE_MESSAGES : messages
-  const displayAudit = showSample ? SAMPLE_AUDIT : auditLog
+  // HCPs the HCP agent profiled this session, offered when opening a medical information request
+  const hcpProfiles = useMemo(() => Array.from(new Set(messages.flatMap(m => m.hcpProfiles ?? []))), [messages])
+
+  // Compliance review outcomes for this session's flagged and redacted answers
+  const { outcomes: reviewOutcomes } = useReviewOutcomes(
+    sessionId,
+    messages
+      .filter(m => m.queryId && ['flagged', 'redacted'].includes(m.parsedResponse?.compliance_status || ''))
+      .map(m => m.queryId!)
+  )
+  const displayAudit = showSample ? SAMPLE_AUDIT : auditLog.entries.map(toAuditEntry)
 
   // ========================
   // SEND MESSAGE
@@ -916,6 +1127,15 @@ export default function Page() {
   const handleSend = async (customMessage?: string) => {
     const msg = customMessage || inputValue.trim()
     if (!msg || isLoading) return
+    if (!registry || !managerAgent) {
+      setMessages(prev => [...prev, {
+        id: generateId(),
+        role: 'agent',
+        content: `Agents are not available: ${registryError || 'the agent registry is still loading'}. Please try again shortly.`,
+        timestamp: new Date().toISOString(),
+      }])
+      return
+    }
 
     const userMsg: ChatMessage = {
       id: generateId(),
@@ -927,13 +1147,39 @@ export default function Page() {
     setMessages(prev => [...prev, userMsg])
     setInputValue('')
     setIsLoading(true)
-    setActiveAgentId(MANAGER_AGENT_ID)
+    setActiveAgentId(orchestrationMode === 'manager' ? managerAgent.agent_id : null)
+    setStreamStatus(null)
+    setStreamProgress([])
+
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    const queryId = generateId()
 
     try {
-      const result = await callAIAgent(msg, MANAGER_AGENT_ID, { session_id: sessionId })
+      const agentOptions = {
+        session_id: sessionId,
+        audit: { query_id: queryId, query: msg, orchestration_mode: orchestrationMode },
+        signal: controller.signal,
+        onStatus: setStreamStatus,
+        onProgress: setStreamProgress,
+      }
+      const result = orchestrationMode === 'parallel'
+        ? await runParallelOrchestration(msg, registry, agentOptions)
+        : await streamAIAgent(msg, managerAgent.agent_id, agentOptions)
+
+      if (result.status === 'cancelled') {
+        setMessages(prev => [...prev, {
+          id: generateId(),
+          role: 'agent',
+          content: 'Request cancelled. You can ask a new question.',
+          timestamp: new Date().toISOString(),
+        }])
+        return
+      }
 
-      // Use deep extraction to handle all possible response structures
-      const extracted = deepExtractResponse(result)
+      // Validated payload when available, deep extraction otherwise
+      const extracted = extractAgentResponse(result)
 
       // Fallback: if deep extraction found nothing, try extractText utility
       let finalAnswer = extracted.answer
@@ -957,23 +1203,17 @@ export default function Page() {
           confidence: extracted.confidence,
           flags: extracted.flags,
         },
+        trace: result.trace,
+        queryId,
+        question: msg,
+        ...(result.adverse_events?.length ? { adverseEvents: result.adverse_events } : {}),
+        ...(result.sales_computations?.length ? { salesComputations: result.sales_computations } : {}),
+        ...(result.hcp_profiles?.length ? { hcpProfiles: result.hcp_profiles } : {}),
       }
 
       setMessages(prev => [...prev, agentMsg])
-
-      const auditEntry: AuditEntry = {
-        id: generateId(),
-        timestamp: new Date().toISOString(),
-        query: userMsg.content,
-        responseStatus: extracted.compliance_status,
-        domainsAccessed: extracted.domains_accessed,
-        confidence: extracted.confidence,
-        sessionId: sessionId,
-        fullResponse: extracted.answer || finalAnswer,
-        sourcesConsulted: extracted.sources_consulted,
-        flags: extracted.flags,
-      }
-      setAuditLog(prev => [...prev, auditEntry])
+      // A possible adverse event interrupts with the intake form
+      if (agentMsg.adverseEvents) setAeIntakeMessageId(agentMsg.id)
     } catch (err) {
       const errorDetail = err instanceof Error ? err.message : 'Unknown error'
       const errorMsg: ChatMessage = {
@@ -983,10 +1223,20 @@ export default function Page() {
         timestamp: new Date().toISOString(),
       }
       setMessages(prev => [...prev, errorMsg])
+    } finally {
+      abortRef.current = null
+      setIsLoading(false)
+      setActiveAgentId(null)
+      setStreamStatus(null)
+      setStreamProgress([])
     }
+  }
 
-    setIsLoading(false)
-    setActiveAgentId(null)
+  // ========================
+  // STOP (cancel in-flight query)
+  // ========================
+  const handleStop = () => {
+    abortRef.current?.abort()
   }
 
   // ========================
@@ -1011,33 +1261,22 @@ export default function Page() {
   // ========================
   // EXPORT AUDIT CSV
   // ========================
-  const exportAuditCSV = () => {
-    const rows = displayAudit.map(e => [
-      formatFullTimestamp(e.timestamp),
-      `"${e.query.replace(/"/g, '""')}"`,
-      e.responseStatus,
-      `"${(Array.isArray(e.domainsAccessed) ? e.domainsAccessed : []).join(', ')}"`,
-      e.confidence,
-      e.sessionId,
-    ])
-    const csv = 'Timestamp,Query,Status,Domains,Confidence,Session ID\n' + rows.map(r => r.join(',')).join('\n')
-    const blob = new Blob([csv], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `audit_log_${new Date().toISOString().split('T')[0]}.csv`
-    a.click()
-    URL.revokeObjectURL(url)
-  }
+  const exportAuditCSV = () => auditLog.exportCsv()
 
   // ========================
   // FILTERED AUDIT
   // ========================
-  const filteredAudit = displayAudit.filter(e => {
-    const matchSearch = !auditSearch || e.query.toLowerCase().includes(auditSearch.toLowerCase())
-    const matchFilter = auditFilter === 'all' || e.responseStatus.toLowerCase() === auditFilter
-    return matchSearch && matchFilter
-  })
+  // The server filters the real log; only the sample data is filtered here
+  const filteredAudit = showSample
+    ? displayAudit.filter(e => {
+      const matchSearch = !auditSearch || e.query.toLowerCase().includes(auditSearch.toLowerCase())
+      const matchFilter = auditFilter === 'all' || e.responseStatus.toLowerCase() === auditFilter
+      return matchSearch && matchFilter
+    })
+    : displayAudit
+  const auditTotal = showSample ? filteredAudit.length : auditLog.total
+  const auditPageCount = Math.max(1, Math.ceil(auditTotal / AUDIT_PAGE_SIZE))
+  const auditDomains = Array.from(new Set((registry?.agents ?? []).map(a => a.domain).filter(Boolean))) as string[]
 
   // ========================
   // FILTERED HISTORY
@@ -1067,7 +1306,7 @@ export default function Page() {
 
             {/* Nav items */}
             <nav className="flex-1 p-3 space-y-1">
-              {NAV_ITEMS.map(item => {
+              {navItems.map(item => {
                 const Icon = item.icon
                 const isActive = activeView === item.key
                 return (
@@ -1088,12 +1327,16 @@ export default function Page() {
             <div className="p-3 border-t border-border">
               <p className="text-[10px] uppercase text-muted-foreground tracking-widest mb-2 px-2">Agents</p>
               <div className="space-y-1.5">
-                {AGENTS_INFO.map(agent => (
-                  <div key={agent.id} className="flex items-center gap-2 px-2 py-1">
-                    <div className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${activeAgentId === agent.id ? 'bg-green-400 animate-pulse' : 'bg-muted-foreground/40'}`} />
-                    <span className="text-[11px] text-muted-foreground truncate">{agent.name}</span>
-                  </div>
-                ))}
+                {(registry?.agents ?? []).map(agent => {
+                  const isRunning = activeAgentId === agent.agent_id ||
+                    streamProgress.some(p => p.agent_id === agent.agent_id && p.status === 'running')
+                  return (
+                    <div key={agent.agent_id} className="flex items-center gap-2 px-2 py-1" title={agent.purpose}>
+                      <div className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${isRunning ? 'bg-green-400 animate-pulse' : 'bg-muted-foreground/40'}`} />
+                      <span className="text-[11px] text-muted-foreground truncate">{agent.name}</span>
+                    </div>
+                  )
+                })}
               </div>
             </div>
           </div>
@@ -1112,6 +1355,22 @@ export default function Page() {
             </div>
 
             <div className="flex items-center gap-3">
+              {/* Orchestration mode (workspace setting, changed for everyone) */}
+              <div
+                className="flex items-center gap-2"
+                title={workspaceSettingsError || (can('workflow.edit')
+                  ? 'Call sub-agents directly in parallel instead of through the manager agent, for everyone in the workspace'
+                  : 'Set for the workspace by an admin')}
+              >
+                <Label htmlFor="orchestration-toggle" className="text-xs text-muted-foreground">Parallel Agents</Label>
+                <Switch
+                  id="orchestration-toggle"
+                  checked={orchestrationMode === 'parallel'}
+                  onCheckedChange={checked => updateWorkspaceSettings({ orchestrationMode: checked ? 'parallel' : 'manager' })}
+                  disabled={isLoading || !can('workflow.edit')}
+                />
+              </div>
+
               {/* Sample data toggle */}
               <div className="flex items-center gap-2">
                 <Label htmlFor="sample-toggle" className="text-xs text-muted-foreground">Sample Data</Label>
@@ -1127,14 +1386,49 @@ export default function Page() {
                 SOC2 | ISO27001 Compliant
               </Badge>
 
-              <div className="h-8 w-8 rounded-full flex items-center justify-center text-xs font-medium" style={{ backgroundColor: 'hsl(36 60% 31%)', color: 'hsl(20 30% 8%)' }}>
-                MR
+              {/* Signed-in user */}
+              {user && (
+                <div className="hidden md:block text-right leading-tight">
+                  <p className="text-xs font-medium">{user.name}</p>
+                  <p className="text-[10px] text-muted-foreground">{roleLabel(role)}</p>
+                </div>
+              )}
+
+              <div className="h-8 w-8 rounded-full flex items-center justify-center text-xs font-medium" style={{ backgroundColor: 'hsl(36 60% 31%)', color: 'hsl(20 30% 8%)' }} title={user?.email}>
+                {initials(user?.name)}
               </div>
+
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={signOut} title="Sign out">
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </header>
 
           {/* CONTENT AREA */}
           <div className="flex-1 overflow-hidden">
+            {/* Adverse event intake, over whichever view is open */}
+            <AdverseEventIntake
+              signals={messages.find(m => m.id === aeIntakeMessageId)?.adverseEvents ?? null}
+              queryId={messages.find(m => m.id === aeIntakeMessageId)?.queryId}
+              sessionId={sessionId}
+              onFiled={report => {
+                setMessages(prev => prev.map(m => (m.id === aeIntakeMessageId ? { ...m, aeReportId: report.id } : m)))
+                setAeIntakeMessageId(null)
+              }}
+              onDefer={() => setAeIntakeMessageId(null)}
+            />
+            <MedicalInfoRequestDialog
+              question={messages.find(m => m.id === mirMessageId)?.question ?? null}
+              queryId={messages.find(m => m.id === mirMessageId)?.queryId}
+              sessionId={sessionId}
+              hcpProfiles={hcpProfiles}
+              onCreated={request => {
+                setMessages(prev => prev.map(m => (m.id === mirMessageId ? { ...m, mirId: request.id } : m)))
+                setMirMessageId(null)
+              }}
+              onClose={() => setMirMessageId(null)}
+            />
+
             {/* ==================== CHAT VIEW ==================== */}
             {activeView === 'chat' && (
               <div className="h-full flex flex-col">
@@ -1213,6 +1507,7 @@ export default function Page() {
                         }
 
                         const pr = msg.parsedResponse
+                        const outcome = msg.queryId ? reviewOutcomes[msg.queryId] : undefined
                         const hasMetadata = pr && (
                           (Array.isArray(pr.domains_accessed) && pr.domains_accessed.length > 0) ||
                           (Array.isArray(pr.sources_consulted) && pr.sources_consulted.length > 0) ||
@@ -1241,11 +1536,55 @@ export default function Page() {
                                     {pr && <ComplianceBadge status={pr.compliance_status} />}
                                   </div>
 
+                                  {/* Compliance review outcome */}
+                                  {outcome && (
+                                    <div className={`mb-3 rounded-md border px-3 py-2 text-xs ${outcome.status === 'rejected' ? 'border-red-700/30 bg-red-900/20 text-red-300' : outcome.status === 'pending' ? 'border-amber-700/30 bg-amber-900/20 text-amber-300' : 'border-emerald-700/30 bg-emerald-900/20 text-emerald-300'}`}>
+                                      <p className="font-medium">{REVIEW_OUTCOME_LABELS[outcome.status]}</p>
+                                      {outcome.reason && <p className="mt-0.5 opacity-90">{outcome.reason}</p>}
+                                    </div>
+                                  )}
+
+                                  {/* Adverse event report */}
+                                  {msg.adverseEvents && (
+                                    msg.aeReportId ? (
+                                      <div className="mb-3 rounded-md border border-emerald-700/30 bg-emerald-900/20 px-3 py-2 text-xs text-emerald-300">
+                                        Adverse event reported as {msg.aeReportId}
+                                      </div>
+                                    ) : (
+                                      <div className="mb-3 rounded-md border border-red-700/30 bg-red-900/20 px-3 py-2 text-xs text-red-300 flex items-center gap-2">
+                                        <AlertOctagon className="h-3.5 w-3.5 flex-shrink-0" />
+                                        <span className="flex-1">Possible adverse event. A report is required.</span>
+                                        <Button size="sm" variant="outline" className="h-6 px-2 text-[10px]" onClick={() => setAeIntakeMessageId(msg.id)}>
+                                          File AE report
+                                        </Button>
+                                      </div>
+                                    )
+                                  )}
+
+                                  {/* Off-label: hand the question to Medical Affairs */}
+                                  {isOffLabel(pr) && msg.question && can('mir.create') && (
+                                    msg.mirId ? (
+                                      <div className="mb-3 rounded-md border border-emerald-700/30 bg-emerald-900/20 px-3 py-2 text-xs text-emerald-300">
+                                        Medical information request {msg.mirId} opened
+                                      </div>
+                                    ) : (
+                                      <div className="mb-3 rounded-md border border-sky-700/30 bg-sky-900/20 px-3 py-2 text-xs text-sky-300 flex items-center gap-2">
+                                        <Stethoscope className="h-3.5 w-3.5 flex-shrink-0" />
+                                        <span className="flex-1">Off-label questions go to Medical Information.</span>
+                                        <Button size="sm" variant="outline" className="h-6 px-2 text-[10px]" onClick={() => setMirMessageId(msg.id)}>
+                                          Request Medical Information
+                                        </Button>
+                                      </div>
+                                    )
+                                  )}
+
                                   {/* Answer content */}
-                                  <div className="mb-4">
-                                    {renderMarkdown(pr?.answer || msg.content)}
+                                  <div className={`mb-4 ${outcome?.status === 'rejected' ? 'opacity-50 line-through' : ''}`}>
+                                    {renderMarkdown(outcome?.released_answer || pr?.answer || msg.content)}
                                   </div>
 
+                                  {msg.salesComputations && <SalesFigures computations={msg.salesComputations} />}
+
                                   {/* Upload prompt when no documents found */}
                                   {isNoDocsResponse && (
                                     <div className="mb-4 p-3 rounded-lg border border-amber-700/30" style={{ backgroundColor: 'hsl(36 60% 31% / 0.08)' }}>
@@ -1256,7 +1595,7 @@ export default function Page() {
                                             Knowledge Base documents needed
                                           </p>
                                           <p className="text-xs text-muted-foreground leading-relaxed">
-                                            Upload relevant PDF, DOCX, or TXT files to the Knowledge Base so the agent can answer from your actual data. Documents with tables, charts, and structured data are supported.
+                                            Upload relevant documents, spreadsheets or slide decks to the Knowledge Base so the agent can answer from your actual data. Documents with tables, charts, and structured data are supported.
                                           </p>
                                           <Button
                                             variant="outline"
@@ -1317,6 +1656,16 @@ export default function Page() {
                                       )}
                                     </div>
                                   )}
+
+                                  {/* Execution trace */}
+                                  {msg.trace && (
+                                    <AgentTraceTimeline
+                                      trace={msg.trace}
+                                      agentNames={agentNames}
+                                      reviewedOnly={!canReview}
+                                      className="pt-3 mt-3 border-t border-border"
+                                    />
+                                  )}
                                 </CardContent>
                               </Card>
                               <p className="text-[10px] text-muted-foreground mt-1">{formatTimestamp(msg.timestamp)}</p>
@@ -1325,7 +1674,7 @@ export default function Page() {
                         )
                       })}
 
-                      {isLoading && <AgentLoadingSkeleton />}
+                      {isLoading && <AgentLoadingSkeleton status={streamStatus} progress={streamProgress} />}
                       <div ref={chatEndRef} />
                     </div>
                   )}
@@ -1356,15 +1705,27 @@ export default function Page() {
                           className="min-h-[44px] max-h-32 resize-none pr-12 bg-input border-border text-sm"
                           rows={1}
                         />
-                        <Button
-                          size="sm"
-                          onClick={() => handleSend()}
-                          disabled={!inputValue.trim() || isLoading || showSample}
-                          className="absolute right-2 bottom-2 h-7 w-7 p-0"
-                          style={{ backgroundColor: 'hsl(36 60% 31%)', color: 'hsl(20 30% 8%)' }}
-                        >
-                          <FiSend className="h-3.5 w-3.5" />
-                        </Button>
+                        {isLoading ? (
+                          <Button
+                            size="sm"
+                            onClick={handleStop}
+                            className="absolute right-2 bottom-2 h-7 w-7 p-0"
+                            style={{ backgroundColor: 'hsl(36 60% 31%)', color: 'hsl(20 30% 8%)' }}
+                            title="Stop"
+                          >
+                            <Square className="h-3 w-3 fill-current" />
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => handleSend()}
+                            disabled={!inputValue.trim() || showSample}
+                            className="absolute right-2 bottom-2 h-7 w-7 p-0"
+                            style={{ backgroundColor: 'hsl(36 60% 31%)', color: 'hsl(20 30% 8%)' }}
+                          >
+                            <FiSend className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                     <p className="text-[10px] text-muted-foreground mt-2 text-center">
@@ -1382,76 +1743,7 @@ export default function Page() {
                   <h2 className="font-serif text-lg font-semibold tracking-wide" style={{ color: 'hsl(36 60% 31%)' }}>
                     Query History
                   </h2>
-                  <div className="flex items-center gap-2">
-                    <div className="relative">
-                      <FiSearch className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
-                      <Input
-                        placeholder="Search queries..."
-                        value={historySearch}
-                        onChange={(e) => setHistorySearch(e.target.value)}
-                        className="h-8 pl-8 text-xs w-48 bg-input border-border"
-                      />
-                    </div>
-                  </div>
-                </div>
-
-                <ScrollArea className="flex-1">
-                  {filteredHistory.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-64 text-center">
-                      <FiClock className="h-10 w-10 text-muted-foreground/30 mb-3" />
-                      <p className="text-sm text-muted-foreground">
-                        {showSample ? 'No matching queries' : 'No queries yet. Start a conversation to see history here.'}
-                      </p>
-                    </div>
-                  ) : (
-                    <div className="space-y-2 max-w-2xl">
-                      <p className="text-xs text-muted-foreground mb-2">Session: {sessionId.substring(0, 8)}...</p>
-                      {filteredHistory.map((userMsg) => {
-                        const responseMsg = displayMessages.find(
-                          m => m.role === 'agent' && displayMessages.indexOf(m) === displayMessages.indexOf(userMsg) + 1
-                        )
-                        const pr = responseMsg?.parsedResponse
-                        return (
-                          <Card
-                            key={userMsg.id}
-                            className="bg-card border-border hover:border-accent/30 transition-colors cursor-pointer"
-                            onClick={() => setActiveView('chat')}
-                          >
-                            <CardContent className="p-3">
-                              <div className="flex items-start justify-between gap-3">
-                                <div className="min-w-0 flex-1">
-                                  <p className="text-sm font-medium truncate">{userMsg.content}</p>
-                                  <p className="text-[10px] text-muted-foreground mt-1">{formatFullTimestamp(userMsg.timestamp)}</p>
-                                </div>
-                                <div className="flex flex-col items-end gap-1 flex-shrink-0">
-                                  {pr && <ComplianceBadge status={pr.compliance_status} />}
-                                </div>
-                              </div>
-                              {pr && Array.isArray(pr.domains_accessed) && pr.domains_accessed.length > 0 && (
-                                <div className="flex flex-wrap gap-1 mt-2">
-                                  {pr.domains_accessed.map((d, i) => (
-                                    <Badge key={i} variant="outline" className="text-[10px] px-1.5 py-0">{d}</Badge>
-                                  ))}
-                                </div>
-                              )}
-                            </CardContent>
-                          </Card>
-                        )
-                      })}
-                    </div>
-                  )}
-                </ScrollArea>
-              </div>
-            )}
-
-            {/* ==================== AUDIT LOG VIEW ==================== */}
-            {activeView === 'audit' && (
-              <div className="h-full flex flex-col p-4">
-                <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
-                  <h2 className="font-serif text-lg font-semibold tracking-wide" style={{ color: 'hsl(36 60% 31%)' }}>
-                    Audit Log
-                  </h2>
-                  <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 flex-wrap">
                     <div className="relative">
                       <FiSearch className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
                       <Input
@@ -1461,6 +1753,30 @@ export default function Page() {
                         className="h-8 pl-8 text-xs w-40 bg-input border-border"
                       />
                     </div>
+                    <Input
+                      type="date"
+                      aria-label="From date"
+                      value={auditFrom}
+                      onChange={(e) => setAuditFrom(e.target.value)}
+                      className="h-8 text-xs w-36 bg-input border-border"
+                    />
+                    <Input
+                      type="date"
+                      aria-label="To date"
+                      value={auditTo}
+                      onChange={(e) => setAuditTo(e.target.value)}
+                      className="h-8 text-xs w-36 bg-input border-border"
+                    />
+                    <select
+                      value={auditDomain}
+                      onChange={(e) => setAuditDomain(e.target.value)}
+                      className="h-8 rounded-md border border-border bg-input text-xs px-2 text-foreground"
+                    >
+                      <option value="all">All Domains</option>
+                      {auditDomains.map(d => (
+                        <option key={d} value={d}>{d}</option>
+                      ))}
+                    </select>
                     <select
                       value={auditFilter}
                       onChange={(e) => setAuditFilter(e.target.value)}
@@ -1470,19 +1786,63 @@ export default function Page() {
                       <option value="compliant">Compliant</option>
                       <option value="redacted">Redacted</option>
                       <option value="flagged">Flagged</option>
+                      <option value="unverified">Unverified</option>
+                      <option value="cancelled">Cancelled</option>
+                      <option value="failed">Failed</option>
                     </select>
-                    <Button variant="outline" size="sm" onClick={exportAuditCSV} className="h-8 text-xs" disabled={filteredAudit.length === 0}>
-                      <FiDownload className="h-3 w-3 mr-1" /> Export CSV
+                    <Button variant="outline" size="sm" onClick={() => auditLog.reload()} className="h-8 text-xs" disabled={showSample || auditLog.loading}>
+                      <FiRefreshCw className={`h-3 w-3 ${auditLog.loading ? 'animate-spin' : ''}`} />
                     </Button>
+                    <Button variant="outline" size="sm" onClick={() => auditLog.verifyChain()} className="h-8 text-xs" disabled={showSample || auditLog.verifying}>
+                      <FiShield className="h-3 w-3 mr-1" /> {auditLog.verifying ? 'Verifying...' : 'Verify Chain'}
+                    </Button>
+                    {can('audit.export') && (
+                      <Button variant="outline" size="sm" onClick={exportAuditCSV} className="h-8 text-xs" disabled={showSample || auditTotal === 0}>
+                        <FiDownload className="h-3 w-3 mr-1" /> Export CSV
+                      </Button>
+                    )}
                   </div>
                 </div>
 
+                {!showSample && auditLog.error && (
+                  <div className="mb-3 rounded-md border border-red-700/30 bg-red-900/20 px-3 py-2 text-xs text-red-300">
+                    {auditLog.error}
+                  </div>
+                )}
+
+                {!showSample && auditLog.verification && (
+                  auditLog.verification.valid ? (
+                    <div className="mb-3 flex items-center gap-2 rounded-md border border-emerald-700/30 bg-emerald-900/20 px-3 py-2 text-xs text-emerald-300">
+                      <FiCheck className="h-3.5 w-3.5 shrink-0" />
+                      <span>
+                        Chain intact: {auditLog.verification.total} records
+                        {auditLog.verification.head && <> · head #{auditLog.verification.head.seq} <span className="font-mono">{auditLog.verification.head.hash.substring(0, 16)}...</span></>}
+                        {' '}· verified {formatFullTimestamp(auditLog.verification.verified_at)}
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="mb-3 flex items-start gap-2 rounded-md border border-red-700/30 bg-red-900/20 px-3 py-2 text-xs text-red-300">
+                      <FiAlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                      {auditLog.verification.first_break ? (
+                        <span>
+                          Chain broken at record #{auditLog.verification.first_break.seq}: {CHAIN_BREAK_LABELS[auditLog.verification.first_break.reason]}.
+                          {' '}Records after it cannot be trusted ({auditLog.verification.checked - 1} of {auditLog.verification.total} verified).
+                        </span>
+                      ) : (
+                        <span>The exported chain head is no longer in the log.</span>
+                      )}
+                    </div>
+                  )
+                )}
+
                 <ScrollArea className="flex-1">
                   {filteredAudit.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-64 text-center">
                       <FiShield className="h-10 w-10 text-muted-foreground/30 mb-3" />
                       <p className="text-sm text-muted-foreground">
-                        {showSample ? 'No matching entries' : 'No audit entries yet. Queries will be logged here automatically.'}
+                        {showSample || auditTotal > 0 || auditSearch || auditFilter !== 'all' || auditDomain !== 'all' || auditFrom || auditTo
+                          ? 'No matching entries'
+                          : 'No audit entries yet. Every query is recorded by the server as it completes.'}
                       </p>
                     </div>
                   ) : (
@@ -1504,7 +1864,16 @@ export default function Page() {
                             <tr key={entry.id} className="border-b border-border/50 hover:bg-secondary/30 transition-colors">
                               <td className="py-2.5 px-3 whitespace-nowrap text-muted-foreground">{formatFullTimestamp(entry.timestamp)}</td>
                               <td className="py-2.5 px-3 max-w-[200px] truncate">{entry.query}</td>
-                              <td className="py-2.5 px-3"><ComplianceBadge status={entry.responseStatus} /></td>
+                              <td className="py-2.5 px-3">
+                                <div className="flex items-center gap-1">
+                                  <ComplianceBadge status={entry.responseStatus} />
+                                  {(entry.aeDetected || entry.aeReports?.length) && (
+                                    <Badge className={`text-[9px] px-1 py-0 ${entry.aeReports?.length ? 'bg-emerald-900/30 text-emerald-300 border-emerald-700/30 hover:bg-emerald-900/30' : 'bg-red-900/30 text-red-300 border-red-700/30 hover:bg-red-900/30'}`}>
+                                      {entry.aeReports?.length ? 'AE reported' : 'AE unreported'}
+                                    </Badge>
+                                  )}
+                                </div>
+                              </td>
                               <td className="py-2.5 px-3">
                                 <div className="flex flex-wrap gap-1">
                                   {Array.isArray(entry.domainsAccessed) && entry.domainsAccessed.map((d, i) => (
@@ -1532,6 +1901,21 @@ export default function Page() {
                   )}
                 </ScrollArea>
 
+                <div className="flex items-center justify-between pt-3 text-xs text-muted-foreground">
+                  <span>{auditTotal} {auditTotal === 1 ? 'entry' : 'entries'}</span>
+                  {!showSample && auditPageCount > 1 && (
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" className="h-7 px-2" disabled={auditPage <= 1} onClick={() => setAuditPage(p => p - 1)}>
+                        <ChevronLeft className="h-3.5 w-3.5" />
+                      </Button>
+                      <span>Page {auditPage} of {auditPageCount}</span>
+                      <Button variant="ghost" size="sm" className="h-7 px-2" disabled={auditPage >= auditPageCount} onClick={() => setAuditPage(p => p + 1)}>
+                        <ChevronRight className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
                 {/* Audit Detail Dialog */}
                 <Dialog open={auditDetailEntry !== null} onOpenChange={() => setAuditDetailEntry(null)}>
                   <DialogContent className="bg-card border-border max-w-xl max-h-[80vh] overflow-y-auto">
@@ -1586,8 +1970,13 @@ export default function Page() {
                             </div>
                           </div>
                         )}
+                        {canReview && auditDetailEntry.review && <ReviewDiff review={auditDetailEntry.review} />}
+                        {auditDetailEntry.trace && (
+                          <AgentTraceTimeline trace={auditDetailEntry.trace} agentNames={agentNames} reviewedOnly={!canReview} defaultOpen />
+                        )}
                         <div className="flex items-center gap-4 text-[10px] text-muted-foreground pt-2 border-t border-border">
                           <span>Session: {auditDetailEntry.sessionId.substring(0, 12)}...</span>
+                          {auditDetailEntry.orchestrationMode && <span>Orchestration: {auditDetailEntry.orchestrationMode}</span>}
                           <span>{formatFullTimestamp(auditDetailEntry.timestamp)}</span>
                         </div>
                       </div>
@@ -1597,6 +1986,42 @@ export default function Page() {
               </div>
             )}
 
+            {/* ==================== REVIEW QUEUE VIEW ==================== */}
+            {activeView === 'review' && (
+              <div className="h-full flex flex-col p-4">
+                <div className="mb-4">
+                  <h2 className="font-serif text-lg font-semibold tracking-wide" style={{ color: 'hsl(36 60% 31%)' }}>
+                    Compliance Review Queue
+                  </h2>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Answers marked flagged or redacted. Approve, reject with a reason, or edit and release; the rep sees the outcome on their message.
+                  </p>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <ReviewQueueView role={role} canReview={canReview} />
+                </div>
+              </div>
+            )}
+
+            {/* ==================== MEDICAL INFORMATION VIEW ==================== */}
+            {activeView === 'mir' && (
+              <div className="h-full flex flex-col p-4">
+                <div className="mb-4">
+                  <h2 className="font-serif text-lg font-semibold tracking-wide" style={{ color: 'hsl(36 60% 31%)' }}>
+                    Medical Information Requests
+                  </h2>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {can('mir.manage')
+                      ? 'Off-label questions handed off by the field team. Move each request along as Medical Affairs works it.'
+                      : 'Off-label questions you handed to Medical Affairs, and where each one stands.'}
+                  </p>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <MirQueueView canManage={can('mir.manage')} />
+                </div>
+              </div>
+            )}
+
             {/* ==================== KNOWLEDGE BASE VIEW ==================== */}
             {activeView === 'kb' && (
               <div className="h-full flex flex-col p-4">
@@ -1611,30 +2036,48 @@ export default function Page() {
 
                 <ScrollArea className="flex-1">
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 max-w-4xl">
-                    <KBSection
-                      title="Sales & Regional Knowledge Base"
-                      ragId={SALES_RAG_ID}
-                      docs={salesDocs}
-                      setDocs={setSalesDocs}
-                      loading={salesLoading}
-                      setLoading={setSalesLoading}
-                      statusMsg={salesStatus}
-                      setStatusMsg={setSalesStatus}
-                    />
-                    <KBSection
-                      title="HCP & Doctor Profiles Knowledge Base"
-                      ragId={HCP_RAG_ID}
-                      docs={hcpDocs}
-                      setDocs={setHcpDocs}
-                      loading={hcpLoading}
-                      setLoading={setHcpLoading}
-                      statusMsg={hcpStatus}
-                      setStatusMsg={setHcpStatus}
-                    />
+                    {(registry?.knowledge_bases ?? []).map(kb => (
+                      <KBSection
+                        key={kb.rag_id}
+                        title={kb.label}
+                        description={kb.description}
+                        ragId={kb.rag_id}
+                        state={kbState[kb.rag_id]}
+                        onStateChange={updateKbState}
+                        uploads={uploadQueue.items.filter(u => u.ragId === kb.rag_id)}
+                        onUpload={files => uploadQueue.enqueue(kb.rag_id, files)}
+                        onRetryUpload={uploadQueue.retry}
+                        onResolveDuplicate={uploadQueue.resolveDuplicate}
+                        onClearUploads={() => uploadQueue.clearFinished(kb.rag_id)}
+                        canUpload={can('kb.upload')}
+                        canDelete={can('kb.delete')}
+                      />
+                    ))}
+                    <SalesDataCard canUpload={can('kb.upload')} />
+                    {registryError && (
+                      <p className="text-xs text-red-400">{registryError}</p>
+                    )}
                   </div>
                 </ScrollArea>
               </div>
             )}
+
+            {/* ==================== WORKFLOW VIEW ==================== */}
+            {activeView === 'workflow' && (
+              <div className="h-full flex flex-col p-4">
+                <div className="mb-4">
+                  <h2 className="font-serif text-lg font-semibold tracking-wide" style={{ color: 'hsl(36 60% 31%)' }}>
+                    Agent Workflow
+                  </h2>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    How queries flow between agents. Every path to the output must pass a compliance agent; saved changes become a new workflow version.
+                  </p>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <WorkflowView registry={registry} role={role} onSaved={reloadRegistry} />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
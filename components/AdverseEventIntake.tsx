@@ -0,0 +1,150 @@
+'use client'
+
+import * as React from 'react'
+import { AlertOctagon, Loader2 } from 'lucide-react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { AdverseEventReport, AdverseEventSignal, AeReporterType } from '@/lib/adverseEvents'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+interface AdverseEventIntakeProps {
+  /** The detections to report; the dialog is open while this is set */
+  signals: AdverseEventSignal[] | null
+  queryId?: string
+  sessionId?: string
+  onFiled: (report: AdverseEventReport) => void
+  /** Closing without filing; the message keeps its "report required" marker */
+  onDefer: () => void
+}
+
+const REPORTER_LABELS: Record<AeReporterType, string> = {
+  hcp: 'Healthcare professional',
+  patient: 'Patient',
+  caregiver: 'Caregiver or family member',
+  field_rep: 'Field rep (secondhand)',
+  other: 'Other',
+}
+
+const SELECT_CLASS = 'h-9 w-full rounded-md border border-border bg-input text-sm px-2 text-foreground'
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Structured AE intake: product, event, date and reporter type, prefilled
+ * from what the detector found. Shown over the chat when a query or answer
+ * mentions a possible adverse event.
+ */
+export function AdverseEventIntake({ signals, queryId, sessionId, onFiled, onDefer }: AdverseEventIntakeProps) {
+  const first = signals?.[0]
+  const [product, setProduct] = React.useState('')
+  const [event, setEvent] = React.useState('')
+  const [eventDate, setEventDate] = React.useState(today())
+  const [reporterType, setReporterType] = React.useState<AeReporterType>('hcp')
+  const [narrative, setNarrative] = React.useState('')
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Prefill each time the dialog opens for a new detection
+  React.useEffect(() => {
+    if (!first) return
+    setProduct(first.products[0] || '')
+    setEvent(first.symptoms.join(', '))
+    setEventDate(today())
+    setReporterType('hcp')
+    setNarrative(first.excerpt)
+    setError(null)
+  }, [first])
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/adverse-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query_id: queryId,
+          session_id: sessionId,
+          source: first?.source,
+          product,
+          event,
+          event_date: eventDate,
+          reporter_type: reporterType,
+          narrative,
+        }),
+      })
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) onFiled(data.report)
+      else setError(data.error || 'Failed to file the report')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to file the report')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={signals !== null} onOpenChange={open => { if (!open && !busy) onDefer() }}>
+      <DialogContent className="bg-card border-border max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif tracking-wide flex items-center gap-2">
+            <AlertOctagon className="h-5 w-5 text-red-400" /> Possible adverse event
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            This {first?.source === 'answer' ? 'answer' : 'question'} mentions a product, a symptom and a patient. Adverse
+            events must be reported to pharmacovigilance within the reporting window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={submit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="ae-product" className="text-xs">Product</Label>
+            <Input id="ae-product" value={product} onChange={e => setProduct(e.target.value)} className="bg-input border-border" required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ae-event" className="text-xs">Event</Label>
+            <Input id="ae-event" value={event} onChange={e => setEvent(e.target.value)} className="bg-input border-border" required />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="ae-date" className="text-xs">Date of event</Label>
+              <Input id="ae-date" type="date" max={today()} value={eventDate} onChange={e => setEventDate(e.target.value)} className="bg-input border-border" required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ae-reporter" className="text-xs">Reported by</Label>
+              <select id="ae-reporter" value={reporterType} onChange={e => setReporterType(e.target.value as AeReporterType)} className={SELECT_CLASS}>
+                {(Object.keys(REPORTER_LABELS) as AeReporterType[]).map(type => (
+                  <option key={type} value={type}>{REPORTER_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ae-narrative" className="text-xs">Details</Label>
+            <Textarea id="ae-narrative" rows={4} value={narrative} onChange={e => setNarrative(e.target.value)} className="text-sm bg-input border-border" />
+          </div>
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          <div className="flex items-center justify-end gap-2 pt-1">
+            <Button type="button" variant="ghost" size="sm" disabled={busy} onClick={onDefer}>Report later</Button>
+            <Button type="submit" size="sm" disabled={busy || !product.trim() || !event.trim() || !eventDate}>
+              {busy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />} File AE Report
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
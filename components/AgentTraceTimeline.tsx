@@ -0,0 +1,137 @@
+'use client'
+
+import * as React from 'react'
+import { ChevronDown, ChevronRight, CheckCircle2, XCircle, Loader2, Circle, GitBranch, AlertTriangle } from 'lucide-react'
+import type { AgentTrace, TraceStep } from '@/lib/agentTrace'
+import { Badge } from '@/components/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { cn } from '@/lib/utils'
+
+interface AgentTraceTimelineProps {
+  trace: AgentTrace
+  /** Display names by agent_id, for steps the upstream did not name */
+  agentNames?: Record<string, string>
+  defaultOpen?: boolean
+  /** Hide what sub-agents drafted before compliance review, for roles that only see reviewed answers */
+  reviewedOnly?: boolean
+  className?: string
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return ''
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function StepIcon({ status }: { status: TraceStep['status'] }) {
+  if (status === 'completed') return <CheckCircle2 className="h-3.5 w-3.5 text-emerald-400" />
+  if (status === 'failed') return <XCircle className="h-3.5 w-3.5 text-red-400" />
+  if (status === 'running') return <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+  return <Circle className="h-3.5 w-3.5 text-muted-foreground" />
+}
+
+function OutputList({ label, items }: { label: string; items?: string[] }) {
+  if (!Array.isArray(items) || items.length === 0) return null
+  return (
+    <div>
+      <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">{label}</p>
+      <ul className="ml-4 list-disc space-y-0.5 text-xs">
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    </div>
+  )
+}
+
+function OutputText({ label, text }: { label: string; text?: string }) {
+  if (!text) return null
+  return (
+    <div>
+      <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">{label}</p>
+      <p className="text-xs whitespace-pre-wrap">{text}</p>
+    </div>
+  )
+}
+
+/** Sub-agent output that is not itself a compliance review is pre-review material */
+function isDraftOutput(step: TraceStep): boolean {
+  return step.role === 'sub-agent' && !!step.output && step.output.reviewed_content === undefined
+}
+
+function TraceStepRow({ step, name, reviewedOnly }: { step: TraceStep; name: string; reviewedOnly?: boolean }) {
+  const [open, setOpen] = React.useState(false)
+  const output = reviewedOnly && isDraftOutput(step) ? undefined : step.output
+  const invalid = Array.isArray(step.validation_errors) && step.validation_errors.length > 0
+  const expandable = !!output || invalid
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger
+        disabled={!expandable}
+        className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs hover:bg-secondary/50 disabled:cursor-default disabled:hover:bg-transparent"
+      >
+        <StepIcon status={step.status} />
+        <span className="font-medium truncate">{name}</span>
+        <Badge variant="outline" className="text-[9px] px-1.5 py-0">{step.role}</Badge>
+        {invalid && (
+          <span className="flex items-center gap-1 text-[10px] text-red-400">
+            <AlertTriangle className="h-3 w-3" /> schema
+          </span>
+        )}
+        {step.confidence && (
+          <span className="text-[10px] text-muted-foreground">confidence: {step.confidence}</span>
+        )}
+        <span className="ml-auto text-[10px] text-muted-foreground">{formatDuration(step.duration_ms)}</span>
+        {expandable && (open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />)}
+      </CollapsibleTrigger>
+      {expandable && (
+        <CollapsibleContent>
+          <div className="ml-6 mt-1 mb-2 space-y-2 rounded-md border border-border bg-secondary/30 p-3">
+            {invalid && (
+              <OutputList
+                label="Schema validation errors"
+                items={step.validation_errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message))}
+              />
+            )}
+            {step.role !== 'manager' && <OutputText label="Answer" text={output?.answer} />}
+            <OutputList label="Data points" items={output?.data_points} />
+            <OutputList label="Profiles" items={output?.profiles} />
+            <OutputText label="Reviewed content" text={output?.reviewed_content} />
+            <OutputText label="Review notes" text={output?.review_notes} />
+            <OutputText label="Compliance status" text={output?.compliance_status} />
+            <OutputList label="Flags" items={output?.flags} />
+            <OutputList label="Sources" items={output?.sources} />
+          </div>
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  )
+}
+
+/**
+ * Expandable list of the agents that produced an answer, manager first.
+ */
+export function AgentTraceTimeline({ trace, agentNames, defaultOpen = false, reviewedOnly = false, className }: AgentTraceTimelineProps) {
+  const [open, setOpen] = React.useState(defaultOpen)
+  if (!trace || !Array.isArray(trace.steps) || trace.steps.length === 0) return null
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={cn('text-xs', className)}>
+      <CollapsibleTrigger className="flex items-center gap-1.5 text-[10px] text-muted-foreground uppercase tracking-wider hover:text-foreground">
+        <GitBranch className="h-3 w-3" />
+        Execution trace ({trace.steps.length} {trace.steps.length === 1 ? 'agent' : 'agents'}{trace.mode === 'parallel' ? ', parallel' : ''})
+        {trace.duration_ms !== undefined && <span className="normal-case">· {formatDuration(trace.duration_ms)}</span>}
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-2 border-l border-border pl-2 space-y-0.5">
+          {trace.steps.map(step => (
+            <TraceStepRow
+              key={step.agent_id}
+              step={step}
+              name={step.agent_name || agentNames?.[step.agent_id] || step.agent_id}
+              reviewedOnly={reviewedOnly}
+            />
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
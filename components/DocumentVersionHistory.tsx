@@ -0,0 +1,149 @@
+'use client'
+
+import * as React from 'react'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import {
+  getDocumentVersions,
+  restoreDocumentVersion,
+  updateDocumentTags,
+  type KbCatalogEntry,
+} from '@/lib/ragKnowledgeBase'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+
+interface DocumentVersionHistoryProps {
+  ragId: string
+  /** The file whose history is shown; the dialog is open while this is set */
+  fileName: string | null
+  canEdit: boolean
+  /** After a restore or a tag change, so the document list can refresh */
+  onChanged: () => void
+  onClose: () => void
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/** Versions of a knowledge base file, newest first, with rollback and tags */
+export function DocumentVersionHistory({ ragId, fileName, canEdit, onChanged, onClose }: DocumentVersionHistoryProps) {
+  const [entry, setEntry] = React.useState<KbCatalogEntry | null>(null)
+  const [tags, setTags] = React.useState('')
+  const [busy, setBusy] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const show = (next: KbCatalogEntry) => {
+    setEntry(next)
+    setTags(next.tags.join(', '))
+  }
+
+  React.useEffect(() => {
+    setEntry(null)
+    setError(null)
+    if (!fileName) return
+    getDocumentVersions(ragId, fileName).then(result => {
+      if (result.success && result.entry) show(result.entry)
+      else setError(result.error || 'Failed to load version history')
+    })
+  }, [ragId, fileName])
+
+  const run = async (key: string, action: () => ReturnType<typeof getDocumentVersions>) => {
+    setBusy(key)
+    setError(null)
+    const result = await action()
+    if (result.success && result.entry) {
+      show(result.entry)
+      onChanged()
+    } else {
+      setError(result.error || 'Request failed')
+    }
+    setBusy(null)
+  }
+
+  return (
+    <Dialog open={!!fileName} onOpenChange={open => { if (!open) onClose() }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4" /> Version history
+          </DialogTitle>
+          <DialogDescription className="truncate">{fileName}</DialogDescription>
+        </DialogHeader>
+
+        {!entry && !error && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {entry && (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Tags</p>
+              {canEdit ? (
+                <div className="flex gap-2">
+                  <Input
+                    value={tags}
+                    onChange={e => setTags(e.target.value)}
+                    placeholder="e.g. q3, northeast, pricing"
+                    className="h-8 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 text-xs"
+                    disabled={busy !== null || tags === entry.tags.join(', ')}
+                    onClick={() => run('tags', () => updateDocumentTags(ragId, entry.file_name, tags.split(',')))}
+                  >
+                    {busy === 'tags' ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Save'}
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {entry.tags.length === 0 && <span className="text-xs text-muted-foreground">None</span>}
+                  {entry.tags.map(t => <Badge key={t} variant="outline" className="text-[10px]">{t}</Badge>)}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1.5 max-h-80 overflow-y-auto">
+              {[...entry.versions].reverse().map(v => {
+                const current = v.version === entry.current_version && !entry.deleted_at
+                return (
+                  <div key={v.version} className="p-2 rounded-md bg-secondary/50 border border-border text-xs space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {v.version}</span>
+                      {current && <Badge className="text-[10px] px-1.5 py-0">current</Badge>}
+                      {v.restored_from && <span className="text-[10px] text-muted-foreground">restores version {v.restored_from}</span>}
+                      <span className="flex-1" />
+                      {canEdit && !current && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2 text-[10px]"
+                          disabled={busy !== null}
+                          onClick={() => run(`v${v.version}`, () => restoreDocumentVersion(ragId, entry.file_name, v.version))}
+                        >
+                          {busy === `v${v.version}` ? <Loader2 className="h-3 w-3 animate-spin" /> : <><RotateCcw className="h-3 w-3 mr-1" /> Restore</>}
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                      {new Date(v.uploaded_at).toLocaleString()} · {v.user_name} · {formatSize(v.size)} · {v.chunk_count} chunk{v.chunk_count !== 1 ? 's' : ''} · {v.parser} parser
+                      {v.converted_from ? ` · converted from ${v.converted_from.toUpperCase()}` : ''}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground font-mono truncate" title={v.sha256}>sha256 {v.sha256.slice(0, 16)}…</p>
+                  </div>
+                )
+              })}
+            </div>
+            {entry.deleted_at && (
+              <p className="text-xs text-muted-foreground">Deleted from the knowledge base; restore a version to bring it back.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
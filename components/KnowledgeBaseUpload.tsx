@@ -1,7 +1,7 @@
 'use client'
 
 import * as React from 'react'
-import { useRAGKnowledgeBase, SUPPORTED_FILE_TYPES, type RAGDocument } from '@/lib/ragKnowledgeBase'
+import { useRAGKnowledgeBase, validateFile, SUPPORTED_EXTENSIONS, SUPPORTED_FORMATS_LABEL, type RAGDocument } from '@/lib/ragKnowledgeBase'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 
@@ -66,8 +66,9 @@ export function KnowledgeBaseUpload({
   }
 
   const handleFileUpload = async (file: File) => {
-    if (!SUPPORTED_FILE_TYPES.includes(file.type as typeof SUPPORTED_FILE_TYPES[number])) {
-      alert('Unsupported file type. Please upload PDF, DOCX, or TXT files.')
+    const check = validateFile(file)
+    if (!check.valid) {
+      alert(check.error)
       return
     }
 
@@ -138,7 +139,7 @@ export function KnowledgeBaseUpload({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.docx,.txt"
+            accept={SUPPORTED_EXTENSIONS}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -159,7 +160,7 @@ export function KnowledgeBaseUpload({
             {uploadProgress || 'Drag & drop or click to upload'}
           </p>
           <p className="mt-1 text-xs text-muted-foreground">
-            PDF, DOCX, TXT supported
+            {SUPPORTED_FORMATS_LABEL} supported
           </p>
         </div>
 
@@ -0,0 +1,157 @@
+'use client'
+
+import * as React from 'react'
+import { Loader2, Stethoscope } from 'lucide-react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { MedicalInfoRequest, MirChannel } from '@/lib/medicalInfoRequests'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+interface MedicalInfoRequestDialogProps {
+  /** The off-label question to hand off; the dialog is open while this is set */
+  question: string | null
+  queryId?: string
+  sessionId?: string
+  /** HCPs the HCP agent has profiled in this session, offered as choices */
+  hcpProfiles: string[]
+  onCreated: (request: MedicalInfoRequest) => void
+  onClose: () => void
+}
+
+const CHANNEL_LABELS: Record<MirChannel, { label: string; contact?: string }> = {
+  email: { label: 'Email', contact: 'Email address' },
+  phone: { label: 'Phone call', contact: 'Phone number' },
+  letter: { label: 'Letter', contact: 'Postal address' },
+  visit: { label: 'MSL visit' },
+}
+
+const SELECT_CLASS = 'h-9 w-full rounded-md border border-border bg-input text-sm px-2 text-foreground'
+const OTHER_HCP = '__other__'
+
+/**
+ * Hands an off-label question to Medical Affairs: which HCP asked, their
+ * question verbatim and how they want the answer.
+ */
+export function MedicalInfoRequestDialog({ question, queryId, sessionId, hcpProfiles, onCreated, onClose }: MedicalInfoRequestDialogProps) {
+  const [hcpChoice, setHcpChoice] = React.useState(OTHER_HCP)
+  const [hcpName, setHcpName] = React.useState('')
+  const [text, setText] = React.useState('')
+  const [channel, setChannel] = React.useState<MirChannel>('email')
+  const [contact, setContact] = React.useState('')
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Prefill each time the dialog opens for a new question
+  React.useEffect(() => {
+    if (question === null) return
+    setHcpChoice(hcpProfiles[0] ?? OTHER_HCP)
+    setHcpName('')
+    setText(question)
+    setChannel('email')
+    setContact('')
+    setError(null)
+  }, [question, hcpProfiles])
+
+  const hcp = hcpChoice === OTHER_HCP ? hcpName : hcpChoice
+  const contactLabel = CHANNEL_LABELS[channel].contact
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/mir', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          hcp,
+          question: text,
+          channel,
+          ...(contactLabel ? { contact } : {}),
+          query_id: queryId,
+          session_id: sessionId,
+        }),
+      })
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) onCreated(data.request)
+      else setError(data.error || 'Failed to open the request')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the request')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={question !== null} onOpenChange={open => { if (!open && !busy) onClose() }}>
+      <DialogContent className="bg-card border-border max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif tracking-wide flex items-center gap-2">
+            <Stethoscope className="h-5 w-5 text-sky-400" /> Medical Information Request
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Off-label questions are answered by Medical Affairs, not the field team. Record the HCP&apos;s question as they
+            asked it and how they would like the answer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={submit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="mir-hcp" className="text-xs">HCP</Label>
+            <select id="mir-hcp" value={hcpChoice} onChange={e => setHcpChoice(e.target.value)} className={SELECT_CLASS}>
+              {hcpProfiles.map(profile => (
+                <option key={profile} value={profile}>{profile}</option>
+              ))}
+              <option value={OTHER_HCP}>Someone else…</option>
+            </select>
+            {hcpChoice === OTHER_HCP && (
+              <Input
+                placeholder="Name, specialty and institution"
+                value={hcpName}
+                onChange={e => setHcpName(e.target.value)}
+                className="bg-input border-border"
+                required
+              />
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mir-question" className="text-xs">Question (verbatim)</Label>
+            <Textarea id="mir-question" rows={4} value={text} onChange={e => setText(e.target.value)} className="text-sm bg-input border-border" required />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="mir-channel" className="text-xs">Respond by</Label>
+              <select id="mir-channel" value={channel} onChange={e => setChannel(e.target.value as MirChannel)} className={SELECT_CLASS}>
+                {(Object.keys(CHANNEL_LABELS) as MirChannel[]).map(c => (
+                  <option key={c} value={c}>{CHANNEL_LABELS[c].label}</option>
+                ))}
+              </select>
+            </div>
+            {contactLabel && (
+              <div className="space-y-1">
+                <Label htmlFor="mir-contact" className="text-xs">{contactLabel}</Label>
+                <Input id="mir-contact" value={contact} onChange={e => setContact(e.target.value)} className="bg-input border-border" required />
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          <div className="flex items-center justify-end gap-2 pt-1">
+            <Button type="button" variant="ghost" size="sm" disabled={busy} onClick={onClose}>Cancel</Button>
+            <Button type="submit" size="sm" disabled={busy || !hcp.trim() || !text.trim() || (!!contactLabel && !contact.trim())}>
+              {busy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />} Send to Medical Affairs
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
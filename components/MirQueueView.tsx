@@ -0,0 +1,178 @@
+'use client'
+
+import * as React from 'react'
+import { Inbox, Loader2, RefreshCw } from 'lucide-react'
+import { useMirQueue, type MedicalInfoRequest, type MirChannel, type MirStatus } from '@/hooks/useMirQueue'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+
+interface MirQueueViewProps {
+  /** Whether the signed-in user works the queue; others see and track their own requests */
+  canManage: boolean
+}
+
+const SELECT_CLASS = 'h-8 rounded-md border border-border bg-input text-xs px-2 text-foreground'
+
+const STATUS_LABEL: Record<MirStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  answered: 'Answered',
+  closed: 'Closed',
+}
+
+const STATUS_CLASS: Record<MirStatus, string> = {
+  open: 'bg-sky-900/30 text-sky-300 border-sky-700/30',
+  in_progress: 'bg-amber-900/30 text-amber-300 border-amber-700/30',
+  answered: 'bg-emerald-900/30 text-emerald-300 border-emerald-700/30',
+  closed: 'bg-secondary text-muted-foreground border-border',
+}
+
+/** The moves offered from each status; the server enforces the same set */
+const NEXT_STATUSES: Record<MirStatus, MirStatus[]> = {
+  open: ['in_progress', 'answered', 'closed'],
+  in_progress: ['answered', 'closed'],
+  answered: ['closed', 'in_progress'],
+  closed: [],
+}
+
+const CHANNEL_LABEL: Record<MirChannel, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  letter: 'Letter',
+  visit: 'MSL visit',
+}
+
+function formatTime(ts: string): string {
+  const d = new Date(ts)
+  return isNaN(d.getTime()) ? ts : d.toLocaleString()
+}
+
+function MirCard({
+  request,
+  canManage,
+  onUpdate,
+}: {
+  request: MedicalInfoRequest
+  canManage: boolean
+  onUpdate: (status: MirStatus, note?: string) => Promise<string | null>
+}) {
+  const [note, setNote] = React.useState('')
+  const [busy, setBusy] = React.useState<MirStatus | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const next = canManage ? NEXT_STATUSES[request.status] : []
+
+  const move = async (status: MirStatus) => {
+    setBusy(status)
+    setError(null)
+    const failure = await onUpdate(status, note.trim() || undefined)
+    setBusy(null)
+    if (failure) setError(failure)
+    else setNote('')
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center gap-2 flex-wrap text-[10px] text-muted-foreground">
+        <Badge className={cn('text-[10px] hover:bg-transparent', STATUS_CLASS[request.status])}>{STATUS_LABEL[request.status]}</Badge>
+        <span className="font-mono">{request.id}</span>
+        <span>{formatTime(request.created_at)}</span>
+        <span>by {request.requested_by_name}</span>
+      </div>
+
+      <div>
+        <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">HCP</p>
+        <p className="text-sm">{request.hcp}</p>
+      </div>
+
+      <div>
+        <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Question</p>
+        <p className="text-sm whitespace-pre-wrap bg-secondary/50 rounded-md p-3 border border-border">{request.question}</p>
+      </div>
+
+      <p className="text-xs">
+        <span className="text-muted-foreground">Respond by </span>
+        {CHANNEL_LABEL[request.channel]}
+        {request.contact && <span className="text-muted-foreground"> · {request.contact}</span>}
+      </p>
+
+      <div className="space-y-1 text-[11px] text-muted-foreground border-t border-border pt-2">
+        {request.history.map((change, i) => (
+          <p key={i}>
+            {STATUS_LABEL[change.status]} · {change.by_name} · {formatTime(change.at)}
+            {change.note && <span className="text-foreground/80"> — {change.note}</span>}
+          </p>
+        ))}
+      </div>
+
+      {next.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-border">
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            className="h-8 text-xs bg-input border-border"
+          />
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          <div className="flex items-center gap-2 flex-wrap">
+            {next.map(status => (
+              <Button key={status} size="sm" variant="outline" className="h-8 text-xs" disabled={busy !== null} onClick={() => move(status)}>
+                {busy === status && <Loader2 className="h-3 w-3 mr-1 animate-spin" />} Mark {STATUS_LABEL[status].toLowerCase()}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function MirQueueView({ canManage }: MirQueueViewProps) {
+  const [status, setStatus] = React.useState<MirStatus | 'all'>(canManage ? 'open' : 'all')
+  const { requests, loading, error, reload, updateStatus } = useMirQueue(status)
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 mb-3">
+        <select value={status} onChange={e => setStatus(e.target.value as MirStatus | 'all')} className={SELECT_CLASS}>
+          <option value="all">All</option>
+          {(Object.keys(STATUS_LABEL) as MirStatus[]).map(s => (
+            <option key={s} value={s}>{STATUS_LABEL[s]}</option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" className="h-8 text-xs" disabled={loading} onClick={() => reload()}>
+          <RefreshCw className={cn('h-3 w-3', loading && 'animate-spin')} />
+        </Button>
+        <span className="text-xs text-muted-foreground">{requests.length} {requests.length === 1 ? 'request' : 'requests'}</span>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-md border border-red-700/30 bg-red-900/20 px-3 py-2 text-xs text-red-300">{error}</div>
+      )}
+
+      <ScrollArea className="flex-1">
+        {requests.length === 0 && !loading ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <Inbox className="h-10 w-10 text-muted-foreground/30 mb-3" />
+            <p className="text-sm text-muted-foreground">
+              {canManage ? 'No medical information requests here.' : 'You have not opened any medical information requests.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-w-4xl pb-4">
+            {requests.map(request => (
+              <MirCard
+                key={request.id}
+                request={request}
+                canManage={canManage}
+                onUpdate={(next, note) => updateStatus(request.id, next, note)}
+              />
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import * as React from 'react'
+import { Columns2, Rows2 } from 'lucide-react'
+import type { AuditReview } from '@/lib/auditStore'
+import { diffText, hasChanges, type DiffSegment } from '@/lib/textDiff'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+interface ReviewDiffProps {
+  review: AuditReview
+  className?: string
+}
+
+const SEGMENT_CLASS: Record<DiffSegment['type'], string> = {
+  equal: '',
+  removed: 'bg-red-900/40 text-red-300 line-through decoration-red-400/70',
+  added: 'bg-emerald-900/40 text-emerald-300',
+}
+
+function Segments({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap bg-secondary/50 rounded-md p-3 border border-border">
+      {segments.map((s, i) => (
+        <span key={i} className={SEGMENT_CLASS[s.type]}>{s.text}</span>
+      ))}
+    </p>
+  )
+}
+
+/**
+ * What compliance review changed in an answer: the draft against the
+ * reviewed version, inline or side by side, with the review notes.
+ */
+export function ReviewDiff({ review, className }: ReviewDiffProps) {
+  const [layout, setLayout] = React.useState<'inline' | 'split'>('inline')
+  const segments = React.useMemo(() => diffText(review.draft, review.reviewed), [review.draft, review.reviewed])
+  const changed = hasChanges(segments)
+  const removed = segments.filter(s => s.type === 'removed').length
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Compliance changes</p>
+        <span className="text-[10px] text-muted-foreground">
+          {!review.reviewed
+            ? 'answer withheld'
+            : changed
+              ? `${removed} ${removed === 1 ? 'passage' : 'passages'} removed`
+              : 'no changes to the draft'}
+        </span>
+        {changed && review.reviewed && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-6 px-2 text-[10px]"
+            onClick={() => setLayout(layout === 'inline' ? 'split' : 'inline')}
+          >
+            {layout === 'inline'
+              ? <><Columns2 className="h-3 w-3 mr-1" /> Side by side</>
+              : <><Rows2 className="h-3 w-3 mr-1" /> Inline</>}
+          </Button>
+        )}
+      </div>
+
+      {changed && review.reviewed && layout === 'split' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <div>
+            <p className="text-[10px] text-muted-foreground mb-1">Draft</p>
+            <Segments segments={segments.filter(s => s.type !== 'added')} />
+          </div>
+          <div>
+            <p className="text-[10px] text-muted-foreground mb-1">Reviewed</p>
+            <Segments segments={segments.filter(s => s.type !== 'removed')} />
+          </div>
+        </div>
+      ) : (
+        <Segments segments={changed ? segments : [{ type: 'equal', text: review.draft }]} />
+      )}
+
+      {review.review_notes && (
+        <div>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Review notes</p>
+          <p className="text-xs whitespace-pre-wrap text-muted-foreground">{review.review_notes}</p>
+        </div>
+      )}
+    </div>
+  )
+}
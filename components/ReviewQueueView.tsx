@@ -0,0 +1,229 @@
+'use client'
+
+import * as React from 'react'
+import { AlertTriangle, Check, FileText, Loader2, Pencil, RefreshCw, ShieldAlert, X } from 'lucide-react'
+import { useReviewQueue, type ReviewDecisionType, type ReviewItem, type ReviewState } from '@/hooks/useReviewQueue'
+import { roleLabel, type UserRole } from '@/lib/roles'
+import { ReviewDiff } from '@/components/ReviewDiff'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+interface ReviewQueueViewProps {
+  role: UserRole
+  /** Whether the signed-in user may review; others see a notice instead of the queue */
+  canReview: boolean
+}
+
+const SELECT_CLASS = 'h-8 rounded-md border border-border bg-input text-xs px-2 text-foreground'
+
+const STATUS_CLASS: Record<string, string> = {
+  flagged: 'bg-red-900/30 text-red-300 border-red-700/30',
+  redacted: 'bg-amber-900/30 text-amber-300 border-amber-700/30',
+}
+
+const DECISION_LABEL: Record<ReviewDecisionType, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  released: 'Edited and released',
+}
+
+function formatTime(ts: string): string {
+  const d = new Date(ts)
+  return isNaN(d.getTime()) ? ts : d.toLocaleString()
+}
+
+function ReviewCard({
+  item,
+  onDecide,
+}: {
+  item: ReviewItem
+  onDecide: (decision: ReviewDecisionType, details?: { reason?: string; answer?: string }) => Promise<string | null>
+}) {
+  const { entry, decision } = item
+  const [mode, setMode] = React.useState<'idle' | 'reject' | 'edit'>('idle')
+  const [reason, setReason] = React.useState('')
+  const [answer, setAnswer] = React.useState(entry.response)
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const submit = async (type: ReviewDecisionType) => {
+    setBusy(true)
+    setError(null)
+    const failure = await onDecide(type, {
+      ...(reason.trim() ? { reason: reason.trim() } : {}),
+      ...(type === 'released' ? { answer } : {}),
+    })
+    setBusy(false)
+    if (failure) setError(failure)
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center gap-2 flex-wrap text-[10px] text-muted-foreground">
+        <Badge className={cn('text-[10px] capitalize hover:bg-transparent', STATUS_CLASS[entry.status] || '')}>{entry.status}</Badge>
+        <span>{formatTime(entry.timestamp)}</span>
+        <span className="font-mono">Session {entry.session_id.substring(0, 8)}...</span>
+        {entry.domains_accessed.map(d => (
+          <Badge key={d} variant="outline" className="text-[9px] px-1 py-0">{d}</Badge>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Query</p>
+        <p className="text-sm bg-secondary/50 rounded-md p-3 border border-border">{entry.query}</p>
+      </div>
+
+      <div>
+        <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Answer</p>
+        {mode === 'edit' ? (
+          <Textarea value={answer} onChange={e => setAnswer(e.target.value)} rows={8} className="text-sm bg-input border-border" />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap bg-secondary/50 rounded-md p-3 border border-border">{entry.response || '(empty)'}</p>
+        )}
+      </div>
+
+      {entry.review && mode !== 'edit' && <ReviewDiff review={entry.review} />}
+
+      {entry.flags.length > 0 && (
+        <div>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Flags</p>
+          <div className="flex flex-wrap gap-1.5">
+            {entry.flags.map((f, i) => (
+              <Badge key={i} className="text-[10px] bg-amber-900/30 text-amber-300 border-amber-700/30 hover:bg-amber-900/30">
+                <AlertTriangle className="h-2.5 w-2.5 mr-1" /> {f}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {entry.sources_consulted.length > 0 && (
+        <div>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Sources</p>
+          <div className="flex flex-wrap gap-1.5">
+            {entry.sources_consulted.map((s, i) => (
+              <Badge key={i} variant="outline" className="text-[10px]">
+                <FileText className="h-2.5 w-2.5 mr-1" />{s}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {decision ? (
+        <div className="rounded-md border border-border bg-secondary/30 p-3 text-xs space-y-1">
+          <p className="font-medium">
+            {DECISION_LABEL[decision.decision]} by {decision.decided_by_name ? `${decision.decided_by_name} (${roleLabel(decision.decided_by)})` : roleLabel(decision.decided_by)} · {formatTime(decision.decided_at)}
+          </p>
+          {decision.reason && <p className="text-muted-foreground">Reason: {decision.reason}</p>}
+          {decision.released_answer && (
+            <p className="whitespace-pre-wrap text-muted-foreground">Released answer: {decision.released_answer}</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2 pt-2 border-t border-border">
+          {mode !== 'idle' && (
+            <Input
+              placeholder={mode === 'reject' ? 'Reason for rejecting (required)' : 'Note for the rep (optional)'}
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              className="h-8 text-xs bg-input border-border"
+            />
+          )}
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          <div className="flex items-center gap-2 flex-wrap">
+            {mode === 'idle' && (
+              <>
+                <Button size="sm" className="h-8 text-xs" disabled={busy} onClick={() => submit('approved')}>
+                  {busy ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />} Approve
+                </Button>
+                <Button size="sm" variant="outline" className="h-8 text-xs" disabled={busy} onClick={() => setMode('reject')}>
+                  <X className="h-3 w-3 mr-1" /> Reject
+                </Button>
+                <Button size="sm" variant="outline" className="h-8 text-xs" disabled={busy} onClick={() => setMode('edit')}>
+                  <Pencil className="h-3 w-3 mr-1" /> Edit &amp; Release
+                </Button>
+              </>
+            )}
+            {mode === 'reject' && (
+              <Button size="sm" variant="destructive" className="h-8 text-xs" disabled={busy || !reason.trim()} onClick={() => submit('rejected')}>
+                {busy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />} Reject Answer
+              </Button>
+            )}
+            {mode === 'edit' && (
+              <Button size="sm" className="h-8 text-xs" disabled={busy || !answer.trim()} onClick={() => submit('released')}>
+                {busy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />} Release Edited Answer
+              </Button>
+            )}
+            {mode !== 'idle' && (
+              <Button size="sm" variant="ghost" className="h-8 text-xs" disabled={busy} onClick={() => { setMode('idle'); setError(null) }}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ReviewQueueView({ role, canReview }: ReviewQueueViewProps) {
+  const [state, setState] = React.useState<ReviewState>('pending')
+  const { items, loading, error, reload, decide } = useReviewQueue(state, canReview)
+
+  if (!canReview) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center">
+        <ShieldAlert className="h-10 w-10 text-muted-foreground/30 mb-3" />
+        <p className="text-sm text-muted-foreground">
+          The review queue is for compliance officers. You are signed in as {roleLabel(role)}.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 mb-3">
+        <select value={state} onChange={e => setState(e.target.value as ReviewState)} className={SELECT_CLASS}>
+          <option value="pending">Awaiting review</option>
+          <option value="decided">Decided</option>
+          <option value="all">All</option>
+        </select>
+        <Button variant="outline" size="sm" className="h-8 text-xs" disabled={loading} onClick={() => reload()}>
+          <RefreshCw className={cn('h-3 w-3', loading && 'animate-spin')} />
+        </Button>
+        <span className="text-xs text-muted-foreground">{items.length} {items.length === 1 ? 'answer' : 'answers'}</span>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-md border border-red-700/30 bg-red-900/20 px-3 py-2 text-xs text-red-300">{error}</div>
+      )}
+
+      <ScrollArea className="flex-1">
+        {items.length === 0 && !loading ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <Check className="h-10 w-10 text-muted-foreground/30 mb-3" />
+            <p className="text-sm text-muted-foreground">
+              {state === 'pending' ? 'No answers awaiting review.' : 'No reviewed answers yet.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-w-4xl pb-4">
+            {items.map(item => (
+              <ReviewCard
+                key={item.entry.id}
+                item={item}
+                onDecide={(decision, details) => decide(item.entry.id, decision, details)}
+              />
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  )
+}
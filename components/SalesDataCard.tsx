@@ -0,0 +1,111 @@
+'use client'
+
+import * as React from 'react'
+import { Loader2, RefreshCw, Table2, Upload } from 'lucide-react'
+import { useSalesData } from '@/hooks/useSalesData'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+interface SalesDataCardProps {
+  canUpload: boolean
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+/**
+ * The structured sales table behind exact revenue, quota and TRx/NRx
+ * answers: what it holds, the files loaded into it, and loading another.
+ */
+export function SalesDataCard({ canUpload }: SalesDataCardProps) {
+  const { catalog, loads, loading, error, reload, load } = useSalesData()
+  const [busy, setBusy] = React.useState(false)
+  const [statusMsg, setStatusMsg] = React.useState<{ text: string; error: boolean } | null>(null)
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+
+  const handleFile = async (file: File) => {
+    setBusy(true)
+    setStatusMsg(null)
+    const loadError = await load(file)
+    setStatusMsg(loadError ? { text: loadError, error: true } : { text: `"${file.name}" loaded`, error: false })
+    setBusy(false)
+  }
+
+  const latest = loads[0]
+
+  return (
+    <Card className="bg-card border-border lg:col-span-2">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Table2 className="h-4 w-4 text-accent" />
+          Structured Sales Data
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Territory, product and period figures (revenue, quota, TRx, NRx) from CSV or XLSX. The Sales agent answers numeric questions from this table and shows the SQL it ran.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          {canUpload && (
+            <>
+              <Button variant="outline" size="sm" className="h-7 text-xs" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+                {busy ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Upload className="h-3 w-3 mr-1" />}
+                Load sales file
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </>
+          )}
+          <span className="text-xs text-muted-foreground flex-1">
+            {catalog
+              ? `${catalog.row_count.toLocaleString()} rows · ${catalog.territories.length} territories · ${catalog.products.length} products · ${catalog.periods.length} periods`
+              : ''}
+          </span>
+          <Button variant="ghost" size="sm" onClick={reload} disabled={loading} className="h-7 text-xs">
+            <RefreshCw className={`h-3 w-3 mr-1 ${loading ? 'animate-spin' : ''}`} /> Refresh
+          </Button>
+        </div>
+
+        {statusMsg && <p className={`text-xs ${statusMsg.error ? 'text-red-400' : 'text-green-400'}`}>{statusMsg.text}</p>}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {catalog && catalog.periods.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Periods {catalog.periods[0]} to {catalog.periods[catalog.periods.length - 1]}
+          </p>
+        )}
+
+        {latest && (
+          <div className="space-y-1">
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Loaded files</p>
+            {loads.slice(0, 5).map(l => (
+              <div key={l.id} className="p-2 rounded-md bg-secondary/50 border border-border text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="truncate flex-1">{l.file}</span>
+                  <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                    {l.rows_loaded} rows{l.rows_skipped > 0 ? `, ${l.rows_skipped} skipped` : ''} · {l.user_name} · {formatDate(l.loaded_at)}
+                  </span>
+                </div>
+                {l.errors.length > 0 && (
+                  <ul className="mt-1 text-[10px] text-amber-400 list-disc pl-4">
+                    {l.errors.map((e, i) => <li key={i}>{e}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
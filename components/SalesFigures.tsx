@@ -0,0 +1,55 @@
+'use client'
+
+import * as React from 'react'
+import { Calculator } from 'lucide-react'
+import type { SalesComputation } from '@/hooks/useSalesData'
+
+function formatValue(value: string | number | null): string {
+  if (value === null) return '—'
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value
+}
+
+/** Figures an answer was given from the structured sales data, with the SQL behind each */
+export function SalesFigures({ computations }: { computations: SalesComputation[] }) {
+  return (
+    <div className="mb-4 space-y-3">
+      {computations.map((c, i) => (
+        <div key={i} className="rounded-md border border-border bg-secondary/40 p-3">
+          <div className="flex items-center gap-1.5 mb-2">
+            <Calculator className="h-3 w-3 text-muted-foreground" />
+            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Exact figures</span>
+            <span className="text-xs">{c.description}</span>
+          </div>
+          {c.rows.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No matching sales rows.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border">
+                    {c.columns.map(col => (
+                      <th key={col} className="text-left font-medium text-muted-foreground py-1 pr-3 capitalize">{col}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {c.rows.map((row, r) => (
+                    <tr key={r} className="border-b border-border/50 last:border-0">
+                      {row.map((value, v) => (
+                        <td key={v} className={`py-1 pr-3 ${typeof value === 'number' ? 'tabular-nums' : ''}`}>{formatValue(value)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <details className="mt-2">
+            <summary className="text-[10px] text-muted-foreground cursor-pointer">SQL</summary>
+            <pre className="mt-1 text-[10px] whitespace-pre-wrap font-mono text-muted-foreground">{c.sql}</pre>
+          </details>
+        </div>
+      ))}
+    </div>
+  )
+}
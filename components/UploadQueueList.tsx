@@ -0,0 +1,126 @@
+'use client'
+
+import * as React from 'react'
+import { AlertCircle, AlertTriangle, Check, Clock, Loader2, MinusCircle, RotateCcw } from 'lucide-react'
+import type { UploadItem, UploadStatus } from '@/hooks/useUploadQueue'
+import type { DuplicateChoice, UploadDuplicate } from '@/lib/ragKnowledgeBase'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+
+interface UploadQueueListProps {
+  items: UploadItem[]
+  onRetry: (id: string) => void
+  onResolveDuplicate: (id: string, choice: DuplicateChoice | 'skip') => void
+  /** Whether the user may replace the existing documents a duplicate matches */
+  canReplace: boolean
+  onClear: () => void
+}
+
+const STATUS_LABEL: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  training: 'Training',
+  done: 'Done',
+  failed: 'Failed',
+  duplicate: 'Duplicate',
+  skipped: 'Skipped',
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function StatusIcon({ status }: { status: UploadStatus }) {
+  if (status === 'done') return <Check className="h-3 w-3 text-green-400" />
+  if (status === 'failed') return <AlertCircle className="h-3 w-3 text-red-400" />
+  if (status === 'queued') return <Clock className="h-3 w-3 text-muted-foreground" />
+  if (status === 'duplicate') return <AlertTriangle className="h-3 w-3 text-amber-400" />
+  if (status === 'skipped') return <MinusCircle className="h-3 w-3 text-muted-foreground" />
+  return <Loader2 className="h-3 w-3 text-amber-400 animate-spin" />
+}
+
+function DuplicateWarning({ duplicates }: { duplicates: UploadDuplicate[] }) {
+  return (
+    <ul className="text-[10px] text-amber-400 space-y-0.5">
+      {duplicates.map(d => (
+        <li key={`${d.rag_id}/${d.file_name}`}>
+          {d.match === 'exact' ? 'Identical to' : 'Same text as'} <span className="font-medium">{d.file_name}</span> in {d.kb_label}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/** Per-file state of a knowledge base's uploads, with retry for failed ones and a choice for duplicates */
+export function UploadQueueList({ items, onRetry, onResolveDuplicate, canReplace, onClear }: UploadQueueListProps) {
+  if (items.length === 0) return null
+  const count = (status: UploadStatus) => items.filter(i => i.status === status).length
+  const finished = count('done') + count('failed') + count('skipped')
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {finished} of {items.length} processed
+          {count('failed') > 0 && <span className="text-red-400"> · {count('failed')} failed</span>}
+          {count('duplicate') > 0 && <span className="text-amber-400"> · {count('duplicate')} awaiting a decision</span>}
+        </span>
+        {finished > 0 && (
+          <Button variant="ghost" size="sm" className="h-6 text-[10px]" onClick={onClear}>
+            Clear finished
+          </Button>
+        )}
+      </div>
+      <div className="space-y-1.5 max-h-56 overflow-y-auto">
+        {items.map(item => (
+          <div key={item.id} className="p-2 rounded-md bg-secondary/50 border border-border space-y-1">
+            <div className="flex items-center gap-2">
+              <StatusIcon status={item.status} />
+              <span className="text-xs truncate flex-1" title={item.file.name}>{item.file.name}</span>
+              <span className="text-[10px] text-muted-foreground flex-shrink-0">{formatSize(item.file.size)}</span>
+              <span className={cn(
+                'text-[10px] flex-shrink-0',
+                item.status === 'failed' ? 'text-red-400'
+                  : item.status === 'done' ? 'text-green-400'
+                  : item.status === 'duplicate' ? 'text-amber-400'
+                  : 'text-muted-foreground'
+              )}>
+                {STATUS_LABEL[item.status]}
+              </span>
+              {item.status === 'failed' && item.retryable && (
+                <Button variant="ghost" size="sm" className="h-5 w-5 p-0 flex-shrink-0" title="Retry" onClick={() => onRetry(item.id)}>
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            {(item.status === 'uploading' || item.status === 'training') && (
+              <Progress value={item.progress * 100} className={cn('h-1', item.status === 'training' && 'animate-pulse')} />
+            )}
+            {item.status === 'duplicate' && item.duplicates ? (
+              <div className="space-y-1">
+                <DuplicateWarning duplicates={item.duplicates} />
+                <div className="flex gap-1">
+                  <Button variant="outline" size="sm" className="h-6 px-2 text-[10px]" onClick={() => onResolveDuplicate(item.id, 'skip')}>
+                    Skip
+                  </Button>
+                  {canReplace && (
+                    <Button variant="outline" size="sm" className="h-6 px-2 text-[10px]" onClick={() => onResolveDuplicate(item.id, 'replace')}>
+                      Replace
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" className="h-6 px-2 text-[10px]" onClick={() => onResolveDuplicate(item.id, 'keep')}>
+                    Keep both
+                  </Button>
+                </div>
+              </div>
+            ) : item.error && <p className="text-[10px] text-red-400">{item.error}</p>}
+            {item.note && <p className="text-[10px] text-muted-foreground">{item.note}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
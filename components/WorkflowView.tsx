@@ -0,0 +1,505 @@
+'use client'
+
+import * as React from 'react'
+import { AlertTriangle, History, Loader2, Pencil, Plus, RotateCcw, Save, ShieldCheck, Trash2, X } from 'lucide-react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { AgentRegistry, RegistryAgent, WorkflowEdge, WorkflowGraph, WorkflowNode } from '@/lib/agentRegistry'
+import type { WorkflowVersion, WorkflowVersionSummary } from '@/lib/workflowStore'
+import { validateWorkflow, type WorkflowIssue } from '@/lib/workflowValidation'
+import { hasPermission, type UserRole } from '@/lib/roles'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+
+interface WorkflowViewProps {
+  registry: AgentRegistry | null
+  role: UserRole
+  /** Called after a save or restore so the rest of the app picks up the new graph */
+  onSaved?: () => void
+}
+
+const NODE_W = 180
+const NODE_H = 52
+const COL_GAP = 70
+const ROW_GAP = 28
+const PAD = 16
+
+const SELECT_CLASS = 'h-8 rounded-md border border-border bg-input text-xs px-2 text-foreground'
+
+interface NodeBox { node: WorkflowNode; x: number; y: number }
+
+/** Columns by longest path from the sources, rows in graph order. */
+function layoutGraph(graph: WorkflowGraph): { boxes: Map<string, NodeBox>; width: number; height: number } {
+  const ids = new Set(graph.nodes.map(n => n.id))
+  const edges = graph.edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target)
+  const layer = new Map(graph.nodes.map(n => [n.id, 0]))
+  // Bounded relaxation so a cycle in an unsaved draft cannot loop forever
+  for (let pass = 0; pass < graph.nodes.length; pass++) {
+    let changed = false
+    for (const e of edges) {
+      if (layer.get(e.target)! < layer.get(e.source)! + 1) {
+        layer.set(e.target, layer.get(e.source)! + 1)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+  // Output nodes go in the last column
+  const last = Math.max(0, ...Array.from(layer.values()))
+  for (const n of graph.nodes) if (n.nodeCategory === 'end') layer.set(n.id, last)
+
+  const columns: WorkflowNode[][] = []
+  for (const n of graph.nodes) (columns[layer.get(n.id)!] ||= []).push(n)
+  const rows = Math.max(1, ...columns.map(c => c?.length || 0))
+  const height = PAD * 2 + rows * NODE_H + (rows - 1) * ROW_GAP
+
+  const boxes = new Map<string, NodeBox>()
+  columns.forEach((column, col) => {
+    if (!column) return
+    const offset = (height - (column.length * NODE_H + (column.length - 1) * ROW_GAP)) / 2
+    column.forEach((node, row) => {
+      boxes.set(node.id, { node, x: PAD + col * (NODE_W + COL_GAP), y: offset + row * (NODE_H + ROW_GAP) })
+    })
+  })
+  const width = PAD * 2 + columns.length * NODE_W + Math.max(0, columns.length - 1) * COL_GAP
+  return { boxes, width, height }
+}
+
+function formatDate(iso?: string): string {
+  if (!iso) return ''
+  const d = new Date(iso)
+  return isNaN(d.getTime()) ? iso : d.toLocaleString()
+}
+
+function nodeColors(node: WorkflowNode, agent: RegistryAgent | undefined): { fill: string; stroke: string } {
+  if (node.nodeCategory === 'input' || node.nodeCategory === 'end') return { fill: 'hsl(20 18% 12%)', stroke: 'hsl(20 10% 35%)' }
+  if (agent?.kind === 'compliance') return { fill: 'hsl(150 30% 10%)', stroke: 'hsl(150 45% 35%)' }
+  if (agent?.type === 'manager') return { fill: 'hsl(36 40% 12%)', stroke: 'hsl(36 60% 31%)' }
+  return { fill: 'hsl(20 25% 9%)', stroke: 'hsl(20 15% 25%)' }
+}
+
+function GraphCanvas({
+  graph,
+  agents,
+  issues,
+  selectedId,
+  onSelect,
+}: {
+  graph: WorkflowGraph
+  agents: RegistryAgent[]
+  issues: WorkflowIssue[]
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+}) {
+  const { boxes, width, height } = React.useMemo(() => layoutGraph(graph), [graph])
+  const flagged = new Set(issues.map(i => i.node_id).filter(Boolean))
+
+  return (
+    <svg width={width} height={height} className="block" onClick={() => onSelect(null)}>
+      <defs>
+        <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="hsl(20 10% 45%)" />
+        </marker>
+      </defs>
+      {graph.edges.map((edge, i) => {
+        const from = boxes.get(edge.source)
+        const to = boxes.get(edge.target)
+        if (!from || !to) return null
+        const x1 = from.x + NODE_W
+        const y1 = from.y + NODE_H / 2
+        const x2 = to.x
+        const y2 = to.y + NODE_H / 2
+        const bend = Math.max(30, Math.abs(x2 - x1) / 2)
+        const highlighted = selectedId === edge.source || selectedId === edge.target
+        return (
+          <path
+            key={`${edge.source}->${edge.target}-${i}`}
+            d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+            fill="none"
+            stroke={highlighted ? 'hsl(36 60% 45%)' : 'hsl(20 10% 35%)'}
+            strokeWidth={highlighted ? 2 : 1.25}
+            markerEnd="url(#workflow-arrow)"
+          />
+        )
+      })}
+      {Array.from(boxes.values()).map(({ node, x, y }) => {
+        const agent = agents.find(a => a.key === node.agent)
+        const { fill, stroke } = nodeColors(node, agent)
+        const selected = selectedId === node.id
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${x}, ${y})`}
+            className="cursor-pointer"
+            onClick={e => {
+              e.stopPropagation()
+              onSelect(node.id)
+            }}
+          >
+            <rect
+              width={NODE_W}
+              height={NODE_H}
+              rx={8}
+              fill={fill}
+              stroke={flagged.has(node.id) ? 'hsl(0 70% 55%)' : selected ? 'hsl(36 60% 45%)' : stroke}
+              strokeWidth={selected || flagged.has(node.id) ? 2 : 1}
+            />
+            <text x={12} y={22} fontSize={12} fill="hsl(35 20% 85%)">
+              {(agent?.name || node.label).slice(0, 24)}
+            </text>
+            <text x={12} y={39} fontSize={10} fill="hsl(30 10% 55%)">
+              {node.nodeCategory === 'agent' ? agent?.kind || agent?.type || 'agent' : node.nodeCategory}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+function NodeDetails({ node, agent, knowledgeBase }: {
+  node: WorkflowNode
+  agent?: RegistryAgent
+  knowledgeBase?: string
+}) {
+  return (
+    <div className="space-y-3 text-xs">
+      <div>
+        <p className="font-medium text-sm">{agent?.name || node.label}</p>
+        <p className="text-[10px] text-muted-foreground font-mono">{node.id}</p>
+      </div>
+      {agent ? (
+        <>
+          {agent.purpose && <p className="text-muted-foreground leading-relaxed">{agent.purpose}</p>}
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            <span className="text-muted-foreground">Agent ID</span><span className="font-mono text-[10px] break-all">{agent.agent_id}</span>
+            <span className="text-muted-foreground">Type</span><span>{agent.type}{agent.kind ? ` · ${agent.kind}` : ''}</span>
+            {agent.model && <><span className="text-muted-foreground">Model</span><span>{agent.model}</span></>}
+            {agent.domain && <><span className="text-muted-foreground">Domain</span><span>{agent.domain}</span></>}
+            {knowledgeBase && <><span className="text-muted-foreground">Knowledge base</span><span>{knowledgeBase}</span></>}
+          </div>
+          {agent.keywords.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {agent.keywords.map(k => <Badge key={k} variant="outline" className="text-[9px] px-1.5 py-0">{k}</Badge>)}
+            </div>
+          )}
+          <div>
+            <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Update history</p>
+            {agent.update_history.length === 0 ? (
+              <p className="text-muted-foreground">No updates recorded</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {agent.update_history.map((h, i) => (
+                  <li key={i} className="border-l border-border pl-2">
+                    {h.date && <p className="text-[10px] text-muted-foreground">{formatDate(h.date)}</p>}
+                    <p>{h.reason}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      ) : (
+        <p className="text-muted-foreground">{node.nodeCategory === 'agent' ? 'No matching agent in workflow_state.json' : `${node.type} node`}</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Agent graph viewer, with an editor for admins. Edits are validated live
+ * and saved as a new workflow version; older versions can be restored.
+ */
+export function WorkflowView({ registry, role, onSaved }: WorkflowViewProps) {
+  const [current, setCurrent] = React.useState<WorkflowVersion | null>(null)
+  const [versions, setVersions] = React.useState<WorkflowVersionSummary[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const [draft, setDraft] = React.useState<WorkflowGraph | null>(null)
+  const [selectedId, setSelectedId] = React.useState<string | null>(null)
+  const [newAgentKey, setNewAgentKey] = React.useState('')
+  const [edgeSource, setEdgeSource] = React.useState('')
+  const [edgeTarget, setEdgeTarget] = React.useState('')
+  const [note, setNote] = React.useState('')
+  const [saving, setSaving] = React.useState(false)
+
+  const canEdit = hasPermission(role, 'workflow.edit')
+  const agents = React.useMemo(() => registry?.agents ?? [], [registry])
+
+  const load = React.useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/workflow')
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        setCurrent(data.workflow)
+        setVersions(Array.isArray(data.versions) ? data.versions : [])
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load workflow')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    load()
+  }, [load])
+
+  // Leave edit mode if the role changes away from admin
+  React.useEffect(() => {
+    if (!canEdit) setDraft(null)
+  }, [canEdit])
+
+  const graph = draft ?? current
+  const issues = React.useMemo(() => (graph ? validateWorkflow(graph, agents) : []), [graph, agents])
+  const selected = graph?.nodes.find(n => n.id === selectedId) || null
+  const selectedAgent = agents.find(a => a.key === selected?.agent)
+
+  const addableAgents = agents.filter(a => a.type !== 'manager' && !draft?.nodes.some(n => n.agent === a.key))
+
+  const startEditing = () => {
+    if (!current) return
+    setDraft({ nodes: [...current.nodes], edges: [...current.edges] })
+    setNote('')
+  }
+
+  const addNode = () => {
+    const agent = agents.find(a => a.key === newAgentKey)
+    if (!draft || !agent) return
+    let id = `${agent.key}_node`
+    for (let i = 2; draft.nodes.some(n => n.id === id); i++) id = `${agent.key}_node_${i}`
+    setDraft({ ...draft, nodes: [...draft.nodes, { id, type: 'Agent', label: agent.name, nodeCategory: 'agent', agent: agent.key }] })
+    setSelectedId(id)
+    setNewAgentKey('')
+  }
+
+  const removeNode = (id: string) => {
+    if (!draft) return
+    setDraft({
+      nodes: draft.nodes.filter(n => n.id !== id),
+      edges: draft.edges.filter(e => e.source !== id && e.target !== id),
+    })
+    setSelectedId(null)
+  }
+
+  const addEdge = () => {
+    if (!draft || !edgeSource || !edgeTarget) return
+    if (draft.edges.some(e => e.source === edgeSource && e.target === edgeTarget)) return
+    setDraft({ ...draft, edges: [...draft.edges, { source: edgeSource, target: edgeTarget }] })
+    setEdgeTarget('')
+  }
+
+  const removeEdge = (edge: WorkflowEdge) => {
+    if (!draft) return
+    setDraft({ ...draft, edges: draft.edges.filter(e => e !== edge) })
+  }
+
+  const post = async (body: Record<string, unknown>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/workflow', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        setDraft(null)
+        setNote('')
+        await load()
+        onSaved?.()
+      } else {
+        const details = Array.isArray(data.issues) ? data.issues.map((i: WorkflowIssue) => i.message).join('; ') : data.details
+        setError(details ? `${data.error}: ${details}` : data.error || 'Failed to save workflow')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const nodeName = (id: string) => {
+    const node = graph?.nodes.find(n => n.id === id)
+    return agents.find(a => a.key === node?.agent)?.name || node?.label || id
+  }
+
+  if (loading && !current) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground p-4">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading workflow...
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-4 min-h-0">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="text-[10px]">
+          {draft ? 'Unsaved draft' : `Version ${current?.version ?? 0}`}
+        </Badge>
+        {issues.length === 0 ? (
+          <span className="flex items-center gap-1 text-[11px] text-green-400">
+            <ShieldCheck className="h-3.5 w-3.5" /> Valid
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-[11px] text-red-400">
+            <AlertTriangle className="h-3.5 w-3.5" /> {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {!draft && canEdit && (
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={startEditing} disabled={!current}>
+              <Pencil className="h-3 w-3 mr-1" /> Edit
+            </Button>
+          )}
+          {!canEdit && <span className="text-[11px] text-muted-foreground">Only admins can edit</span>}
+          {draft && (
+            <>
+              <Input
+                placeholder="Change note"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                className="h-8 text-xs w-48 bg-input border-border"
+              />
+              <Button size="sm" className="h-8 text-xs" onClick={() => post({ ...draft, note })} disabled={saving || issues.length > 0}>
+                {saving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Save className="h-3 w-3 mr-1" />} Save version
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setDraft(null)} disabled={saving}>
+                <X className="h-3 w-3 mr-1" /> Discard
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* Edit controls */}
+      {draft && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-border p-2" style={{ backgroundColor: 'hsl(20 25% 7%)' }}>
+          <select value={newAgentKey} onChange={e => setNewAgentKey(e.target.value)} className={SELECT_CLASS}>
+            <option value="">Add sub-agent...</option>
+            {addableAgents.map(a => <option key={a.key} value={a.key}>{a.name}</option>)}
+          </select>
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={addNode} disabled={!newAgentKey}>
+            <Plus className="h-3 w-3 mr-1" /> Node
+          </Button>
+          <span className="mx-2 h-5 w-px bg-border" />
+          <select value={edgeSource} onChange={e => setEdgeSource(e.target.value)} className={SELECT_CLASS}>
+            <option value="">From...</option>
+            {draft.nodes.filter(n => n.nodeCategory !== 'end').map(n => <option key={n.id} value={n.id}>{nodeName(n.id)}</option>)}
+          </select>
+          <span className="text-xs text-muted-foreground">→</span>
+          <select value={edgeTarget} onChange={e => setEdgeTarget(e.target.value)} className={SELECT_CLASS}>
+            <option value="">To...</option>
+            {draft.nodes.filter(n => n.nodeCategory !== 'input' && n.id !== edgeSource).map(n => <option key={n.id} value={n.id}>{nodeName(n.id)}</option>)}
+          </select>
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={addEdge} disabled={!edgeSource || !edgeTarget}>
+            <Plus className="h-3 w-3 mr-1" /> Edge
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[1fr_300px] gap-4">
+        {/* Graph + issues */}
+        <div className="min-h-0 flex flex-col gap-3">
+          <div className="overflow-auto rounded-md border border-border" style={{ backgroundColor: 'hsl(20 25% 7%)' }}>
+            {graph && <GraphCanvas graph={graph} agents={agents} issues={issues} selectedId={selectedId} onSelect={setSelectedId} />}
+          </div>
+          {issues.length > 0 && (
+            <ul className="space-y-1 text-xs text-red-400">
+              {issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-1.5">
+                  <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" /> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {draft && (
+            <div>
+              <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Edges</p>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                {draft.edges.map((edge, i) => (
+                  <li key={i} className="flex items-center gap-2 text-xs rounded px-2 py-1 hover:bg-secondary/50">
+                    <span className="truncate">{nodeName(edge.source)} → {nodeName(edge.target)}</span>
+                    <Button variant="ghost" size="sm" className="ml-auto h-6 w-6 p-0" onClick={() => removeEdge(edge)} title="Remove edge">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Details + versions */}
+        <ScrollArea className="min-h-0 rounded-md border border-border">
+          <div className="p-3 space-y-5">
+            {selected ? (
+              <div className="space-y-3">
+                <NodeDetails
+                  node={selected}
+                  agent={selectedAgent}
+                  knowledgeBase={registry?.knowledge_bases.find(kb => kb.rag_id === selectedAgent?.rag_id)?.label}
+                />
+                {draft && selected.nodeCategory === 'agent' && (
+                  <Button variant="outline" size="sm" className="h-7 text-xs text-red-400" onClick={() => removeNode(selected.id)}>
+                    <Trash2 className="h-3 w-3 mr-1" /> Remove node
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Select a node to see its agent details.</p>
+            )}
+
+            <div>
+              <p className="flex items-center gap-1.5 text-[10px] text-muted-foreground uppercase tracking-wider mb-2">
+                <History className="h-3 w-3" /> Versions
+              </p>
+              <ul className="space-y-2">
+                {versions.map(v => (
+                  <li key={v.version} className={cn('text-xs border-l pl-2', v.version === current?.version ? 'border-amber-600' : 'border-border')}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{v.version}</span>
+                      {v.version === current?.version && <Badge variant="outline" className="text-[9px] px-1.5 py-0">current</Badge>}
+                      {canEdit && !draft && v.version !== current?.version && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-auto h-6 px-2 text-[10px]"
+                          onClick={() => post({ action: 'restore', version: v.version })}
+                          disabled={saving}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" /> Restore
+                        </Button>
+                      )}
+                    </div>
+                    {v.saved_at && <p className="text-[10px] text-muted-foreground">{formatDate(v.saved_at)}{v.saved_by ? ` · ${v.saved_by}` : ''}</p>}
+                    {v.note && <p className="text-muted-foreground">{v.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
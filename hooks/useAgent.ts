@@ -13,7 +13,7 @@
  * ```
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
 import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/lib/aiAgent'
 
@@ -44,10 +44,12 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  signal?: AbortSignal
 }
 
 interface UseAgentResult {
   success: boolean
+  cancelled?: boolean
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
@@ -122,6 +124,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
     const { message, agentId, userId, sessionId } = callOptions
@@ -140,16 +143,29 @@ export const useAgent = (options: UseAgentOptions = {}) => {
     setLoading(true)
     setError(null)
 
+    // One controller per call; an external signal also aborts it
+    const controller = new AbortController()
+    abortRef.current = controller
+    const abortFromCaller = () => controller.abort()
+    if (callOptions.signal?.aborted) controller.abort()
+    callOptions.signal?.addEventListener('abort', abortFromCaller, { once: true })
+
     try {
       // Use the centralized callAIAgent which handles normalization
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal: controller.signal,
       })
 
       setLastResult(result)
       setResponse(result.response)
 
+      // Cancelled by the user — not an error worth reporting
+      if (result.status === 'cancelled') {
+        return { success: false, cancelled: true, response: result.response }
+      }
+
       if (!result.success) {
         const errorDetails = createErrorDetails(
           'api_error',
@@ -231,10 +247,16 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       }
 
     } finally {
+      callOptions.signal?.removeEventListener('abort', abortFromCaller)
+      if (abortRef.current === controller) abortRef.current = null
       setLoading(false)
     }
   }, [options])
 
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
   const requestFix = useCallback(() => {
     if (error) {
       requestFixFromParent(error)
@@ -251,6 +273,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
     error,
     response,
     lastResult,
+    cancel,
     requestFix,
     clearError,
   }
@@ -266,14 +289,19 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 export const callAgentAPI = async (
   message: string,
   agentId: string,
-  options?: { userId?: string; sessionId?: string }
+  options?: { userId?: string; sessionId?: string; signal?: AbortSignal }
 ): Promise<UseAgentResult> => {
   try {
     const result = await callAIAgent(message, agentId, {
       user_id: options?.userId,
       session_id: options?.sessionId,
+      signal: options?.signal,
     })
 
+    if (result.status === 'cancelled') {
+      return { success: false, cancelled: true, response: result.response }
+    }
+
     if (!result.success || result.response.status === 'error') {
       const errorDetails = createErrorDetails(
         'api_error',
@@ -0,0 +1,60 @@
+/**
+ * useAgentRegistry Hook
+ *
+ * Loads agents, knowledge bases and the agent graph from GET /api/registry.
+ *
+ * @example
+ * ```tsx
+ * const { registry, manager, loading, error } = useAgentRegistry()
+ * registry?.knowledge_bases.map(kb => kb.label)
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { AgentRegistry, RegistryAgent } from '@/lib/agentRegistry'
+
+export type { AgentRegistry, RegistryAgent }
+export type { RegistryKnowledgeBase, WorkflowGraph, WorkflowNode, WorkflowEdge } from '@/lib/agentRegistry'
+
+export function useAgentRegistry() {
+  const [registry, setRegistry] = useState<AgentRegistry | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/registry')
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        const { success: _, ...loaded } = data
+        setRegistry(loaded as AgentRegistry)
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load agent registry')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const manager = useMemo(() => registry?.agents.find(a => a.type === 'manager'), [registry])
+
+  const agentNames = useMemo(
+    () => Object.fromEntries((registry?.agents ?? []).map(a => [a.agent_id, a.name])) as Record<string, string>,
+    [registry]
+  )
+
+  return { registry, manager, agentNames, loading, error, reload }
+}
@@ -0,0 +1,144 @@
+/**
+ * useAuditLog Hook
+ *
+ * Reads one page of the server-side audit log (GET /api/audit) for the given
+ * filters. The free-text search is debounced; everything else reloads at once.
+ * verifyChain() checks the log's hash chain (GET /api/audit/verify) and
+ * exportCsv() downloads every matching entry. The routes check the signed-in
+ * user's permissions, and only reviewers get the pre-review drafts
+ * (entry.review).
+ *
+ * @example
+ * ```tsx
+ * const { entries, total, loading, reload } = useAuditLog({ status: 'flagged', page: 1 })
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { AuditChainVerification, AuditEntry } from '@/lib/auditStore'
+
+export type { AuditChainVerification, AuditAeReport, AuditEntry, AuditRecord, AuditReview } from '@/lib/auditStore'
+
+export interface AuditLogFilters {
+  q?: string
+  /** A single status, or 'all' */
+  status?: string
+  domain?: string
+  from?: string
+  to?: string
+  page?: number
+  page_size?: number
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+export function auditQueryString(filters: AuditLogFilters): string {
+  const params = new URLSearchParams()
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '' && value !== 'all') params.set(key, String(value))
+  }
+  set('q', filters.q?.trim())
+  set('status', filters.status)
+  set('domain', filters.domain)
+  set('from', filters.from)
+  set('to', filters.to)
+  set('page', filters.page)
+  set('page_size', filters.page_size)
+  return params.toString()
+}
+
+export function useAuditLog(filters: AuditLogFilters, enabled = true) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState(filters.q || '')
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null)
+  const [verifying, setVerifying] = useState(false)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(filters.q || ''), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [filters.q])
+
+  const queryString = auditQueryString({ ...filters, q: search })
+  const exportQuery = auditQueryString({ ...filters, q: search, page: undefined, page_size: undefined })
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper(`/api/audit?${queryString}`)
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        setEntries(Array.isArray(data.entries) ? data.entries : [])
+        setTotal(data.total || 0)
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load audit log')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [queryString])
+
+  useEffect(() => {
+    if (enabled) reload()
+  }, [enabled, reload])
+
+  const verifyChain = useCallback(async () => {
+    setVerifying(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/audit/verify')
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        const { success: _, ...result } = data
+        setVerification(result as AuditChainVerification)
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to verify audit log')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setVerifying(false)
+    }
+  }, [])
+
+  const exportCsv = useCallback(async () => {
+    setError(null)
+    try {
+      const response = await fetchWrapper(`/api/audit?${exportQuery}&format=csv`)
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || `Export failed (status ${response.status})`)
+        return
+      }
+      const filename = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] || 'audit_log.csv'
+      const url = URL.createObjectURL(await response.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    }
+  }, [exportQuery])
+
+  return { entries, total, loading, error, reload, queryString, verification, verifying, verifyChain, exportCsv }
+}
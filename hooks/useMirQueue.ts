@@ -0,0 +1,72 @@
+/**
+ * useMirQueue Hook
+ *
+ * Medical information requests (GET /api/mir) visible to the signed-in user —
+ * the whole queue for Medical Affairs, a rep's own requests otherwise — and
+ * updateStatus() to move a request along.
+ *
+ * @example
+ * ```tsx
+ * const { requests, updateStatus } = useMirQueue('open')
+ * await updateStatus(requests[0].id, 'in_progress', 'Assigned to MSL')
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { MedicalInfoRequest, MirStatus } from '@/lib/medicalInfoRequests'
+
+export type { MedicalInfoRequest, MirChannel, MirStatus, MirStatusChange } from '@/lib/medicalInfoRequests'
+
+export function useMirQueue(status: MirStatus | 'all', enabled = true) {
+  const [requests, setRequests] = useState<MedicalInfoRequest[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper(status === 'all' ? '/api/mir' : `/api/mir?status=${status}`)
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        setRequests(Array.isArray(data.requests) ? data.requests : [])
+      } else {
+        setRequests([])
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load medical information requests')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    if (enabled) reload()
+  }, [enabled, reload])
+
+  /** Returns an error message, or null once the change is stored and the queue reloaded. */
+  const updateStatus = useCallback(async (id: string, next: MirStatus, note?: string): Promise<string | null> => {
+    try {
+      const response = await fetchWrapper('/api/mir', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, status: next, ...(note ? { note } : {}) }),
+      })
+      if (!response) return 'No response from server'
+      const data = await response.json()
+      if (!data.success) return data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to update request'
+      await reload()
+      return null
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Network error'
+    }
+  }, [reload])
+
+  return { requests, loading, error, reload, updateStatus }
+}
@@ -0,0 +1,58 @@
+/**
+ * useReviewOutcomes Hook
+ *
+ * Compliance review outcomes for the chat session's flagged and redacted
+ * answers (GET /api/reviews/outcomes), keyed by query_id. Polls while any
+ * of `queryIds` (the session's flagged and redacted answers) has no
+ * decision yet.
+ *
+ * @example
+ * ```tsx
+ * const { outcomes } = useReviewOutcomes(sessionId, flaggedQueryIds)
+ * outcomes[msg.queryId]?.status // 'pending' | 'approved' | 'rejected' | 'released'
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { ReviewOutcome } from '@/lib/reviewQueue'
+
+export type { ReviewOutcome }
+
+const POLL_INTERVAL_MS = 30_000
+
+export function useReviewOutcomes(sessionId: string, queryIds: string[]) {
+  const [outcomes, setOutcomes] = useState<Record<string, ReviewOutcome>>({})
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetchWrapper(`/api/reviews/outcomes?session_id=${encodeURIComponent(sessionId)}`)
+      if (!response) return
+      const data = await response.json()
+      if (data.success && Array.isArray(data.outcomes)) {
+        const byQuery: Record<string, ReviewOutcome> = {}
+        for (const outcome of data.outcomes as ReviewOutcome[]) {
+          if (outcome.query_id) byQuery[outcome.query_id] = outcome
+        }
+        setOutcomes(byQuery)
+      }
+    } catch {
+      // Outcomes are informational; the next poll retries
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    setOutcomes({})
+  }, [sessionId])
+
+  const watching = queryIds.some(id => !outcomes[id] || outcomes[id].status === 'pending')
+
+  useEffect(() => {
+    if (!watching) return
+    reload()
+    const timer = setInterval(reload, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [watching, reload])
+
+  return { outcomes, reload }
+}
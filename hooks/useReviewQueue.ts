@@ -0,0 +1,75 @@
+/**
+ * useReviewQueue Hook
+ *
+ * The compliance review queue (GET /api/reviews) for the signed-in user, and
+ * decide() to approve, reject or edit-and-release an answer.
+ *
+ * @example
+ * ```tsx
+ * const { items, decide } = useReviewQueue('pending')
+ * await decide(items[0].entry.id, 'rejected', { reason: 'Off-label claim' })
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { ReviewDecisionType, ReviewItem, ReviewState } from '@/lib/reviewQueue'
+
+export type { ReviewDecision, ReviewDecisionType, ReviewItem, ReviewState } from '@/lib/reviewQueue'
+
+export function useReviewQueue(state: ReviewState, enabled = true) {
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper(`/api/reviews?state=${state}`)
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        setItems(Array.isArray(data.items) ? data.items : [])
+      } else {
+        setItems([])
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load review queue')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [state])
+
+  useEffect(() => {
+    if (enabled) reload()
+  }, [enabled, reload])
+
+  /** Returns an error message, or null once the decision is stored and the queue reloaded. */
+  const decide = useCallback(async (
+    entryId: string,
+    decision: ReviewDecisionType,
+    details: { reason?: string; answer?: string } = {}
+  ): Promise<string | null> => {
+    try {
+      const response = await fetchWrapper('/api/reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entry_id: entryId, decision, ...details }),
+      })
+      if (!response) return 'No response from server'
+      const data = await response.json()
+      if (!data.success) return data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to record decision'
+      await reload()
+      return null
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Network error'
+    }
+  }, [reload])
+
+  return { items, loading, error, reload, decide }
+}
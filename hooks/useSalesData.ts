@@ -0,0 +1,70 @@
+/**
+ * useSalesData Hook
+ *
+ * What the structured sales table holds and the files loaded into it
+ * (GET /api/sales), and load() to add a CSV or XLSX file.
+ *
+ * @example
+ * ```tsx
+ * const { catalog, load } = useSalesData()
+ * const error = await load(file)
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { SalesCatalog, SalesLoad } from '@/lib/salesData'
+
+export type { SalesCatalog, SalesComputation, SalesLoad } from '@/lib/salesData'
+
+export function useSalesData(enabled = true) {
+  const [catalog, setCatalog] = useState<SalesCatalog | null>(null)
+  const [loads, setLoads] = useState<SalesLoad[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/sales')
+      if (!response) {
+        setError('No response from server')
+        return
+      }
+      const data = await response.json()
+      if (data.success) {
+        setCatalog(data.catalog)
+        setLoads(Array.isArray(data.loads) ? data.loads : [])
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load sales data')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (enabled) reload()
+  }, [enabled, reload])
+
+  /** Returns an error message, or null once the file is loaded and the summary reloaded. */
+  const load = useCallback(async (file: File): Promise<string | null> => {
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetchWrapper('/api/sales', { method: 'POST', body: formData })
+      if (!response) return 'No response from server'
+      const data = await response.json()
+      if (!data.success) return data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to load sales data'
+      await reload()
+      return null
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Network error'
+    }
+  }, [reload])
+
+  return { catalog, loads, loading, error, reload, load }
+}
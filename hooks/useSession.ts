@@ -0,0 +1,56 @@
+/**
+ * useSession Hook
+ *
+ * The signed-in user from GET /api/auth/session. Use `can(permission)` to
+ * hide or disable what the user's role may not do; the routes enforce the
+ * same permissions. Signed-out visitors are sent to /login.
+ *
+ * @example
+ * ```tsx
+ * const { user, role, can, signOut } = useSession()
+ * {can('audit.export') && <ExportButton />}
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import { DEFAULT_ROLE, hasPermission, type Permission, type UserRole } from '@/lib/roles'
+import type { AuthUser } from '@/lib/auth'
+
+export type { AuthUser, Permission, UserRole }
+
+export function useSession() {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchWrapper('/api/auth/session')
+      .then(response => response?.json())
+      .then(data => {
+        if (cancelled) return
+        if (data?.success && !data.user) {
+          window.location.href = `/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`
+          return
+        }
+        setUser(data?.user ?? null)
+        setLoading(false)
+      })
+      .catch(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const role: UserRole = user?.role ?? DEFAULT_ROLE
+  const can = useCallback((permission: Permission) => !!user && hasPermission(user.role, permission), [user])
+
+  const signOut = useCallback(async () => {
+    await fetchWrapper('/api/auth/logout', { method: 'POST' }).catch(() => undefined)
+    window.location.href = '/login'
+  }, [])
+
+  return { user, role, can, loading, signOut }
+}
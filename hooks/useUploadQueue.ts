@@ -0,0 +1,139 @@
+/**
+ * useUploadQueue Hook
+ *
+ * Knowledge base upload queue shared by every KB section on the page, so a
+ * batch keeps going while the user looks at another view. Files are
+ * validated as they are added and uploaded a few at a time; each item goes
+ * queued → uploading → training → done, or failed with the reason. Failed
+ * uploads can be retried; files that failed validation cannot. A file whose
+ * content is already in a knowledge base stops at duplicate until the user
+ * skips it, replaces the existing document or keeps both.
+ *
+ * @example
+ * ```tsx
+ * const uploads = useUploadQueue()
+ * uploads.enqueue(ragId, Array.from(e.dataTransfer.files))
+ * uploads.items.filter(i => i.status === 'failed').forEach(i => uploads.retry(i.id))
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  uploadAndTrainDocument,
+  validateFile,
+  type DuplicateChoice,
+  type UploadDuplicate,
+  type UploadResponse,
+} from '@/lib/ragKnowledgeBase'
+
+export type UploadStatus = 'queued' | 'uploading' | 'training' | 'done' | 'failed' | 'duplicate' | 'skipped'
+
+export interface UploadItem {
+  id: string
+  ragId: string
+  file: File
+  status: UploadStatus
+  /** Share of the file sent, 0..1 */
+  progress: number
+  error?: string
+  /** Outcome worth showing on a finished upload, e.g. the version it replaced */
+  note?: string
+  /** False for files that failed validation; retrying would fail the same way */
+  retryable: boolean
+  /** Documents with the same content, while the item waits at duplicate */
+  duplicates?: UploadDuplicate[]
+  /** The user's answer to the duplicate warning, sent with the retried upload */
+  duplicateChoice?: DuplicateChoice
+}
+
+/** Uploads in flight at once, across all knowledge bases */
+export const UPLOAD_CONCURRENCY = 3
+
+let nextId = 0
+
+function uploadNote(result: UploadResponse): string | undefined {
+  if (result.unchanged) return `Unchanged, same as version ${result.version}`
+  if (result.replacedVersion) return `Version ${result.version}, replaces version ${result.replacedVersion}`
+  return undefined
+}
+
+export function useUploadQueue(concurrency = UPLOAD_CONCURRENCY) {
+  const [items, setItems] = useState<UploadItem[]>([])
+  // Items already handed to an upload, so a re-run of the pump never starts one twice
+  const started = useRef(new Set<string>())
+
+  const patch = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }, [])
+
+  const run = useCallback(async (item: UploadItem) => {
+    patch(item.id, { status: 'uploading', progress: 0, error: undefined })
+    const result = await uploadAndTrainDocument(item.ragId, item.file, progress => {
+      patch(item.id, {
+        status: progress.phase,
+        progress: progress.total > 0 ? progress.loaded / progress.total : 0,
+      })
+    }, item.duplicateChoice)
+    started.current.delete(item.id)
+    patch(item.id, result.success
+      ? { status: 'done', progress: 1, note: uploadNote(result) }
+      : result.duplicates
+        ? { status: 'duplicate', progress: 0, duplicates: result.duplicates, error: result.error }
+        : { status: 'failed', error: result.error || 'Upload failed' })
+  }, [patch])
+
+  // Start queued items, oldest first, while there is room
+  useEffect(() => {
+    const active = items.filter(i => i.status === 'uploading' || i.status === 'training' || started.current.has(i.id)).length
+    const room = Math.max(0, concurrency - active)
+    items
+      .filter(i => i.status === 'queued' && !started.current.has(i.id))
+      .slice(0, room)
+      .forEach(item => {
+        started.current.add(item.id)
+        run(item)
+      })
+  }, [items, concurrency, run])
+
+  const enqueue = useCallback((ragId: string, files: File[]) => {
+    const added = files.map((file): UploadItem => {
+      const check = validateFile(file)
+      return {
+        id: `upload-${++nextId}`,
+        ragId,
+        file,
+        status: check.valid ? 'queued' : 'failed',
+        progress: 0,
+        ...(check.valid ? {} : { error: check.error }),
+        retryable: check.valid,
+      }
+    })
+    setItems(prev => [...prev, ...added])
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && item.status === 'failed' && item.retryable
+        ? { ...item, status: 'queued', progress: 0, error: undefined, note: undefined }
+        : item
+    ))
+  }, [])
+
+  /** Answer a duplicate warning: skip the file, or upload it replacing the duplicates or next to them */
+  const resolveDuplicate = useCallback((id: string, choice: DuplicateChoice | 'skip') => {
+    setItems(prev => prev.map(item =>
+      item.id !== id || item.status !== 'duplicate'
+        ? item
+        : choice === 'skip'
+          ? { ...item, status: 'skipped', note: 'Skipped, already in the knowledge base' }
+          : { ...item, status: 'queued', progress: 0, error: undefined, duplicateChoice: choice }
+    ))
+  }, [])
+
+  /** Drop done, failed and skipped items for one knowledge base */
+  const clearFinished = useCallback((ragId: string) => {
+    setItems(prev => prev.filter(item => item.ragId !== ragId || !(item.status === 'done' || item.status === 'failed' || item.status === 'skipped')))
+  }, [])
+
+  return { items, enqueue, retry, resolveDuplicate, clearFinished }
+}
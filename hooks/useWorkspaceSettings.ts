@@ -0,0 +1,68 @@
+/**
+ * useWorkspaceSettings Hook
+ *
+ * The workspace's settings from GET /api/workspace, shared by every user of
+ * the workspace. updateSettings() applies a change at once and saves it with
+ * PATCH /api/workspace (needs workflow.edit), reverting when the save fails.
+ *
+ * @example
+ * ```tsx
+ * const { settings, updateSettings } = useWorkspaceSettings()
+ * updateSettings({ orchestrationMode: 'parallel' })
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { WorkspaceSettings } from '@/lib/workspaceSettings'
+
+export type { WorkspaceSettings }
+
+/** Used until the server's settings load */
+const INITIAL_SETTINGS: WorkspaceSettings = {
+  orchestrationMode: process.env.NEXT_PUBLIC_ORCHESTRATION_MODE === 'parallel' ? 'parallel' : 'manager',
+}
+
+export function useWorkspaceSettings() {
+  const [settings, setSettings] = useState<WorkspaceSettings>(INITIAL_SETTINGS)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetchWrapper('/api/workspace')
+      if (!response) return
+      const data = await response.json()
+      if (data.success && data.settings) setSettings({ orchestrationMode: data.settings.orchestrationMode })
+    } catch {
+      // Keep the current values; the next reload retries
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const updateSettings = useCallback(async (patch: Partial<WorkspaceSettings>) => {
+    const previous = settings
+    setSettings({ ...settings, ...patch })
+    setError(null)
+    try {
+      const response = await fetchWrapper('/api/workspace', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      const data = response ? await response.json() : null
+      if (data?.success && data.settings) {
+        setSettings({ orchestrationMode: data.settings.orchestrationMode })
+        return
+      }
+      setError(data?.error || 'Failed to save workspace settings')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    }
+    setSettings(previous)
+  }, [settings])
+
+  return { settings, error, reload, updateSettings }
+}
@@ -0,0 +1,226 @@
+/**
+ * Adverse Event Detection and Intake (server-side)
+ *
+ * Any mention of a possible adverse event (AE) has to reach
+ * pharmacovigilance within a fixed window. The detector runs on every user
+ * query and every final answer and fires when one paragraph names a product,
+ * a symptom and a patient, e.g. "my patient broke out in a rash after the
+ * first dose". Terms live in adverse_events.json and can be edited without
+ * a rebuild; patient tokens from PHI redaction ([PATIENT_NAME_1]) count as a
+ * patient.
+ *
+ * A detection travels with the task (RegisteredTask.adverse_events), lands
+ * in its audit record, and is returned with the answer so the chat can
+ * interrupt with the intake form. Filed reports are appended to
+ * DATA_DIR/pharmacovigilance/ae-reports.jsonl and never edited; the audit
+ * log shows them against the query they came from.
+ */
+
+import bundledRules from '@/adverse_events.json'
+import { readConfigFile } from '@/lib/configFiles'
+import { findTerms } from '@/lib/complianceRules'
+import { appendJsonLine, readJsonLines } from '@/lib/dataStore'
+import type { AuthUser } from '@/lib/auth'
+
+export interface AdverseEventRules {
+  /** Hours from detection until the report is due */
+  reporting_window_hours: number
+  /** Brand and generic names; any of them counts as the product */
+  products: string[]
+  /** Words that stand in for a product, e.g. "medication" */
+  product_terms: string[]
+  symptoms: string[]
+  /** Phrases that place the symptom on a specific person */
+  patient_context: string[]
+}
+
+export type AdverseEventSource = 'query' | 'answer'
+
+export interface AdverseEventSignal {
+  source: AdverseEventSource
+  /** Product names or terms found, named products first */
+  products: string[]
+  symptoms: string[]
+  patient_context: string[]
+  /** The paragraph that fired, shortened */
+  excerpt: string
+  detected_at: string
+}
+
+/** Who first reported the event to the rep */
+export const AE_REPORTER_TYPES = ['hcp', 'patient', 'caregiver', 'field_rep', 'other'] as const
+
+export type AeReporterType = (typeof AE_REPORTER_TYPES)[number]
+
+export interface AdverseEventReport {
+  id: string
+  created_at: string
+  /** The query the AE came up in; unset for reports filed without a detection */
+  query_id?: string
+  session_id?: string
+  source?: AdverseEventSource
+  product: string
+  event: string
+  /** YYYY-MM-DD the event happened, as far as the reporter knows */
+  event_date: string
+  reporter_type: AeReporterType
+  narrative?: string
+  /** When the AE was first detected, which starts the reporting window */
+  detected_at: string
+  due_by: string
+  /** Filed after due_by */
+  late: boolean
+  user_id: string
+  user_name: string
+}
+
+export class AdverseEventReportError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'AdverseEventReportError'
+    this.status = status
+  }
+}
+
+const AE_REPORTS_LOG = 'pharmacovigilance/ae-reports.jsonl'
+const PATIENT_TOKEN = /\[PATIENT_NAME_\d+\]/g
+const EXCERPT_LENGTH = 300
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter(v => typeof v === 'string' && v.trim()) : []
+}
+
+export async function loadAdverseEventRules(): Promise<AdverseEventRules> {
+  const rules = await readConfigFile<Partial<AdverseEventRules>>('adverse_events.json', bundledRules as Partial<AdverseEventRules>)
+  const hours = Number(rules.reporting_window_hours)
+  return {
+    reporting_window_hours: hours > 0 ? hours : 24,
+    products: strings(rules.products),
+    product_terms: strings(rules.product_terms),
+    symptoms: strings(rules.symptoms),
+    patient_context: strings(rules.patient_context),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>()
+  return values.filter(v => {
+    const key = v.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function paragraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)
+}
+
+/**
+ * The first paragraph of `text` with a product, a symptom and a patient, or
+ * null when there is none.
+ */
+export function detectAdverseEvent(text: string, source: AdverseEventSource, rules: AdverseEventRules): AdverseEventSignal | null {
+  for (const paragraph of paragraphs(text || '')) {
+    const symptoms = findTerms(paragraph, rules.symptoms)
+    if (symptoms.length === 0) continue
+    const products = [...findTerms(paragraph, rules.products), ...findTerms(paragraph, rules.product_terms)]
+    if (products.length === 0) continue
+    const patients = [
+      ...findTerms(paragraph, rules.patient_context).map(m => m.value),
+      ...(paragraph.match(PATIENT_TOKEN) || []),
+    ]
+    if (patients.length === 0) continue
+
+    return {
+      source,
+      products: unique(products.map(m => m.value)),
+      symptoms: unique(symptoms.map(m => m.value)),
+      patient_context: unique(patients),
+      excerpt: paragraph.length > EXCERPT_LENGTH ? `${paragraph.slice(0, EXCERPT_LENGTH)}…` : paragraph,
+      detected_at: new Date().toISOString(),
+    }
+  }
+  return null
+}
+
+/** Audit flag for a detection, e.g. `AE_DETECTED: Possible adverse event in query (medication + rash + my patient)` */
+export function adverseEventFlag(signal: AdverseEventSignal): string {
+  return `AE_DETECTED: Possible adverse event in ${signal.source} (${[
+    signal.products[0],
+    signal.symptoms[0],
+    signal.patient_context[0],
+  ].join(' + ')})`
+}
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+export async function listAdverseEventReports(): Promise<AdverseEventReport[]> {
+  return readJsonLines<AdverseEventReport>(AE_REPORTS_LOG)
+}
+
+/**
+ * File an AE report. `detected_at` is when the AE was first seen, from the
+ * audit log for detected AEs; without it the window starts now. Throws
+ * AdverseEventReportError with the HTTP status to answer with.
+ */
+export async function fileAdverseEventReport(
+  input: {
+    query_id?: string
+    session_id?: string
+    source?: AdverseEventSource
+    product?: string
+    event?: string
+    event_date?: string
+    reporter_type?: string
+    narrative?: string
+  },
+  user: AuthUser,
+  detected_at?: string
+): Promise<AdverseEventReport> {
+  const product = input.product?.trim() || ''
+  const event = input.event?.trim() || ''
+  const eventDate = input.event_date?.trim() || ''
+  if (!product) throw new AdverseEventReportError('The product is required', 400)
+  if (!event) throw new AdverseEventReportError('The event is required', 400)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(eventDate) || isNaN(new Date(eventDate).getTime())) {
+    throw new AdverseEventReportError('The event date must be a YYYY-MM-DD date', 400)
+  }
+  if (new Date(eventDate).getTime() > Date.now()) throw new AdverseEventReportError('The event date is in the future', 400)
+  const reporterType = AE_REPORTER_TYPES.find(t => t === input.reporter_type)
+  if (!reporterType) throw new AdverseEventReportError(`The reporter type must be one of ${AE_REPORTER_TYPES.join(', ')}`, 400)
+
+  const rules = await loadAdverseEventRules()
+  const now = new Date()
+  const detectedAt = detected_at && new Date(detected_at).getTime() <= now.getTime() ? detected_at : now.toISOString()
+  const dueBy = new Date(new Date(detectedAt).getTime() + rules.reporting_window_hours * 60 * 60 * 1000)
+
+  const report: AdverseEventReport = {
+    id: `AE-${now.getTime().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`,
+    created_at: now.toISOString(),
+    ...(input.query_id ? { query_id: input.query_id.slice(0, 100) } : {}),
+    ...(input.session_id ? { session_id: input.session_id.slice(0, 200) } : {}),
+    ...(input.source === 'query' || input.source === 'answer' ? { source: input.source } : {}),
+    product: product.slice(0, 200),
+    event: event.slice(0, 2000),
+    event_date: eventDate,
+    reporter_type: reporterType,
+    ...(input.narrative?.trim() ? { narrative: input.narrative.trim().slice(0, 5000) } : {}),
+    detected_at: detectedAt,
+    due_by: dueBy.toISOString(),
+    late: now.getTime() > dueBy.getTime(),
+    user_id: user.id,
+    user_name: user.name,
+  }
+  await appendJsonLine(AE_REPORTS_LOG, report)
+  return report
+}
@@ -0,0 +1,255 @@
+/**
+ * Agent Response Recorder (server-side)
+ *
+ * Record: with LYZR_RECORD=1, every agent task that finishes is stored with
+ * the request that started it and the poll response exactly as upstream sent
+ * it (DATA_DIR/recordings/<id>.json). Nothing is parsed or normalized first,
+ * so a response that breaks parsing is kept byte for byte.
+ *
+ * Replay: LYZR_BACKEND=replay answers agent tasks from those recordings,
+ * matched on agent_id and message. Recordings copied into
+ * fixtures/agent-recordings/ (see scripts/promote-recording.mjs) are
+ * replayed too, and become regression fixtures checked into the repo.
+ * Requests with no recording fail with 404. RAG and scheduler calls go to
+ * the emulator.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { configDir } from '@/lib/configFiles'
+import { createJson, listFiles, readJson } from '@/lib/dataStore'
+import { emulatorFetch, EMULATOR_HOSTS } from '@/lib/lyzrEmulator'
+
+export interface RecordedRequest {
+  agent_id: string
+  message: string
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+}
+
+export interface AgentRecording {
+  recording_id: string
+  /** sha256 of agent_id and message; replay looks recordings up by it */
+  match_key: string
+  recorded_at: string
+  backend: string
+  task_id: string
+  request: RecordedRequest
+  /** HTTP status of the final poll */
+  status: number
+  /** Final poll body, verbatim */
+  raw_response: string
+}
+
+export type AgentRecordingSummary = Omit<AgentRecording, 'raw_response'> & { source: 'recording' | 'fixture' }
+
+const RECORDINGS_DIR = 'recordings'
+const FIXTURES_DIR = path.join('fixtures', 'agent-recordings')
+
+export function isRecordingEnabled(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.LYZR_RECORD || '').toLowerCase())
+}
+
+export function recordingMatchKey(agentId: string, message: string): string {
+  return createHash('sha256').update(`${agentId}\n${message.trim()}`).digest('hex')
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+interface PendingRecording {
+  request: RecordedRequest
+  backend: string
+}
+
+const globalForRecorder = globalThis as unknown as { __agentRecorderPending?: Map<string, PendingRecording> }
+
+function pendingRequests(): Map<string, PendingRecording> {
+  return globalForRecorder.__agentRecorderPending || (globalForRecorder.__agentRecorderPending = new Map())
+}
+
+function parseBody(init?: RequestInit): any {
+  if (typeof init?.body !== 'string') return {}
+  try {
+    return JSON.parse(init.body)
+  } catch {
+    return {}
+  }
+}
+
+async function saveRecording(task_id: string, pending: PendingRecording, status: number, raw: string): Promise<void> {
+  const match_key = recordingMatchKey(pending.request.agent_id, pending.request.message)
+  const recorded_at = new Date().toISOString()
+  const recording: AgentRecording = {
+    recording_id: `${recorded_at.replace(/[:.]/g, '-')}-${match_key.slice(0, 12)}`,
+    match_key,
+    recorded_at,
+    backend: pending.backend,
+    task_id,
+    request: pending.request,
+    status,
+    raw_response: raw,
+  }
+  await createJson(`${RECORDINGS_DIR}/${recording.recording_id}.json`, recording)
+}
+
+/**
+ * Wrap a backend fetch so finished agent tasks are recorded. Submissions are
+ * remembered by task_id until a poll returns something other than
+ * "processing"; that response is stored and passed on untouched.
+ */
+export function withRecording(
+  backendName: string,
+  taskUrl: string,
+  fetchImpl: (input: string, init?: RequestInit) => Promise<Response>
+): (input: string, init?: RequestInit) => Promise<Response> {
+  return async (input, init) => {
+    const response = await fetchImpl(input, init)
+    const method = (init?.method || 'GET').toUpperCase()
+    try {
+      if (method === 'POST' && input === taskUrl && response.ok) {
+        const body = parseBody(init)
+        const { task_id } = await response.clone().json()
+        if (task_id && body.agent_id && body.message) {
+          pendingRequests().set(task_id, {
+            backend: backendName,
+            request: {
+              agent_id: body.agent_id,
+              message: body.message,
+              user_id: body.user_id,
+              session_id: body.session_id,
+              ...(Array.isArray(body.assets) && body.assets.length > 0 ? { assets: body.assets } : {}),
+            },
+          })
+        }
+      } else if (method === 'GET' && input.startsWith(`${taskUrl}/`)) {
+        const task_id = input.slice(taskUrl.length + 1)
+        const pending = pendingRequests().get(task_id)
+        if (pending) {
+          const raw = await response.clone().text()
+          let status: unknown
+          try {
+            status = JSON.parse(raw)?.status
+          } catch {
+            // Unparseable bodies are exactly what we want to keep
+          }
+          if (status !== 'processing') {
+            pendingRequests().delete(task_id)
+            await saveRecording(task_id, pending, response.status, raw)
+          }
+        }
+      }
+    } catch (error) {
+      // Recording must never break the request it observes
+      console.error('[agentRecorder] failed to record', error)
+    }
+    return response
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+async function readFixtures(): Promise<AgentRecording[]> {
+  const dir = path.join(configDir(), FIXTURES_DIR)
+  let files: string[]
+  try {
+    files = (await fs.readdir(dir)).filter(f => f.endsWith('.json')).sort()
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return []
+    throw error
+  }
+  const fixtures: AgentRecording[] = []
+  for (const file of files) {
+    fixtures.push(JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')))
+  }
+  return fixtures
+}
+
+export async function getRecording(recordingId: string): Promise<AgentRecording | null> {
+  if (!/^[\w-]+$/.test(recordingId)) return null
+  const recorded = await readJson<AgentRecording | null>(`${RECORDINGS_DIR}/${recordingId}.json`, null)
+  return recorded || (await readFixtures()).find(f => f.recording_id === recordingId) || null
+}
+
+/** Recordings newest first, then checked-in fixtures. */
+export async function listRecordings(): Promise<AgentRecordingSummary[]> {
+  const summaries: AgentRecordingSummary[] = []
+  for (const file of (await listFiles(RECORDINGS_DIR)).filter(f => f.endsWith('.json')).reverse()) {
+    const recording = await readJson<AgentRecording | null>(`${RECORDINGS_DIR}/${file}`, null)
+    if (recording) {
+      const { raw_response: _, ...summary } = recording
+      summaries.push({ ...summary, source: 'recording' })
+    }
+  }
+  for (const fixture of await readFixtures()) {
+    const { raw_response: _, ...summary } = fixture
+    summaries.push({ ...summary, source: 'fixture' })
+  }
+  return summaries
+}
+
+/** Newest recording for a request, falling back to fixtures. */
+async function findRecording(agentId: string, message: string): Promise<AgentRecording | null> {
+  const key = recordingMatchKey(agentId, message)
+  const files = (await listFiles(RECORDINGS_DIR)).filter(f => f.endsWith(`-${key.slice(0, 12)}.json`)).reverse()
+  for (const file of files) {
+    const recording = await readJson<AgentRecording | null>(`${RECORDINGS_DIR}/${file}`, null)
+    if (recording?.match_key === key) return recording
+  }
+  return (await readFixtures()).reverse().find(f => f.match_key === key) || null
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+const globalForReplay = globalThis as unknown as { __agentReplayTasks?: Map<string, AgentRecording> }
+
+function replayTasks(): Map<string, AgentRecording> {
+  return globalForReplay.__agentReplayTasks || (globalForReplay.__agentReplayTasks = new Map())
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+}
+
+/**
+ * fetch() replacement for LYZR_BACKEND=replay. Uses the emulator hosts so
+ * everything that is not an agent task is served by the emulator.
+ */
+export async function replayFetch(input: string, init?: RequestInit): Promise<Response> {
+  const url = new URL(input)
+  const method = (init?.method || 'GET').toUpperCase()
+  if (url.origin !== EMULATOR_HOSTS.agent) return emulatorFetch(input, init)
+
+  if (method === 'POST' && url.pathname === '/v3/inference/chat/task') {
+    const body = parseBody(init)
+    if (!body.message || !body.agent_id) {
+      return json({ detail: 'message and agent_id are required' }, 422)
+    }
+    const recording = await findRecording(body.agent_id, body.message)
+    if (!recording) {
+      return json({ detail: `No recording matches this request (agent ${body.agent_id})` }, 404)
+    }
+    const task_id = `replay-${Math.random().toString(36).slice(2, 12)}`
+    replayTasks().set(task_id, recording)
+    return json({ task_id })
+  }
+
+  const taskMatch = url.pathname.match(/^\/v3\/inference\/chat\/task\/([^/]+)$/)
+  if (method === 'GET' && taskMatch) {
+    const recording = replayTasks().get(taskMatch[1])
+    if (!recording) return json({ detail: 'Task not found' }, 404)
+    return new Response(recording.raw_response, {
+      status: recording.status,
+      headers: { 'content-type': 'application/json' },
+    })
+  }
+
+  return emulatorFetch(input, init)
+}
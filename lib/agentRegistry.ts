@@ -0,0 +1,170 @@
+/**
+ * Agent & Knowledge Base Registry (server-side)
+ *
+ * Loads agents and knowledge bases from workflow_state.json and the current
+ * agent graph (the latest saved workflow version, or workflow.json), so the
+ * sidebar, the KB view and query routing come from configuration instead of
+ * hardcoded IDs. Served to the client by GET /api/registry.
+ */
+
+import bundledState from '@/workflow_state.json'
+import { readConfigFile, ConfigFileError } from '@/lib/configFiles'
+import { loadCurrentWorkflow } from '@/lib/workflowStore'
+
+// Types
+export interface RegistryAgent {
+  /** Key in workflow_state.json, referenced by workflow.json nodes */
+  key: string
+  agent_id: string
+  name: string
+  purpose?: string
+  type: 'manager' | 'sub-agent'
+  /** What the agent does in the graph; compliance agents are required checkpoints */
+  kind?: 'router' | 'retrieval' | 'compliance'
+  model?: string
+  rag_id?: string
+  /** Structured dataset the agent answers exact figures from (see lib/salesData) */
+  structured_data?: 'sales'
+  /** Knowledge domain answered by this agent, e.g. "Sales Data" */
+  domain?: string
+  /** Query keywords that route to this agent in parallel orchestration */
+  keywords: string[]
+  last_updated?: string
+  update_reason?: string
+  /** Newest first: the current last_updated/update_reason, then update_history entries */
+  update_history: { date?: string; reason: string }[]
+}
+
+export interface RegistryKnowledgeBase {
+  key: string
+  rag_id: string
+  name: string
+  label: string
+  description?: string
+  /** Agent that retrieves from this knowledge base, if any */
+  agent_key?: string
+}
+
+export interface WorkflowNode {
+  id: string
+  type: string
+  label: string
+  nodeCategory: string
+  /** workflow_state.json key of the agent behind an agent node */
+  agent?: string
+}
+
+export interface WorkflowEdge {
+  source: string
+  target: string
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowNode[]
+  edges: WorkflowEdge[]
+}
+
+export interface AgentRegistry {
+  agents: RegistryAgent[]
+  knowledge_bases: RegistryKnowledgeBase[]
+  workflow: WorkflowGraph
+  /** Saved workflow version in use; 0 is workflow.json itself */
+  workflow_version: number
+}
+
+export class RegistryConfigError extends ConfigFileError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RegistryConfigError'
+  }
+}
+
+/**
+ * What an agent contributes to an answer: the manager and compliance agents
+ * produce final answers, retrieval agents produce material for them.
+ */
+export function agentRole(agent: RegistryAgent | undefined): 'manager' | 'retrieval' | 'compliance' {
+  if (agent?.type === 'manager') return 'manager'
+  return agent?.kind === 'compliance' ? 'compliance' : 'retrieval'
+}
+
+function updateHistory(a: any): { date?: string; reason: string }[] {
+  const history = a.update_reason ? [{ date: a.last_updated, reason: String(a.update_reason) }] : []
+  if (Array.isArray(a.update_history)) {
+    for (const h of a.update_history) {
+      if (h?.reason) history.push({ date: h.date, reason: String(h.reason) })
+    }
+  }
+  return history
+}
+
+/**
+ * Build the registry from parsed config. Throws RegistryConfigError when the
+ * files disagree: unknown agent references, missing IDs, no manager.
+ */
+export function buildAgentRegistry(state: any, workflow: any): AgentRegistry {
+  const rawAgents = state?.agents && typeof state.agents === 'object' ? state.agents : {}
+  const rawKbs = state?.knowledge_bases && typeof state.knowledge_bases === 'object' ? state.knowledge_bases : {}
+
+  const agents: RegistryAgent[] = Object.entries(rawAgents).map(([key, a]: [string, any]) => {
+    if (!a?.agent_id) throw new RegistryConfigError(`workflow_state.json: agent "${key}" has no agent_id`)
+    return {
+      key,
+      agent_id: String(a.agent_id),
+      name: a.name || key,
+      purpose: a.purpose,
+      type: a.type === 'manager' ? 'manager' : 'sub-agent',
+      kind: ['router', 'retrieval', 'compliance'].includes(a.kind) ? a.kind : undefined,
+      model: a.model,
+      rag_id: a.rag_id,
+      structured_data: a.structured_data === 'sales' ? 'sales' : undefined,
+      domain: a.domain,
+      keywords: Array.isArray(a.keywords) ? a.keywords.map(String) : [],
+      last_updated: a.last_updated,
+      update_reason: a.update_reason,
+      update_history: updateHistory(a),
+    }
+  })
+
+  if (agents.filter(a => a.type === 'manager').length !== 1) {
+    throw new RegistryConfigError('workflow_state.json must define exactly one manager agent')
+  }
+
+  const knowledge_bases: RegistryKnowledgeBase[] = Object.entries(rawKbs).map(([key, kb]: [string, any]) => {
+    if (!kb?.rag_id) throw new RegistryConfigError(`workflow_state.json: knowledge base "${key}" has no rag_id`)
+    return {
+      key,
+      rag_id: String(kb.rag_id),
+      name: kb.name || key,
+      label: kb.label || kb.name || key,
+      description: kb.description,
+      agent_key: agents.find(a => a.rag_id === kb.rag_id)?.key,
+    }
+  })
+
+  for (const agent of agents) {
+    if (agent.rag_id && !knowledge_bases.some(kb => kb.rag_id === agent.rag_id)) {
+      throw new RegistryConfigError(`workflow_state.json: agent "${agent.key}" uses rag_id ${agent.rag_id}, which is not a listed knowledge base`)
+    }
+  }
+
+  const graph: WorkflowGraph = {
+    nodes: Array.isArray(workflow?.nodes) ? workflow.nodes : [],
+    edges: Array.isArray(workflow?.edges) ? workflow.edges : [],
+  }
+  for (const node of graph.nodes) {
+    if (node.agent && !agents.some(a => a.key === node.agent)) {
+      throw new RegistryConfigError(`workflow.json: node "${node.id}" refers to unknown agent "${node.agent}"`)
+    }
+  }
+
+  return { agents, knowledge_bases, workflow: graph, workflow_version: Number(workflow?.version) || 0 }
+}
+
+export async function loadAgentRegistry(): Promise<AgentRegistry> {
+  const [state, workflow] = await Promise.all([
+    readConfigFile('workflow_state.json', bundledState),
+    loadCurrentWorkflow(),
+  ])
+  return buildAgentRegistry(state, workflow)
+}
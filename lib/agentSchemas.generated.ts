@@ -0,0 +1,70 @@
+// Generated by scripts/generate-agent-schemas.mjs from response_schemas/*.json.
+// Do not edit by hand; run `npm run generate:schemas` after changing a schema.
+
+import { z } from 'zod'
+
+/** Enum field, matched after trimming and lower-casing. Other values are errors, never defaults. */
+function enumField<T extends [string, ...string[]]>(values: T) {
+  return z.preprocess(v => (typeof v === 'string' ? v.trim().toLowerCase() : v), z.enum(values))
+}
+
+// Compliance Guard Agent (response_schemas/compliance_guard_agent.json)
+export const complianceGuardAgentSchema = z.object({
+  compliance_status: enumField(['compliant', 'redacted', 'flagged']),
+  reviewed_content: z.string(),
+  flags: z.array(z.string()).default([]),
+  review_notes: z.string(),
+  domain: z.string(),
+})
+export type ComplianceGuardAgentResponse = z.infer<typeof complianceGuardAgentSchema>
+
+// HCP & Doctor Profile Agent (response_schemas/hcp_doctor_profile_agent.json)
+export const hcpDoctorProfileAgentSchema = z.object({
+  answer: z.string(),
+  profiles: z.array(z.string()).default([]),
+  sources: z.array(z.string()).default([]),
+  confidence: enumField(['high', 'medium', 'low']),
+  domain: z.string(),
+})
+export type HcpDoctorProfileAgentResponse = z.infer<typeof hcpDoctorProfileAgentSchema>
+
+// Query Orchestrator Manager (response_schemas/query_orchestrator_manager.json)
+export const queryOrchestratorManagerSchema = z.object({
+  answer: z.string(),
+  sources_consulted: z.array(z.string()).default([]),
+  compliance_status: enumField(['compliant', 'redacted', 'flagged']),
+  domains_accessed: z.array(z.string()).default([]),
+  confidence: enumField(['high', 'medium', 'low']),
+  flags: z.array(z.string()).default([]),
+})
+export type QueryOrchestratorManagerResponse = z.infer<typeof queryOrchestratorManagerSchema>
+
+// Sales & Territory Agent (response_schemas/sales_territory_agent.json)
+export const salesTerritoryAgentSchema = z.object({
+  answer: z.string(),
+  data_points: z.array(z.string()).default([]),
+  sources: z.array(z.string()).default([]),
+  confidence: enumField(['high', 'medium', 'low']),
+  domain: z.string(),
+})
+export type SalesTerritoryAgentResponse = z.infer<typeof salesTerritoryAgentSchema>
+
+export const AGENT_RESPONSE_SCHEMAS = {
+  '69a00ddcfddac4fa01fac4e7': { key: 'compliance_guard_agent', agent_name: 'Compliance Guard Agent', schema: complianceGuardAgentSchema },
+  '69a00dc7d43403a91b332805': { key: 'hcp_doctor_profile_agent', agent_name: 'HCP & Doctor Profile Agent', schema: hcpDoctorProfileAgentSchema },
+  '69a00df43dc260b752bd74d9': { key: 'query_orchestrator_manager', agent_name: 'Query Orchestrator Manager', schema: queryOrchestratorManagerSchema },
+  '69a00dc76fed800e9b9b52a9': { key: 'sales_territory_agent', agent_name: 'Sales & Territory Agent', schema: salesTerritoryAgentSchema },
+} as const
+
+export type AgentSchemaKey =
+  | 'compliance_guard_agent'
+  | 'hcp_doctor_profile_agent'
+  | 'query_orchestrator_manager'
+  | 'sales_territory_agent'
+
+export interface AgentResponseByKey {
+  compliance_guard_agent: ComplianceGuardAgentResponse
+  hcp_doctor_profile_agent: HcpDoctorProfileAgentResponse
+  query_orchestrator_manager: QueryOrchestratorManagerResponse
+  sales_territory_agent: SalesTerritoryAgentResponse
+}
@@ -0,0 +1,73 @@
+/**
+ * Agent Response Validation
+ *
+ * Validates agent payloads against the zod schemas generated from
+ * response_schemas/*.json (see lib/agentSchemas.generated.ts). Used on the
+ * server when a task completes and by the parallel orchestrator.
+ *
+ * Invalid payloads are reported with explicit errors and no data; nothing is
+ * filled in with a default. In particular a missing or unknown
+ * compliance_status never becomes "compliant".
+ */
+
+import { AGENT_RESPONSE_SCHEMAS } from '@/lib/agentSchemas.generated'
+import type { AgentSchemaKey, AgentResponseByKey } from '@/lib/agentSchemas.generated'
+
+export type { AgentSchemaKey, AgentResponseByKey }
+export type {
+  ComplianceGuardAgentResponse,
+  HcpDoctorProfileAgentResponse,
+  QueryOrchestratorManagerResponse,
+  SalesTerritoryAgentResponse,
+} from '@/lib/agentSchemas.generated'
+
+export interface SchemaValidationError {
+  /** Dotted path of the offending field, '' for the payload itself */
+  path: string
+  message: string
+}
+
+/** Validation outcome for one agent payload, as returned by /api/agent. */
+export type AgentResponseValidation<K extends AgentSchemaKey = AgentSchemaKey> =
+  | { agent_id: string; schema: K; valid: true; data: AgentResponseByKey[K]; errors: [] }
+  | { agent_id: string; schema: K; valid: false; data: null; errors: SchemaValidationError[] }
+
+export function getAgentSchemaKey(agentId: string): AgentSchemaKey | undefined {
+  return (AGENT_RESPONSE_SCHEMAS as Record<string, { key: AgentSchemaKey }>)[agentId]?.key
+}
+
+/**
+ * Validate a parsed payload for an agent. Returns undefined for agents
+ * without a schema in response_schemas/.
+ */
+export function validateAgentResponse(agentId: string, payload: unknown): AgentResponseValidation | undefined {
+  const entry = (AGENT_RESPONSE_SCHEMAS as Record<string, (typeof AGENT_RESPONSE_SCHEMAS)[keyof typeof AGENT_RESPONSE_SCHEMAS]>)[agentId]
+  if (!entry) return undefined
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return {
+      agent_id: agentId,
+      schema: entry.key,
+      valid: false,
+      data: null,
+      errors: [{ path: '', message: `Expected a JSON object from ${entry.agent_name}, got ${Array.isArray(payload) ? 'array' : typeof payload}` }],
+    }
+  }
+
+  const parsed = entry.schema.safeParse(payload)
+  if (parsed.success) {
+    return { agent_id: agentId, schema: entry.key, valid: true, data: parsed.data as AgentResponseByKey[AgentSchemaKey], errors: [] }
+  }
+  return {
+    agent_id: agentId,
+    schema: entry.key,
+    valid: false,
+    data: null,
+    errors: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+  }
+}
+
+/** One-line summary of validation errors, for flags and logs. */
+export function formatValidationErrors(errors: SchemaValidationError[]): string {
+  return errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ')
+}
@@ -0,0 +1,704 @@
+/**
+ * Agent Task Operations (server-side)
+ *
+ * Submit and poll logic for Lyzr async agent tasks, shared by the
+ * /api/agent JSON route and the /api/agent/stream SSE route.
+ * Each operation returns an HTTP status plus the JSON body to send.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { LyzrBackend } from '@/lib/lyzrBackend'
+import { registerTask, getRegisteredTask, finishTask, recordProgress, TaskAuditContext, RegisteredTask } from '@/lib/taskRegistry'
+import { auditTask, AuditAgentRole, AuditReview, TaskAuditOutcome } from '@/lib/auditStore'
+import { buildAgentTrace, reviewedTrace, traceHcpProfiles, AgentTrace } from '@/lib/agentTrace'
+import { validateAgentResponse, AgentResponseValidation } from '@/lib/agentSchemas'
+import { loadRedactionRules, phiVaultId, redactText, restoreTokens, RedactionRules, type PhiRedaction } from '@/lib/phiRedaction'
+import { evaluateCompliance, escalateStatus, loadComplianceRules } from '@/lib/complianceRules'
+import { detectAdverseEvent, loadAdverseEventRules, type AdverseEventSource } from '@/lib/adverseEvents'
+import { agentRole, loadAgentRegistry, type AgentRegistry } from '@/lib/agentRegistry'
+import { computeSalesAnswer, salesContext, type SalesComputation } from '@/lib/salesData'
+import type { AuthUser } from '@/lib/auth'
+import { hasPermission } from '@/lib/roles'
+
+// Types
+interface ArtifactFile {
+  file_url: string
+  name: string
+  format_type: string
+}
+
+interface ModuleOutputs {
+  artifact_files?: ArtifactFile[]
+  [key: string]: any
+}
+
+export interface NormalizedAgentResponse {
+  status: 'success' | 'error'
+  result: Record<string, any>
+  message?: string
+  metadata?: {
+    agent_name?: string
+    timestamp?: string
+    [key: string]: any
+  }
+}
+
+export interface AgentTaskResult {
+  status: number
+  body: Record<string, any>
+}
+
+/** Progress of one sub-agent inside a running orchestration. */
+export interface SubAgentProgress {
+  agent_id: string
+  agent_name?: string
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  updated_at?: string
+}
+
+/** Events pushed by GET /api/agent/stream, one per SSE message. */
+export type AgentStreamEvent =
+  | { type: 'status'; status: 'processing' | 'completed' | 'failed' | 'cancelled' }
+  | { type: 'progress'; progress: SubAgentProgress[] }
+  | { type: 'result'; result: Record<string, any> }
+  | { type: 'error'; error: string }
+
+function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+export function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    const r = parsed.result
+    const msg = parsed.message
+      ?? (typeof r === 'string' ? r : null)
+      ?? (r && typeof r === 'object'
+          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
+          : null)
+    return {
+      status: 'success',
+      result: typeof r === 'string' ? { text: r } : (r || {}),
+      message: typeof msg === 'string' ? msg : undefined,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+/**
+ * Pull sub-agent progress out of a processing task, if the upstream reports it.
+ */
+function extractProgress(task: any): SubAgentProgress[] | undefined {
+  const raw = task?.progress ?? task?.steps ?? task?.events
+  if (!Array.isArray(raw)) return undefined
+  return raw
+    .filter((p: any) => p && typeof p === 'object' && p.agent_id)
+    .map((p: any) => ({
+      agent_id: String(p.agent_id),
+      agent_name: p.agent_name,
+      status: ['pending', 'running', 'completed', 'failed'].includes(p.status) ? p.status : 'running',
+      updated_at: p.updated_at,
+    }))
+}
+
+/**
+ * Validate the agent's payload against its response schema. Some agents wrap
+ * the payload in { result: ... }; the wrapped object is tried when the
+ * outer one does not validate.
+ */
+function validatePayload(agentId: string, parsed: any): AgentResponseValidation | undefined {
+  const validation = validateAgentResponse(agentId, parsed)
+  if (validation && !validation.valid && parsed?.result && typeof parsed.result === 'object') {
+    const inner = validateAgentResponse(agentId, parsed.result)
+    if (inner?.valid) return inner
+  }
+  return validation
+}
+
+/** Heading before the draft in a parallel-mode review prompt (see reviewMessage) */
+const REVIEW_DRAFT_HEADING = '\nDraft response:\n'
+
+/** Released in place of a draft the review neither cleared nor rewrote */
+const WITHHELD_ANSWER = 'This response was withheld by compliance review.'
+
+/** Payload fields of a retrieval draft that users who only see reviewed answers get */
+const DRAFT_SUMMARY_KEYS = ['domain', 'confidence', 'sources']
+
+function draftSummary(payload: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(DRAFT_SUMMARY_KEYS.filter(key => payload[key] !== undefined).map(key => [key, payload[key]]))
+}
+
+/** The drafts of finished retrieval tasks, one section per agent, for the review prompt */
+function mergeDraft(drafts: RegisteredTask[], registry: AgentRegistry | null): string {
+  return drafts.map(task => {
+    const agent = registry?.agents.find(a => a.agent_id === task.agent_id)
+    const data = task.draft || {}
+    const parts = [`### ${agent?.domain || agent?.name || task.agent_id}`, String(data.answer || data.text || '').trim()]
+    const items: string[] = [
+      ...(Array.isArray(data.data_points) ? data.data_points : []),
+      ...(Array.isArray(data.profiles) ? data.profiles : []),
+    ]
+    if (items.length > 0) parts.push(items.map(item => `- ${item}`).join('\n'))
+    return parts.filter(Boolean).join('\n\n')
+  }).join('\n\n')
+}
+
+function reviewMessage(query: string, draft: string): string {
+  return `Review the draft response below for compliance before it is shown to the sales representative.\n\nUser query: ${query}${REVIEW_DRAFT_HEADING}${draft}`
+}
+
+/**
+ * The retrieval tasks a review was asked to check. They must be the user's
+ * own and finished with a draft; the review agent must be a compliance agent.
+ * Returns the tasks, or the error to answer with.
+ */
+function reviewDrafts(
+  value: unknown,
+  userId: string,
+  reviewer: string,
+  registry: AgentRegistry | null
+): { drafts: RegisteredTask[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0 || value.some(id => typeof id !== 'string')) {
+    return { error: 'draft_task_ids must be a non-empty array of task ids' }
+  }
+  if (agentRole(registry?.agents.find(a => a.agent_id === reviewer)) !== 'compliance') {
+    return { error: 'draft_task_ids can only be sent to a compliance review agent' }
+  }
+  const drafts: RegisteredTask[] = []
+  for (const id of value as string[]) {
+    const task = getRegisteredTask(id)
+    if (!task || task.user_id !== userId || task.status !== 'completed' || !task.draft) {
+      return { error: `Task ${id} is not a finished retrieval task of this user` }
+    }
+    drafts.push(task)
+  }
+  return { drafts }
+}
+
+/**
+ * Run the local compliance rules over a final answer and fold the result into
+ * both the normalized response and the validated payload, so the chat, the
+ * parallel orchestrator and the audit log all see it. For the manager the
+ * answer is checked; for a compliance review, the reviewed content, or the
+ * draft it releases unchanged when the content is empty. Retrieval agents
+ * only supply material for an answer and are skipped.
+ */
+async function applyComplianceRules(
+  role: AuditAgentRole,
+  task: RegisteredTask | undefined,
+  normalized: NormalizedAgentResponse,
+  validation: AgentResponseValidation | undefined
+): Promise<{ normalized: NormalizedAgentResponse; validation: AgentResponseValidation | undefined }> {
+  if (role === 'retrieval') return { normalized, validation }
+
+  const payload = finalPayload(normalized, validation)
+  const field = role === 'compliance' ? 'reviewed_content' : typeof payload.answer === 'string' ? 'answer' : 'text'
+  let text = typeof payload[field] === 'string' ? payload[field] : ''
+  if (!text && role === 'compliance') text = reviewDraft(task) || ''
+  if (!text && role === 'manager') text = normalized.message || ''
+
+  let status: string
+  let flags: string[]
+  let checked = text
+  try {
+    const evaluation = evaluateCompliance(text, String(payload.compliance_status || ''), await loadComplianceRules())
+    // Nothing fired and the agent's status is one the app knows: leave the answer as is
+    if (evaluation.hits.length === 0 && evaluation.status === String(payload.compliance_status || 'unverified').toLowerCase()) {
+      return { normalized, validation }
+    }
+    status = evaluation.status
+    flags = evaluation.flags
+    checked = evaluation.text
+  } catch (error) {
+    // Without its rules the engine cannot vouch for the answer
+    status = escalateStatus(String(payload.compliance_status || ''), 'unverified')
+    flags = [`COMPLIANCE_RULES_UNAVAILABLE: ${error instanceof Error ? error.message : 'rules could not be loaded'}`]
+  }
+
+  const apply = (target: Record<string, any>) => ({
+    ...target,
+    compliance_status: status,
+    flags: [...(Array.isArray(target.flags) ? target.flags : []), ...flags],
+    ...(checked !== text ? { [field]: checked } : {}),
+  })
+  return {
+    normalized: {
+      ...normalized,
+      result: apply(normalized.result),
+      ...(checked !== text && normalized.message === text ? { message: checked } : {}),
+    },
+    validation: validation?.valid ? { ...validation, data: apply(validation.data) as typeof validation.data } : validation,
+  }
+}
+
+function finalPayload(normalized: NormalizedAgentResponse, validation: AgentResponseValidation | undefined): Record<string, any> {
+  return validation?.valid ? validation.data : normalized.result
+}
+
+/** The draft a parallel-mode review prompt asked the Compliance Guard to check */
+function reviewDraft(task: RegisteredTask | undefined): string | undefined {
+  const at = task?.message.indexOf(REVIEW_DRAFT_HEADING) ?? -1
+  return at >= 0 ? task.message.slice(at + REVIEW_DRAFT_HEADING.length) : undefined
+}
+
+/**
+ * The final answer before and after review, for the reviewer's diff. A
+ * compliance review's draft is the one in its prompt and the reviewed side is
+ * what the orchestrator releases from it; the manager's draft is its own
+ * answer before the local rules, with the review notes of its compliance step.
+ */
+function complianceReview(
+  role: AuditAgentRole,
+  task: RegisteredTask | undefined,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  trace: AgentTrace
+): AuditReview | undefined {
+  if (role === 'compliance') {
+    const draft = reviewDraft(task)
+    if (draft === undefined) return undefined
+    const reviewed = typeof after.reviewed_content === 'string' ? after.reviewed_content.trim() : ''
+    return {
+      draft,
+      reviewed: reviewed || (String(after.compliance_status).toLowerCase() === 'compliant' ? draft : ''),
+      ...(typeof before.review_notes === 'string' && before.review_notes ? { review_notes: before.review_notes } : {}),
+    }
+  }
+  if (role !== 'manager') return undefined
+  const draft = String(before.answer || before.text || '')
+  if (!draft) return undefined
+  const notes = trace.steps.map(step => step.output?.review_notes).find(Boolean)
+  return {
+    draft,
+    reviewed: String(after.answer || after.text || ''),
+    ...(notes ? { review_notes: notes } : {}),
+  }
+}
+
+/**
+ * Run the adverse event detector over a query or a final answer. A detector
+ * that cannot load its terms is logged and the message goes through; an AE
+ * it misses can still be reported by hand.
+ */
+async function detectAdverseEvents(text: string, source: AdverseEventSource) {
+  try {
+    const signal = detectAdverseEvent(text, source, await loadAdverseEventRules())
+    return signal ? [signal] : []
+  } catch (error) {
+    console.error(`[adverse-events] detection on ${source} failed`, error)
+    return []
+  }
+}
+
+function parseAuditContext(value: any): TaskAuditContext | undefined {
+  if (!value || typeof value !== 'object' || typeof value.query_id !== 'string' || !value.query_id) return undefined
+  return {
+    query_id: value.query_id.slice(0, 100),
+    ...(typeof value.query === 'string' ? { query: value.query } : {}),
+    ...(value.orchestration_mode === 'manager' || value.orchestration_mode === 'parallel'
+      ? { orchestration_mode: value.orchestration_mode }
+      : {}),
+  }
+}
+
+/**
+ * Write the task's audit record. A failed write is logged but does not fail
+ * the response the user is waiting for.
+ */
+export async function recordTaskAudit(task: RegisteredTask | undefined, outcome: TaskAuditOutcome): Promise<void> {
+  if (!task) return
+  try {
+    await auditTask(task, outcome)
+  } catch (error) {
+    console.error(`[audit] failed to record task ${task.task_id}`, error)
+  }
+}
+
+/**
+ * Exact figures for a question sent to an agent that answers from the
+ * structured sales data, or to the manager that routes to it. Empty when no
+ * sales data is loaded or the question asks for no figure.
+ */
+async function salesFigures(agentId: string, question: string): Promise<SalesComputation[]> {
+  const registry = await loadAgentRegistry().catch(() => null)
+  const agent = registry?.agents.find(a => a.agent_id === agentId)
+  const usesSales = agent?.structured_data === 'sales' || (agent?.type === 'manager' && registry!.agents.some(a => a.structured_data === 'sales'))
+  if (!usesSales) return []
+  const computation = await computeSalesAnswer(question)
+  return computation ? [computation] : []
+}
+
+/**
+ * Submit a new async task to Lyzr. The signed-in user, when given, is who the
+ * task runs as; server-side callers without one pass body.user_id.
+ */
+export async function submitAgentTask(body: any, backend: LyzrBackend, user?: AuthUser): Promise<AgentTaskResult> {
+  const { message, agent_id, user_id, session_id, assets } = body
+  const audit = parseAuditContext(body.audit)
+
+  if (!message || !agent_id) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        response: { status: 'error', result: {}, message: 'message and agent_id are required' },
+        error: 'message and agent_id are required',
+      },
+    }
+  }
+
+  const finalUserId = user?.id || user_id || process.env.LYZR_USER_ID || process.env.NEXT_LYZR_USER_ID || 'system'
+  const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+  // Patient identifiers are masked before anything leaves the app; without rules nothing is sent
+  let rules: RedactionRules
+  try {
+    rules = await loadRedactionRules()
+  } catch (error) {
+    const errorMsg = `PHI redaction rules could not be loaded, message not sent: ${error instanceof Error ? error.message : 'unknown error'}`
+    return {
+      status: 500,
+      body: { success: false, response: { status: 'error', result: {}, message: errorMsg }, error: errorMsg },
+    }
+  }
+  // A parallel-mode review gets its drafts from the server, never from the browser
+  let draft: string | undefined
+  if (body.draft_task_ids !== undefined) {
+    const registry = await loadAgentRegistry().catch(() => null)
+    const resolved = reviewDrafts(body.draft_task_ids, finalUserId, agent_id, registry)
+    if ('error' in resolved) {
+      return {
+        status: 400,
+        body: { success: false, response: { status: 'error', result: {}, message: resolved.error }, error: resolved.error },
+      }
+    }
+    draft = mergeDraft(resolved.drafts, registry)
+  }
+
+  const vaultId = phiVaultId(finalUserId, finalSessionId)
+  const redacted = redactText(String(message), vaultId, rules)
+  // The task may restore what either text masked, and nothing else
+  const redactions: PhiRedaction[] = [...redacted.redactions]
+  if (audit?.query) {
+    const query = redactText(audit.query, vaultId, rules)
+    audit.query = query.text
+    redactions.push(...query.redactions.filter(r => !redactions.some(known => known.token === r.token)))
+  }
+
+  const salesComputations = await salesFigures(agent_id, audit?.query ?? redacted.text)
+  const question = draft === undefined ? redacted.text : reviewMessage(redacted.text, draft)
+  const outgoing = salesComputations.length > 0
+    ? [question, ...salesComputations.map(salesContext)].join('\n\n')
+    : question
+
+  const payload: Record<string, any> = {
+    message: outgoing,
+    agent_id,
+    user_id: finalUserId,
+    session_id: finalSessionId,
+  }
+
+  if (assets && assets.length > 0) {
+    payload.assets = assets
+  }
+
+  const submitRes = await backend.fetch(backend.taskUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': backend.apiKey,
+    },
+    body: JSON.stringify(payload),
+  })
+
+  if (!submitRes.ok) {
+    const submitText = await submitRes.text()
+    let errorMsg = `Task submit failed with status ${submitRes.status}`
+    try {
+      const errorData = JSON.parse(submitText)
+      errorMsg = errorData?.detail || errorData?.error || errorData?.message || errorMsg
+    } catch {
+      try {
+        const errorData = parseLLMJson(submitText)
+        errorMsg = errorData?.error || errorData?.message || errorMsg
+      } catch {}
+    }
+    return {
+      status: submitRes.status,
+      body: {
+        success: false,
+        response: { status: 'error', result: {}, message: errorMsg },
+        error: errorMsg,
+        raw_response: submitText,
+      },
+    }
+  }
+
+  const { task_id } = await submitRes.json()
+  const adverseEvents = await detectAdverseEvents(audit?.query ?? redacted.text, 'query')
+
+  registerTask({
+    task_id,
+    agent_id,
+    session_id: finalSessionId,
+    user_id: finalUserId,
+    ...(user ? { user_name: user.name } : {}),
+    message: outgoing,
+    ...(redactions.length > 0 ? { redactions } : {}),
+    ...(adverseEvents.length > 0 ? { adverse_events: adverseEvents } : {}),
+    ...(salesComputations.length > 0 ? { sales_computations: salesComputations } : {}),
+    ...(audit ? { audit } : {}),
+  })
+
+  return {
+    status: 200,
+    body: {
+      task_id,
+      agent_id,
+      user_id: finalUserId,
+      session_id: finalSessionId,
+      ...(redacted.redactions.length > 0 ? { redactions: redacted.redactions } : {}),
+    },
+  }
+}
+
+/**
+ * Poll a task by ID — single request proxy with API key. The signed-in user,
+ * when given, must be the one who submitted the task; only they get the PHI
+ * values back in place of the tokens. Server-side callers pass no user.
+ */
+export async function pollAgentTask(task_id: string, backend: LyzrBackend, user?: AuthUser): Promise<AgentTaskResult> {
+  if (user && getRegisteredTask(task_id)?.user_id !== user.id) {
+    return { status: 404, body: { success: false, status: 'failed', error: 'Task expired or not found' } }
+  }
+
+  // Cancelled tasks are answered from the registry without reaching upstream
+  if (getRegisteredTask(task_id)?.status === 'cancelled') {
+    return {
+      status: 200,
+      body: {
+        success: false,
+        status: 'cancelled',
+        response: { status: 'error', result: {}, message: 'Agent task was cancelled' },
+        error: 'Agent task was cancelled',
+      },
+    }
+  }
+
+  const pollRes = await backend.fetch(`${backend.taskUrl}/${task_id}`, {
+    headers: {
+      'accept': 'application/json',
+      'x-api-key': backend.apiKey,
+    },
+  })
+
+  if (!pollRes.ok) {
+    const pollText = await pollRes.text()
+    const msg = pollRes.status === 404
+      ? 'Task expired or not found'
+      : `Poll failed with status ${pollRes.status}`
+    return {
+      status: pollRes.status,
+      body: {
+        success: false,
+        status: 'failed',
+        error: msg,
+        raw_response: pollText,
+      },
+    }
+  }
+
+  const task = await pollRes.json()
+
+  // Still processing
+  if (task.status === 'processing') {
+    const progress = extractProgress(task)
+    if (progress) recordProgress(task_id, progress)
+    return { status: 200, body: progress ? { status: 'processing', progress } : { status: 'processing' } }
+  }
+
+  // Task failed
+  if (task.status === 'failed') {
+    await recordTaskAudit(finishTask(task_id, 'failed'), { status: 'failed', error: task.error || 'Agent task failed' })
+    return {
+      status: 500,
+      body: {
+        success: false,
+        status: 'failed',
+        response: { status: 'error', result: {}, message: task.error || 'Agent task failed' },
+        error: task.error || 'Agent task failed',
+      },
+    }
+  }
+
+  // Task completed — envelope extraction + parseLLMJson + normalizeResponse
+  const rawText = JSON.stringify(task.response)
+  let moduleOutputs: ModuleOutputs | undefined
+  let agentResponseRaw: any = rawText
+
+  try {
+    const envelope = JSON.parse(rawText)
+    if (envelope && typeof envelope === 'object' && 'response' in envelope) {
+      moduleOutputs = envelope.module_outputs
+      agentResponseRaw = envelope.response
+    }
+  } catch {
+    // Not standard JSON envelope — parseLLMJson will handle it
+  }
+
+  const parsed = parseLLMJson(agentResponseRaw)
+
+  const toNormalize =
+    parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
+      ? agentResponseRaw
+      : parsed
+
+  const registered = finishTask(task_id, 'completed')
+  const completedAt = new Date().toISOString()
+  const agentId = registered?.agent_id || task.agent_id || 'unknown'
+  const registry = await loadAgentRegistry().catch(() => null)
+  const role = agentRole(registry?.agents.find(a => a.agent_id === agentId))
+  const agentValidation = validatePayload(agentId, parsed)
+  const agentResponse = normalizeResponse(toNormalize)
+  const trace = buildAgentTrace({
+    task_id,
+    agent_id: agentId,
+    agent_name: agentResponse.metadata?.agent_name,
+    submitted_at: registered?.submitted_at,
+    completed_at: registered?.finished_at || completedAt,
+    manager_output: parsed,
+    manager_validation: agentValidation,
+    module_outputs: moduleOutputs,
+    timeline: registered?.timeline,
+  })
+  const { normalized, validation } = await applyComplianceRules(role, registered, agentResponse, agentValidation)
+  if (registered && role !== 'retrieval') {
+    const answer = finalPayload(normalized, validation)
+    const detected = await detectAdverseEvents(String(answer.answer || answer.reviewed_content || normalized.message || ''), 'answer')
+    if (detected.length > 0) registered.adverse_events = [...(registered.adverse_events || []), ...detected]
+  }
+  const review = complianceReview(
+    role,
+    registered,
+    finalPayload(agentResponse, agentValidation),
+    finalPayload(normalized, validation),
+    trace
+  )
+  await recordTaskAudit(registered, {
+    status: 'completed',
+    payload: normalized.result,
+    validation,
+    trace,
+    review,
+  })
+  // Held for the review that merges it; see reviewDrafts
+  if (registered && role === 'retrieval' && normalized.status === 'success') {
+    registered.draft = finalPayload(normalized, validation)
+  }
+
+  // Roles that only see reviewed answers get no drafts: not the sub-agent
+  // outputs, nor the answer as it was before the local rules changed it, nor
+  // a retrieval agent's answer, of which they get only where it looked
+  const draftsVisible = !user || hasPermission(user.role, 'reviews.decide')
+  const heldDraft = !draftsVisible && role === 'retrieval'
+  const visibleResponse: NormalizedAgentResponse = heldDraft
+    ? { status: normalized.status, result: draftSummary(finalPayload(normalized, validation)) }
+    : normalized
+  const visibleValidation = heldDraft && validation?.valid
+    ? { ...validation, data: draftSummary(validation.data) as typeof validation.data }
+    : validation
+  const visibleTrace = draftsVisible ? trace : reviewedTrace(trace, finalPayload(visibleResponse, visibleValidation))
+  const hcpProfiles = traceHcpProfiles(trace)
+  const visibleModuleOutputs = draftsVisible || !moduleOutputs
+    ? moduleOutputs
+    : moduleOutputs.artifact_files ? { artifact_files: moduleOutputs.artifact_files } : {}
+
+  // The audit keeps the tokens; the rep who asked sees the values they typed
+  const restore = <T>(value: T): T =>
+    user && registered?.redactions
+      ? restoreTokens(value, phiVaultId(registered.user_id, registered.session_id), registered.redactions)
+      : value
+  return {
+    status: 200,
+    body: {
+      success: true,
+      status: 'completed',
+      response: restore(visibleResponse),
+      module_outputs: visibleModuleOutputs,
+      validation: restore(visibleValidation),
+      trace: restore(visibleTrace),
+      // What a parallel-mode review lets through to the user
+      ...(role === 'compliance' && review ? { released: restore(review.reviewed || WITHHELD_ANSWER) } : {}),
+      ...(registered?.adverse_events ? { adverse_events: restore(registered.adverse_events) } : {}),
+      ...(hcpProfiles.length > 0 ? { hcp_profiles: restore(hcpProfiles) } : {}),
+      ...(registered?.sales_computations ? { sales_computations: registered.sales_computations } : {}),
+      timestamp: completedAt,
+      ...(draftsVisible ? { raw_response: rawText } : {}),
+    },
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Agent Execution Trace
+ *
+ * Records which agents produced an answer: one step per agent with its
+ * structured output (data_points, profiles, reviewed_content, ...), timing
+ * and confidence. Built on the server when a task completes and rendered by
+ * components/AgentTraceTimeline under the answer and in the audit detail.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { validateAgentResponse, SchemaValidationError, AgentResponseValidation } from '@/lib/agentSchemas'
+
+export type TraceStepStatus = 'completed' | 'failed' | 'running' | 'pending'
+
+export interface TraceStepOutput {
+  answer?: string
+  data_points?: string[]
+  profiles?: string[]
+  sources?: string[]
+  reviewed_content?: string
+  review_notes?: string
+  compliance_status?: string
+  flags?: string[]
+  domain?: string
+}
+
+export interface TraceStep {
+  agent_id: string
+  agent_name?: string
+  role: 'manager' | 'sub-agent'
+  status: TraceStepStatus
+  started_at?: string
+  completed_at?: string
+  duration_ms?: number
+  confidence?: string
+  output?: TraceStepOutput
+  /** Set when the agent's output did not match its response schema */
+  validation_errors?: SchemaValidationError[]
+}
+
+export interface AgentTrace {
+  task_id?: string
+  /** 'parallel' when assembled by lib/parallelOrchestrator instead of the manager agent */
+  mode?: 'manager' | 'parallel'
+  started_at?: string
+  completed_at?: string
+  duration_ms?: number
+  steps: TraceStep[]
+}
+
+/** Per-agent timing observed while polling a task. */
+export interface TraceTiming {
+  agent_name?: string
+  status: TraceStepStatus
+  started_at?: string
+  completed_at?: string
+}
+
+const OUTPUT_KEYS: (keyof TraceStepOutput)[] = [
+  'answer', 'data_points', 'profiles', 'sources', 'reviewed_content',
+  'review_notes', 'compliance_status', 'flags', 'domain',
+]
+
+function durationMs(start?: string, end?: string): number | undefined {
+  if (!start || !end) return undefined
+  const ms = new Date(end).getTime() - new Date(start).getTime()
+  return Number.isFinite(ms) && ms >= 0 ? ms : undefined
+}
+
+/** Parsed JSON of a string payload; text that holds no JSON stays a string */
+function parsePayload(payload: any): any {
+  if (typeof payload !== 'string') return payload
+  const parsed = parseLLMJson(payload)
+  return !parsed || (parsed.success === false && parsed.data === null) ? payload : parsed
+}
+
+/**
+ * Keep only the known structured fields of an agent payload.
+ */
+export function pickTraceOutput(payload: any): TraceStepOutput | undefined {
+  const data = parsePayload(payload)
+  if (!data || typeof data !== 'object') {
+    return typeof payload === 'string' && payload ? { answer: payload } : undefined
+  }
+  const output: TraceStepOutput = {}
+  for (const key of OUTPUT_KEYS) {
+    if (data[key] !== undefined && data[key] !== null) (output as any)[key] = data[key]
+  }
+  return Object.keys(output).length > 0 ? output : undefined
+}
+
+/**
+ * Find sub-agent outputs in a task envelope. Lyzr reports them under
+ * module_outputs; several key names are accepted since the shape has varied.
+ */
+function findSubAgentOutputs(moduleOutputs: any): any[] {
+  if (!moduleOutputs || typeof moduleOutputs !== 'object') return []
+  for (const key of ['sub_agent_outputs', 'sub_agents', 'agent_outputs', 'managed_agents']) {
+    const value = moduleOutputs[key]
+    if (Array.isArray(value)) return value.filter(v => v && typeof v === 'object' && v.agent_id)
+    if (value && typeof value === 'object') {
+      return Object.entries(value).map(([agent_id, v]: [string, any]) => ({ agent_id, ...(typeof v === 'object' ? v : { response: v }) }))
+    }
+  }
+  return []
+}
+
+/**
+ * Build the trace for a completed task from the manager's final payload,
+ * sub-agent outputs in module_outputs, and timings observed during polling.
+ */
+export function buildAgentTrace(input: {
+  task_id?: string
+  agent_id: string
+  agent_name?: string
+  submitted_at?: string
+  completed_at: string
+  manager_output?: any
+  manager_validation?: AgentResponseValidation
+  module_outputs?: any
+  timeline?: Record<string, TraceTiming>
+}): AgentTrace {
+  const timeline = input.timeline || {}
+  const steps = new Map<string, TraceStep>()
+
+  for (const raw of findSubAgentOutputs(input.module_outputs)) {
+    const agentId = String(raw.agent_id)
+    const payload = parsePayload(raw.response ?? raw.output ?? raw.result)
+    const output = pickTraceOutput(payload)
+    const startedAt = raw.started_at ?? timeline[agentId]?.started_at
+    const completedAt = raw.completed_at ?? timeline[agentId]?.completed_at
+    const validation = validateAgentResponse(agentId, payload)
+    steps.set(agentId, {
+      agent_id: agentId,
+      agent_name: raw.agent_name ?? timeline[agentId]?.agent_name,
+      role: 'sub-agent',
+      status: raw.status === 'failed' ? 'failed' : 'completed',
+      started_at: startedAt,
+      completed_at: completedAt,
+      duration_ms: durationMs(startedAt, completedAt),
+      confidence: raw.confidence ?? payload?.confidence,
+      output,
+      validation_errors: validation && !validation.valid ? validation.errors : undefined,
+    })
+  }
+
+  // Sub-agents seen in progress but absent from module_outputs
+  for (const [agentId, timing] of Object.entries(timeline)) {
+    if (steps.has(agentId) || agentId === input.agent_id) continue
+    steps.set(agentId, {
+      agent_id: agentId,
+      agent_name: timing.agent_name,
+      role: 'sub-agent',
+      status: timing.status,
+      started_at: timing.started_at,
+      completed_at: timing.completed_at,
+      duration_ms: durationMs(timing.started_at, timing.completed_at),
+    })
+  }
+
+  const managerOutput = pickTraceOutput(input.manager_output)
+  const manager: TraceStep = {
+    agent_id: input.agent_id,
+    agent_name: input.agent_name,
+    role: steps.size > 0 ? 'manager' : 'sub-agent',
+    status: 'completed',
+    started_at: input.submitted_at,
+    completed_at: input.completed_at,
+    duration_ms: durationMs(input.submitted_at, input.completed_at),
+    confidence: typeof input.manager_output?.confidence === 'string' ? input.manager_output.confidence : undefined,
+    output: managerOutput,
+    validation_errors: input.manager_validation && !input.manager_validation.valid ? input.manager_validation.errors : undefined,
+  }
+
+  return {
+    task_id: input.task_id,
+    started_at: input.submitted_at,
+    completed_at: input.completed_at,
+    duration_ms: manager.duration_ms,
+    steps: [manager, ...Array.from(steps.values())],
+  }
+}
+
+/**
+ * The trace for roles that only see reviewed answers: sub-agent outputs are
+ * pre-review drafts and are dropped, and the final step shows the reviewed
+ * payload instead of what the agent first returned.
+ */
+export function reviewedTrace(trace: AgentTrace, reviewed: any): AgentTrace {
+  return {
+    ...trace,
+    steps: trace.steps.map((step, i) =>
+      i === 0 ? { ...step, output: pickTraceOutput(reviewed) } : { ...step, output: undefined }
+    ),
+  }
+}
+
+/**
+ * The HCPs any agent in the trace profiled, e.g. "Dr. Sarah Chen -
+ * Cardiology, Mass General Hospital". They name who a question was about
+ * rather than what a draft claimed, so roles whose trace is reviewed still
+ * get them, for prefilling a medical information request.
+ */
+export function traceHcpProfiles(trace: AgentTrace): string[] {
+  const profiles = trace.steps.flatMap(step => step.output?.profiles ?? [])
+  return Array.from(new Set(profiles.filter(p => typeof p === 'string' && p.trim())))
+}
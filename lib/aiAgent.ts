@@ -19,6 +19,13 @@
 
 import { useState } from 'react'
 import fetchWrapper from '@/lib/fetchWrapper'
+import type { SubAgentProgress } from '@/lib/agentTasks'
+import type { AgentTrace } from '@/lib/agentTrace'
+import type { AgentResponseValidation } from '@/lib/agentSchemas'
+import type { AdverseEventSignal } from '@/lib/adverseEvents'
+import type { SalesComputation } from '@/lib/salesData'
+
+export type { SubAgentProgress, AgentTrace, AgentResponseValidation, AdverseEventSignal }
 
 // Types
 export interface NormalizedAgentResponse {
@@ -45,8 +52,21 @@ export interface ModuleOutputs {
 
 export interface AIAgentResponse {
   success: boolean
+  status?: string
   response: NormalizedAgentResponse
   module_outputs?: ModuleOutputs
+  /** Schema check of the agent's payload; absent for agents without a response schema */
+  validation?: AgentResponseValidation
+  trace?: AgentTrace
+  /** Possible adverse events in the query or the answer; the rep must file a report */
+  adverse_events?: AdverseEventSignal[]
+  /** Exact figures from the structured sales data the agent was given, with their SQL */
+  sales_computations?: SalesComputation[]
+  /** HCPs the agents profiled, for every role, since a reviewed trace has no sub-agent outputs */
+  hcp_profiles?: string[]
+  /** For a review submitted with draft_task_ids: the answer it releases to the user */
+  released?: string
+  task_id?: string
   agent_id?: string
   user_id?: string
   session_id?: string
@@ -77,104 +97,264 @@ export interface UploadResponse {
 
 const POLL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
 
+export interface CallAgentOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Aborting stops polling/streaming and cancels the task on the server. */
+  signal?: AbortSignal
+  /** Groups the tasks of one user question in the server audit log */
+  audit?: { query_id: string; query?: string; orchestration_mode?: 'manager' | 'parallel' }
+  /** Finished retrieval tasks whose drafts the server merges into this review's prompt */
+  draft_task_ids?: string[]
+}
+
+export interface StreamAgentOptions extends CallAgentOptions {
+  onStatus?: (status: 'processing' | 'completed' | 'failed' | 'cancelled') => void
+  onProgress?: (progress: SubAgentProgress[]) => void
+}
+
+interface SubmittedTask {
+  task_id: string
+  agent_id: string
+  user_id?: string
+  session_id?: string
+}
+
+function errorResponse(message: string): AIAgentResponse {
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message },
+    error: message,
+  }
+}
+
+function cancelledResponse(task?: SubmittedTask): AIAgentResponse {
+  return {
+    ...errorResponse('Request cancelled'),
+    status: 'cancelled',
+    agent_id: task?.agent_id,
+    user_id: task?.user_id,
+    session_id: task?.session_id,
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+/** setTimeout that resolves early when the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done)
+  })
+}
+
 /**
- * Call the AI Agent via server-side API route.
- * Submits an async task then polls from the client until completion.
+ * Cancel a task (or every in-flight task of the session when taskId is omitted).
  */
-export async function callAIAgent(
-  message: string,
-  agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
-): Promise<AIAgentResponse> {
+export async function cancelAgentTask(sessionId: string, taskId?: string): Promise<{ success: boolean; cancelled?: string[]; error?: string }> {
   try {
-    // 1. Submit task — returns { task_id, agent_id, user_id, session_id }
-    const submitRes = await fetchWrapper('/api/agent', {
+    const res = await fetch('/api/agent', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        message,
-        agent_id,
-        user_id: options?.user_id,
-        session_id: options?.session_id,
-        assets: options?.assets,
-      }),
+      body: JSON.stringify({ action: 'cancel', session_id: sessionId, task_id: taskId }),
     })
+    return await res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
 
-    if (!submitRes) {
-      return {
-        success: false,
-        response: { status: 'error', result: {}, message: 'No response from server' },
-        error: 'No response from server',
-      }
+/**
+ * Submit a task — returns { task_id, agent_id, user_id, session_id },
+ * or the failure response to hand back to the caller as-is.
+ */
+async function submitTask(
+  message: string,
+  agent_id: string,
+  options?: CallAgentOptions
+): Promise<{ task?: SubmittedTask; failure?: AIAgentResponse }> {
+  if (options?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+
+  // Not aborted with the signal: once sent, the task may exist upstream, and
+  // only its task_id lets the caller cancel it
+  const submitRes = await fetchWrapper('/api/agent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      message,
+      agent_id,
+      user_id: options?.user_id,
+      session_id: options?.session_id,
+      assets: options?.assets,
+      audit: options?.audit,
+      draft_task_ids: options?.draft_task_ids,
+    }),
+  })
+
+  if (!submitRes) {
+    return { failure: errorResponse('No response from server') }
+  }
+
+  const submitData = await submitRes.json()
+
+  // If submit itself failed or no task_id returned, return as-is
+  if (!submitData.task_id) {
+    return {
+      failure: submitData.success === false ? submitData : errorResponse('No task_id in response'),
     }
+  }
+
+  return { task: { ...submitData, agent_id } }
+}
 
-    const submitData = await submitRes.json()
-
-    // If submit itself failed or no task_id returned, return as-is
-    if (!submitData.task_id) {
-      return submitData.success === false
-        ? submitData
-        : {
-            success: false,
-            response: { status: 'error', result: {}, message: 'No task_id in response' },
-            error: 'No task_id in response',
-          }
+/**
+ * Poll POST /api/agent with { task_id } — adaptive backoff from CSR
+ */
+async function pollUntilComplete(task: SubmittedTask, signal?: AbortSignal): Promise<AIAgentResponse> {
+  const startTime = Date.now()
+  let attempt = 0
+
+  while (Date.now() - startTime < POLL_TIMEOUT_MS) {
+    const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
+    await sleep(delay, signal)
+    attempt++
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+
+    const pollRes = await fetchWrapper('/api/agent', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ task_id: task.task_id }),
+      signal,
+    })
+    if (!pollRes) {
+      continue // fetchWrapper returned undefined (redirect/error) — retry next poll
     }
+    const pollData = await pollRes.json()
 
-    const { task_id, user_id, session_id } = submitData
+    if (pollData.status === 'processing') {
+      continue
+    }
 
-    // 2. Poll POST /api/agent with { task_id } — adaptive backoff from CSR
-    const startTime = Date.now()
-    let attempt = 0
+    // Completed or failed — attach task_id/agent_id/user_id/session_id and return
+    return {
+      ...pollData,
+      task_id: task.task_id,
+      agent_id: task.agent_id,
+      user_id: task.user_id,
+      session_id: task.session_id,
+    }
+  }
 
-    while (Date.now() - startTime < POLL_TIMEOUT_MS) {
-      const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
-      await new Promise(r => setTimeout(r, delay))
-      attempt++
+  return errorResponse('Agent task timed out after 5 minutes')
+}
 
-      const pollRes = await fetchWrapper('/api/agent', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ task_id }),
-      })
-      if (!pollRes) {
-        continue // fetchWrapper returned undefined (redirect/error) — retry next poll
-      }
-      const pollData = await pollRes.json()
+/**
+ * Listen to GET /api/agent/stream for a submitted task. Resolves with the
+ * final result, or null when the stream could not be used (no EventSource,
+ * connection dropped before a result) so the caller can fall back to polling.
+ */
+function streamUntilComplete(task: SubmittedTask, options?: StreamAgentOptions): Promise<AIAgentResponse | null> {
+  if (typeof EventSource === 'undefined') return Promise.resolve(null)
+
+  return new Promise((resolve, reject) => {
+    const signal = options?.signal
+    const source = new EventSource(`/api/agent/stream?task_id=${encodeURIComponent(task.task_id)}`)
+    const onAbort = () => {
+      source.close()
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    const finish = (value: AIAgentResponse | null) => {
+      source.close()
+      signal?.removeEventListener('abort', onAbort)
+      resolve(value)
+    }
+    if (signal?.aborted) return onAbort()
+    signal?.addEventListener('abort', onAbort)
 
-      if (pollData.status === 'processing') {
-        continue
+    source.addEventListener('status', (e: MessageEvent) => {
+      options?.onStatus?.(JSON.parse(e.data).status)
+    })
+    source.addEventListener('progress', (e: MessageEvent) => {
+      options?.onProgress?.(JSON.parse(e.data).progress || [])
+    })
+    source.addEventListener('result', (e: MessageEvent) => {
+      const { result } = JSON.parse(e.data)
+      finish({
+        ...result,
+        task_id: task.task_id,
+        agent_id: task.agent_id,
+        user_id: task.user_id,
+        session_id: task.session_id,
+      })
+    })
+    // Fires for both server-sent `event: error` messages and connection errors
+    source.addEventListener('error', (e: Event) => {
+      if (e instanceof MessageEvent && e.data) {
+        finish(errorResponse(JSON.parse(e.data).error || 'Agent stream failed'))
+      } else {
+        finish(null)
       }
+    })
+  })
+}
 
-      // Completed or failed — attach agent_id/user_id/session_id and return
-      return {
-        ...pollData,
-        agent_id,
-        user_id,
-        session_id,
-      }
+/**
+ * Call the AI Agent via server-side API route.
+ * Submits an async task then polls from the client until completion.
+ */
+export async function callAIAgent(
+  message: string,
+  agent_id: string,
+  options?: CallAgentOptions
+): Promise<AIAgentResponse> {
+  let task: SubmittedTask | undefined
+  try {
+    const submitted = await submitTask(message, agent_id, options)
+    if (submitted.failure) return submitted.failure
+    task = submitted.task
+    if (options?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    return await pollUntilComplete(task, options?.signal)
+  } catch (error) {
+    if (isAbortError(error)) {
+      if (task?.session_id) await cancelAgentTask(task.session_id, task.task_id)
+      return cancelledResponse(task)
     }
+    return errorResponse(error instanceof Error ? error.message : 'Network error')
+  }
+}
 
-    // Timed out
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: 'Agent task timed out after 5 minutes',
-      },
-      error: 'Agent task timed out after 5 minutes',
-    }
+/**
+ * Call the AI Agent and receive task status and sub-agent progress as
+ * server-sent events while it runs. Falls back to polling when the
+ * stream is unavailable.
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: StreamAgentOptions
+): Promise<AIAgentResponse> {
+  let task: SubmittedTask | undefined
+  try {
+    const submitted = await submitTask(message, agent_id, options)
+    if (submitted.failure) return submitted.failure
+    task = submitted.task
+    if (options?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    const streamed = await streamUntilComplete(task, options)
+    return streamed ?? await pollUntilComplete(task, options?.signal)
   } catch (error) {
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: error instanceof Error ? error.message : 'Network error',
-      },
-      error: error instanceof Error ? error.message : 'Network error',
+    if (isAbortError(error)) {
+      if (task?.session_id) await cancelAgentTask(task.session_id, task.task_id)
+      return cancelledResponse(task)
     }
+    return errorResponse(error instanceof Error ? error.message : 'Network error')
   }
 }
 
@@ -237,7 +417,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: CallAgentOptions
   ) => {
     setLoading(true)
     setError(null)
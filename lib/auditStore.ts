@@ -0,0 +1,559 @@
+/**
+ * Audit Log Store (server-side)
+ *
+ * Durable record of every agent interaction, written by the server when an
+ * agent task ends (completed, failed or cancelled), never by the browser.
+ * Records are appended to DATA_DIR/audit/audit-log.jsonl and never edited.
+ *
+ * One user question can take several tasks: one manager task, or in parallel
+ * orchestration one task per retrieval agent plus the compliance review. The
+ * client tags each task with a query_id (see CallAgentOptions.audit) and
+ * queryAuditLog() folds the tasks of a query into one entry whose `steps`
+ * are the other tasks. The tag only groups records; what is recorded comes
+ * from the server's own view of the task.
+ *
+ * The log is hash-chained: each record carries the sha256 of its own content
+ * and the hash of the record before it, so editing, reordering or removing a
+ * record breaks every link after it. verifyAuditChain() walks the chain;
+ * exports carry the chain head so an extract can be checked against the log
+ * later (GET /api/audit/verify?seq=&hash=), and the hashed content of each
+ * record so the extract itself can be checked offline.
+ *
+ * Adverse event reports filed for a query (lib/adverseEvents) are kept in
+ * their own log and shown on its entry as `ae_reports` plus an AE_REPORTED
+ * flag when entries are read.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+
+import { appendJsonLine, dataPath, readJsonLines, withLock } from '@/lib/dataStore'
+import { agentRole, loadAgentRegistry } from '@/lib/agentRegistry'
+import { formatValidationErrors, type AgentResponseValidation } from '@/lib/agentSchemas'
+import type { AgentTrace, TraceStep } from '@/lib/agentTrace'
+import type { RegisteredTask } from '@/lib/taskRegistry'
+import { describeRedactions } from '@/lib/phiRedaction'
+import { adverseEventFlag, listAdverseEventReports, type AdverseEventSignal, type AdverseEventReport } from '@/lib/adverseEvents'
+import type { SalesComputation } from '@/lib/salesData'
+
+// Types
+export type AuditAgentRole = 'manager' | 'retrieval' | 'compliance'
+
+/**
+ * A final answer before and after compliance review. Only reviewers see it;
+ * GET /api/audit leaves it out for other roles (withoutReviewDrafts).
+ */
+export interface AuditReview {
+  /** The answer as drafted, before the Compliance Guard and the local rules */
+  draft: string
+  /** What the review released; empty when the answer was withheld */
+  reviewed: string
+  review_notes?: string
+}
+
+export interface AuditRecord {
+  id: string
+  timestamp: string
+  /** Position in the chain, from 1 */
+  seq: number
+  /** hash of the record before this one; GENESIS_HASH for the first */
+  prev_hash: string
+  /** sha256 of every other field of this record (see hashAuditRecord) */
+  hash: string
+  task_id: string
+  /** Groups the tasks of one user question */
+  query_id?: string
+  session_id: string
+  user_id: string
+  /** Display name of the signed-in user; unset on records from before sign-in */
+  user_name?: string
+  agent_id: string
+  agent_name: string
+  agent_role: AuditAgentRole
+  orchestration_mode: 'manager' | 'parallel'
+  query: string
+  /** compliance_status of answers; completed/failed/cancelled otherwise */
+  status: string
+  domains_accessed: string[]
+  confidence: string
+  sources_consulted: string[]
+  flags: string[]
+  response: string
+  schema_valid?: boolean
+  duration_ms?: number
+  trace?: AgentTrace
+  review?: AuditReview
+  /** Possible adverse events the detector found in the query or the answer */
+  adverse_events?: AdverseEventSignal[]
+  /** Exact figures the agent was given, with the SQL that produced them */
+  sales_computations?: SalesComputation[]
+}
+
+/** An AE report as listed on the audit entry it was filed for */
+export type AuditAeReport = Pick<AdverseEventReport, 'id' | 'created_at' | 'user_name' | 'late'>
+
+/** One user question: the task that produced the answer, plus the rest. */
+export interface AuditEntry extends AuditRecord {
+  steps: AuditRecord[]
+  ae_reports?: AuditAeReport[]
+}
+
+export interface AuditQuery {
+  page?: number
+  page_size?: number
+  /** Inclusive ISO timestamps or YYYY-MM-DD dates */
+  from?: string
+  to?: string
+  status?: string[]
+  domain?: string
+  /** Free text over query, response, flags, session and agent */
+  q?: string
+  session_id?: string
+}
+
+export interface AuditPage {
+  entries: AuditEntry[]
+  total: number
+  page: number
+  page_size: number
+}
+
+export interface TaskAuditOutcome {
+  status: 'completed' | 'failed' | 'cancelled'
+  /** The agent's structured payload */
+  payload?: Record<string, any>
+  validation?: AgentResponseValidation
+  trace?: AgentTrace
+  review?: AuditReview
+  error?: string
+}
+
+export interface AuditChainHead {
+  seq: number
+  hash: string
+}
+
+export interface AuditChainBreak {
+  seq: number
+  record_id: string
+  reason: 'hash_mismatch' | 'prev_hash_mismatch' | 'sequence_gap'
+  expected: string
+  actual: string
+}
+
+export interface AuditChainVerification {
+  valid: boolean
+  /** Records checked, up to and including the first break */
+  checked: number
+  total: number
+  head: AuditChainHead | null
+  first_break?: AuditChainBreak
+  /** Present when a head from an export was checked against the log */
+  anchor?: AuditChainHead & { found: boolean }
+  verified_at: string
+}
+
+const AUDIT_LOG = 'audit/audit-log.jsonl'
+export const MAX_AUDIT_PAGE_SIZE = 200
+export const GENESIS_HASH = '0'.repeat(64)
+
+function generateId(): string {
+  return `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter(v => typeof v === 'string') : []
+}
+
+// Hash chain
+/** JSON with object keys sorted, so the hash does not depend on key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/** The exact text a record's hash is taken over: every field but `hash`, as canonical JSON. */
+export function hashedAuditContent(record: Omit<AuditRecord, 'hash'> & { hash?: string }): string {
+  const { hash: _, ...content } = record
+  return canonicalJson(content)
+}
+
+export function hashAuditRecord(record: Omit<AuditRecord, 'hash'> & { hash?: string }): string {
+  return createHash('sha256').update(hashedAuditContent(record)).digest('hex')
+}
+
+// Writing
+/**
+ * The chain head as of the last append, with the log size it was read at.
+ * Appends reuse it while the file is still that size and reread the log
+ * only when something else wrote to it (another process, a restored backup).
+ */
+interface CachedChainHead {
+  file: string
+  size: number
+  head: AuditChainHead | null
+}
+
+const globalForAudit = globalThis as unknown as { __auditChainHead?: CachedChainHead }
+
+async function logSize(file: string): Promise<number> {
+  try {
+    return (await fs.stat(file)).size
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return 0
+    throw error
+  }
+}
+
+/** Call under the AUDIT_LOG lock */
+async function currentChainHead(): Promise<AuditChainHead | null> {
+  const file = dataPath(AUDIT_LOG)
+  const cached = globalForAudit.__auditChainHead
+  if (cached && cached.file === file && cached.size === (await logSize(file))) return cached.head
+  return auditChainHead(await readAuditRecords())
+}
+
+async function appendAuditRecord(
+  record: Omit<AuditRecord, 'id' | 'timestamp' | 'seq' | 'prev_hash' | 'hash'>
+): Promise<AuditRecord> {
+  return withLock(AUDIT_LOG, async () => {
+    const last = await currentChainHead()
+    const unhashed = {
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+      seq: (last?.seq || 0) + 1,
+      prev_hash: last?.hash || GENESIS_HASH,
+      ...record,
+    }
+    const stored: AuditRecord = { ...unhashed, hash: hashAuditRecord(unhashed) }
+    await appendJsonLine(AUDIT_LOG, stored)
+    const file = dataPath(AUDIT_LOG)
+    globalForAudit.__auditChainHead = { file, size: await logSize(file), head: { seq: stored.seq, hash: stored.hash } }
+    return stored
+  })
+}
+
+/**
+ * Record a finished task. Called once per task from lib/agentTasks (completed,
+ * failed) and the cancel route; the task's `audited` flag guards repeats.
+ */
+export async function auditTask(task: RegisteredTask, outcome: TaskAuditOutcome): Promise<AuditRecord | null> {
+  if (task.audited) return null
+  task.audited = true
+
+  const registry = await loadAgentRegistry().catch(() => null)
+  const agent = registry?.agents.find(a => a.agent_id === task.agent_id)
+  const role = agentRole(agent)
+  const payload: Record<string, any> = outcome.validation?.valid && outcome.validation.data ? outcome.validation.data : outcome.payload || {}
+  const invalid = outcome.validation && !outcome.validation.valid
+
+  const flags = strings(payload.flags)
+  if (task.redactions?.length) flags.push(`PHI redacted before submission: ${describeRedactions(task.redactions)}`)
+  for (const signal of task.adverse_events || []) flags.push(adverseEventFlag(signal))
+  if (invalid) flags.push(`Response failed schema validation: ${formatValidationErrors(outcome.validation!.errors)}`)
+  if (outcome.error) flags.push(outcome.error)
+
+  let status: string = outcome.status
+  if (outcome.status === 'completed' && role !== 'retrieval') {
+    status = invalid ? 'unverified' : String(payload.compliance_status || 'unverified').toLowerCase()
+  }
+
+  const domains = role === 'manager'
+    ? strings(payload.domains_accessed)
+    : role === 'retrieval' && outcome.status === 'completed'
+      ? [String(payload.domain || agent?.domain || '')].filter(Boolean)
+      : []
+
+  return appendAuditRecord({
+    task_id: task.task_id,
+    query_id: task.audit?.query_id,
+    session_id: task.session_id,
+    user_id: task.user_id,
+    ...(task.user_name ? { user_name: task.user_name } : {}),
+    agent_id: task.agent_id,
+    agent_name: agent?.name || task.agent_id,
+    agent_role: role,
+    orchestration_mode: task.audit?.orchestration_mode || (role === 'manager' ? 'manager' : 'parallel'),
+    query: task.audit?.query || task.message,
+    status,
+    domains_accessed: domains,
+    confidence: typeof payload.confidence === 'string' ? payload.confidence : '',
+    sources_consulted: strings(payload.sources_consulted).concat(strings(payload.sources)),
+    flags,
+    response: String(payload.answer || payload.reviewed_content || ''),
+    ...(outcome.validation ? { schema_valid: outcome.validation.valid } : {}),
+    duration_ms: task.finished_at ? new Date(task.finished_at).getTime() - new Date(task.submitted_at).getTime() : undefined,
+    ...(outcome.trace ? { trace: outcome.trace } : {}),
+    ...(outcome.review ? { review: outcome.review } : {}),
+    ...(task.adverse_events?.length ? { adverse_events: task.adverse_events } : {}),
+    ...(task.sales_computations?.length ? { sales_computations: task.sales_computations } : {}),
+  })
+}
+
+// Reading
+export async function readAuditRecords(): Promise<AuditRecord[]> {
+  return readJsonLines<AuditRecord>(AUDIT_LOG)
+}
+
+export function auditChainHead(records: AuditRecord[]): AuditChainHead | null {
+  const last = records[records.length - 1]
+  return last ? { seq: last.seq, hash: last.hash } : null
+}
+
+/**
+ * Walk the chain from the first record and report the first broken link.
+ * A record whose content changed fails its own hash; a removed or reordered
+ * record fails the next record's prev_hash and sequence. Removing records
+ * from the end leaves a valid but shorter chain, which is why exports carry
+ * the head: pass it as `anchor` to confirm it is still in the log.
+ */
+export async function verifyAuditChain(anchor?: AuditChainHead): Promise<AuditChainVerification> {
+  const records = await readAuditRecords()
+  let first_break: AuditChainBreak | undefined
+  let checked = 0
+  let prev: AuditRecord | undefined
+
+  for (const record of records) {
+    checked++
+    const expectedSeq = (prev?.seq || 0) + 1
+    const expectedPrev = prev?.hash || GENESIS_HASH
+    const base = { seq: record.seq, record_id: record.id }
+    if (record.prev_hash !== expectedPrev) {
+      first_break = { ...base, reason: 'prev_hash_mismatch', expected: expectedPrev, actual: String(record.prev_hash) }
+    } else if (record.seq !== expectedSeq) {
+      first_break = { ...base, reason: 'sequence_gap', expected: String(expectedSeq), actual: String(record.seq) }
+    } else {
+      const computed = hashAuditRecord(record)
+      if (record.hash !== computed) {
+        first_break = { ...base, reason: 'hash_mismatch', expected: computed, actual: String(record.hash) }
+      }
+    }
+    if (first_break) break
+    prev = record
+  }
+
+  const anchorResult = anchor
+    ? { ...anchor, found: records.some(r => r.seq === anchor.seq && r.hash === anchor.hash) }
+    : undefined
+
+  return {
+    valid: !first_break && (anchorResult?.found ?? true),
+    checked,
+    total: records.length,
+    head: auditChainHead(records),
+    ...(first_break ? { first_break } : {}),
+    ...(anchorResult ? { anchor: anchorResult } : {}),
+    verified_at: new Date().toISOString(),
+  }
+}
+
+const CONFIDENCE_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 }
+
+/** A task's own trace step, as one step of a parallel query. */
+function toParallelStep(record: AuditRecord): TraceStep {
+  const own = record.trace?.steps[0]
+  return {
+    ...own,
+    agent_id: record.agent_id,
+    agent_name: own?.agent_name || record.agent_name,
+    role: 'sub-agent',
+    status: own?.status || (record.status === 'completed' ? 'completed' : 'failed'),
+    completed_at: own?.completed_at || record.timestamp,
+    duration_ms: own?.duration_ms ?? record.duration_ms,
+  }
+}
+
+/**
+ * Fold records into one entry per query. The answer is the manager or
+ * compliance record; a query cancelled or failed before its answer is
+ * represented by its last record.
+ */
+export function groupAuditRecords(records: AuditRecord[]): AuditEntry[] {
+  const groups = new Map<string, AuditRecord[]>()
+  for (const record of records) {
+    const key = record.query_id || record.task_id
+    groups.set(key, [...(groups.get(key) || []), record])
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const answer = [...group].reverse().find(r => r.agent_role !== 'retrieval') || group[group.length - 1]
+    const steps = group.filter(r => r !== answer)
+    if (steps.length === 0) return { ...answer, steps }
+
+    const answered = steps.filter(s => s.status === 'completed')
+    const confidences = answered.map(s => s.confidence.toLowerCase()).filter(c => c in CONFIDENCE_RANK)
+    const startedAt = Math.min(...group.map(r => new Date(r.timestamp).getTime() - (r.duration_ms || 0)))
+    return {
+      ...answer,
+      // A retrieval task that ended the query (cancel, failure) stands in for the missing answer
+      status: answer.agent_role === 'retrieval' && answer.status === 'completed' ? 'unverified' : answer.status,
+      domains_accessed: Array.from(new Set([...answer.domains_accessed, ...answered.flatMap(s => s.domains_accessed)])),
+      sources_consulted: Array.from(new Set([...answer.sources_consulted, ...answered.flatMap(s => s.sources_consulted)])),
+      confidence: confidences.length > 0
+        ? confidences.reduce((min, c) => (CONFIDENCE_RANK[c] < CONFIDENCE_RANK[min] ? c : min))
+        : answer.confidence,
+      flags: [...answer.flags, ...steps.filter(s => s.status !== 'completed').map(s => `${s.agent_name} ${s.status}`)],
+      duration_ms: new Date(answer.timestamp).getTime() - startedAt,
+      trace: {
+        task_id: answer.task_id,
+        mode: 'parallel',
+        started_at: new Date(startedAt).toISOString(),
+        completed_at: answer.timestamp,
+        duration_ms: new Date(answer.timestamp).getTime() - startedAt,
+        steps: [...steps, answer].map(toParallelStep),
+      },
+      steps,
+    }
+  })
+}
+
+/** Mark entries with the AE reports filed for their query. */
+function withAeReports(entries: AuditEntry[], reports: AdverseEventReport[]): AuditEntry[] {
+  const byQuery = new Map<string, AuditAeReport[]>()
+  for (const r of reports) {
+    if (!r.query_id) continue
+    const listed = { id: r.id, created_at: r.created_at, user_name: r.user_name, late: r.late }
+    byQuery.set(r.query_id, [...(byQuery.get(r.query_id) || []), listed])
+  }
+  return entries.map(entry => {
+    const filed = byQuery.get(entry.query_id || entry.task_id)
+    if (!filed) return entry
+    return {
+      ...entry,
+      ae_reports: filed,
+      flags: [
+        ...entry.flags,
+        ...filed.map(r => `AE_REPORTED: ${r.id} filed by ${r.user_name} ${r.created_at.slice(0, 10)}${r.late ? ' (late)' : ''}`),
+      ],
+    }
+  })
+}
+
+/** Every record folded into entries, with their AE reports */
+async function readAuditEntries(records?: AuditRecord[]): Promise<AuditEntry[]> {
+  const [all, reports] = await Promise.all([records ? Promise.resolve(records) : readAuditRecords(), listAdverseEventReports()])
+  return withAeReports(groupAuditRecords(all), reports)
+}
+
+function parseBound(value: string | undefined, endOfDay: boolean): number | undefined {
+  if (!value) return undefined
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  const time = new Date(dateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value).getTime()
+  return isNaN(time) ? undefined : time
+}
+
+export function filterAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+  const from = parseBound(query.from, false)
+  const to = parseBound(query.to, true)
+  const statuses = (query.status || []).map(s => s.toLowerCase()).filter(Boolean)
+  const domain = query.domain?.toLowerCase()
+  const text = query.q?.trim().toLowerCase()
+
+  return entries.filter(e => {
+    const time = new Date(e.timestamp).getTime()
+    if (from !== undefined && time < from) return false
+    if (to !== undefined && time > to) return false
+    if (statuses.length > 0 && !statuses.includes(e.status.toLowerCase())) return false
+    if (domain && !e.domains_accessed.some(d => d.toLowerCase() === domain)) return false
+    if (query.session_id && e.session_id !== query.session_id) return false
+    if (text) {
+      const haystack = [e.query, e.response, e.session_id, e.user_name, e.agent_name, ...e.flags].join('\n').toLowerCase()
+      if (!haystack.includes(text)) return false
+    }
+    return true
+  })
+}
+
+function sortNewestFirst(entries: AuditEntry[]): AuditEntry[] {
+  return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+}
+
+/** Every entry, newest first. */
+export async function listAuditEntries(): Promise<AuditEntry[]> {
+  return sortNewestFirst(await readAuditEntries())
+}
+
+/** Filtered entries, newest first, one page at a time (page is 1-based). */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditPage> {
+  const entries = sortNewestFirst(filterAuditEntries(await readAuditEntries(), query))
+  const page_size = Math.min(Math.max(1, query.page_size || 50), MAX_AUDIT_PAGE_SIZE)
+  const page = Math.max(1, query.page || 1)
+  return {
+    entries: entries.slice((page - 1) * page_size, page * page_size),
+    total: entries.length,
+    page,
+    page_size,
+  }
+}
+
+/**
+ * The entry without its pre-review drafts, for roles that only see reviewed
+ * answers: no review diff, no sub-agent outputs, and no retrieval agent's
+ * answer in parallel mode (its domain and sources stay).
+ */
+export function withoutReviewDrafts(entry: AuditEntry): AuditEntry {
+  const retrieval = new Set([entry, ...entry.steps].filter(r => r.agent_role === 'retrieval').map(r => r.agent_id))
+  // A record's own trace starts with its agent, then its sub-agents; a parallel query's lists its tasks
+  const withoutDrafts = (trace: AgentTrace, ownIsDraft: boolean): AgentTrace => ({
+    ...trace,
+    steps: trace.steps.map((step, i) => {
+      const draft = trace.mode === 'parallel' ? retrieval.has(step.agent_id) : ownIsDraft || i > 0
+      return draft ? { ...step, output: undefined } : step
+    }),
+  })
+  const strip = <T extends AuditRecord>({ review: _, ...record }: T) => ({
+    ...record,
+    ...(record.agent_role === 'retrieval' ? { response: '' } : {}),
+    ...(record.trace ? { trace: withoutDrafts(record.trace, record.agent_role === 'retrieval') } : {}),
+  })
+  return { ...strip(entry), steps: entry.steps.map(strip) } as AuditEntry
+}
+
+/**
+ * Every entry matching the filters, newest first, as CSV. The first line is
+ * a comment with the chain head at export time. Each row lists the seq:hash
+ * of the records it was built from and, one per line, the canonical JSON
+ * each of those hashes was taken over, so an extract can be checked without
+ * the server (scripts/verify-audit-export.mjs).
+ */
+export async function exportAuditCsv(query: AuditQuery): Promise<{ csv: string; head: AuditChainHead | null }> {
+  const records = await readAuditRecords()
+  const head = auditChainHead(records)
+  const bySeq = new Map(records.map(r => [r.seq, r]))
+  const entries = sortNewestFirst(filterAuditEntries(await readAuditEntries(records), query))
+  const cell = (value: unknown) => {
+    // Spreadsheets evaluate a cell starting with = + - @ (or tab, CR) as a formula
+    const text = String(value ?? '')
+    return `"${(/^[=+\-@\t\r]/.test(text) ? `'${text}` : text).replace(/"/g, '""')}"`
+  }
+  const chainLine = head
+    ? `# Audit chain head: seq ${head.seq} sha256 ${head.hash}`
+    : '# Audit chain head: empty log'
+  const header = 'Timestamp,Query,Status,Domains,Confidence,Session ID,User ID,User,Orchestration,Duration (ms),Flags,Record Hashes,Records'
+  const rows = entries.map(e => {
+    // Entries fold and annotate their records; hashes cover the records as stored
+    const stored = [...e.steps, e].map(r => bySeq.get(r.seq) || r).sort((a, b) => a.seq - b.seq)
+    return [
+      e.timestamp,
+      e.query,
+      e.status,
+      e.domains_accessed.join(', '),
+      e.confidence,
+      e.session_id,
+      e.user_id,
+      e.user_name,
+      e.orchestration_mode,
+      e.duration_ms ?? '',
+      e.flags.join('; '),
+      stored.map(r => `${r.seq}:${r.hash}`).join(' '),
+      stored.map(hashedAuditContent).join('\n'),
+    ].map(cell).join(',')
+  })
+  return { csv: [chainLine, header, ...rows].join('\n') + '\n', head }
+}
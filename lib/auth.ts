@@ -0,0 +1,283 @@
+/**
+ * Authentication (server-side)
+ *
+ * Who is making a request. Users sign in with a provider and get a
+ * server-side session; the browser only holds its random token in an
+ * httpOnly cookie. Routes call authorize() for the user and their role:
+ *
+ *   const { user, denied } = await authorize(request, 'audit.read')
+ *   if (denied) return denied
+ *
+ * Providers:
+ *   local   email + password, scrypt-hashed in DATA_DIR/auth/users.json
+ *   oidc    any OpenID Connect IdP (lib/oidc), enabled by OIDC_ISSUER
+ *
+ * The first admin comes from AUTH_ADMIN_EMAIL / AUTH_ADMIN_PASSWORD and is
+ * created on first sign-in; admins add further local users at
+ * POST /api/auth/users. User ids are stable per person and are what agent
+ * calls, audit entries and knowledge base change records carry.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { NextResponse } from 'next/server'
+import { readJson, removeJson, withLock, writeJson } from '@/lib/dataStore'
+import { hasPermission, parseRole, permissionDeniedMessage, type Permission, type UserRole } from '@/lib/roles'
+
+export type AuthProviderId = 'local' | 'oidc'
+
+export interface AuthUser {
+  /** Stable id, e.g. usr_3f9c2a1b7d4e6f80 */
+  id: string
+  email: string
+  name: string
+  role: UserRole
+  provider: AuthProviderId
+  /** OIDC issuer and subject the user signs in as */
+  oidc_issuer?: string
+  oidc_subject?: string
+  created_at: string
+  last_login_at?: string
+}
+
+interface StoredUser extends AuthUser {
+  /** scrypt$<salt>$<hash>, local users only */
+  password_hash?: string
+}
+
+interface StoredSession {
+  user_id: string
+  provider: AuthProviderId
+  created_at: string
+  expires_at: string
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+export const SESSION_COOKIE = 'medrep_session'
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000 // 12 hours
+const USERS_FILE = 'auth/users.json'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+function newUserId(): string {
+  return `usr_${randomBytes(8).toString('hex')}`
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, 64)
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`
+}
+
+async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || '').split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'base64')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+function publicUser({ password_hash: _, ...user }: StoredUser): AuthUser {
+  return user
+}
+
+async function readUsers(): Promise<StoredUser[]> {
+  return readJson<StoredUser[]>(USERS_FILE, [])
+}
+
+/** Read-modify-write the user list under one lock. */
+function updateUsers<T>(fn: (users: StoredUser[]) => Promise<T> | T): Promise<T> {
+  return withLock(USERS_FILE, async () => {
+    const users = await readUsers()
+    const result = await fn(users)
+    await writeJson(USERS_FILE, users)
+    return result
+  })
+}
+
+export async function listUsers(): Promise<AuthUser[]> {
+  return (await readUsers()).map(publicUser)
+}
+
+export async function getUser(id: string): Promise<AuthUser | null> {
+  const user = (await readUsers()).find(u => u.id === id)
+  return user ? publicUser(user) : null
+}
+
+export async function createLocalUser(input: { email: string; name?: string; password: string; role: UserRole }): Promise<AuthUser> {
+  const email = normalizeEmail(input.email || '')
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new AuthError('A valid email is required', 400)
+  if (!input.password || input.password.length < 8) throw new AuthError('Passwords need at least 8 characters', 400)
+  const password_hash = await hashPassword(input.password)
+
+  return updateUsers(users => {
+    if (users.some(u => u.email === email)) throw new AuthError(`A user with email ${email} already exists`, 409)
+    const user: StoredUser = {
+      id: newUserId(),
+      email,
+      name: input.name?.trim() || email,
+      role: parseRole(input.role),
+      provider: 'local',
+      password_hash,
+      created_at: new Date().toISOString(),
+    }
+    users.push(user)
+    return publicUser(user)
+  })
+}
+
+/** Create the AUTH_ADMIN_EMAIL admin if no user has that email yet. */
+async function ensureBootstrapAdmin(): Promise<void> {
+  const email = normalizeEmail(process.env.AUTH_ADMIN_EMAIL || '')
+  const password = process.env.AUTH_ADMIN_PASSWORD || ''
+  if (!email || !password) return
+  if ((await readUsers()).some(u => u.email === email)) return
+  await createLocalUser({ email, name: 'Administrator', password, role: 'admin' }).catch(error => {
+    if (!(error instanceof AuthError && error.status === 409)) throw error
+  })
+}
+
+export async function authenticateLocal(email: string, password: string): Promise<AuthUser> {
+  await ensureBootstrapAdmin()
+  const normalized = normalizeEmail(email || '')
+  const user = (await readUsers()).find(u => u.email === normalized && u.provider === 'local')
+  // Same error either way so the response does not reveal which emails exist
+  if (!user || !(await verifyPassword(password || '', user.password_hash))) {
+    throw new AuthError('Invalid email or password', 401)
+  }
+  return touchLogin(user.id)
+}
+
+/**
+ * The user an OIDC sign-in belongs to, created on first sign-in. The role
+ * claim, when present and valid, replaces the stored role.
+ */
+export async function upsertOidcUser(claims: {
+  issuer: string
+  subject: string
+  email?: string
+  name?: string
+  role?: string
+}): Promise<AuthUser> {
+  const now = new Date().toISOString()
+  return updateUsers(users => {
+    let user = users.find(u => u.oidc_issuer === claims.issuer && u.oidc_subject === claims.subject)
+    if (!user) {
+      user = {
+        id: newUserId(),
+        email: normalizeEmail(claims.email || ''),
+        name: claims.name || claims.email || claims.subject,
+        role: parseRole(claims.role || process.env.OIDC_DEFAULT_ROLE),
+        provider: 'oidc',
+        oidc_issuer: claims.issuer,
+        oidc_subject: claims.subject,
+        created_at: now,
+      }
+      users.push(user)
+    } else {
+      if (claims.email) user.email = normalizeEmail(claims.email)
+      if (claims.name) user.name = claims.name
+      if (claims.role) user.role = parseRole(claims.role)
+    }
+    user.last_login_at = now
+    return publicUser(user)
+  })
+}
+
+function touchLogin(id: string): Promise<AuthUser> {
+  return updateUsers(users => {
+    const user = users.find(u => u.id === id)!
+    user.last_login_at = new Date().toISOString()
+    return publicUser(user)
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/** Sessions are stored under a hash of the token, never the token itself */
+function sessionPath(token: string): string {
+  return `auth/sessions/${createHash('sha256').update(token).digest('hex')}.json`
+}
+
+function requestToken(request: Request): string | null {
+  const cookie = request.headers.get('cookie') || ''
+  const match = cookie.match(new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([A-Za-z0-9_-]+)`))
+  return match ? match[1] : null
+}
+
+/** Start a session and set its cookie on the response. */
+export async function startSession(response: NextResponse, user: AuthUser, provider: AuthProviderId): Promise<NextResponse> {
+  const token = randomBytes(32).toString('base64url')
+  const now = Date.now()
+  const session: StoredSession = {
+    user_id: user.id,
+    provider,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + SESSION_TTL_MS).toISOString(),
+  }
+  await writeJson(sessionPath(token), session)
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  })
+  return response
+}
+
+export async function endSession(request: Request, response: NextResponse): Promise<NextResponse> {
+  const token = requestToken(request)
+  if (token) await removeJson(sessionPath(token))
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+  return response
+}
+
+/** The signed-in user, or null for no, expired or unknown sessions. */
+export async function getRequestUser(request: Request): Promise<AuthUser | null> {
+  const token = requestToken(request)
+  if (!token) return null
+  const session = await readJson<StoredSession | null>(sessionPath(token), null)
+  if (!session) return null
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    await removeJson(sessionPath(token))
+    return null
+  }
+  return getUser(session.user_id)
+}
+
+/**
+ * The signed-in user, checked for a permission when one is given. `denied`
+ * is the 401 or 403 response to return instead of handling the request.
+ */
+export async function authorize(
+  request: Request,
+  permission?: Permission
+): Promise<{ user: AuthUser; denied?: undefined } | { user?: undefined; denied: NextResponse }> {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return { denied: NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 }) }
+  }
+  if (permission && !hasPermission(user.role, permission)) {
+    return {
+      denied: NextResponse.json({ success: false, error: permissionDeniedMessage(user.role, permission) }, { status: 403 }),
+    }
+  }
+  return { user }
+}
@@ -0,0 +1,256 @@
+/**
+ * Local Compliance Rule Engine (server-side)
+ *
+ * Deterministic checks that run on every final answer alongside the
+ * Compliance Guard Agent: the manager's answer, or the reviewed content of a
+ * parallel-mode compliance review. Rule packs live in compliance_rules.json
+ * (off-label terms, superlative claims, competitor pricing, gifts and meals
+ * over state limits) and can be edited without a rebuild.
+ *
+ * The engine can only escalate the agent's status, never clear it:
+ *
+ *   compliant → redacted → unverified → flagged
+ *
+ * Every rule that fires adds a coded flag, e.g.
+ * `SUPERLATIVE_CLAIM: Unsubstantiated superlative claim ("safest")`, and text
+ * matched by a "redacted" rule is masked in the answer.
+ */
+
+import bundledRules from '@/compliance_rules.json'
+import { readConfigFile } from '@/lib/configFiles'
+
+export type ComplianceSeverity = 'redacted' | 'flagged'
+
+interface BaseRule {
+  /** Upper-case code shown at the start of the flag */
+  code: string
+  severity: ComplianceSeverity
+  description: string
+}
+
+/** Fires on any of the terms (whole words, any case). */
+export interface TermsRule extends BaseRule {
+  type: 'terms'
+  terms: string[]
+}
+
+/** Fires when one term from every group appears in the same sentence. */
+export interface CoOccurrenceRule extends BaseRule {
+  type: 'co_occurrence'
+  groups: string[][]
+}
+
+/** Fires when a sentence about a gift or meal names a dollar value over the state's limit. */
+export interface GiftLimitRule extends BaseRule {
+  type: 'gift_limit'
+  terms: string[]
+  /** Applies when no listed state is mentioned */
+  default_limit_usd: number
+  states: { code: string; name: string; limit_usd: number }[]
+}
+
+export type ComplianceRule = TermsRule | CoOccurrenceRule | GiftLimitRule
+
+export interface ComplianceRulePack {
+  id: string
+  name: string
+  enabled: boolean
+  rules: ComplianceRule[]
+}
+
+export interface ComplianceRuleHit {
+  code: string
+  pack: string
+  severity: ComplianceSeverity
+  description: string
+  /** The matched text, or a summary of it for gift limits */
+  matches: string[]
+}
+
+export interface ComplianceEvaluation {
+  /** The agent's status, escalated by the hits */
+  status: string
+  escalated: boolean
+  hits: ComplianceRuleHit[]
+  /** One coded flag per rule that fired */
+  flags: string[]
+  /** The text with "redacted" matches masked */
+  text: string
+}
+
+const STATUS_RANK: Record<string, number> = { compliant: 0, redacted: 1, unverified: 2, flagged: 3 }
+
+/** A status the UI and audit know, with anything else (or none) read as unverified */
+function knownStatus(status: string): string {
+  const normalized = (status || '').toLowerCase()
+  return Object.hasOwn(STATUS_RANK, normalized) ? normalized : 'unverified'
+}
+
+/** The more severe of two statuses. Unknown statuses become unverified. */
+export function escalateStatus(current: string, proposed: string): string {
+  const [from, to] = [knownStatus(current), knownStatus(proposed)]
+  return STATUS_RANK[to] > STATUS_RANK[from] ? to : from
+}
+
+export async function loadComplianceRules(): Promise<ComplianceRulePack[]> {
+  const config = await readConfigFile<{ packs?: ComplianceRulePack[] }>('compliance_rules.json', bundledRules as { packs?: ComplianceRulePack[] })
+  return (Array.isArray(config.packs) ? config.packs : [])
+    .filter(pack => pack && pack.enabled !== false && Array.isArray(pack.rules))
+    .map(pack => ({
+      ...pack,
+      rules: pack.rules.filter(rule =>
+        rule && typeof rule.code === 'string' && (rule.severity === 'redacted' || rule.severity === 'flagged')
+      ),
+    }))
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+interface Span {
+  start: number
+  end: number
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function termPattern(terms: string[]): RegExp | null {
+  const alternatives = terms.filter(t => typeof t === 'string' && t.trim()).map(t => escapeRegExp(t.trim()))
+  if (alternatives.length === 0) return null
+  // Longest first so "gift card" wins over "gift"
+  alternatives.sort((a, b) => b.length - a.length)
+  return new RegExp(`(?<![\\w])(?:${alternatives.join('|')})(?![\\w])`, 'gi')
+}
+
+/** Whole-word, case-insensitive matches of any of the terms, with their positions. */
+export function findTerms(text: string, terms: string[]): (Span & { value: string })[] {
+  const pattern = termPattern(terms)
+  if (!pattern) return []
+  return Array.from(text.matchAll(pattern)).map(m => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    value: m[0],
+  }))
+}
+
+const ABBREVIATION = /(?:^|[\s(])(?:Dr|Mr|Mrs|Ms|Mx|St|Jr|Sr|Inc|vs|approx|e\.g|i\.e)\.$/i
+
+function sentences(text: string): (Span & { text: string })[] {
+  const result: (Span & { text: string })[] = []
+  // A full stop inside a number ($12.50) does not end the sentence
+  const pattern = /(?:[^.!?\n]|[.!?](?![\s]|$))+[.!?]*/g
+  for (const m of Array.from(text.matchAll(pattern))) {
+    const previous = result[result.length - 1]
+    // Nor does one after an abbreviation ("Dr. Chen")
+    if (previous && previous.end === m.index! && ABBREVIATION.test(previous.text.trimEnd())) {
+      previous.end = m.index! + m[0].length
+      previous.text = text.slice(previous.start, previous.end)
+    } else if (m[0].trim()) {
+      result.push({ start: m.index!, end: m.index! + m[0].length, text: m[0] })
+    }
+  }
+  return result
+}
+
+function dollarAmounts(text: string): number[] {
+  return Array.from(text.matchAll(/\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?/g)).map(m => Number(m[0].replace(/[$,\s]/g, '')))
+}
+
+function mentionedState(text: string, states: GiftLimitRule['states']) {
+  return states.find(s =>
+    new RegExp(`(?<![\\w])${escapeRegExp(s.name)}(?![\\w])`, 'i').test(text) ||
+    new RegExp(`(?<![\\w])${escapeRegExp(s.code)}(?![\\w])`).test(text)
+  )
+}
+
+function evaluateRule(rule: ComplianceRule, text: string): { matches: string[]; spans: Span[] } {
+  if (rule.type === 'terms') {
+    const found = findTerms(text, rule.terms || [])
+    return { matches: found.map(f => f.value), spans: found }
+  }
+
+  if (rule.type === 'co_occurrence') {
+    const matches: string[] = []
+    const spans: Span[] = []
+    const groups = (rule.groups || []).filter(g => Array.isArray(g) && g.length > 0)
+    if (groups.length === 0) return { matches, spans }
+    for (const sentence of sentences(text)) {
+      const found = groups.map(group => findTerms(sentence.text, group))
+      if (found.every(f => f.length > 0)) {
+        matches.push(found.map(f => f[0].value).join(' + '))
+        spans.push(sentence)
+      }
+    }
+    return { matches, spans }
+  }
+
+  if (rule.type === 'gift_limit') {
+    const matches: string[] = []
+    const spans: Span[] = []
+    const states = Array.isArray(rule.states) ? rule.states : []
+    const documentState = mentionedState(text, states)
+    for (const sentence of sentences(text)) {
+      if (findTerms(sentence.text, rule.terms || []).length === 0) continue
+      const amounts = dollarAmounts(sentence.text)
+      if (amounts.length === 0) continue
+      const state = mentionedState(sentence.text, states) || documentState
+      const limit = state ? state.limit_usd : rule.default_limit_usd
+      const highest = Math.max(...amounts)
+      if (typeof limit === 'number' && highest > limit) {
+        matches.push(`$${highest} ${state ? `in ${state.code}` : 'with no state named'}, limit $${limit}`)
+        spans.push(sentence)
+      }
+    }
+    return { matches, spans }
+  }
+
+  return { matches: [], spans: [] }
+}
+
+function mask(text: string, spans: (Span & { code: string })[]): string {
+  const ordered = [...spans].sort((a, b) => a.start - b.start || b.end - a.end)
+  let out = ''
+  let cursor = 0
+  for (const span of ordered) {
+    if (span.start < cursor) continue
+    out += text.slice(cursor, span.start) + `[redacted: ${span.code}]`
+    cursor = span.end
+  }
+  return out + text.slice(cursor)
+}
+
+/**
+ * Run every enabled rule over an answer. `status` is the agent's own
+ * compliance status; the result's status is never less severe.
+ */
+export function evaluateCompliance(text: string, status: string, packs: ComplianceRulePack[]): ComplianceEvaluation {
+  const hits: ComplianceRuleHit[] = []
+  const redactSpans: (Span & { code: string })[] = []
+
+  for (const pack of packs) {
+    for (const rule of pack.rules) {
+      const { matches, spans } = evaluateRule(rule, text)
+      if (matches.length === 0) continue
+      hits.push({
+        code: rule.code,
+        pack: pack.id,
+        severity: rule.severity,
+        description: rule.description,
+        matches: Array.from(new Set(matches.map(m => m.trim()))),
+      })
+      if (rule.severity === 'redacted') redactSpans.push(...spans.map(s => ({ ...s, code: rule.code })))
+    }
+  }
+
+  const escalated = hits.reduce((current, hit) => escalateStatus(current, hit.severity), escalateStatus(status, 'compliant'))
+  return {
+    status: escalated,
+    escalated: escalated !== (status || '').toLowerCase(),
+    hits,
+    flags: hits.map(hit => `${hit.code}: ${hit.description} (${hit.matches.map(m => `"${m}"`).join(', ')})`),
+    text: redactSpans.length > 0 ? mask(text, redactSpans) : text,
+  }
+}
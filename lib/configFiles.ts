@@ -0,0 +1,33 @@
+/**
+ * Config File Loading (server-side)
+ *
+ * Reads the JSON config shipped with the app (workflow_state.json,
+ * workflow.json, phi_redaction.json, compliance_rules.json,
+ * adverse_events.json) from CONFIG_DIR, default the project root, so edits
+ * apply without a rebuild. Callers pass the copy bundled at build time,
+ * which is used when the file is not on disk, e.g. in serverless
+ * deployments.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export class ConfigFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigFileError'
+  }
+}
+
+export function configDir(): string {
+  return process.env.CONFIG_DIR || process.cwd()
+}
+
+export async function readConfigFile<T>(file: string, bundled: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(configDir(), file), 'utf8'))
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return bundled
+    throw new ConfigFileError(`${file}: ${error instanceof Error ? error.message : 'unreadable'}`)
+  }
+}
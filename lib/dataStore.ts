@@ -0,0 +1,135 @@
+/**
+ * Local Data Store (server-side)
+ *
+ * File-backed persistence for records the app owns (workflow versions,
+ * audit entries, review decisions, ...). Everything lives under DATA_DIR
+ * (default .data in the project root) as JSON documents, append-only
+ * JSONL logs or, for the sales database, binary files. Writes go through a
+ * temp file and rename so a crash never leaves a half-written document
+ * behind.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export function dataDir(): string {
+  return path.resolve(process.env.DATA_DIR || path.join(process.cwd(), '.data'))
+}
+
+/** Absolute path of a file or directory inside DATA_DIR. */
+export function dataPath(...segments: string[]): string {
+  return path.join(dataDir(), ...segments)
+}
+
+export async function readJson<T>(relativePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(relativePath), 'utf8'))
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+export async function writeJson(relativePath: string, value: unknown): Promise<void> {
+  const file = dataPath(relativePath)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2) + '\n', 'utf8')
+  await fs.rename(tmp, file)
+}
+
+/** Read a binary file, or null when it does not exist. */
+export async function readBinary(relativePath: string): Promise<Uint8Array | null> {
+  try {
+    return new Uint8Array(await fs.readFile(dataPath(relativePath)))
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+export async function writeBinary(relativePath: string, data: Uint8Array): Promise<void> {
+  const file = dataPath(relativePath)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, data)
+  await fs.rename(tmp, file)
+}
+
+/**
+ * Create a JSON document only if it does not exist yet. Returns false when
+ * the file was already there, so callers can retry with another name.
+ */
+export async function createJson(relativePath: string, value: unknown): Promise<boolean> {
+  const file = dataPath(relativePath)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  try {
+    await fs.writeFile(file, JSON.stringify(value, null, 2) + '\n', { encoding: 'utf8', flag: 'wx' })
+    return true
+  } catch (error: any) {
+    if (error?.code === 'EEXIST') return false
+    throw error
+  }
+}
+
+/** Delete a document; a missing file is not an error. */
+export async function removeJson(relativePath: string): Promise<void> {
+  try {
+    await fs.unlink(dataPath(relativePath))
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error
+  }
+}
+
+export async function listFiles(relativeDir: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(dataPath(relativeDir))).sort()
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return []
+    throw error
+  }
+}
+
+export async function appendJsonLine(relativePath: string, value: unknown): Promise<void> {
+  const file = dataPath(relativePath)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.appendFile(file, JSON.stringify(value) + '\n', 'utf8')
+}
+
+/** Read every record of a JSONL log. Unparseable lines are skipped. */
+export async function readJsonLines<T>(relativePath: string): Promise<T[]> {
+  let text: string
+  try {
+    text = await fs.readFile(dataPath(relativePath), 'utf8')
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return []
+    throw error
+  }
+  const records: T[] = []
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line))
+    } catch {
+      // Torn write at the end of the log
+    }
+  }
+  return records
+}
+
+/**
+ * Serialize async operations per key within this process, e.g. to keep
+ * read-modify-write sequences on one file from interleaving.
+ */
+const globalForLocks = globalThis as unknown as { __dataStoreLocks?: Map<string, Promise<unknown>> }
+
+export function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const locks = globalForLocks.__dataStoreLocks || (globalForLocks.__dataStoreLocks = new Map())
+  const previous = locks.get(key) || Promise.resolve()
+  const run = previous.catch(() => undefined).then(fn)
+  locks.set(key, run)
+  run.finally(() => {
+    if (locks.get(key) === run) locks.delete(key)
+  }).catch(() => undefined)
+  return run
+}
@@ -0,0 +1,410 @@
+/**
+ * Knowledge Base Document Conversion (server-side)
+ *
+ * The train endpoint only takes PDF, DOCX and TXT, but sales data arrives as
+ * spreadsheets and training material as slide decks. Files in the formats
+ * below are converted to plain text here, locally, before they are trained:
+ *
+ *   .csv             one table
+ *   .xlsx            one table per sheet (shared strings, inline strings, numbers)
+ *   .pptx            slide text, tables and speaker notes, in slide order
+ *   .md / .markdown  as is
+ *   .html / .htm     visible text, with tables kept as tables
+ *
+ * Tables become Markdown tables. The KB splits documents into chunks, so long
+ * tables are written in blocks of TABLE_BLOCK_ROWS rows with the header
+ * repeated, which keeps every chunk's numbers tied to their columns.
+ *
+ * Converted documents are trained as "<original name>.txt" (e.g.
+ * "Q3 sales.xlsx.txt"); convertedName() and originalName() map between the
+ * two so the document listing shows the name that was uploaded.
+ *
+ * documentText() also reads DOCX and TXT, for duplicate detection
+ * (lib/kbCatalog); PDF text is not extracted locally.
+ */
+
+import { strFromU8, unzipSync } from 'fflate'
+
+export type ConvertibleType = 'csv' | 'xlsx' | 'pptx' | 'md' | 'html'
+
+const CONVERTIBLE_EXTENSIONS: Record<string, ConvertibleType> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  pptx: 'pptx',
+  md: 'md',
+  markdown: 'md',
+  html: 'html',
+  htm: 'html',
+}
+
+/** MIME types browsers send for the formats above */
+export const CONVERTIBLE_MIME_TYPES: Record<string, ConvertibleType> = {
+  'text/csv': 'csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/markdown': 'md',
+  'text/html': 'html',
+}
+
+const TABLE_BLOCK_ROWS = 25
+
+/** Cell text of one sheet, row by row; a CSV file is a single sheet */
+export interface SheetRows {
+  name: string
+  rows: string[][]
+}
+
+export class DocumentConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DocumentConversionError'
+  }
+}
+
+function extension(fileName: string): string {
+  return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+}
+
+/** The conversion a file needs, by extension then MIME type, or null for formats trained as they are */
+export function convertibleType(fileName: string, mimeType?: string): ConvertibleType | null {
+  return CONVERTIBLE_EXTENSIONS[extension(fileName)] || (mimeType && CONVERTIBLE_MIME_TYPES[mimeType]) || null
+}
+
+/** Name a converted document is trained under */
+export function convertedName(fileName: string): string {
+  return `${fileName}.txt`
+}
+
+/** The uploaded name of a trained document, e.g. "Q3 sales.xlsx" for "Q3 sales.xlsx.txt" */
+export function originalName(storedName: string): { fileName: string; convertedFrom: ConvertibleType | null } {
+  const match = storedName.match(/^(.+\.([a-z]+))\.txt$/i)
+  const type = match ? CONVERTIBLE_EXTENSIONS[match[2].toLowerCase()] : undefined
+  return type ? { fileName: match![1], convertedFrom: type } : { fileName: storedName, convertedFrom: null }
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      // fromCodePoint throws past the last Unicode code point
+      return Number.isFinite(n) && n <= 0x10ffff ? String.fromCodePoint(n) : whole
+    }
+    return ENTITIES[code.toLowerCase()] ?? whole
+  })
+}
+
+function cellText(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()
+}
+
+/**
+ * Rows as Markdown tables, the first row as header, in blocks of
+ * TABLE_BLOCK_ROWS rows each under `title` and the row range.
+ */
+function markdownTable(title: string, rows: string[][]): string {
+  const width = Math.max(0, ...rows.map(r => r.length))
+  const nonEmpty = rows.filter(r => r.some(c => c.trim()))
+  if (width === 0 || nonEmpty.length === 0) return ''
+  const pad = (r: string[]) => Array.from({ length: width }, (_, i) => cellText(r[i] ?? ''))
+  const [header, ...body] = nonEmpty.map(pad)
+  const headerLines = [`| ${header.join(' | ')} |`, `| ${header.map(() => '---').join(' | ')} |`]
+
+  if (body.length === 0) return [`## ${title}`, '', ...headerLines].join('\n')
+  const blocks: string[] = []
+  for (let start = 0; start < body.length; start += TABLE_BLOCK_ROWS) {
+    const slice = body.slice(start, start + TABLE_BLOCK_ROWS)
+    const range = body.length > TABLE_BLOCK_ROWS ? ` (rows ${start + 1}-${start + slice.length} of ${body.length})` : ''
+    blocks.push([`## ${title}${range}`, '', ...headerLines, ...slice.map(r => `| ${r.join(' | ')} |`)].join('\n'))
+  }
+  return blocks.join('\n\n')
+}
+
+/** Rows as lines of cell text, without the headings markdownTable adds */
+function plainRows(rows: string[][]): string {
+  return rows.map(r => r.map(c => c.trim()).filter(Boolean).join(' ')).filter(Boolean).join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** RFC 4180 rows: quoted fields, doubled quotes, newlines inside quotes */
+function parseCsv(text: string): string[][] {
+  const delimiter = (text.split('\n', 1)[0].match(/;/g) || []).length > (text.split('\n', 1)[0].match(/,/g) || []).length ? ';' : ','
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else field += ch
+    } else if (ch === '"' && field === '') quoted = true
+    else if (ch === delimiter) { row.push(field); field = '' }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else field += ch
+  }
+  if (field || row.length > 0) rows.push([...row, field])
+  return rows
+}
+
+function convertCsv(fileName: string, bytes: Uint8Array): string {
+  return markdownTable(fileName, parseCsv(strFromU8(bytes).replace(/^\uFEFF/, '')))
+}
+
+// ---------------------------------------------------------------------------
+// Office Open XML (xlsx, pptx)
+// ---------------------------------------------------------------------------
+
+function unzip(fileName: string, bytes: Uint8Array): Record<string, Uint8Array> {
+  try {
+    return unzipSync(bytes, { filter: f => f.name.endsWith('.xml') || f.name.endsWith('.rels') })
+  } catch {
+    throw new DocumentConversionError(`${fileName} is not a valid Office document`)
+  }
+}
+
+function xmlFile(files: Record<string, Uint8Array>, path: string): string {
+  return files[path] ? strFromU8(files[path]) : ''
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`))
+  return match ? decodeEntities(match[1]) : undefined
+}
+
+/** Concatenated <t> (or <prefix:t>) text runs of an XML fragment */
+function runs(xml: string, prefix = ''): string {
+  const tag = prefix ? `${prefix}:t` : 't'
+  return Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')))
+    .map(m => decodeEntities(m[1]))
+    .join('')
+}
+
+/** Relationship id → part path, resolved against the folder of the part that owns the .rels file */
+function relationships(files: Record<string, Uint8Array>, partPath: string): Record<string, string> {
+  const dir = partPath.includes('/') ? partPath.slice(0, partPath.lastIndexOf('/') + 1) : ''
+  const relsPath = `${dir}_rels/${partPath.slice(dir.length)}.rels`
+  const result: Record<string, string> = {}
+  for (const [tag] of Array.from(xmlFile(files, relsPath).matchAll(/<Relationship\s[^>]*>/g))) {
+    const id = attr(tag, 'Id')
+    const target = attr(tag, 'Target')
+    if (!id || !target) continue
+    const parts = (target.startsWith('/') ? target.slice(1) : dir + target).split('/')
+    const resolved: string[] = []
+    for (const part of parts) {
+      if (part === '..') resolved.pop()
+      else if (part !== '.') resolved.push(part)
+    }
+    result[id] = resolved.join('/')
+  }
+  return result
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || ''
+  return letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1
+}
+
+function xlsxSheets(fileName: string, bytes: Uint8Array): SheetRows[] {
+  const files = unzip(fileName, bytes)
+  const workbookPath = 'xl/workbook.xml'
+  const workbook = xmlFile(files, workbookPath)
+  if (!workbook) throw new DocumentConversionError(`${fileName} has no workbook`)
+
+  const shared = Array.from(xmlFile(files, 'xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => runs(m[1]))
+  const rels = relationships(files, workbookPath)
+
+  const sheets: SheetRows[] = []
+  for (const [tag] of Array.from(workbook.matchAll(/<sheet\s[^>]*>/g))) {
+    const name = attr(tag, 'name') || 'Sheet'
+    const path = rels[attr(tag, 'r:id') || '']
+    const sheet = path ? xmlFile(files, path) : ''
+    if (!sheet) continue
+
+    const rows: string[][] = []
+    for (const rowMatch of Array.from(sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+      const row: string[] = []
+      for (const cell of Array.from((rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+        const ref = attr(cell[1], 'r')
+        const type = attr(cell[1], 't')
+        const inner = cell[2] || ''
+        const raw = decodeEntities(inner.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '')
+        const value =
+          type === 's' ? shared[Number(raw)] ?? ''
+            : type === 'inlineStr' ? runs(inner)
+              : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+                : raw
+        row[ref ? columnIndex(ref) : row.length] = value
+      }
+      rows.push(Array.from(row, v => v ?? ''))
+    }
+    sheets.push({ name, rows })
+  }
+  return sheets
+}
+
+function convertXlsx(fileName: string, bytes: Uint8Array): string {
+  return xlsxSheets(fileName, bytes)
+    .map(sheet => markdownTable(`${fileName} — ${sheet.name}`, sheet.rows))
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+function slideTables(xml: string): string[][][] {
+  return Array.from(xml.matchAll(/<a:tbl>([\s\S]*?)<\/a:tbl>/g)).map(t =>
+    Array.from(t[1].matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)).map(r =>
+      Array.from(r[1].matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)).map(c => runs(c[1], 'a'))
+    )
+  )
+}
+
+function paragraphs(xml: string): string[] {
+  return Array.from(xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>|<a:p\s[^>]*>([\s\S]*?)<\/a:p>/g))
+    .map(m => runs(m[1] ?? m[2] ?? '', 'a').trim())
+    .filter(Boolean)
+}
+
+/** `plain` leaves out the slide headings and labels, keeping only the slides' own text */
+function convertPptx(fileName: string, bytes: Uint8Array, plain = false): string {
+  const files = unzip(fileName, bytes)
+  const presentationPath = 'ppt/presentation.xml'
+  const presentation = xmlFile(files, presentationPath)
+  if (!presentation) throw new DocumentConversionError(`${fileName} has no presentation`)
+  const rels = relationships(files, presentationPath)
+
+  const sections: string[] = []
+  const slideIds = Array.from(presentation.matchAll(/<p:sldId\s[^>]*>/g))
+  slideIds.forEach(([tag], i) => {
+    const path = rels[attr(tag, 'r:id') || '']
+    const slide = path ? xmlFile(files, path) : ''
+    if (!slide) return
+
+    // Table text is rendered as tables, not repeated as paragraphs
+    const withoutTables = slide.replace(/<a:tbl>[\s\S]*?<\/a:tbl>/g, '')
+    const parts = [...(plain ? [] : [`## ${fileName} — Slide ${i + 1}`, '']), ...paragraphs(withoutTables)]
+    slideTables(slide).forEach((rows, t) => {
+      const table = plain ? plainRows(rows) : markdownTable(`Slide ${i + 1} table ${t + 1}`, rows)
+      if (table) parts.push('', table.replace(/^## /gm, '### '))
+    })
+
+    const notesPath = Object.values(relationships(files, path)).find(p => p.includes('notesSlides/'))
+    const notes = notesPath ? paragraphs(xmlFile(files, notesPath)).filter(p => !/^\d+$/.test(p)) : []
+    if (notes.length > 0) parts.push('', plain ? notes.join(' ') : `Speaker notes: ${notes.join(' ')}`)
+    sections.push(parts.join('\n'))
+  })
+  return sections.join('\n\n')
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function htmlText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr|section|article|header|footer)>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '- ')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+/** `plain` leaves out the generated table headings, keeping captions and cell text */
+function convertHtml(fileName: string, bytes: Uint8Array, plain = false): string {
+  let html = strFromU8(bytes)
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+  const title = htmlText(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').trim()
+  html = html.replace(/<head\b[\s\S]*?<\/head>/i, '')
+
+  // Tables are swapped for placeholders, converted, then put back
+  const tables: string[] = []
+  html = html.replace(/<table\b[\s\S]*?<\/table>/gi, table => {
+    const rows = Array.from(table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)).map(r =>
+      Array.from(r[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(c => htmlText(c[1]))
+    )
+    const caption = htmlText(table.match(/<caption\b[^>]*>([\s\S]*?)<\/caption>/i)?.[1] || '').trim()
+    tables.push(plain
+      ? [caption, plainRows(rows)].filter(Boolean).join('\n')
+      : markdownTable(caption || `${title || fileName} table ${tables.length + 1}`, rows))
+    return `\n\n\u0000TABLE${tables.length - 1}\u0000\n\n`
+  })
+  html = html.replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+    `\n${'#'.repeat(Number(level))} ${htmlText(text).trim()}\n`
+  )
+
+  const text = htmlText(html)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\u0000TABLE(\d+)\u0000/g, (_, n: string) => tables[Number(n)])
+    .trim()
+  return title ? `# ${title}\n\n${text}` : text
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Raw cell text of a spreadsheet, for callers that load the rows themselves
+ * (lib/salesData). Throws DocumentConversionError for unreadable files.
+ */
+export function readSpreadsheet(fileName: string, type: 'csv' | 'xlsx', bytes: Uint8Array): SheetRows[] {
+  if (type === 'xlsx') return xlsxSheets(fileName, bytes)
+  return [{ name: fileName, rows: parseCsv(strFromU8(bytes).replace(/^\uFEFF/, '')) }]
+}
+
+/**
+ * Text to train for a convertible file. Throws DocumentConversionError when
+ * the file cannot be read or has no text.
+ */
+export function convertDocument(fileName: string, type: ConvertibleType, bytes: Uint8Array): string {
+  const text =
+    type === 'csv' ? convertCsv(fileName, bytes)
+      : type === 'xlsx' ? convertXlsx(fileName, bytes)
+        : type === 'pptx' ? convertPptx(fileName, bytes)
+          : type === 'html' ? convertHtml(fileName, bytes)
+            : strFromU8(bytes).replace(/^\uFEFF/, '')
+  if (!text.trim()) throw new DocumentConversionError(`No text found in ${fileName}`)
+  return text
+}
+
+function docxText(fileName: string, bytes: Uint8Array): string {
+  const xml = xmlFile(unzip(fileName, bytes), 'word/document.xml')
+  return Array.from(xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g))
+    .map(m => runs(m[0], 'w'))
+    .join('\n')
+}
+
+/**
+ * Plain text of any file the knowledge base accepts except PDF (null), for
+ * comparing documents by content. Unlike convertDocument there are no
+ * headings naming the file, sheet or slide, so the same content under
+ * another name or format gives the same text. Throws DocumentConversionError
+ * for unreadable files.
+ */
+export function documentText(fileName: string, bytes: Uint8Array, mimeType?: string): string | null {
+  const type = convertibleType(fileName, mimeType)
+  if (type === 'csv' || type === 'xlsx') return readSpreadsheet(fileName, type, bytes).map(sheet => plainRows(sheet.rows)).join('\n')
+  if (type === 'pptx') return convertPptx(fileName, bytes, true)
+  if (type === 'html') return convertHtml(fileName, bytes, true)
+  if (type) return convertDocument(fileName, type, bytes)
+  const ext = extension(fileName)
+  if (ext === 'docx') return docxText(fileName, bytes)
+  if (ext === 'txt' || mimeType === 'text/plain') return strFromU8(bytes).replace(/^\uFEFF/, '')
+  return null
+}
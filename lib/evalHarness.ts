@@ -0,0 +1,316 @@
+/**
+ * Golden-Question Evaluation Harness (server-side)
+ *
+ * Runs a suite of questions (eval/golden-questions.json) through the agent
+ * pipeline and scores every answer on three checks:
+ *
+ *   - fact recall:  share of expected facts found in the answer
+ *   - domains:      domains_accessed matches the expected domains exactly
+ *   - compliance:   compliance_status matches the expected status
+ *
+ * Questions go through the same submit/poll path as /api/agent, on the
+ * configured backend or the emulator. Each run is stored under
+ * DATA_DIR/eval/runs and diffed against the previous run of the suite, so a
+ * change to an agent prompt shows up as regressed or improved cases.
+ */
+
+import bundledSuite from '@/eval/golden-questions.json'
+import { readConfigFile, ConfigFileError } from '@/lib/configFiles'
+import { createJson, listFiles, readJson } from '@/lib/dataStore'
+import { submitAgentTask, pollAgentTask } from '@/lib/agentTasks'
+import type { LyzrBackend } from '@/lib/lyzrBackend'
+
+// Types
+export interface EvalCase {
+  id: string
+  question: string
+  expected_facts: string[]
+  expected_domains: string[]
+  expected_compliance: string
+}
+
+export interface EvalSuite {
+  name: string
+  description?: string
+  cases: EvalCase[]
+}
+
+export interface EvalCaseResult {
+  case_id: string
+  question: string
+  /** Agent call failed or timed out; every check scores 0 */
+  error?: string
+  answer: string
+  duration_ms: number
+  facts: { expected: string[]; found: string[]; missing: string[]; recall: number }
+  domains: { expected: string[]; actual: string[]; missing: string[]; unexpected: string[]; correct: boolean }
+  compliance: { expected: string; actual: string; correct: boolean }
+  /** Mean of fact recall, domain and compliance correctness, 0..1 */
+  score: number
+  passed: boolean
+}
+
+export interface EvalSummary {
+  cases: number
+  passed: number
+  fact_recall: number
+  domain_accuracy: number
+  compliance_accuracy: number
+  score: number
+}
+
+export type EvalCaseChange = 'regressed' | 'improved' | 'unchanged' | 'added' | 'removed'
+
+export interface EvalRunDiff {
+  previous_run_id: string
+  summary: Record<keyof EvalSummary, number>
+  cases: { case_id: string; change: EvalCaseChange; score_delta: number; passed_before?: boolean; passed_now?: boolean }[]
+}
+
+export interface EvalRun {
+  run_id: string
+  suite: string
+  agent_id: string
+  backend: string
+  /** Only some cases ran (case_ids); diffs skip the cases left out */
+  partial?: boolean
+  started_at: string
+  completed_at: string
+  summary: EvalSummary
+  results: EvalCaseResult[]
+  diff?: EvalRunDiff
+}
+
+export type EvalRunSummary = Omit<EvalRun, 'results' | 'diff'> & { regressions: number }
+
+export interface RunEvalOptions {
+  agent_id: string
+  backend: LyzrBackend
+  /** Run only these case ids */
+  case_ids?: string[]
+  /** Cases in flight at once (default 3) */
+  concurrency?: number
+  /** Per-case limit before the case is failed (default 180s) */
+  timeout_ms?: number
+}
+
+const RUNS_DIR = 'eval/runs'
+const POLL_INTERVAL_MS = 1000
+
+// Suite loading
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : []
+}
+
+export async function loadEvalSuite(): Promise<EvalSuite> {
+  const raw: any = await readConfigFile('eval/golden-questions.json', bundledSuite)
+  if (!Array.isArray(raw?.cases)) throw new ConfigFileError('eval/golden-questions.json: "cases" must be an array')
+  const seen = new Set<string>()
+  const cases = raw.cases.map((c: any, i: number): EvalCase => {
+    if (!c?.id || !c?.question) {
+      throw new ConfigFileError(`eval/golden-questions.json: case ${i + 1} needs an id and a question`)
+    }
+    if (seen.has(c.id)) throw new ConfigFileError(`eval/golden-questions.json: duplicate case id "${c.id}"`)
+    seen.add(c.id)
+    return {
+      id: String(c.id),
+      question: String(c.question),
+      expected_facts: toStrings(c.expected_facts),
+      expected_domains: toStrings(c.expected_domains),
+      expected_compliance: String(c.expected_compliance || 'compliant').toLowerCase(),
+    }
+  })
+  return { name: String(raw.name || 'golden-questions'), description: raw.description, cases }
+}
+
+// Scoring
+function normalizeText(text: string): string {
+  return text.replace(/[*_`#>]/g, '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function answerText(result: Record<string, any>): string {
+  const parts = [result?.answer, result?.reviewed_content, result?.text, result?.message]
+  for (const key of ['data_points', 'profiles']) {
+    if (Array.isArray(result?.[key])) parts.push(...result[key])
+  }
+  return parts.filter(p => typeof p === 'string').join('\n')
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/** Score one agent result (the manager's structured payload) against a case. */
+export function scoreEvalCase(c: EvalCase, result: Record<string, any>, error?: string): Omit<EvalCaseResult, 'duration_ms'> {
+  const answer = answerText(result || {})
+  const haystack = normalizeText(answer)
+  const found = c.expected_facts.filter(f => haystack.includes(normalizeText(f)))
+  const recall = error ? 0 : c.expected_facts.length === 0 ? 1 : found.length / c.expected_facts.length
+
+  const actualDomains = toStrings(result?.domains_accessed)
+  const expectedSet = new Set(c.expected_domains.map(d => d.toLowerCase()))
+  const actualSet = new Set(actualDomains.map(d => d.toLowerCase()))
+  const missing = c.expected_domains.filter(d => !actualSet.has(d.toLowerCase()))
+  const unexpected = actualDomains.filter(d => !expectedSet.has(d.toLowerCase()))
+  const domainsCorrect = !error && missing.length === 0 && unexpected.length === 0
+
+  const actualCompliance = String(result?.compliance_status || 'unverified').toLowerCase()
+  const complianceCorrect = !error && actualCompliance === c.expected_compliance
+
+  const score = round((recall + (domainsCorrect ? 1 : 0) + (complianceCorrect ? 1 : 0)) / 3)
+  return {
+    case_id: c.id,
+    question: c.question,
+    ...(error ? { error } : {}),
+    answer,
+    facts: { expected: c.expected_facts, found, missing: c.expected_facts.filter(f => !found.includes(f)), recall: round(recall) },
+    domains: { expected: c.expected_domains, actual: actualDomains, missing, unexpected, correct: domainsCorrect },
+    compliance: { expected: c.expected_compliance, actual: actualCompliance, correct: complianceCorrect },
+    score,
+    passed: recall === 1 && domainsCorrect && complianceCorrect,
+  }
+}
+
+export function summarizeEvalResults(results: EvalCaseResult[]): EvalSummary {
+  const n = results.length || 1
+  const mean = (f: (r: EvalCaseResult) => number) => round(results.reduce((sum, r) => sum + f(r), 0) / n)
+  return {
+    cases: results.length,
+    passed: results.filter(r => r.passed).length,
+    fact_recall: mean(r => r.facts.recall),
+    domain_accuracy: mean(r => (r.domains.correct ? 1 : 0)),
+    compliance_accuracy: mean(r => (r.compliance.correct ? 1 : 0)),
+    score: mean(r => r.score),
+  }
+}
+
+export function diffEvalRuns(previous: EvalRun, current: Pick<EvalRun, 'summary' | 'results' | 'partial'>): EvalRunDiff {
+  const before = new Map(previous.results.map(r => [r.case_id, r]))
+  const now = new Map(current.results.map(r => [r.case_id, r]))
+  const cases: EvalRunDiff['cases'] = []
+
+  for (const r of current.results) {
+    const prev = before.get(r.case_id)
+    if (!prev) {
+      cases.push({ case_id: r.case_id, change: 'added', score_delta: r.score, passed_now: r.passed })
+      continue
+    }
+    const delta = round(r.score - prev.score)
+    const change: EvalCaseChange =
+      (prev.passed && !r.passed) || delta < 0 ? 'regressed' : (!prev.passed && r.passed) || delta > 0 ? 'improved' : 'unchanged'
+    cases.push({ case_id: r.case_id, change, score_delta: delta, passed_before: prev.passed, passed_now: r.passed })
+  }
+  for (const prev of current.partial ? [] : previous.results) {
+    if (!now.has(prev.case_id)) {
+      cases.push({ case_id: prev.case_id, change: 'removed', score_delta: -prev.score, passed_before: prev.passed })
+    }
+  }
+
+  // A partial run is compared with the same cases of the previous run
+  const baseline = current.partial
+    ? summarizeEvalResults(previous.results.filter(r => now.has(r.case_id)))
+    : previous.summary
+  const summary = Object.fromEntries(
+    (Object.keys(current.summary) as (keyof EvalSummary)[]).map(k => [k, round(current.summary[k] - baseline[k])])
+  ) as Record<keyof EvalSummary, number>
+
+  return { previous_run_id: previous.run_id, summary, cases }
+}
+
+// Runner
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/** Ask one question and wait for the completed task body. */
+async function askAgent(question: string, options: RunEvalOptions): Promise<{ result: Record<string, any>; error?: string }> {
+  const submitted = await submitAgentTask(
+    { message: question, agent_id: options.agent_id, user_id: 'eval-harness', session_id: `eval-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` },
+    options.backend
+  )
+  if (submitted.status !== 200 || !submitted.body.task_id) {
+    return { result: {}, error: submitted.body.error || `Submit failed with status ${submitted.status}` }
+  }
+
+  const deadline = Date.now() + (options.timeout_ms ?? 180_000)
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS)
+    const polled = await pollAgentTask(submitted.body.task_id, options.backend)
+    if (polled.body.status === 'processing') continue
+    if (!polled.body.success) return { result: {}, error: polled.body.error || 'Agent task failed' }
+    const validation = polled.body.validation
+    return { result: validation?.valid && validation.data ? validation.data : polled.body.response?.result || {} }
+  }
+  return { result: {}, error: 'Timed out waiting for the agent' }
+}
+
+export async function runEvalSuite(suite: EvalSuite, options: RunEvalOptions): Promise<Omit<EvalRun, 'run_id' | 'diff'>> {
+  const cases = options.case_ids ? suite.cases.filter(c => options.case_ids!.includes(c.id)) : suite.cases
+  const results: EvalCaseResult[] = new Array(cases.length)
+  const startedAt = new Date().toISOString()
+
+  let next = 0
+  const worker = async () => {
+    while (next < cases.length) {
+      const index = next++
+      const c = cases[index]
+      const started = Date.now()
+      let outcome: { result: Record<string, any>; error?: string }
+      try {
+        outcome = await askAgent(c.question, options)
+      } catch (error) {
+        outcome = { result: {}, error: error instanceof Error ? error.message : 'Agent call failed' }
+      }
+      results[index] = { ...scoreEvalCase(c, outcome.result, outcome.error), duration_ms: Date.now() - started }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency ?? 3, cases.length)) }, worker))
+
+  return {
+    suite: suite.name,
+    agent_id: options.agent_id,
+    backend: options.backend.name,
+    ...(cases.length < suite.cases.length ? { partial: true } : {}),
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+    summary: summarizeEvalResults(results),
+    results,
+  }
+}
+
+// Run storage
+function runIdFor(startedAt: string): string {
+  return startedAt.replace(/[:.]/g, '-')
+}
+
+export async function getEvalRun(runId: string): Promise<EvalRun | null> {
+  if (!/^[\w-]+$/.test(runId)) return null
+  return readJson<EvalRun | null>(`${RUNS_DIR}/${runId}.json`, null)
+}
+
+/** Stored runs, newest first, without per-case results. */
+export async function listEvalRuns(suite?: string): Promise<EvalRunSummary[]> {
+  const runs: EvalRunSummary[] = []
+  for (const file of (await listFiles(RUNS_DIR)).filter(f => f.endsWith('.json')).reverse()) {
+    const run = await getEvalRun(file.replace(/\.json$/, ''))
+    if (!run || (suite && run.suite !== suite)) continue
+    const { results: _results, diff, ...summary } = run
+    runs.push({ ...summary, regressions: diff?.cases.filter(c => c.change === 'regressed').length ?? 0 })
+  }
+  return runs
+}
+
+/** Store a finished run with its diff against the previous full run of the same suite. */
+export async function saveEvalRun(run: Omit<EvalRun, 'run_id' | 'diff'>): Promise<EvalRun> {
+  const previousSummary = (await listEvalRuns(run.suite)).find(r => !r.partial)
+  const previous = previousSummary ? await getEvalRun(previousSummary.run_id) : null
+  const stored: EvalRun = {
+    run_id: runIdFor(run.started_at),
+    ...run,
+    ...(previous ? { diff: diffEvalRuns(previous, run) } : {}),
+  }
+  for (let i = 2; !(await createJson(`${RUNS_DIR}/${stored.run_id}.json`, stored)); i++) {
+    stored.run_id = `${runIdFor(run.started_at)}-${i}`
+  }
+  return stored
+}
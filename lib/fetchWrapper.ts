@@ -79,6 +79,16 @@ const fetchWrapper = async (...args) => {
       }
     }
 
+    // Session missing or expired - go sign in, then come back here
+    if (response.status == 401 && !requestUrl.includes("/api/auth/")) {
+      const body = await response.clone().json().catch(() => null);
+      if (body?.error === "Sign in required") {
+        const next = window.location.pathname + window.location.search;
+        window.location.href = `/login?next=${encodeURIComponent(next)}`;
+        return;
+      }
+    }
+
     if (response.status == 404) {
       const contentType = response.headers.get("content-type") || "";
 
@@ -111,6 +121,11 @@ const fetchWrapper = async (...args) => {
 
     return response;
   } catch (error) {
+    // caller aborted the request — not a backend failure, let the caller handle it
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw error;
+    }
+
     // network failures
     const requestUrl = typeof args[0] === "string" ? args[0] : args[0]?.url || "";
     sendErrorToParent(
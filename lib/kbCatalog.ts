@@ -0,0 +1,362 @@
+/**
+ * Knowledge Base Document Catalog (server-side)
+ *
+ * Lyzr only lists a knowledge base's storage paths, so everything else
+ * about a file is kept here: who uploaded it and when, its size, content
+ * hash, chunk count, the parser that trained it, tags, and its versions.
+ * One entry per knowledge base and file name in DATA_DIR/kb/catalog.json.
+ *
+ * Uploading a file under a name already in the knowledge base adds a version
+ * and replaces the trained document instead of training a duplicate next to
+ * it; uploading the same bytes again is a no-op. The bytes of every version
+ * are kept (DATA_DIR/kb/files/<rag_id>/<sha256>) so an earlier version can be
+ * restored, which is recorded as a new version copying the old one.
+ *
+ * Each version is also fingerprinted for duplicate detection across
+ * knowledge bases: the SHA-256 of its bytes, and of its text normalized to
+ * lowercase letters and digits (text_hash), which matches the same document
+ * saved with different formatting or in another format. PDFs only get the
+ * byte hash; their text is not extracted locally.
+ */
+
+import { createHash } from 'crypto'
+import { readBinary, readJson, withLock, writeBinary, writeJson } from '@/lib/dataStore'
+import type { AuthUser } from '@/lib/auth'
+import type { LyzrBackend } from '@/lib/lyzrBackend'
+import { documentText, DocumentConversionError } from '@/lib/documentConversion'
+import { deleteDocuments, hasDocument, RagUpstreamError, trainDocument, trainedName, type TrainedDocument } from '@/lib/ragUpstream'
+
+export interface KbDocumentVersion {
+  version: number
+  uploaded_at: string
+  user_id: string
+  user_name: string
+  size: number
+  /** SHA-256 of the uploaded bytes, hex */
+  sha256: string
+  /** SHA-256 of the normalized text; absent for PDFs and files with too little text */
+  text_hash?: string
+  mime?: string
+  chunk_count: number
+  parser: string
+  /** Set when the file was converted to text before training */
+  converted_from?: string
+  /** Set when this version restores an earlier one */
+  restored_from?: number
+}
+
+export interface KbCatalogEntry {
+  rag_id: string
+  /** The uploaded file name */
+  file_name: string
+  /** Name the file is trained under upstream; differs for converted files */
+  trained_name: string
+  current_version: number
+  tags: string[]
+  versions: KbDocumentVersion[]
+  /** Set while the file is deleted from the knowledge base; a new upload clears it */
+  deleted_at?: string
+}
+
+export class KbCatalogError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'KbCatalogError'
+    this.status = status
+  }
+}
+
+export interface DocumentFingerprint {
+  sha256: string
+  text_hash?: string
+}
+
+/** A live document with the same content as an upload */
+export interface DuplicateMatch {
+  /** exact: same bytes; text: same normalized text */
+  match: 'exact' | 'text'
+  rag_id: string
+  file_name: string
+  trained_name: string
+  version: number
+}
+
+const CATALOG_FILE = 'kb/catalog.json'
+const MAX_TAGS = 20
+// Shorter normalized text is too generic to call two files duplicates
+const MIN_FINGERPRINT_CHARS = 40
+
+export function contentHash(bytes: Uint8Array | string): string {
+  return createHash('sha256').update(bytes).digest('hex')
+}
+
+/** Lowercase letters and digits separated by single spaces, accents dropped */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export function documentFingerprint(fileName: string, bytes: Uint8Array, mime?: string): DocumentFingerprint {
+  let text: string | null = null
+  try {
+    text = documentText(fileName, bytes, mime)
+  } catch (error) {
+    // Unreadable files are compared by their bytes; training reports the problem
+    if (!(error instanceof DocumentConversionError)) throw error
+  }
+  const normalized = text ? normalizeText(text) : ''
+  return {
+    sha256: contentHash(bytes),
+    ...(normalized.length >= MIN_FINGERPRINT_CHARS ? { text_hash: contentHash(normalized) } : {}),
+  }
+}
+
+function blobPath(ragId: string, sha256: string): string {
+  return `kb/files/${ragId.replace(/[^a-zA-Z0-9_-]/g, '_')}/${sha256}`
+}
+
+async function readCatalog(): Promise<KbCatalogEntry[]> {
+  return readJson<KbCatalogEntry[]>(CATALOG_FILE, [])
+}
+
+function updateCatalog<T>(fn: (entries: KbCatalogEntry[]) => T): Promise<T> {
+  return withLock(CATALOG_FILE, async () => {
+    const entries = await readCatalog()
+    const result = fn(entries)
+    await writeJson(CATALOG_FILE, entries)
+    return result
+  })
+}
+
+/** Lowercased, trimmed and de-duplicated; accepts an array or a comma-separated string */
+export function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  const tags = raw.map(t => String(t).trim().toLowerCase().slice(0, 50)).filter(Boolean)
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS)
+}
+
+export function currentVersion(entry: KbCatalogEntry): KbDocumentVersion | undefined {
+  return entry.versions.find(v => v.version === entry.current_version)
+}
+
+/** Entries of a knowledge base that are in it now */
+export async function listCatalog(ragId: string): Promise<KbCatalogEntry[]> {
+  return (await readCatalog()).filter(e => e.rag_id === ragId && !e.deleted_at)
+}
+
+/**
+ * Live documents in any knowledge base whose current version has the same
+ * bytes or the same normalized text, exact matches first. `except` is the
+ * file being uploaded; a new version of it is not a duplicate.
+ */
+export async function findDuplicates(
+  fingerprint: DocumentFingerprint,
+  except: { ragId: string; fileName: string }
+): Promise<DuplicateMatch[]> {
+  const matches: DuplicateMatch[] = []
+  for (const entry of await readCatalog()) {
+    if (entry.deleted_at || (entry.rag_id === except.ragId && entry.file_name === except.fileName)) continue
+    const version = currentVersion(entry)
+    if (!version) continue
+    const match = version.sha256 === fingerprint.sha256 ? 'exact'
+      : fingerprint.text_hash && version.text_hash === fingerprint.text_hash ? 'text'
+        : null
+    if (match) {
+      matches.push({ match, rag_id: entry.rag_id, file_name: entry.file_name, trained_name: entry.trained_name, version: version.version })
+    }
+  }
+  return matches.sort((a, b) => (a.match === b.match ? 0 : a.match === 'exact' ? -1 : 1))
+}
+
+/** An entry by uploaded or trained name, deleted ones included */
+export async function getCatalogEntry(ragId: string, fileName: string): Promise<KbCatalogEntry | undefined> {
+  return (await readCatalog()).find(e => e.rag_id === ragId && (e.file_name === fileName || e.trained_name === fileName))
+}
+
+/**
+ * Serialize replacing one file, so two uploads of the same name cannot both
+ * delete and retrain it at once.
+ */
+function withDocumentLock<T>(ragId: string, fileName: string, fn: () => Promise<T>): Promise<T> {
+  return withLock(`kb/document/${ragId}/${fileName}`, fn)
+}
+
+/** Keep a version's bytes for later rollback; identical bytes are stored once */
+async function storeVersionBytes(ragId: string, sha256: string, bytes: Uint8Array): Promise<void> {
+  if (!(await readBinary(blobPath(ragId, sha256)))) await writeBinary(blobPath(ragId, sha256), bytes)
+}
+
+async function readVersionBytes(ragId: string, sha256: string): Promise<Uint8Array | null> {
+  return readBinary(blobPath(ragId, sha256))
+}
+
+/**
+ * Record a newly trained version of a file, creating its entry on first
+ * upload. Tags given here replace the entry's tags.
+ */
+async function recordVersion(
+  ragId: string,
+  file: { file_name: string; trained_name: string; tags?: string[] },
+  version: Omit<KbDocumentVersion, 'version' | 'uploaded_at' | 'user_id' | 'user_name'>,
+  user: AuthUser
+): Promise<KbCatalogEntry> {
+  return updateCatalog(entries => {
+    let entry = entries.find(e => e.rag_id === ragId && e.file_name === file.file_name)
+    if (!entry) {
+      entry = { rag_id: ragId, file_name: file.file_name, trained_name: file.trained_name, current_version: 0, tags: [], versions: [] }
+      entries.push(entry)
+    }
+    const next = Math.max(0, ...entry.versions.map(v => v.version)) + 1
+    entry.versions.push({
+      version: next,
+      uploaded_at: new Date().toISOString(),
+      user_id: user.id,
+      user_name: user.name,
+      ...version,
+    })
+    entry.trained_name = file.trained_name
+    entry.current_version = next
+    if (file.tags) entry.tags = file.tags
+    delete entry.deleted_at
+    return entry
+  })
+}
+
+/** Mark the entries behind deleted documents (file names or storage paths) as deleted */
+export async function markDeleted(ragId: string, documentNames: string[]): Promise<void> {
+  const names = documentNames.map(n => n.split('/').pop() || n)
+  const now = new Date().toISOString()
+  await updateCatalog(entries => {
+    for (const entry of entries) {
+      if (entry.rag_id === ragId && !entry.deleted_at && (names.includes(entry.trained_name) || names.includes(entry.file_name))) {
+        entry.deleted_at = now
+      }
+    }
+  })
+}
+
+export async function setTags(ragId: string, fileName: string, tags: string[]): Promise<KbCatalogEntry> {
+  return updateCatalog(entries => {
+    const entry = entries.find(e => e.rag_id === ragId && e.file_name === fileName)
+    if (!entry) throw new KbCatalogError(`${fileName} has no catalog entry`, 404)
+    entry.tags = tags
+    return entry
+  })
+}
+
+export interface PublishedDocument {
+  entry: KbCatalogEntry
+  /** Null when the bytes matched the current version and nothing was trained */
+  trained: TrainedDocument | null
+  /** Version that was replaced, if the file was already in the knowledge base */
+  replaced?: number
+}
+
+/**
+ * Make `bytes` the current version of a file: delete the trained document it
+ * replaces, train the new bytes and record the version. When training fails
+ * the replaced version is trained again so the file does not disappear, and
+ * the error is rethrown. Uploading the current version's bytes again trains
+ * nothing. Restores pass `restored_from`.
+ */
+export async function publishDocument(
+  backend: LyzrBackend,
+  ragId: string,
+  file: {
+    name: string
+    mime?: string
+    bytes: Uint8Array
+    tags?: string[]
+    restored_from?: number
+    /** When the caller already computed it */
+    fingerprint?: DocumentFingerprint
+  },
+  user: AuthUser
+): Promise<PublishedDocument> {
+  return withDocumentLock(ragId, file.name, async () => {
+    const fingerprint = file.fingerprint || documentFingerprint(file.name, file.bytes, file.mime)
+    const sha256 = fingerprint.sha256
+    const existing = await getCatalogEntry(ragId, file.name)
+    const live = existing && !existing.deleted_at ? existing : undefined
+    const previous = live ? currentVersion(live) : undefined
+
+    if (previous?.sha256 === sha256) {
+      if (file.restored_from) throw new KbCatalogError(`Version ${file.restored_from} of ${file.name} is already current`, 409)
+      const entry = file.tags ? await setTags(ragId, live!.file_name, file.tags) : live!
+      return { entry, trained: null }
+    }
+
+    // Files trained before the catalog existed have no entry but are still replaced, not duplicated
+    const replacing = live ? live.trained_name : trainedName(file.name, file.mime)
+    if (live || (await hasDocument(backend, ragId, replacing))) {
+      try {
+        await deleteDocuments(backend, ragId, [replacing])
+      } catch (error) {
+        // Already gone upstream: nothing to replace
+        if (!(error instanceof RagUpstreamError && error.status === 404)) throw error
+      }
+    }
+
+    let trained: TrainedDocument
+    try {
+      trained = await trainDocument(backend, ragId, file)
+    } catch (error) {
+      const previousBytes = previous ? await readVersionBytes(ragId, previous.sha256) : null
+      if (previousBytes) {
+        await trainDocument(backend, ragId, { name: live!.file_name, mime: previous!.mime, bytes: previousBytes }).catch(restoreError => {
+          console.error(`[kb] could not restore ${live!.file_name} v${previous!.version} after a failed upload`, restoreError)
+        })
+      }
+      throw error
+    }
+
+    await storeVersionBytes(ragId, sha256, file.bytes)
+    const entry = await recordVersion(
+      ragId,
+      { file_name: file.name, trained_name: trained.trainName, ...(file.tags ? { tags: file.tags } : {}) },
+      {
+        size: file.bytes.byteLength,
+        sha256,
+        ...(fingerprint.text_hash ? { text_hash: fingerprint.text_hash } : {}),
+        ...(file.mime ? { mime: file.mime } : {}),
+        chunk_count: trained.chunkCount,
+        parser: trained.parser,
+        ...(trained.conversion ? { converted_from: trained.conversion } : {}),
+        ...(file.restored_from ? { restored_from: file.restored_from } : {}),
+      },
+      user
+    )
+    return { entry, trained, ...(previous ? { replaced: previous.version } : {}) }
+  })
+}
+
+/**
+ * Make an earlier version current again by training its kept bytes. Recorded
+ * as a new version with `restored_from`, so the history only grows.
+ */
+export async function restoreVersion(
+  backend: LyzrBackend,
+  ragId: string,
+  fileName: string,
+  version: number,
+  user: AuthUser
+): Promise<PublishedDocument> {
+  const entry = await getCatalogEntry(ragId, fileName)
+  const target = entry?.versions.find(v => v.version === version)
+  if (!entry || !target) throw new KbCatalogError(`${fileName} has no version ${version}`, 404)
+  const bytes = await readVersionBytes(ragId, target.sha256)
+  if (!bytes) throw new KbCatalogError(`The file kept for ${fileName} version ${version} is missing`, 410)
+  return publishDocument(
+    backend,
+    ragId,
+    { name: entry.file_name, ...(target.mime ? { mime: target.mime } : {}), bytes, restored_from: version },
+    user
+  )
+}
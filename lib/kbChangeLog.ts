@@ -0,0 +1,50 @@
+/**
+ * Knowledge Base Change Log (server-side)
+ *
+ * Who added or removed what in which knowledge base, one JSON line per
+ * change in DATA_DIR/kb/changes.jsonl. Written by /api/rag after the
+ * upstream accepted the change; a failed write is logged, not surfaced,
+ * since the change itself already happened.
+ */
+
+import { appendJsonLine, readJsonLines } from '@/lib/dataStore'
+import type { AuthUser } from '@/lib/auth'
+
+export type KbChangeAction = 'upload' | 'crawl' | 'delete' | 'restore'
+
+export interface KbChange {
+  id: string
+  timestamp: string
+  rag_id: string
+  action: KbChangeAction
+  /** File names, storage paths or the crawled URL */
+  documents: string[]
+  user_id: string
+  user_name: string
+}
+
+const KB_CHANGE_LOG = 'kb/changes.jsonl'
+
+export async function recordKbChange(
+  user: AuthUser,
+  change: { rag_id: string; action: KbChangeAction; documents: string[] }
+): Promise<void> {
+  const record: KbChange = {
+    id: `kbc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    ...change,
+    user_id: user.id,
+    user_name: user.name,
+  }
+  try {
+    await appendJsonLine(KB_CHANGE_LOG, record)
+  } catch (error) {
+    console.error(`[kb] failed to record ${change.action} on ${change.rag_id}`, error)
+  }
+}
+
+/** Changes, newest first, optionally for one knowledge base. */
+export async function listKbChanges(ragId?: string): Promise<KbChange[]> {
+  const changes = await readJsonLines<KbChange>(KB_CHANGE_LOG)
+  return changes.filter(c => !ragId || c.rag_id === ragId).reverse()
+}
@@ -0,0 +1,72 @@
+/**
+ * Lyzr Backend Selection
+ *
+ * Server-side switch between the hosted Lyzr APIs and the in-process emulator.
+ * Every API route resolves its upstream URLs, API key and fetch implementation
+ * through getLyzrBackend() instead of hardcoding production endpoints.
+ *
+ *   LYZR_BACKEND=lyzr      (default) → agent-prod / rag-prod / scheduler hosts
+ *   LYZR_BACKEND=emulator            → lib/lyzrEmulator, no network or API key needed
+ *   LYZR_BACKEND=replay              → recorded agent responses (lib/agentRecorder),
+ *                                      emulator for everything else
+ *
+ * LYZR_RECORD=1 records finished agent tasks on any backend but replay.
+ */
+
+import { emulatorFetch, EMULATOR_HOSTS } from '@/lib/lyzrEmulator'
+import { isRecordingEnabled, replayFetch, withRecording } from '@/lib/agentRecorder'
+
+export type LyzrBackendName = 'lyzr' | 'emulator' | 'replay'
+
+export interface LyzrBackend {
+  name: LyzrBackendName
+  apiKey: string
+  taskUrl: string
+  ragBaseUrl: string
+  crawlUrl: string
+  schedulerBaseUrl: string
+  uploadUrl: string
+  fetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+function createLyzrBackend(): LyzrBackend {
+  return {
+    name: 'lyzr',
+    apiKey: process.env.LYZR_API_KEY || '',
+    taskUrl: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/task',
+    ragBaseUrl: 'https://rag-prod.studio.lyzr.ai/v3',
+    crawlUrl: 'https://api.beta.architect.new/api/v1/rag/crawl',
+    schedulerBaseUrl: 'https://scheduler.studio.lyzr.ai',
+    uploadUrl: 'https://agent-prod.studio.lyzr.ai/v3/assets/upload',
+    fetch: (input, init) => fetch(input, init),
+  }
+}
+
+function createEmulatorBackend(name: 'emulator' | 'replay' = 'emulator'): LyzrBackend {
+  return {
+    name,
+    // The emulator ignores the key, but routes still check that one is present
+    apiKey: process.env.LYZR_API_KEY || 'emulator',
+    taskUrl: `${EMULATOR_HOSTS.agent}/v3/inference/chat/task`,
+    ragBaseUrl: `${EMULATOR_HOSTS.rag}/v3`,
+    crawlUrl: `${EMULATOR_HOSTS.rag}/api/v1/rag/crawl`,
+    schedulerBaseUrl: EMULATOR_HOSTS.scheduler,
+    uploadUrl: `${EMULATOR_HOSTS.agent}/v3/assets/upload`,
+    fetch: name === 'replay' ? replayFetch : emulatorFetch,
+  }
+}
+
+/**
+ * Resolve the backend for the current request. Read on every call so the
+ * environment can be switched without rebuilding. Pass a name to pick a
+ * backend explicitly, e.g. to run the eval suite against the emulator.
+ */
+export function getLyzrBackend(override?: LyzrBackendName): LyzrBackend {
+  const name = (override || process.env.LYZR_BACKEND || 'lyzr').toLowerCase()
+  if (name === 'replay') return createEmulatorBackend('replay')
+  const backend = name === 'emulator' ? createEmulatorBackend() : createLyzrBackend()
+  if (isRecordingEnabled()) {
+    backend.fetch = withRecording(backend.name, backend.taskUrl, backend.fetch)
+  }
+  return backend
+}
@@ -0,0 +1,408 @@
+/**
+ * In-process Lyzr Emulator
+ *
+ * A fetch-compatible stand-in for the hosted Lyzr services, selected with
+ * LYZR_BACKEND=emulator (see lib/lyzrBackend). It implements the subset of the
+ * upstream APIs that the /api routes proxy:
+ *
+ *   Agent tasks:  POST /v3/inference/chat/task, GET /v3/inference/chat/task/{id}
+ *   Assets:       POST /v3/assets/upload
+ *   RAG:          GET /v3/rag/documents/{rag_id}/, POST /v3/train/{type}/?rag_id=,
+ *                 DELETE /v3/rag/{rag_id}/docs/, POST /api/v1/rag/crawl
+ *   Scheduler:    /schedules/ CRUD, pause, resume, trigger, logs, executions
+ *
+ * State is kept in memory on globalThis so it survives hot reloads but not
+ * server restarts. Tasks complete after LYZR_EMULATOR_TASK_MS (default 1500ms).
+ */
+
+import { buildAgentFixture, planSubAgents } from '@/lib/lyzrEmulatorFixtures'
+
+export const EMULATOR_HOSTS = {
+  agent: 'http://agent.lyzr-emulator.local',
+  rag: 'http://rag.lyzr-emulator.local',
+  scheduler: 'http://scheduler.lyzr-emulator.local',
+} as const
+
+// Types
+interface EmulatedTask {
+  task_id: string
+  agent_id: string
+  message: string
+  user_id: string
+  session_id: string
+  created_at: number
+}
+
+interface EmulatedSchedule {
+  id: string
+  user_id: string
+  agent_id: string
+  message: string
+  cron_expression: string
+  timezone: string
+  max_retries: number
+  retry_delay: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+  next_run_time: string | null
+  last_run_at: string | null
+  last_run_success: boolean | null
+}
+
+interface EmulatedExecution {
+  id: string
+  schedule_id: string
+  agent_id: string
+  user_id: string
+  session_id: string
+  executed_at: string
+  attempt: number
+  max_attempts: number
+  success: boolean
+  payload_message: string
+  response_status: number
+  response_output: string
+  error_message: string | null
+}
+
+interface EmulatorState {
+  tasks: Map<string, EmulatedTask>
+  documents: Map<string, string[]>
+  schedules: Map<string, EmulatedSchedule>
+  executions: EmulatedExecution[]
+}
+
+const globalForEmulator = globalThis as unknown as { __lyzrEmulatorState?: EmulatorState }
+
+function getState(): EmulatorState {
+  if (!globalForEmulator.__lyzrEmulatorState) {
+    globalForEmulator.__lyzrEmulatorState = {
+      tasks: new Map(),
+      documents: new Map(),
+      schedules: new Map(),
+      executions: [],
+    }
+  }
+  return globalForEmulator.__lyzrEmulatorState
+}
+
+/**
+ * Drop all emulator state (tasks, documents, schedules).
+ */
+export function resetEmulator(): void {
+  globalForEmulator.__lyzrEmulatorState = undefined
+}
+
+function taskLatencyMs(): number {
+  const value = Number(process.env.LYZR_EMULATOR_TASK_MS)
+  return Number.isFinite(value) && value >= 0 ? value : 1500
+}
+
+function generateId(): string {
+  return 'xxxxxxxxxxxxxxxxxxxxxxxx'.replace(/x/g, () => ((Math.random() * 16) | 0).toString(16))
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  })
+}
+
+function notFound(detail = 'Not Found'): Response {
+  return json({ detail }, 404)
+}
+
+async function readJsonBody(init?: RequestInit): Promise<any> {
+  if (!init?.body || typeof init.body !== 'string') return {}
+  try {
+    return JSON.parse(init.body)
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Sub-agent progress for a processing task: the plan is walked evenly across
+ * the task latency, so each sub-agent is pending, running, then completed.
+ */
+function taskProgress(task: EmulatedTask, elapsed: number) {
+  const plan = planSubAgents(task.agent_id, task.message)
+  const position = (elapsed / Math.max(taskLatencyMs(), 1)) * plan.length
+  return plan.map((step, i) => ({
+    ...step,
+    status: position >= i + 1 ? 'completed' : position >= i ? 'running' : 'pending',
+  }))
+}
+
+/**
+ * Completed task envelope. Manager tasks also report each sub-agent's output
+ * in module_outputs.sub_agent_outputs, timed over the same slices as taskProgress.
+ */
+function completedTaskPayload(task: EmulatedTask) {
+  const result = buildAgentFixture(task.agent_id, task.message)
+  const plan = planSubAgents(task.agent_id, task.message)
+  const slice = taskLatencyMs() / Math.max(plan.length, 1)
+  const subAgentOutputs = plan.map((step, i) => ({
+    ...step,
+    status: 'completed',
+    started_at: new Date(task.created_at + slice * i).toISOString(),
+    completed_at: new Date(task.created_at + slice * (i + 1)).toISOString(),
+    response: JSON.stringify(buildAgentFixture(step.agent_id, task.message)),
+  }))
+  return {
+    task_id: task.task_id,
+    status: 'completed',
+    response: {
+      response: JSON.stringify(result),
+      module_outputs: subAgentOutputs.length > 0 ? { sub_agent_outputs: subAgentOutputs } : {},
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Agent tasks + assets
+// ---------------------------------------------------------------------------
+
+async function handleAgent(method: string, path: string, init?: RequestInit): Promise<Response> {
+  const state = getState()
+
+  if (method === 'POST' && path === '/v3/inference/chat/task') {
+    const body = await readJsonBody(init)
+    if (!body.message || !body.agent_id) {
+      return json({ detail: 'message and agent_id are required' }, 422)
+    }
+    const task: EmulatedTask = {
+      task_id: generateId(),
+      agent_id: body.agent_id,
+      message: body.message,
+      user_id: body.user_id || 'emulator-user',
+      session_id: body.session_id || generateId(),
+      created_at: Date.now(),
+    }
+    state.tasks.set(task.task_id, task)
+    return json({ task_id: task.task_id })
+  }
+
+  const taskMatch = path.match(/^\/v3\/inference\/chat\/task\/([^/]+)$/)
+  if (method === 'GET' && taskMatch) {
+    const task = state.tasks.get(taskMatch[1])
+    if (!task) return notFound('Task not found')
+    const elapsed = Date.now() - task.created_at
+    if (elapsed < taskLatencyMs()) {
+      return json({ task_id: task.task_id, status: 'processing', progress: taskProgress(task, elapsed) })
+    }
+    return json(completedTaskPayload(task))
+  }
+
+  if (method === 'POST' && path === '/v3/assets/upload') {
+    const files = init?.body instanceof FormData ? init.body.getAll('files') : []
+    const results = files.map(f => ({
+      asset_id: generateId(),
+      file_name: f instanceof File ? f.name : 'file',
+      success: true,
+    }))
+    return json({
+      results,
+      total_files: results.length,
+      successful_uploads: results.length,
+      failed_uploads: 0,
+    })
+  }
+
+  return notFound()
+}
+
+// ---------------------------------------------------------------------------
+// RAG knowledge bases
+// ---------------------------------------------------------------------------
+
+async function handleRag(method: string, url: URL, init?: RequestInit): Promise<Response> {
+  const state = getState()
+  const path = url.pathname
+
+  const listMatch = path.match(/^\/v3\/rag\/documents\/([^/]+)\/$/)
+  if (method === 'GET' && listMatch) {
+    return json(state.documents.get(decodeURIComponent(listMatch[1])) || [])
+  }
+
+  const trainMatch = path.match(/^\/v3\/train\/([^/]+)\/$/)
+  if (method === 'POST' && trainMatch) {
+    const ragId = url.searchParams.get('rag_id')
+    const file = init?.body instanceof FormData ? init.body.get('file') : null
+    if (!ragId || !(file instanceof Blob)) {
+      return json({ detail: 'rag_id and file are required' }, 422)
+    }
+    const fileName = file instanceof File ? file.name : `document.${trainMatch[1]}`
+    const chunkSize = Number(init.body instanceof FormData ? init.body.get('chunk_size') : 0) || 2000
+    const docs = state.documents.get(ragId) || []
+    docs.push(`storage/${fileName}`)
+    state.documents.set(ragId, docs)
+    return json({ success: true, document_count: Math.max(1, Math.ceil(file.size / chunkSize)) })
+  }
+
+  const deleteMatch = path.match(/^\/v3\/rag\/([^/]+)\/docs\/$/)
+  if (method === 'DELETE' && deleteMatch) {
+    const ragId = decodeURIComponent(deleteMatch[1])
+    const body = await readJsonBody(init)
+    const names: string[] = Array.isArray(body) ? body : []
+    const docs = state.documents.get(ragId) || []
+    const remaining = docs.filter(p => !names.some(n => p === n || p.endsWith(`/${n}`)))
+    if (remaining.length === docs.length) return notFound('Documents not found')
+    state.documents.set(ragId, remaining)
+    return json({ success: true, deleted: docs.length - remaining.length })
+  }
+
+  if (method === 'POST' && path === '/api/v1/rag/crawl') {
+    return json({ success: true, status: 'started' })
+  }
+
+  return notFound()
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+function paginate<T>(items: T[], url: URL): T[] {
+  const skip = Number(url.searchParams.get('skip')) || 0
+  const limit = Number(url.searchParams.get('limit')) || items.length
+  return items.slice(skip, skip + limit)
+}
+
+function runSchedule(schedule: EmulatedSchedule): EmulatedExecution {
+  const state = getState()
+  const executedAt = new Date().toISOString()
+  const execution: EmulatedExecution = {
+    id: generateId(),
+    schedule_id: schedule.id,
+    agent_id: schedule.agent_id,
+    user_id: schedule.user_id,
+    session_id: `${schedule.agent_id}-${generateId().substring(0, 12)}`,
+    executed_at: executedAt,
+    attempt: 1,
+    max_attempts: schedule.max_retries + 1,
+    success: true,
+    payload_message: schedule.message,
+    response_status: 200,
+    response_output: JSON.stringify(buildAgentFixture(schedule.agent_id, schedule.message)),
+    error_message: null,
+  }
+  state.executions.unshift(execution)
+  schedule.last_run_at = executedAt
+  schedule.last_run_success = true
+  return execution
+}
+
+async function handleScheduler(method: string, url: URL, init?: RequestInit): Promise<Response> {
+  const state = getState()
+  const path = url.pathname
+  const all = Array.from(state.schedules.values())
+
+  if (path === '/schedules/' && method === 'GET') {
+    const agentId = url.searchParams.get('agent_id')
+    const isActive = url.searchParams.get('is_active')
+    const filtered = all.filter(s =>
+      (!agentId || s.agent_id === agentId) &&
+      (isActive === null || String(s.is_active) === isActive)
+    )
+    return json({ schedules: paginate(filtered, url), total: filtered.length })
+  }
+
+  if (path === '/schedules/' && method === 'POST') {
+    const body = await readJsonBody(init)
+    const now = new Date().toISOString()
+    const schedule: EmulatedSchedule = {
+      id: generateId(),
+      user_id: body.user_id || 'emulator-user',
+      agent_id: body.agent_id,
+      message: body.message,
+      cron_expression: body.cron_expression,
+      timezone: body.timezone || 'UTC',
+      max_retries: body.max_retries ?? 3,
+      retry_delay: body.retry_delay ?? 300,
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      next_run_time: null,
+      last_run_at: null,
+      last_run_success: null,
+    }
+    state.schedules.set(schedule.id, schedule)
+    return json(schedule, 201)
+  }
+
+  if (path === '/schedules/executions/recent' && method === 'GET') {
+    const agentId = url.searchParams.get('agent_id')
+    const success = url.searchParams.get('success')
+    const filtered = state.executions.filter(e =>
+      (!agentId || e.agent_id === agentId) &&
+      (success === null || String(e.success) === success)
+    )
+    return json({ executions: paginate(filtered, url), total: filtered.length })
+  }
+
+  const byAgentMatch = path.match(/^\/schedules\/by-agent\/([^/]+)$/)
+  if (byAgentMatch && method === 'GET') {
+    const agentId = decodeURIComponent(byAgentMatch[1])
+    return json({ agent_id: agentId, schedules: all.filter(s => s.agent_id === agentId), webhooks: [] })
+  }
+
+  const actionMatch = path.match(/^\/schedules\/([^/]+)\/(pause|resume|trigger|logs)$/)
+  if (actionMatch) {
+    const schedule = state.schedules.get(actionMatch[1])
+    if (!schedule) return notFound('Schedule not found')
+    const action = actionMatch[2]
+
+    if (action === 'logs' && method === 'GET') {
+      const logs = state.executions.filter(e => e.schedule_id === schedule.id)
+      return json({ executions: paginate(logs, url), total: logs.length })
+    }
+    if (action === 'trigger' && method === 'POST') {
+      runSchedule(schedule)
+      return new Response('"Schedule triggered"', { status: 202 })
+    }
+    if ((action === 'pause' || action === 'resume') && method === 'POST') {
+      schedule.is_active = action === 'resume'
+      schedule.updated_at = new Date().toISOString()
+      return json(schedule)
+    }
+  }
+
+  const scheduleMatch = path.match(/^\/schedules\/([^/]+)$/)
+  if (scheduleMatch) {
+    const schedule = state.schedules.get(scheduleMatch[1])
+    if (!schedule) return notFound('Schedule not found')
+    if (method === 'GET') return json(schedule)
+    if (method === 'DELETE') {
+      state.schedules.delete(schedule.id)
+      return new Response(null, { status: 204 })
+    }
+  }
+
+  return notFound()
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * fetch() replacement that serves emulated Lyzr responses in-process.
+ */
+export async function emulatorFetch(input: string, init?: RequestInit): Promise<Response> {
+  const url = new URL(input)
+  const method = (init?.method || 'GET').toUpperCase()
+
+  switch (url.origin) {
+    case EMULATOR_HOSTS.agent:
+      return handleAgent(method, url.pathname, init)
+    case EMULATOR_HOSTS.rag:
+      return handleRag(method, url, init)
+    case EMULATOR_HOSTS.scheduler:
+      return handleScheduler(method, url, init)
+    default:
+      return notFound(`Unknown emulator host: ${url.origin}`)
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Lyzr Emulator Fixtures
+ *
+ * Canned agent answers used by lib/lyzrEmulator. Each agent's payload is shaped
+ * after its response_schemas/*.json file so the emulator exercises the same
+ * parsing path as the hosted agents.
+ */
+
+import managerSchema from '@/response_schemas/query_orchestrator_manager.json'
+import salesSchema from '@/response_schemas/sales_territory_agent.json'
+import hcpSchema from '@/response_schemas/hcp_doctor_profile_agent.json'
+import complianceSchema from '@/response_schemas/compliance_guard_agent.json'
+
+type Topic = 'sales' | 'hcp' | 'general'
+
+interface TopicFixture {
+  answer: string
+  data_points: string[]
+  profiles: string[]
+  sources: string[]
+  domain: string
+}
+
+const TOPIC_FIXTURES: Record<Topic, TopicFixture> = {
+  sales: {
+    answer:
+      'Your Q2 performance in the **Northeast territory** showed strong results:\n\n' +
+      '- **Total Revenue**: $2.4M (up 18% vs Q1)\n' +
+      '- **Quota Attainment**: 112%\n' +
+      '- **New Prescriptions**: 847 (up 23%)\n\n' +
+      'Connecticut is slightly below target at 89%.',
+    data_points: ['Total Revenue: $2.4M', 'Quota Attainment: 112%', 'New Prescriptions: 847'],
+    profiles: [],
+    sources: ['Q2_Northeast_Sales_Report.pdf'],
+    domain: 'Sales Data',
+  },
+  hcp: {
+    answer:
+      'You have **12 active HCPs** across 3 states in the Northeast territory.\n\n' +
+      '- **Dr. Sarah Chen** - Cardiology, Mass General Hospital\n' +
+      '- **Dr. Michael Rivera** - Oncology, NYU Langone\n' +
+      '- **Dr. Emily Watson** - Neurology, Johns Hopkins',
+    data_points: [],
+    profiles: [
+      'Dr. Sarah Chen - Cardiology, Mass General Hospital',
+      'Dr. Michael Rivera - Oncology, NYU Langone',
+      'Dr. Emily Watson - Neurology, Johns Hopkins',
+    ],
+    sources: ['HCP_Directory_Northeast.docx'],
+    domain: 'HCP Profiles',
+  },
+  general: {
+    answer:
+      'This information was not found in the uploaded documents. Please upload relevant sales or HCP documents to the Knowledge Base.',
+    data_points: [],
+    profiles: [],
+    sources: [],
+    domain: 'General',
+  },
+}
+
+const SALES_KEYWORDS = /\b(sales|revenue|quota|performance|territory|region(al)?|q[1-4]|trx|nrx|prescriptions?)\b/i
+const HCP_KEYWORDS = /\b(hcps?|doctors?|physicians?|dr\.?|specialt(y|ies)|contacts?|department|profiles?)\b/i
+
+function classifyTopics(message: string): Topic[] {
+  const topics: Topic[] = []
+  if (SALES_KEYWORDS.test(message)) topics.push('sales')
+  if (HCP_KEYWORDS.test(message)) topics.push('hcp')
+  return topics.length > 0 ? topics : ['general']
+}
+
+function salesResponse(message: string) {
+  const f = TOPIC_FIXTURES[classifyTopics(message).includes('sales') ? 'sales' : 'general']
+  return { answer: f.answer, data_points: f.data_points, sources: f.sources, confidence: f.sources.length ? 'high' : 'low', domain: 'Sales Data' }
+}
+
+function hcpResponse(message: string) {
+  const f = TOPIC_FIXTURES[classifyTopics(message).includes('hcp') ? 'hcp' : 'general']
+  return { answer: f.answer, profiles: f.profiles, sources: f.sources, confidence: f.sources.length ? 'high' : 'low', domain: 'HCP Profiles' }
+}
+
+function complianceResponse(message: string) {
+  // Review requests from lib/parallelOrchestrator carry the draft after this marker
+  const draftAt = message.indexOf('Draft response:\n')
+  return {
+    compliance_status: 'compliant',
+    reviewed_content: draftAt >= 0 ? message.slice(draftAt + 'Draft response:\n'.length) : message,
+    flags: [] as string[],
+    review_notes: 'No promotional, off-label or competitor pricing content detected.',
+    domain: 'Compliance',
+  }
+}
+
+function managerResponse(message: string) {
+  const topics = classifyTopics(message)
+  const fixtures = topics.map(t => TOPIC_FIXTURES[t])
+  const answered = topics[0] !== 'general'
+  return {
+    answer: fixtures.map(f => f.answer).join('\n\n'),
+    sources_consulted: fixtures.flatMap(f => f.sources),
+    compliance_status: 'compliant',
+    domains_accessed: answered ? fixtures.map(f => f.domain) : [],
+    confidence: answered ? 'high' : 'low',
+    flags: [] as string[],
+  }
+}
+
+const AGENT_FIXTURES: Record<string, (message: string) => Record<string, any>> = {
+  [managerSchema.agent_id]: managerResponse,
+  [salesSchema.agent_id]: salesResponse,
+  [hcpSchema.agent_id]: hcpResponse,
+  [complianceSchema.agent_id]: complianceResponse,
+}
+
+/**
+ * Sub-agents the manager would call for a message, in invocation order.
+ * Compliance always runs last. Sub-agents themselves call nobody.
+ */
+export function planSubAgents(agentId: string, message: string): { agent_id: string; agent_name: string }[] {
+  if (agentId !== managerSchema.agent_id) return []
+  const topics = classifyTopics(message)
+  const plan: { agent_id: string; agent_name: string }[] = []
+  if (topics.includes('sales') || topics.includes('general')) {
+    plan.push({ agent_id: salesSchema.agent_id, agent_name: salesSchema.agent_name })
+  }
+  if (topics.includes('hcp') || topics.includes('general')) {
+    plan.push({ agent_id: hcpSchema.agent_id, agent_name: hcpSchema.agent_name })
+  }
+  plan.push({ agent_id: complianceSchema.agent_id, agent_name: complianceSchema.agent_name })
+  return plan
+}
+
+/**
+ * Build the structured payload an agent would return for a message.
+ * Unknown agent ids fall back to the manager shape.
+ */
+export function buildAgentFixture(agentId: string, message: string): Record<string, any> {
+  const build = AGENT_FIXTURES[agentId] || managerResponse
+  return build(message)
+}
@@ -0,0 +1,155 @@
+/**
+ * Medical Information Requests (server-side)
+ *
+ * Off-label questions belong with Medical Affairs, not the sales channel.
+ * When an answer is flagged as off-label the rep can open a Medical
+ * Information Request (MIR) on behalf of the HCP who asked: the HCP, their
+ * question verbatim and how they want the answer. Medical Affairs works the
+ * queue, moving each request through
+ *
+ *   open → in_progress → answered → closed
+ *
+ * (or straight to closed). Every change is kept in the request's history.
+ * Requests live in DATA_DIR/mir/requests.json.
+ */
+
+import { readJson, withLock, writeJson } from '@/lib/dataStore'
+import type { AuthUser } from '@/lib/auth'
+
+export const MIR_STATUSES = ['open', 'in_progress', 'answered', 'closed'] as const
+export type MirStatus = (typeof MIR_STATUSES)[number]
+
+export const MIR_CHANNELS = ['email', 'phone', 'letter', 'visit'] as const
+export type MirChannel = (typeof MIR_CHANNELS)[number]
+
+export interface MirStatusChange {
+  status: MirStatus
+  at: string
+  by_user_id: string
+  by_name: string
+  note?: string
+}
+
+export interface MedicalInfoRequest {
+  id: string
+  created_at: string
+  updated_at: string
+  status: MirStatus
+  /** The HCP as the HCP agent profiled them, e.g. "Dr. Sarah Chen - Cardiology, Mass General Hospital" */
+  hcp: string
+  /** The HCP's question, verbatim */
+  question: string
+  channel: MirChannel
+  /** Email address, phone number or postal address for the channel */
+  contact?: string
+  /** The chat query that was flagged as off-label */
+  query_id?: string
+  session_id?: string
+  requested_by_user_id: string
+  requested_by_name: string
+  history: MirStatusChange[]
+}
+
+export class MirError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'MirError'
+    this.status = status
+  }
+}
+
+const MIR_FILE = 'mir/requests.json'
+
+/** Statuses a request may move to from each status */
+const TRANSITIONS: Record<MirStatus, MirStatus[]> = {
+  open: ['in_progress', 'answered', 'closed'],
+  in_progress: ['answered', 'closed'],
+  answered: ['closed', 'in_progress'],
+  closed: [],
+}
+
+async function readRequests(): Promise<MedicalInfoRequest[]> {
+  return readJson<MedicalInfoRequest[]>(MIR_FILE, [])
+}
+
+function updateRequests<T>(fn: (requests: MedicalInfoRequest[]) => T): Promise<T> {
+  return withLock(MIR_FILE, async () => {
+    const requests = await readRequests()
+    const result = fn(requests)
+    await writeJson(MIR_FILE, requests)
+    return result
+  })
+}
+
+/** Requests newest first; `userId` limits them to one rep's own. */
+export async function listMedicalInfoRequests(filter: { userId?: string; status?: MirStatus } = {}): Promise<MedicalInfoRequest[]> {
+  return (await readRequests())
+    .filter(r => !filter.userId || r.requested_by_user_id === filter.userId)
+    .filter(r => !filter.status || r.status === filter.status)
+    .reverse()
+}
+
+export async function createMedicalInfoRequest(
+  input: { hcp?: string; question?: string; channel?: string; contact?: string; query_id?: string; session_id?: string },
+  user: AuthUser
+): Promise<MedicalInfoRequest> {
+  const hcp = input.hcp?.trim() || ''
+  const question = input.question?.trim() || ''
+  if (!hcp) throw new MirError('The HCP is required', 400)
+  if (!question) throw new MirError("The HCP's question is required", 400)
+  const channel = MIR_CHANNELS.find(c => c === input.channel)
+  if (!channel) throw new MirError(`The response channel must be one of ${MIR_CHANNELS.join(', ')}`, 400)
+  const contact = input.contact?.trim() || ''
+  if (channel !== 'visit' && !contact) throw new MirError(`Contact details are required to answer by ${channel}`, 400)
+
+  const now = new Date().toISOString()
+  const request: MedicalInfoRequest = {
+    id: `MIR-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`,
+    created_at: now,
+    updated_at: now,
+    status: 'open',
+    hcp: hcp.slice(0, 300),
+    question: question.slice(0, 5000),
+    channel,
+    ...(contact ? { contact: contact.slice(0, 300) } : {}),
+    ...(input.query_id ? { query_id: input.query_id.slice(0, 100) } : {}),
+    ...(input.session_id ? { session_id: input.session_id.slice(0, 200) } : {}),
+    requested_by_user_id: user.id,
+    requested_by_name: user.name,
+    history: [{ status: 'open', at: now, by_user_id: user.id, by_name: user.name }],
+  }
+  return updateRequests(requests => {
+    requests.push(request)
+    return request
+  })
+}
+
+/** Move a request to a new status. Throws MirError for unknown requests and disallowed moves. */
+export async function updateMedicalInfoRequestStatus(
+  id: string,
+  status: MirStatus,
+  user: AuthUser,
+  note?: string
+): Promise<MedicalInfoRequest> {
+  return updateRequests(requests => {
+    const request = requests.find(r => r.id === id)
+    if (!request) throw new MirError(`Medical information request ${id} not found`, 404)
+    if (!TRANSITIONS[request.status].includes(status)) {
+      throw new MirError(`Request ${id} is ${request.status.replace('_', ' ')} and cannot move to ${status.replace('_', ' ')}`, 409)
+    }
+    const at = new Date().toISOString()
+    request.status = status
+    request.updated_at = at
+    request.history.push({
+      status,
+      at,
+      by_user_id: user.id,
+      by_name: user.name,
+      ...(note?.trim() ? { note: note.trim().slice(0, 2000) } : {}),
+    })
+    return request
+  })
+}
@@ -0,0 +1,292 @@
+/**
+ * OpenID Connect Provider (server-side)
+ *
+ * Authorization code flow with PKCE against any OIDC IdP, configured by
+ * environment:
+ *
+ *   OIDC_ISSUER          issuer URL; the provider is off without it
+ *   OIDC_CLIENT_ID       required with the issuer
+ *   OIDC_CLIENT_SECRET   optional; public clients rely on PKCE alone
+ *   OIDC_SCOPES          default "openid email profile"
+ *   OIDC_ROLE_CLAIM      claim holding the app role, default "role"
+ *   OIDC_DEFAULT_ROLE    role for new users without the claim, default field_rep
+ *   OIDC_LABEL           sign-in button text, default "Single sign-on"
+ *   OIDC_REDIRECT_URI    default <app origin>/api/auth/oidc/callback
+ *
+ * The ID token's signature is checked against the issuer's JWKS (RS256 or
+ * ES256), along with iss, aud, exp and the nonce sent with the request.
+ * scripts/mock-oidc.mjs is a local IdP for trying this out.
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'crypto'
+import { readJson, removeJson, writeJson } from '@/lib/dataStore'
+import { AuthError } from '@/lib/auth'
+import { USER_ROLES } from '@/lib/roles'
+
+export const OIDC_STATE_COOKIE = 'medrep_oidc_state'
+const PENDING_TTL_MS = 10 * 60 * 1000 // 10 minutes to finish signing in
+const METADATA_TTL_MS = 60 * 60 * 1000
+const CLOCK_SKEW_S = 60
+
+interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+  roleClaim: string
+  label: string
+  redirectUri?: string
+}
+
+interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+interface PendingAuthorization {
+  nonce: string
+  code_verifier: string
+  redirect_uri: string
+  /** App path to return to after sign-in */
+  next: string
+  expires_at: string
+}
+
+export interface OidcIdentity {
+  issuer: string
+  subject: string
+  email?: string
+  name?: string
+  role?: string
+}
+
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '')
+  const clientId = process.env.OIDC_CLIENT_ID
+  if (!issuer || !clientId) return null
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'role',
+    label: process.env.OIDC_LABEL || 'Single sign-on',
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+  }
+}
+
+function requireConfig(): OidcConfig {
+  const config = getOidcConfig()
+  if (!config) throw new AuthError('Single sign-on is not configured', 404)
+  return config
+}
+
+// ---------------------------------------------------------------------------
+// Discovery and keys (cached per process)
+// ---------------------------------------------------------------------------
+
+const globalForOidc = globalThis as unknown as {
+  __oidcMetadata?: Map<string, { metadata: OidcMetadata; fetched_at: number }>
+  __oidcJwks?: Map<string, JsonWebKey[]>
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, { ...init, cache: 'no-store' })
+  const text = await response.text()
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new AuthError(`${url} returned status ${response.status} without JSON`, 502)
+  }
+  if (!response.ok) {
+    throw new AuthError(`${url} returned status ${response.status}: ${data?.error_description || data?.error || text}`, 502)
+  }
+  return data
+}
+
+async function discover(config: OidcConfig): Promise<OidcMetadata> {
+  const cache = globalForOidc.__oidcMetadata || (globalForOidc.__oidcMetadata = new Map())
+  const cached = cache.get(config.issuer)
+  if (cached && Date.now() - cached.fetched_at < METADATA_TTL_MS) return cached.metadata
+
+  const metadata = await fetchJson(`${config.issuer}/.well-known/openid-configuration`)
+  for (const key of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof metadata?.[key] !== 'string') throw new AuthError(`OIDC discovery document has no ${key}`, 502)
+  }
+  if (String(metadata.issuer).replace(/\/$/, '') !== config.issuer) {
+    throw new AuthError(`OIDC discovery issuer ${metadata.issuer} does not match ${config.issuer}`, 502)
+  }
+  cache.set(config.issuer, { metadata, fetched_at: Date.now() })
+  return metadata
+}
+
+async function signingKey(metadata: OidcMetadata, kid: string | undefined): Promise<JsonWebKey> {
+  const cache = globalForOidc.__oidcJwks || (globalForOidc.__oidcJwks = new Map())
+  const find = (keys: JsonWebKey[]) => keys.find(k => (kid ? k.kid === kid : k.use !== 'enc'))
+  let key = find(cache.get(metadata.jwks_uri) || [])
+  if (!key) {
+    // Unknown kid: the IdP may have rotated its keys
+    const jwks = await fetchJson(metadata.jwks_uri)
+    cache.set(metadata.jwks_uri, Array.isArray(jwks?.keys) ? jwks.keys : [])
+    key = find(cache.get(metadata.jwks_uri)!)
+  }
+  if (!key) throw new AuthError(`No signing key${kid ? ` ${kid}` : ''} in the IdP's JWKS`, 502)
+  return key
+}
+
+// ---------------------------------------------------------------------------
+// ID token
+// ---------------------------------------------------------------------------
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+  } catch {
+    throw new AuthError('Malformed ID token', 502)
+  }
+}
+
+async function verifyIdToken(idToken: string, config: OidcConfig, metadata: OidcMetadata, nonce: string): Promise<Record<string, any>> {
+  const parts = String(idToken || '').split('.')
+  if (parts.length !== 3) throw new AuthError('Malformed ID token', 502)
+  const header = decodeSegment(parts[0])
+  const claims = decodeSegment(parts[1])
+
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+    throw new AuthError(`Unsupported ID token algorithm ${header.alg}`, 502)
+  }
+  const key = createPublicKey({ key: await signingKey(metadata, header.kid), format: 'jwk' })
+  const valid = verify(
+    'sha256',
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(parts[2], 'base64url')
+  )
+  if (!valid) throw new AuthError('ID token signature is invalid', 401)
+
+  const now = Math.floor(Date.now() / 1000)
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (String(claims.iss).replace(/\/$/, '') !== config.issuer) throw new AuthError('ID token issuer does not match', 401)
+  if (!audiences.includes(config.clientId)) throw new AuthError('ID token is for another client', 401)
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_S < now) throw new AuthError('ID token has expired', 401)
+  if (claims.nonce !== nonce) throw new AuthError('ID token nonce does not match the sign-in request', 401)
+  if (!claims.sub) throw new AuthError('ID token has no subject', 401)
+  return claims
+}
+
+/** The first app role in the claim, which may be a string or a list */
+function roleFromClaim(value: unknown): string | undefined {
+  const values = Array.isArray(value) ? value : [value]
+  return values.find(v => USER_ROLES.some(r => r.value === v)) as string | undefined
+}
+
+// ---------------------------------------------------------------------------
+// Flow
+// ---------------------------------------------------------------------------
+
+function pendingPath(state: string): string {
+  return `auth/oidc/${createHash('sha256').update(state).digest('hex')}.json`
+}
+
+/**
+ * Only app paths, so the IdP round trip cannot redirect elsewhere. Browsers
+ * read "\" as "/", so "/\evil.example" would leave the app; anything with a
+ * backslash or control character, or that resolves to another origin, is refused.
+ */
+function safeNext(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || /[\\\x00-\x1f]/.test(next)) return '/'
+  const base = 'http://app.invalid'
+  try {
+    return new URL(next, base).origin === base ? next : '/'
+  } catch {
+    return '/'
+  }
+}
+
+/**
+ * Start a sign-in: returns the IdP URL to redirect to and the state to bind
+ * to the browser in OIDC_STATE_COOKIE.
+ */
+export async function beginOidcSignIn(origin: string, next?: string | null): Promise<{ url: string; state: string }> {
+  const config = requireConfig()
+  const metadata = await discover(config)
+  const state = randomBytes(24).toString('base64url')
+  const nonce = randomBytes(24).toString('base64url')
+  const code_verifier = randomBytes(32).toString('base64url')
+  const redirect_uri = config.redirectUri || `${origin}/api/auth/oidc/callback`
+
+  const pending: PendingAuthorization = {
+    nonce,
+    code_verifier,
+    redirect_uri,
+    next: safeNext(next),
+    expires_at: new Date(Date.now() + PENDING_TTL_MS).toISOString(),
+  }
+  await writeJson(pendingPath(state), pending)
+
+  const url = new URL(metadata.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', redirect_uri)
+  url.searchParams.set('scope', config.scopes)
+  url.searchParams.set('state', state)
+  url.searchParams.set('nonce', nonce)
+  url.searchParams.set('code_challenge', createHash('sha256').update(code_verifier).digest('base64url'))
+  url.searchParams.set('code_challenge_method', 'S256')
+  return { url: url.toString(), state }
+}
+
+/**
+ * Finish a sign-in from the IdP's callback. `cookieState` is the state the
+ * browser was given by beginOidcSignIn; a mismatch means the callback was
+ * not started here.
+ */
+export async function completeOidcSignIn(
+  params: URLSearchParams,
+  cookieState: string | undefined
+): Promise<{ identity: OidcIdentity; next: string }> {
+  const config = requireConfig()
+  if (params.get('error')) {
+    throw new AuthError(`Sign-in was not completed: ${params.get('error_description') || params.get('error')}`, 401)
+  }
+  const state = params.get('state')
+  const code = params.get('code')
+  if (!state || !code) throw new AuthError('The IdP callback is missing code or state', 400)
+  if (state !== cookieState) throw new AuthError('Sign-in state does not match this browser', 401)
+
+  const pending = await readJson<PendingAuthorization | null>(pendingPath(state), null)
+  await removeJson(pendingPath(state))
+  if (!pending || new Date(pending.expires_at).getTime() < Date.now()) {
+    throw new AuthError('Sign-in request expired, please try again', 401)
+  }
+
+  const metadata = await discover(config)
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirect_uri,
+    client_id: config.clientId,
+    code_verifier: pending.code_verifier,
+  })
+  if (config.clientSecret) body.set('client_secret', config.clientSecret)
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', accept: 'application/json' },
+    body,
+  })
+
+  const claims = await verifyIdToken(tokens?.id_token, config, metadata, pending.nonce)
+  return {
+    identity: {
+      issuer: config.issuer,
+      subject: String(claims.sub),
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      name: typeof claims.name === 'string' ? claims.name : undefined,
+      role: roleFromClaim(claims[config.roleClaim]),
+    },
+    next: pending.next,
+  }
+}
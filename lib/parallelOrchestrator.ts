@@ -0,0 +1,309 @@
+'use client'
+
+/**
+ * Parallel Orchestration (client-side)
+ *
+ * Alternative to sending every query through the manager agent. The flow is
+ * read from the registry's workflow graph (workflow.json): the review agent is
+ * the agent node with an edge to the output node, and the retrieval agents are
+ * the agent nodes with an edge into the review agent. A query is matched
+ * against each retrieval agent's keywords, the matching agents are called in
+ * parallel, and the review agent is then submitted with their task ids. The
+ * server merges the drafts into the review prompt and returns what the review
+ * releases, so drafts never pass through the browser: roles that only see
+ * reviewed answers get each retrieval agent's domain, confidence and sources,
+ * not its answer (see submitAgentTask and pollAgentTask in lib/agentTasks).
+ *
+ * The result has the manager's response shape, so callers can swap
+ * streamAIAgent(message, manager.agent_id) for
+ * runParallelOrchestration(message, registry).
+ */
+
+import { streamAIAgent } from '@/lib/aiAgent'
+import type { AIAgentResponse, CallAgentOptions, StreamAgentOptions, SubAgentProgress } from '@/lib/aiAgent'
+import { pickTraceOutput } from '@/lib/agentTrace'
+import type { AgentTrace, TraceStep } from '@/lib/agentTrace'
+import { formatValidationErrors } from '@/lib/agentSchemas'
+import parseLLMJson from '@/lib/jsonParser'
+import type { AgentRegistry, WorkflowNode } from '@/lib/agentRegistry'
+
+// Types
+export type OrchestrationMode = 'manager' | 'parallel'
+
+export interface OrchestrationAgent {
+  node_id: string
+  agent_id: string
+  agent_name: string
+  domain?: string
+  keywords: string[]
+}
+
+export interface ParallelPlan {
+  retrieval: OrchestrationAgent[]
+  review: OrchestrationAgent
+}
+
+interface AgentRun {
+  agent: OrchestrationAgent
+  result: AIAgentResponse
+  data: Record<string, any> | null
+  started_at: string
+  completed_at: string
+}
+
+const CONFIDENCE_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 }
+
+/**
+ * Derive the retrieval agents and the review agent from the workflow graph.
+ * Throws when the graph has no single review agent in front of the output.
+ */
+export function getParallelPlan(registry: AgentRegistry): ParallelPlan {
+  const graph = registry.workflow
+  const byId = new Map(graph.nodes.map(n => [n.id, n]))
+
+  const isAgentNode = (node: WorkflowNode | undefined): node is WorkflowNode =>
+    !!node && node.nodeCategory === 'agent' && registry.agents.some(a => a.key === node.agent)
+
+  const toAgent = (node: WorkflowNode): OrchestrationAgent => {
+    const agent = registry.agents.find(a => a.key === node.agent)!
+    return {
+      node_id: node.id,
+      agent_id: agent.agent_id,
+      agent_name: agent.name,
+      domain: agent.domain,
+      keywords: agent.keywords,
+    }
+  }
+
+  const output = graph.nodes.find(n => n.nodeCategory === 'end')
+  if (!output) throw new Error('Workflow has no output node')
+
+  const reviewers = graph.edges.filter(e => e.target === output.id).map(e => byId.get(e.source))
+  if (reviewers.length !== 1 || !isAgentNode(reviewers[0])) {
+    throw new Error('Workflow: the output node must be fed by exactly one review agent')
+  }
+  const review = reviewers[0]
+
+  const retrieval = graph.edges
+    .filter(e => e.target === review.id)
+    .map(e => byId.get(e.source))
+    .filter(isAgentNode)
+  if (retrieval.length === 0) {
+    throw new Error(`Workflow: no agents feed ${review.label}`)
+  }
+
+  return { retrieval: retrieval.map(toAgent), review: toAgent(review) }
+}
+
+/**
+ * Pick the retrieval agents whose keywords appear in the query.
+ * A query that matches none is sent to all of them.
+ */
+export function selectAgents(message: string, agents: OrchestrationAgent[]): OrchestrationAgent[] {
+  const matches = agents.filter(agent =>
+    agent.keywords.some(k => new RegExp(`\\b${k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(message))
+  )
+  return matches.length > 0 ? matches : agents
+}
+
+/**
+ * Structured payload of an agent call, or null when it returned nothing usable.
+ * Prefers the server's schema-validated payload.
+ */
+function agentData(result: AIAgentResponse): Record<string, any> | null {
+  if (result.validation?.valid) return result.validation.data
+  const r = result.response?.result
+  if (!r || typeof r !== 'object') return null
+  if (typeof r.text === 'string') {
+    // parseLLMJson reports text without JSON as { success: false, data: null }
+    const parsed = parseLLMJson(r.text)
+    const found = parsed && typeof parsed === 'object' && !(parsed.success === false && parsed.data === null)
+    return found ? parsed : { answer: r.text }
+  }
+  return r
+}
+
+function lowestConfidence(runs: AgentRun[]): string {
+  const levels = runs
+    .map(run => String(run.data?.confidence || '').toLowerCase())
+    .filter(level => level in CONFIDENCE_RANK)
+  if (levels.length === 0) return 'medium'
+  return levels.reduce((min, level) => (CONFIDENCE_RANK[level] < CONFIDENCE_RANK[min] ? level : min))
+}
+
+function traceStep(run: AgentRun): TraceStep {
+  return {
+    agent_id: run.agent.agent_id,
+    agent_name: run.agent.agent_name,
+    role: 'sub-agent',
+    status: run.result.success ? 'completed' : 'failed',
+    started_at: run.started_at,
+    completed_at: run.completed_at,
+    duration_ms: new Date(run.completed_at).getTime() - new Date(run.started_at).getTime(),
+    confidence: typeof run.data?.confidence === 'string' ? run.data.confidence : undefined,
+    output: pickTraceOutput(run.data),
+    validation_errors: run.result.validation?.valid === false ? run.result.validation.errors : undefined,
+  }
+}
+
+function failure(message: string, session_id?: string, status?: string): AIAgentResponse {
+  return {
+    success: false,
+    status,
+    response: { status: 'error', result: {}, message },
+    error: message,
+    session_id,
+  }
+}
+
+async function runAgent(agent: OrchestrationAgent, message: string, options: CallAgentOptions): Promise<AgentRun> {
+  const started_at = new Date().toISOString()
+  const result = await streamAIAgent(message, agent.agent_id, options)
+  return {
+    agent,
+    result,
+    data: result.success ? agentData(result) : null,
+    started_at,
+    completed_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Answer a query by calling the retrieval agents in parallel and having the
+ * server pass their merged drafts through the review agent. Progress is
+ * reported per agent through onProgress, in the same shape the manager's
+ * stream uses.
+ */
+export async function runParallelOrchestration(
+  message: string,
+  registry: AgentRegistry,
+  options: StreamAgentOptions = {}
+): Promise<AIAgentResponse> {
+  const { onStatus, onProgress, ...callOptions } = options
+  const sessionId = callOptions.session_id
+
+  let plan: ParallelPlan
+  try {
+    plan = getParallelPlan(registry)
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : 'Invalid workflow', sessionId)
+  }
+
+  const selected = selectAgents(message, plan.retrieval)
+  const startedAt = new Date().toISOString()
+  const progress: SubAgentProgress[] = [...selected, plan.review].map(agent => ({
+    agent_id: agent.agent_id,
+    agent_name: agent.agent_name,
+    status: 'pending',
+  }))
+  const setProgress = (agentId: string, status: SubAgentProgress['status']) => {
+    const entry = progress.find(p => p.agent_id === agentId)
+    if (entry) {
+      entry.status = status
+      entry.updated_at = new Date().toISOString()
+    }
+    onProgress?.(progress.map(p => ({ ...p })))
+  }
+
+  onStatus?.('processing')
+  const runs = await Promise.all(selected.map(agent => {
+    setProgress(agent.agent_id, 'running')
+    return runAgent(agent, message, callOptions).then(run => {
+      setProgress(agent.agent_id, run.result.success ? 'completed' : 'failed')
+      return run
+    })
+  }))
+
+  if (callOptions.signal?.aborted || runs.some(run => run.result.status === 'cancelled')) {
+    onStatus?.('cancelled')
+    return failure('Request cancelled', sessionId, 'cancelled')
+  }
+
+  const answered = runs.filter(run => run.result.success && run.data)
+  if (answered.length === 0) {
+    onStatus?.('failed')
+    const reasons = runs.map(run => `${run.agent.agent_name}: ${run.result.error || 'no response'}`)
+    return failure(`No agent returned an answer (${reasons.join('; ')})`, sessionId)
+  }
+
+  // The drafts are never shown without review
+  setProgress(plan.review.agent_id, 'running')
+  const review = await runAgent(plan.review, message, {
+    ...callOptions,
+    draft_task_ids: answered.map(run => run.result.task_id!),
+  })
+  setProgress(plan.review.agent_id, review.result.success ? 'completed' : 'failed')
+
+  if (review.result.status === 'cancelled') {
+    onStatus?.('cancelled')
+    return failure('Request cancelled', sessionId, 'cancelled')
+  }
+  if (!review.result.success || !review.data) {
+    onStatus?.('failed')
+    return failure(`Compliance review failed, so the draft was not released: ${review.result.error || 'no response'}`, sessionId)
+  }
+  // A review that does not match its schema cannot clear the draft
+  if (review.result.validation?.valid === false) {
+    onStatus?.('failed')
+    return failure(
+      `Compliance review returned an invalid response, so the draft was not released: ${formatValidationErrors(review.result.validation.errors)}`,
+      sessionId
+    )
+  }
+
+  const complianceStatus = String(review.data.compliance_status).toLowerCase()
+  const answer = review.result.released || 'This response was withheld by compliance review.'
+  const flags = [
+    ...(Array.isArray(review.data.flags) ? review.data.flags : []),
+    ...runs.filter(run => !answered.includes(run)).map(run => `${run.agent.agent_name} unavailable`),
+    ...answered
+      .filter(run => run.result.validation?.valid === false)
+      .map(run => `${run.agent.agent_name} response failed schema validation`),
+  ]
+
+  const completedAt = new Date().toISOString()
+  const trace: AgentTrace = {
+    mode: 'parallel',
+    started_at: startedAt,
+    completed_at: completedAt,
+    duration_ms: new Date(completedAt).getTime() - new Date(startedAt).getTime(),
+    steps: [...runs, review].map(traceStep),
+  }
+
+  const result = {
+    answer,
+    sources_consulted: Array.from(new Set(answered.flatMap(run => (Array.isArray(run.data?.sources) ? run.data.sources : [])))),
+    compliance_status: complianceStatus,
+    domains_accessed: answered.map(run => run.data?.domain || run.agent.domain).filter(Boolean),
+    confidence: lowestConfidence(answered),
+    flags,
+  }
+
+  // Every task sees the query, so keep its detection once, plus the review's on the answer
+  const adverseEvents = [...runs, review].flatMap(run => run.result.adverse_events || [])
+  const firstQuerySignal = adverseEvents.find(signal => signal.source === 'query')
+  const detected = [
+    ...(firstQuerySignal ? [firstQuerySignal] : []),
+    ...(review.result.adverse_events || []).filter(signal => signal.source === 'answer'),
+  ]
+
+  // The same figures may have gone to more than one task
+  const salesComputations = runs
+    .flatMap(run => run.result.sales_computations || [])
+    .filter((c, i, all) => all.findIndex(other => other.sql === c.sql) === i)
+
+  const hcpProfiles = Array.from(new Set(runs.flatMap(run => run.result.hcp_profiles || [])))
+
+  onStatus?.('completed')
+  return {
+    success: true,
+    status: 'completed',
+    response: { status: 'success', result, message: answer },
+    trace,
+    ...(detected.length > 0 ? { adverse_events: detected } : {}),
+    ...(salesComputations.length > 0 ? { sales_computations: salesComputations } : {}),
+    ...(hcpProfiles.length > 0 ? { hcp_profiles: hcpProfiles } : {}),
+    session_id: sessionId,
+    timestamp: completedAt,
+  }
+}
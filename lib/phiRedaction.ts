@@ -0,0 +1,263 @@
+/**
+ * PHI / PII Redaction (server-side)
+ *
+ * Masks patient identifiers in a message before it is submitted to an agent.
+ * Detection is deterministic: patterns for emails, phone numbers, NPIs, SSNs,
+ * MRNs and dates of birth, names that follow a patient trigger word
+ * ("patient Jane Doe", "Mrs. Doe"), and literal terms from phi_redaction.json.
+ * HCP names ("Dr. Chen") are business data and are left alone.
+ *
+ * Each value is replaced with a token such as [PATIENT_NAME_1]. Tokens are
+ * stable within one user's session, so follow-up questions refer to the same
+ * token, and the token map stays in this process's memory: it is never sent
+ * upstream or written to disk. The map is keyed by user and session
+ * (phiVaultId), since session ids come from the browser and another user can
+ * send the same one. restoreTokens() puts back only the values a task's own
+ * message masked, never every token the answer happens to contain.
+ */
+
+import bundledRules from '@/phi_redaction.json'
+import { readConfigFile } from '@/lib/configFiles'
+
+export type PhiCategory = 'patient_name' | 'email' | 'phone' | 'npi' | 'ssn' | 'mrn' | 'date_of_birth' | 'term'
+
+export interface RedactionRules {
+  /** Words after which capitalized words are taken as a patient name */
+  patient_name_triggers: string[]
+  /** Capitalized words never taken as part of a name */
+  name_allowlist: string[]
+  /** Literal strings always redacted, e.g. site-specific identifiers */
+  terms: { value: string; category?: PhiCategory }[]
+}
+
+export interface PhiRedaction {
+  token: string
+  category: PhiCategory
+}
+
+export interface RedactionResult {
+  text: string
+  /** Distinct identifiers masked in this text */
+  redactions: PhiRedaction[]
+}
+
+export const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+  patient_name: 'patient name',
+  email: 'email address',
+  phone: 'phone number',
+  npi: 'NPI number',
+  ssn: 'SSN',
+  mrn: 'medical record number',
+  date_of_birth: 'date of birth',
+  term: 'listed term',
+}
+
+export async function loadRedactionRules(): Promise<RedactionRules> {
+  const rules = await readConfigFile<Partial<RedactionRules>>('phi_redaction.json', bundledRules as Partial<RedactionRules>)
+  return {
+    patient_name_triggers: Array.isArray(rules.patient_name_triggers) ? rules.patient_name_triggers : [],
+    name_allowlist: Array.isArray(rules.name_allowlist) ? rules.name_allowlist : [],
+    terms: Array.isArray(rules.terms) ? rules.terms.filter(t => t && typeof t.value === 'string' && t.value.trim()) : [],
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Session token vault
+// ---------------------------------------------------------------------------
+
+interface SessionVault {
+  /** token → original value */
+  values: Record<string, string>
+  /** category + normalized value → token */
+  tokens: Record<string, string>
+  counters: Partial<Record<PhiCategory, number>>
+  touched_at: number
+}
+
+const VAULT_RETENTION_MS = 60 * 60 * 1000 // 1 hour idle, as the task registry
+
+const globalForVault = globalThis as unknown as { __phiRedactionVault?: Map<string, SessionVault> }
+
+function getVaults(): Map<string, SessionVault> {
+  return globalForVault.__phiRedactionVault || (globalForVault.__phiRedactionVault = new Map())
+}
+
+/** The vault of one user's session; the session id alone is client-supplied. */
+export function phiVaultId(userId: string, sessionId: string): string {
+  return JSON.stringify([userId, sessionId])
+}
+
+function sessionVault(vaultId: string, create: boolean): SessionVault | undefined {
+  const vaults = getVaults()
+  const cutoff = Date.now() - VAULT_RETENTION_MS
+  vaults.forEach((vault, id) => {
+    if (vault.touched_at < cutoff) vaults.delete(id)
+  })
+  let vault = vaults.get(vaultId)
+  if (!vault && create) {
+    vault = { values: {}, tokens: {}, counters: {}, touched_at: 0 }
+    vaults.set(vaultId, vault)
+  }
+  if (vault) vault.touched_at = Date.now()
+  return vault
+}
+
+function tokenFor(vault: SessionVault, category: PhiCategory, value: string): string {
+  // The same number written two ways gets one token
+  const normalized = ['phone', 'npi', 'ssn'].includes(category)
+    ? value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '')
+    : value.replace(/\s+/g, ' ').trim().toLowerCase()
+  const key = `${category}:${normalized}`
+  if (!vault.tokens[key]) {
+    const n = (vault.counters[category] || 0) + 1
+    vault.counters[category] = n
+    const token = `[${category.toUpperCase()}_${n}]`
+    vault.tokens[key] = token
+    vault.values[token] = value
+  }
+  return vault.tokens[key]
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+interface Match {
+  start: number
+  end: number
+  category: PhiCategory
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Letters match either case, so "Patient" and "patient" both trigger. */
+function caseless(word: string): string {
+  return word.replace(/[a-z]/gi, c => `[${c.toLowerCase()}${c.toUpperCase()}]`).replace(/\./g, '\\.')
+}
+
+/** NPIs carry a Luhn check digit computed over the 80840 prefix. */
+function isValidNpi(digits: string): boolean {
+  let sum = 0
+  const full = `80840${digits}`
+  for (let i = 0; i < full.length; i++) {
+    let d = Number(full[full.length - 1 - i])
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return sum % 10 === 0
+}
+
+function patternMatches(text: string, pattern: RegExp, category: PhiCategory, group = 0): Match[] {
+  const matches: Match[] = []
+  for (const m of Array.from(text.matchAll(pattern))) {
+    const value = m[group]
+    if (!value) continue
+    const start = m.index! + m[0].indexOf(value)
+    matches.push({ start, end: start + value.length, category })
+  }
+  return matches
+}
+
+function detect(text: string, rules: RedactionRules): Match[] {
+  const matches: Match[] = []
+
+  for (const term of rules.terms) {
+    matches.push(...patternMatches(text, new RegExp(`\\b${escapeRegExp(term.value.trim())}\\b`, 'gi'), term.category || 'term'))
+  }
+
+  matches.push(...patternMatches(text, /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, 'email'))
+  matches.push(...patternMatches(text, /\b\d{3}-\d{2}-\d{4}\b/g, 'ssn'))
+  matches.push(...patternMatches(text, /\bMRN\s*(?:#|:|no\.?|number)?\s*([A-Z0-9][A-Z0-9-]{3,})/gi, 'mrn', 1))
+  matches.push(...patternMatches(
+    text,
+    /\b(?:DOB|D\.O\.B\.|date of birth|born(?: on)?)\s*:?\s*(\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|\d{4}-\d{2}-\d{2})/gi,
+    'date_of_birth',
+    1
+  ))
+
+  // Ten digits: an NPI when labelled as one or when the check digit fits, a phone number otherwise
+  matches.push(...patternMatches(text, /\bNPI\s*(?:#|:|no\.?|number)?\s*(\d{10})\b/gi, 'npi', 1))
+  for (const m of patternMatches(text, /\b[12]\d{9}\b/g, 'npi')) {
+    if (isValidNpi(text.slice(m.start, m.end))) matches.push(m)
+  }
+  matches.push(...patternMatches(text, /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}\b/g, 'phone'))
+
+  if (rules.patient_name_triggers.length > 0) {
+    const triggers = rules.patient_name_triggers.map(caseless).join('|')
+    const name = "[A-Z][a-zA-Z'-]+"
+    const pattern = new RegExp(`(?<![\\w.])(?:${triggers})(?:\\s+(?:named|called))?[\\s,:]+(${name}(?:\\s+${name}){0,2})`, 'g')
+    const allowed = new Set(rules.name_allowlist.map(w => w.toLowerCase()))
+    for (const m of Array.from(text.matchAll(pattern))) {
+      // Stop the name at the first allowlisted word
+      const words = m[1].split(/\s+/)
+      const stop = words.findIndex(w => allowed.has(w.toLowerCase()))
+      const kept = stop === -1 ? words : words.slice(0, stop)
+      if (kept.length === 0) continue
+      const start = m.index! + m[0].lastIndexOf(m[1])
+      matches.push({ start, end: start + kept.join(' ').length, category: 'patient_name' })
+    }
+  }
+
+  // Earlier and longer matches win where two overlap
+  matches.sort((a, b) => a.start - b.start || b.end - a.end)
+  const kept: Match[] = []
+  for (const m of matches) {
+    if (kept.length === 0 || m.start >= kept[kept.length - 1].end) kept.push(m)
+  }
+  return kept
+}
+
+// ---------------------------------------------------------------------------
+// Redact / restore
+// ---------------------------------------------------------------------------
+
+/** Mask identifiers in text, recording their tokens in the vault (see phiVaultId). */
+export function redactText(text: string, vaultId: string, rules: RedactionRules): RedactionResult {
+  const matches = detect(text, rules)
+  if (matches.length === 0) return { text, redactions: [] }
+
+  const vault = sessionVault(vaultId, true)!
+  const redactions: PhiRedaction[] = []
+  let out = ''
+  let cursor = 0
+  for (const m of matches) {
+    const token = tokenFor(vault, m.category, text.slice(m.start, m.end))
+    if (!redactions.some(r => r.token === token)) redactions.push({ token, category: m.category })
+    out += text.slice(cursor, m.start) + token
+    cursor = m.end
+  }
+  return { text: out + text.slice(cursor), redactions }
+}
+
+/**
+ * Replace the given tokens with their values from the vault, in a string or
+ * in every string of an object. Pass the redactions of the task whose answer
+ * this is: any other token, e.g. one an agent echoed from elsewhere, stays
+ * masked. Values without tokens are returned unchanged.
+ */
+export function restoreTokens<T>(value: T, vaultId: string, redactions: PhiRedaction[]): T {
+  const vault = sessionVault(vaultId, false)
+  const allowed = new Set(redactions.map(r => r.token))
+  if (!vault || allowed.size === 0) return value
+
+  const restore = (v: any): any => {
+    if (typeof v === 'string') {
+      return v.replace(/\[[A-Z_]+_\d+\]/g, token => (allowed.has(token) ? vault.values[token] ?? token : token))
+    }
+    if (Array.isArray(v)) return v.map(restore)
+    if (v && typeof v === 'object') {
+      return Object.fromEntries(Object.entries(v).map(([k, inner]) => [k, restore(inner)]))
+    }
+    return v
+  }
+  return restore(value)
+}
+
+export function describeRedactions(redactions: PhiRedaction[]): string {
+  return redactions.map(r => `${r.token} (${PHI_CATEGORY_LABELS[r.category]})`).join(', ')
+}
@@ -8,12 +8,29 @@
 
 import { useState } from 'react'
 import fetchWrapper from '@/lib/fetchWrapper'
+import type { DuplicateMatch, KbCatalogEntry } from '@/lib/kbCatalog'
 
-// Supported file types
+export type { KbCatalogEntry, KbDocumentVersion } from '@/lib/kbCatalog'
+
+/** A document with the same content as an upload, with its knowledge base's label */
+export interface UploadDuplicate extends DuplicateMatch {
+  kb_label: string
+}
+
+/** What to do with an upload whose content is already in a knowledge base */
+export type DuplicateChoice = 'replace' | 'keep'
+
+// Supported file types. CSV, XLSX, PPTX, Markdown and HTML are converted
+// to text on the server (lib/documentConversion) before training.
 export const SUPPORTED_FILE_TYPES = [
   'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   'text/plain',
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/markdown',
+  'text/html',
 ] as const
 
 export type SupportedFileType = (typeof SUPPORTED_FILE_TYPES)[number]
@@ -22,18 +39,40 @@ export const FILE_EXTENSION_MAP: Record<string, SupportedFileType> = {
   '.pdf': 'application/pdf',
   '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
 }
 
+/** For file inputs' accept attribute */
+export const SUPPORTED_EXTENSIONS = Object.keys(FILE_EXTENSION_MAP).join(',')
+
+export const SUPPORTED_FORMATS_LABEL = 'PDF, DOCX, TXT, CSV, XLSX, PPTX, Markdown, HTML'
+
+/** Largest file the upload route accepts */
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+
 // Types
 export interface RAGDocument {
   id?: string
   fileName: string
   fullPath?: string
-  fileType: 'pdf' | 'docx' | 'txt'
+  fileType: 'pdf' | 'docx' | 'txt' | 'csv' | 'xlsx' | 'pptx' | 'md' | 'html' | 'unknown'
   fileSize?: number
   status?: 'processing' | 'active' | 'failed' | 'deleted'
   uploadedAt?: string
   documentCount?: number
+  /** Catalog metadata (lib/kbCatalog); absent for files not uploaded through the app */
+  uploadedBy?: string
+  contentHash?: string
+  parser?: string
+  version?: number
+  versionCount?: number
+  tags?: string[]
 }
 
 export interface GetDocumentsResponse {
@@ -49,12 +88,34 @@ export interface UploadResponse {
   message?: string
   fileName?: string
   fileType?: string
+  /** Set when the server converted the file to text before training */
+  convertedFrom?: string
   documentCount?: number
+  version?: number
+  /** Version this upload replaced, when the file name was already in the knowledge base */
+  replacedVersion?: number
+  /** Identical to the current version; nothing was trained */
+  unchanged?: boolean
+  /** Set, with success false, when the content is already in a knowledge base under another name */
+  duplicates?: UploadDuplicate[]
   ragId?: string
   error?: string
   timestamp?: string
 }
 
+export interface DocumentVersionsResponse {
+  success: boolean
+  entry?: KbCatalogEntry
+  error?: string
+}
+
+/** Reported while an upload is in flight: bytes sent, then training once the body is sent */
+export interface UploadProgress {
+  phase: 'uploading' | 'training'
+  loaded: number
+  total: number
+}
+
 export interface DeleteResponse {
   success: boolean
   message?: string
@@ -98,13 +159,53 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
   }
 }
 
+/**
+ * POST multipart form data, reporting upload progress. XMLHttpRequest rather
+ * than fetch because fetch has no upload progress events; like the native
+ * fetch it replaces, it bypasses fetchWrapper's redirect interception, which
+ * can silently abort multipart uploads in iframe environments.
+ */
+function postFormWithProgress(
+  url: string,
+  formData: FormData,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', url)
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) onProgress?.({ phase: 'uploading', loaded: e.loaded, total: e.total })
+    }
+    // The body is sent; the server is now training the document
+    xhr.upload.onload = e => onProgress?.({ phase: 'training', loaded: e.total, total: e.total })
+    xhr.onload = () => {
+      let body: any = null
+      try {
+        body = JSON.parse(xhr.responseText)
+      } catch {
+        body = null
+      }
+      resolve({ status: xhr.status, body })
+    }
+    xhr.onerror = () => reject(new Error('Network error during upload'))
+    xhr.ontimeout = () => reject(new Error('Upload timed out'))
+    xhr.send(formData)
+  })
+}
+
 /**
  * Upload and train a document to the knowledge base
  *
- * Uses native fetch instead of fetchWrapper to avoid redirect interception
- * that can silently abort multipart/form-data uploads in iframe environments.
+ * `onProgress` follows the upload and then the training step. An upload
+ * that duplicates another document comes back with `duplicates` until it is
+ * resent with a `duplicate` choice.
  */
-export async function uploadAndTrainDocument(ragId: string, file: File): Promise<UploadResponse> {
+export async function uploadAndTrainDocument(
+  ragId: string,
+  file: File,
+  onProgress?: (progress: UploadProgress) => void,
+  duplicate?: DuplicateChoice
+): Promise<UploadResponse> {
   // Validate file type - check both MIME type and file extension
   const fileExtension = '.' + (file.name.split('.').pop()?.toLowerCase() || '')
   const mimeType = file.type
@@ -114,7 +215,7 @@ export async function uploadAndTrainDocument(ragId: string, file: File): Promise
   if (!isValidMime && !isValidExtension) {
     return {
       success: false,
-      error: `Unsupported file type: ${file.type || 'unknown'}. Supported: PDF, DOCX, TXT`,
+      error: `Unsupported file type: ${file.type || 'unknown'}. Supported: ${SUPPORTED_FORMATS_LABEL}`,
     }
   }
 
@@ -129,32 +230,24 @@ export async function uploadAndTrainDocument(ragId: string, file: File): Promise
     const formData = new FormData()
     formData.append('ragId', ragId)
     formData.append('file', uploadFile, uploadFile.name)
+    if (duplicate) formData.append('duplicate', duplicate)
 
-    // Use native fetch directly — fetchWrapper's redirect interception
-    // can silently abort multipart uploads (it calls window.location.href
-    // on response.redirected, which cancels the upload)
-    const response = await fetch('/api/rag', {
-      method: 'POST',
-      body: formData,
-    })
+    const { status, body } = await postFormWithProgress('/api/rag', formData, onProgress)
 
-    if (!response.ok) {
-      try {
-        const errorData = await response.json()
-        return {
-          success: false,
-          error: errorData.error || errorData.details || `Upload failed (status ${response.status})`,
-        }
-      } catch {
-        return {
-          success: false,
-          error: `Upload failed with status ${response.status}. The file may be too large or the server timed out.`,
-        }
+    if (status === 409 && Array.isArray(body?.duplicates)) {
+      return body
+    }
+    if (status < 200 || status >= 300) {
+      return {
+        success: false,
+        error: body?.error || body?.details ||
+          (body ? `Upload failed (status ${status})` : `Upload failed with status ${status}. The file may be too large or the server timed out.`),
       }
     }
-
-    const data = await response.json()
-    return data
+    if (!body) {
+      return { success: false, error: 'Unexpected response from server' }
+    }
+    return body
   } catch (error) {
     return {
       success: false,
@@ -226,15 +319,61 @@ export async function crawlWebsite(ragId: string, url: string): Promise<CrawlRes
 }
 
 /**
- * Validate if a file type is supported
+ * Version history and tags of a knowledge base file
+ */
+export async function getDocumentVersions(ragId: string, fileName: string): Promise<DocumentVersionsResponse> {
+  return versionsRequest(`/api/rag/versions?ragId=${encodeURIComponent(ragId)}&fileName=${encodeURIComponent(fileName)}`)
+}
+
+/**
+ * Roll a file back to an earlier version; recorded as a new version
+ */
+export async function restoreDocumentVersion(ragId: string, fileName: string, version: number): Promise<DocumentVersionsResponse> {
+  return versionsRequest('/api/rag/versions', 'POST', { ragId, fileName, version })
+}
+
+export async function updateDocumentTags(ragId: string, fileName: string, tags: string[]): Promise<DocumentVersionsResponse> {
+  return versionsRequest('/api/rag/versions', 'PATCH', { ragId, fileName, tags })
+}
+
+async function versionsRequest(url: string, method = 'GET', body?: unknown): Promise<DocumentVersionsResponse> {
+  try {
+    const response = await fetchWrapper(url, {
+      method,
+      ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+    })
+    if (!response) {
+      return { success: false, error: 'No response from server' }
+    }
+    const data = await response.json()
+    return data.success ? data : { success: false, error: data.details ? `${data.error}: ${data.details}` : data.error }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/**
+ * Validate a file before upload: a supported type (by MIME type or
+ * extension, as uploadAndTrainDocument accepts), not empty and within
+ * MAX_UPLOAD_BYTES
  */
 export function validateFile(file: File): { valid: boolean; error?: string } {
-  if (!SUPPORTED_FILE_TYPES.includes(file.type as SupportedFileType)) {
+  const ext = file.name.includes('.') ? '.' + file.name.split('.').pop()?.toLowerCase() : ''
+  if (!SUPPORTED_FILE_TYPES.includes(file.type as SupportedFileType) && !(ext in FILE_EXTENSION_MAP)) {
     return {
       valid: false,
-      error: `Unsupported file type. Supported formats: PDF, DOCX, TXT`,
+      error: `Unsupported file type: ${ext || 'unknown'}. Supported: ${SUPPORTED_FORMATS_LABEL}`,
     }
   }
+  if (file.size === 0) {
+    return { valid: false, error: 'File is empty' }
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { valid: false, error: 'File too large. Maximum size is 50MB.' }
+  }
   return { valid: true }
 }
 
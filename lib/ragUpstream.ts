@@ -0,0 +1,179 @@
+/**
+ * Lyzr RAG Upstream Calls (server-side)
+ *
+ * Training and deleting documents in a Lyzr knowledge base, shared by
+ * /api/rag (uploads, deletes) and /api/rag/versions (rollbacks, which
+ * replace the trained file with an earlier version's bytes).
+ *
+ * Training tries several parsers in turn for the widest PDF compatibility;
+ * CSV, XLSX, PPTX, Markdown and HTML are converted to text first
+ * (lib/documentConversion) and trained as txt under "<name>.txt".
+ */
+
+import type { LyzrBackend } from '@/lib/lyzrBackend'
+import { convertDocument, convertedName, convertibleType, type ConvertibleType } from '@/lib/documentConversion'
+
+export class RagUpstreamError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+  details?: string
+
+  constructor(message: string, status: number, details?: string) {
+    super(message)
+    this.name = 'RagUpstreamError'
+    this.status = status
+    this.details = details
+  }
+}
+
+export interface TrainedDocument {
+  /** Upstream train endpoint type */
+  fileType: 'pdf' | 'docx' | 'txt'
+  /** Set when the file was converted to text before training */
+  conversion?: ConvertibleType
+  /** Name the file was trained under, the last segment of its storage path */
+  trainName: string
+  parser: string
+  chunkCount: number
+}
+
+const FILE_TYPE_MAP: Record<string, 'pdf' | 'docx' | 'txt'> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'txt',
+}
+
+// auto (best compat) → llmsherpa (layout-aware) → none (raw text)
+const PARSERS = ['auto', 'llmsherpa', 'none']
+
+/** Upstream type for a file, or null when it can be neither trained nor converted */
+export function trainFileType(fileName: string, mime?: string): TrainedDocument['fileType'] | null {
+  if (convertibleType(fileName, mime)) return 'txt'
+  if (mime && FILE_TYPE_MAP[mime]) return FILE_TYPE_MAP[mime]
+  const ext = fileName.split('.').pop()?.toLowerCase()
+  return ext === 'pdf' || ext === 'docx' || ext === 'txt' ? ext : null
+}
+
+/** Name a file is trained under: converted files get ".txt" appended */
+export function trainedName(fileName: string, mime?: string): string {
+  return convertibleType(fileName, mime) ? convertedName(fileName) : fileName
+}
+
+/**
+ * Train a file into a knowledge base. Throws DocumentConversionError when a
+ * convertible file cannot be read, RagUpstreamError when the type is
+ * unsupported or every parser fails.
+ */
+export async function trainDocument(
+  backend: LyzrBackend,
+  ragId: string,
+  file: { name: string; mime?: string; bytes: Uint8Array }
+): Promise<TrainedDocument> {
+  const fileType = trainFileType(file.name, file.mime)
+  if (!fileType) {
+    throw new RagUpstreamError(
+      `Unsupported file type: ${file.mime || 'unknown'}. Supported: PDF, DOCX, TXT, CSV, XLSX, PPTX, Markdown, HTML`,
+      400
+    )
+  }
+  const conversion = convertibleType(file.name, file.mime) || undefined
+
+  let body: Uint8Array | string = file.bytes
+  const trainName = trainedName(file.name, file.mime)
+  let trainMime = file.mime || 'application/octet-stream'
+  if (conversion) {
+    body = convertDocument(file.name, conversion, file.bytes)
+    trainMime = 'text/plain'
+  }
+
+  // Larger chunk size (2000) preserves more context per chunk for better retrieval
+  const trainUrl = `${backend.ragBaseUrl}/train/${fileType}/?rag_id=${encodeURIComponent(ragId)}`
+  const buildTrainForm = (parser: string) => {
+    const fd = new FormData()
+    fd.append('file', new Blob([typeof body === 'string' ? body : body.slice().buffer], { type: trainMime }), trainName)
+    fd.append('data_parser', parser)
+    fd.append('chunk_size', '2000')
+    fd.append('chunk_overlap', '200')
+    fd.append('extra_info', '{}')
+    return fd
+  }
+
+  let lastTrainError = ''
+  for (const parser of PARSERS) {
+    try {
+      const resp = await backend.fetch(trainUrl, {
+        method: 'POST',
+        headers: { 'x-api-key': backend.apiKey, accept: 'application/json' },
+        body: buildTrainForm(parser),
+      })
+      if (resp.ok) {
+        const trainData = await resp.json()
+        return {
+          fileType,
+          ...(conversion ? { conversion } : {}),
+          trainName,
+          parser,
+          chunkCount: Number(trainData.document_count || trainData.chunks) || 1,
+        }
+      }
+      lastTrainError = await resp.text()
+    } catch (e) {
+      lastTrainError = e instanceof Error ? e.message : 'Network error during upload'
+    }
+  }
+  throw new RagUpstreamError('Failed to train document after trying multiple parsers', 500, lastTrainError)
+}
+
+async function listStoragePaths(backend: LyzrBackend, ragId: string): Promise<string[] | null> {
+  const response = await backend.fetch(`${backend.ragBaseUrl}/rag/documents/${encodeURIComponent(ragId)}/`, {
+    method: 'GET',
+    headers: { accept: 'application/json', 'x-api-key': backend.apiKey },
+  })
+  if (!response.ok) return null
+  const data = await response.json()
+  return Array.isArray(data) ? data : data.documents || data.data || []
+}
+
+function deleteRequest(backend: LyzrBackend, ragId: string, names: string[]): Promise<Response> {
+  return backend.fetch(`${backend.ragBaseUrl}/rag/${encodeURIComponent(ragId)}/docs/`, {
+    method: 'DELETE',
+    headers: {
+      accept: 'application/json',
+      'Content-Type': 'application/json',
+      'x-api-key': backend.apiKey,
+    },
+    body: JSON.stringify(names),
+  })
+}
+
+/**
+ * Delete documents by file name or storage path. When the names are not
+ * accepted as given, they are resolved to full storage paths from the
+ * listing and the delete is retried. Returns the names that were deleted;
+ * throws RagUpstreamError otherwise.
+ */
+export async function deleteDocuments(backend: LyzrBackend, ragId: string, documentNames: string[]): Promise<string[]> {
+  const response = await deleteRequest(backend, ragId, documentNames)
+  if (response.ok) return documentNames
+
+  const allPaths = await listStoragePaths(backend, ragId)
+  if (allPaths) {
+    const fullPaths = documentNames
+      .map(name => (name.includes('/') ? name : allPaths.find(p => p.endsWith(`/${name}`) || p === name)))
+      .filter(Boolean) as string[]
+
+    if (fullPaths.length > 0) {
+      const retryResponse = await deleteRequest(backend, ragId, fullPaths)
+      if (retryResponse.ok) return fullPaths
+      throw new RagUpstreamError(`Failed to delete documents: ${retryResponse.status}`, retryResponse.status, await retryResponse.text())
+    }
+  }
+
+  throw new RagUpstreamError(`Failed to delete documents: ${response.status}`, response.status, await response.text())
+}
+
+/** Whether a document is currently in the knowledge base, by its trained name */
+export async function hasDocument(backend: LyzrBackend, ragId: string, trainName: string): Promise<boolean> {
+  const paths = await listStoragePaths(backend, ragId)
+  return !!paths?.some(p => p === trainName || p.endsWith(`/${trainName}`))
+}
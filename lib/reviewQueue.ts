@@ -0,0 +1,150 @@
+/**
+ * Compliance Review Queue (server-side)
+ *
+ * Final answers the Compliance Guard Agent or the local rule engine marked
+ * `flagged` or `redacted` wait here for a compliance officer, who approves
+ * them, rejects them with a reason, or edits and releases them.
+ *
+ * Decisions are appended to DATA_DIR/reviews/review-decisions.jsonl against
+ * the audit entry id (the answer's audit record) and never edited; the audit
+ * log itself stays untouched. One decision per entry.
+ */
+
+import { appendJsonLine, readJsonLines, withLock } from '@/lib/dataStore'
+import { listAuditEntries, type AuditEntry } from '@/lib/auditStore'
+import { hasPermission, type UserRole } from '@/lib/roles'
+import type { AuthUser } from '@/lib/auth'
+
+export type ReviewDecisionType = 'approved' | 'rejected' | 'released'
+export type ReviewState = 'pending' | 'decided' | 'all'
+
+export interface ReviewDecision {
+  id: string
+  /** Audit entry the decision applies to */
+  entry_id: string
+  query_id?: string
+  session_id: string
+  decision: ReviewDecisionType
+  /** Required when rejecting, optional otherwise */
+  reason?: string
+  /** The edited answer the rep sees, when released */
+  released_answer?: string
+  /** Status of the answer when it was reviewed */
+  original_status: string
+  /** Role of the reviewer when they decided */
+  decided_by: UserRole
+  /** The reviewer; unset on decisions recorded before sign-in existed */
+  decided_by_user_id?: string
+  decided_by_name?: string
+  decided_at: string
+}
+
+export interface ReviewItem {
+  entry: AuditEntry
+  decision: ReviewDecision | null
+}
+
+/** What the rep who asked sees on their message. */
+export interface ReviewOutcome {
+  entry_id: string
+  query_id?: string
+  status: 'pending' | ReviewDecisionType
+  reason?: string
+  released_answer?: string
+  decided_at?: string
+}
+
+export class ReviewDecisionError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ReviewDecisionError'
+    this.status = status
+  }
+}
+
+const DECISIONS_LOG = 'reviews/review-decisions.jsonl'
+export const REVIEWABLE_STATUSES = ['flagged', 'redacted']
+
+export function canReview(role: UserRole): boolean {
+  return hasPermission(role, 'reviews.decide')
+}
+
+function isReviewable(entry: AuditEntry): boolean {
+  return REVIEWABLE_STATUSES.includes(entry.status.toLowerCase())
+}
+
+async function decisionsByEntry(): Promise<Map<string, ReviewDecision>> {
+  const decisions = await readJsonLines<ReviewDecision>(DECISIONS_LOG)
+  return new Map(decisions.map(d => [d.entry_id, d]))
+}
+
+/** Reviewable answers, newest first. */
+export async function listReviewQueue(state: ReviewState = 'pending'): Promise<ReviewItem[]> {
+  const [entries, decisions] = await Promise.all([listAuditEntries(), decisionsByEntry()])
+  return entries
+    .filter(isReviewable)
+    .map(entry => ({ entry, decision: decisions.get(entry.id) || null }))
+    .filter(item => state === 'all' || (state === 'pending' ? !item.decision : !!item.decision))
+}
+
+/** Outcomes for the user's own answers in the session */
+export async function getReviewOutcomes(sessionId: string, userId: string): Promise<ReviewOutcome[]> {
+  const [entries, decisions] = await Promise.all([listAuditEntries(), decisionsByEntry()])
+  return entries
+    .filter(entry => entry.session_id === sessionId && entry.user_id === userId && isReviewable(entry))
+    .map(entry => {
+      const decision = decisions.get(entry.id)
+      return {
+        entry_id: entry.id,
+        query_id: entry.query_id,
+        status: decision?.decision || 'pending',
+        ...(decision?.reason ? { reason: decision.reason } : {}),
+        ...(decision?.released_answer ? { released_answer: decision.released_answer } : {}),
+        ...(decision ? { decided_at: decision.decided_at } : {}),
+      }
+    })
+}
+
+/**
+ * Record a reviewer's decision. Throws ReviewDecisionError with the HTTP
+ * status to answer with when the request cannot be applied.
+ */
+export async function decideReview(
+  input: { entry_id: string; decision: ReviewDecisionType; reason?: string; answer?: string },
+  reviewer: AuthUser
+): Promise<ReviewDecision> {
+  if (!canReview(reviewer.role)) throw new ReviewDecisionError('Only compliance officers can review answers', 403)
+
+  const reason = input.reason?.trim() || ''
+  const answer = input.answer?.trim() || ''
+  if (input.decision === 'rejected' && !reason) throw new ReviewDecisionError('A reason is required to reject an answer', 400)
+  if (input.decision === 'released' && !answer) throw new ReviewDecisionError('The edited answer is required to release it', 400)
+
+  return withLock(DECISIONS_LOG, async () => {
+    const entry = (await listAuditEntries()).find(e => e.id === input.entry_id)
+    if (!entry) throw new ReviewDecisionError(`Audit entry ${input.entry_id} not found`, 404)
+    if (!isReviewable(entry)) throw new ReviewDecisionError(`Audit entry ${input.entry_id} is ${entry.status}, not awaiting review`, 409)
+    const existing = (await decisionsByEntry()).get(entry.id)
+    if (existing) throw new ReviewDecisionError(`Audit entry ${entry.id} was already ${existing.decision}`, 409)
+
+    const decision: ReviewDecision = {
+      id: `review-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      entry_id: entry.id,
+      ...(entry.query_id ? { query_id: entry.query_id } : {}),
+      session_id: entry.session_id,
+      decision: input.decision,
+      ...(reason ? { reason: reason.slice(0, 2000) } : {}),
+      ...(input.decision === 'released' ? { released_answer: answer } : {}),
+      original_status: entry.status,
+      decided_by: reviewer.role,
+      decided_by_user_id: reviewer.id,
+      decided_by_name: reviewer.name,
+      decided_at: new Date().toISOString(),
+    }
+    await appendJsonLine(DECISIONS_LOG, decision)
+    return decision
+  })
+}
@@ -0,0 +1,100 @@
+/**
+ * User Roles
+ *
+ * Roles and the permissions they grant. Each signed-in user has one role
+ * (lib/auth). API routes check the permission an action needs with
+ * authorize(request, permission) and answer 403 without it; the UI hides or
+ * disables the matching views and buttons.
+ */
+
+export type UserRole = 'field_rep' | 'district_manager' | 'compliance_officer' | 'admin'
+
+export const USER_ROLES: { value: UserRole; label: string }[] = [
+  { value: 'field_rep', label: 'Field Rep' },
+  { value: 'district_manager', label: 'District Manager' },
+  { value: 'compliance_officer', label: 'Compliance Officer' },
+  { value: 'admin', label: 'Admin' },
+]
+
+export const DEFAULT_ROLE: UserRole = 'field_rep'
+
+export type Permission =
+  | 'kb.read'
+  | 'kb.upload'
+  | 'kb.delete'
+  | 'audit.read'
+  | 'audit.export'
+  | 'reviews.decide'
+  | 'schedules.read'
+  | 'schedules.manage'
+  | 'workflow.edit'
+  | 'recordings.read'
+  | 'eval.run'
+  | 'users.manage'
+  | 'adverse_events.report'
+  | 'adverse_events.read'
+  | 'mir.create'
+  | 'mir.manage'
+
+/** What each permission lets a role do, for 403 messages */
+const PERMISSION_ACTIONS: Record<Permission, string> = {
+  'kb.read': 'view knowledge base documents',
+  'kb.upload': 'add documents to the knowledge base',
+  'kb.delete': 'delete knowledge base documents',
+  'audit.read': 'view the audit log',
+  'audit.export': 'export the audit log',
+  'reviews.decide': 'review compliance answers',
+  'schedules.read': 'view schedules',
+  'schedules.manage': 'change schedules',
+  'workflow.edit': 'edit the workflow',
+  'recordings.read': 'view recordings',
+  'eval.run': 'run the eval suite',
+  'users.manage': 'manage users',
+  'adverse_events.report': 'report adverse events',
+  'adverse_events.read': 'view adverse event reports',
+  'mir.create': 'open medical information requests',
+  'mir.manage': 'work the medical information queue',
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  field_rep: ['kb.read', 'schedules.read', 'adverse_events.report', 'mir.create'],
+  district_manager: [
+    'kb.read',
+    'kb.upload',
+    'audit.read',
+    'schedules.read',
+    'schedules.manage',
+    'adverse_events.report',
+    'mir.create',
+  ],
+  compliance_officer: [
+    'kb.read',
+    'audit.read',
+    'audit.export',
+    'reviews.decide',
+    'schedules.read',
+    'adverse_events.report',
+    'adverse_events.read',
+    'mir.create',
+    'mir.manage',
+  ],
+  admin: Object.keys(PERMISSION_ACTIONS) as Permission[],
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false
+}
+
+/** The 403 message for a role without the permission, e.g. "Field Reps cannot delete knowledge base documents" */
+export function permissionDeniedMessage(role: UserRole, permission: Permission): string {
+  return `${roleLabel(role)}s cannot ${PERMISSION_ACTIONS[permission]}`
+}
+
+export function parseRole(value: unknown): UserRole {
+  return USER_ROLES.some(r => r.value === value) ? (value as UserRole) : DEFAULT_ROLE
+}
+
+export function roleLabel(role: UserRole): string {
+  return USER_ROLES.find(r => r.value === role)?.label || role
+}
+
@@ -0,0 +1,600 @@
+/**
+ * Structured Sales Data (server-side)
+ *
+ * Revenue, quota attainment and prescription counts need exact arithmetic,
+ * which chunk-based RAG cannot give. Tabular sales files (CSV, XLSX) are
+ * loaded here into a local SQLite database (sql.js, persisted to
+ * DATA_DIR/sales/sales.sqlite) with one declared table:
+ *
+ *   sales(territory, product, period, revenue, quota, trx, nrx)
+ *
+ * keyed by territory + product + period; loading a file again replaces the
+ * figures for the keys it contains. Columns are matched by header name
+ * (SALES_COLUMNS aliases), periods are normalized to "2025-Q3" or "2025-07",
+ * and rows of one file that land on the same key (daily or weekly rows of a
+ * month) are summed.
+ *
+ * Queries are structured (SalesQuery: metric, grouping, filters, ranking,
+ * period comparison) and compiled to parameterized SQL, never free-form SQL.
+ * planSalesQuery() turns a sales question into a SalesQuery; agentTasks runs
+ * it for agents marked `structured_data: "sales"` and hands the result to
+ * the agent with the SQL as provenance (SalesComputation).
+ */
+
+import path from 'path'
+import initSqlJs, { type Database, type SqlValue } from 'sql.js'
+import { readBinary, writeBinary, withLock, appendJsonLine, readJsonLines } from '@/lib/dataStore'
+import { readSpreadsheet } from '@/lib/documentConversion'
+import type { AuthUser } from '@/lib/auth'
+
+export type SalesDimension = 'territory' | 'product' | 'period'
+export type SalesMetric = 'revenue' | 'quota' | 'trx' | 'nrx' | 'attainment'
+
+interface SalesColumn {
+  name: SalesDimension | Exclude<SalesMetric, 'attainment'>
+  type: 'TEXT' | 'REAL' | 'INTEGER'
+  /** Header names that map to the column, compared without case, spaces or punctuation */
+  aliases: string[]
+}
+
+/** The declared schema; dimensions are required, at least one measure must be present */
+export const SALES_COLUMNS: SalesColumn[] = [
+  { name: 'territory', type: 'TEXT', aliases: ['territory', 'region', 'district', 'area', 'territory name'] },
+  { name: 'product', type: 'TEXT', aliases: ['product', 'brand', 'drug', 'product name'] },
+  { name: 'period', type: 'TEXT', aliases: ['period', 'quarter', 'month', 'date', 'fiscal period'] },
+  { name: 'revenue', type: 'REAL', aliases: ['revenue', 'sales', 'net sales', 'revenue usd', 'sales usd', 'net revenue'] },
+  { name: 'quota', type: 'REAL', aliases: ['quota', 'target', 'goal', 'quota usd', 'revenue target'] },
+  { name: 'trx', type: 'INTEGER', aliases: ['trx', 'total rx', 'total prescriptions', 'trx count'] },
+  { name: 'nrx', type: 'INTEGER', aliases: ['nrx', 'new rx', 'new prescriptions', 'nrx count'] },
+]
+
+const DIMENSIONS: SalesDimension[] = ['territory', 'product', 'period']
+
+export const METRIC_LABELS: Record<SalesMetric, string> = {
+  revenue: 'Revenue',
+  quota: 'Quota',
+  trx: 'TRx',
+  nrx: 'NRx',
+  attainment: 'Quota attainment (%)',
+}
+
+export interface SalesQuery {
+  metric: SalesMetric
+  group_by?: SalesDimension
+  filters?: Partial<Record<SalesDimension, string[]>>
+  /** Rank groups by the metric */
+  order?: 'desc' | 'asc'
+  limit?: number
+  /** Two periods, earlier first: one value column per period plus the change */
+  compare?: [string, string]
+}
+
+/** A query result with the SQL that produced it, shown as provenance */
+export interface SalesComputation {
+  description: string
+  query: SalesQuery
+  /** The SQL with its parameters filled in, for display */
+  sql: string
+  columns: string[]
+  rows: (string | number | null)[][]
+  computed_at: string
+}
+
+export interface SalesLoad {
+  id: string
+  file: string
+  loaded_at: string
+  user_id: string
+  user_name: string
+  rows_loaded: number
+  rows_skipped: number
+  /** Source header → sales column */
+  columns: Record<string, string>
+  /** First few rows that could not be loaded, with the reason */
+  errors: string[]
+}
+
+export interface SalesCatalog {
+  row_count: number
+  territories: string[]
+  products: string[]
+  periods: string[]
+}
+
+export class SalesDataError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'SalesDataError'
+    this.status = status
+  }
+}
+
+const DB_FILE = 'sales/sales.sqlite'
+const LOADS_LOG = 'sales/loads.jsonl'
+const MAX_RESULT_ROWS = 50
+const MAX_LOAD_ERRORS = 10
+
+// ---------------------------------------------------------------------------
+// Database
+// ---------------------------------------------------------------------------
+
+const globalForSales = globalThis as unknown as { __salesDb?: Promise<Database> }
+
+async function openDatabase(): Promise<Database> {
+  const SQL = await initSqlJs({
+    locateFile: file => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file),
+  })
+  const saved = await readBinary(DB_FILE)
+  const db = saved ? new SQL.Database(saved) : new SQL.Database()
+  db.run(`CREATE TABLE IF NOT EXISTS sales (
+    ${SALES_COLUMNS.map(c => `${c.name} ${c.type}${DIMENSIONS.includes(c.name as SalesDimension) ? ' NOT NULL' : ''}`).join(',\n    ')},
+    source TEXT NOT NULL,
+    loaded_at TEXT NOT NULL,
+    PRIMARY KEY (territory, product, period)
+  )`)
+  return db
+}
+
+function database(): Promise<Database> {
+  if (!globalForSales.__salesDb) {
+    globalForSales.__salesDb = openDatabase().catch(error => {
+      globalForSales.__salesDb = undefined
+      throw error
+    })
+  }
+  return globalForSales.__salesDb
+}
+
+/** Run one SELECT statement; prepare() compiles a single statement, so anything after it never runs */
+function select(db: Database, sql: string, params: SqlValue[] = []): { columns: string[]; rows: SqlValue[][] } {
+  const statement = db.prepare(sql)
+  try {
+    statement.bind(params)
+    const rows: SqlValue[][] = []
+    while (statement.step()) rows.push(statement.get())
+    return { columns: statement.getColumnNames(), rows }
+  } finally {
+    statement.free()
+  }
+}
+
+export async function getSalesCatalog(): Promise<SalesCatalog> {
+  const db = await database()
+  const distinct = (column: SalesDimension) =>
+    select(db, `SELECT DISTINCT ${column} FROM sales ORDER BY ${column}`).rows.map(r => String(r[0]))
+  return {
+    row_count: Number(select(db, 'SELECT COUNT(*) FROM sales').rows[0]?.[0] ?? 0),
+    territories: distinct('territory'),
+    products: distinct('product'),
+    periods: distinct('period'),
+  }
+}
+
+export async function listSalesLoads(): Promise<SalesLoad[]> {
+  return (await readJsonLines<SalesLoad>(LOADS_LOG)).reverse()
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/** "Q3 2025", "2025 Q3", "FY25-Q3" → "2025-Q3"; "Jul 2025", "2025-07-01", Excel date serials → "2025-07" */
+export function normalizePeriod(value: string): string {
+  const v = value.trim()
+  const year = (y: string) => (y.length === 2 ? `20${y}` : y)
+  let m = v.match(/^(?:fy\s*)?q([1-4])[\s\-_/']*(?:fy\s*)?(\d{4}|\d{2})$/i)
+  if (m) return `${year(m[2])}-Q${m[1]}`
+  m = v.match(/^(?:fy\s*)?(\d{4}|\d{2})[\s\-_/]*q([1-4])$/i)
+  if (m) return `${year(m[1])}-Q${m[2]}`
+  m = v.match(/^(\d{4})[-/](\d{1,2})(?:[-/]\d{1,2})?$/)
+  if (m) return `${m[1]}-${m[2].padStart(2, '0')}`
+  m = v.match(/^([a-z]{3})[a-z]*\.?[\s\-_/']*(\d{4})$/i)
+  if (m && MONTHS.includes(m[1].toLowerCase())) return `${m[2]}-${String(MONTHS.indexOf(m[1].toLowerCase()) + 1).padStart(2, '0')}`
+  // Excel stores dates as days since 1899-12-30
+  if (/^\d{5}(\.\d+)?$/.test(v) && Number(v) > 20000 && Number(v) < 80000) {
+    const d = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(v)) * 86400000)
+    return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`
+  }
+  return v
+}
+
+/** "$1,200.50", "(300)", "85%" → numbers; empty → null; anything else → undefined */
+function parseNumber(value: string): number | null | undefined {
+  const v = value.trim()
+  if (!v || v === '-') return null
+  const negative = /^\(.*\)$/.test(v)
+  const cleaned = v.replace(/^\((.*)\)$/, '$1').replace(/[$€£,\s%]/g, '')
+  if (!/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(cleaned)) return undefined
+  const n = Number(cleaned)
+  return negative ? -n : n
+}
+
+/** Index of each sales column in the header row; finds the header within the first rows */
+function mapHeader(rows: string[][]): { headerRow: number; columns: Map<SalesColumn, number> } | null {
+  for (let r = 0; r < Math.min(rows.length, 10); r++) {
+    const columns = new Map<SalesColumn, number>()
+    rows[r].forEach((cell, i) => {
+      const header = normalizeHeader(cell)
+      const column = SALES_COLUMNS.find(c => !columns.has(c) && c.aliases.includes(header))
+      if (column) columns.set(column, i)
+    })
+    const hasDimensions = DIMENSIONS.every(d => Array.from(columns.keys()).some(c => c.name === d))
+    const hasMeasure = Array.from(columns.keys()).some(c => !DIMENSIONS.includes(c.name as SalesDimension))
+    if (hasDimensions && hasMeasure) return { headerRow: r, columns }
+  }
+  return null
+}
+
+/**
+ * Load a CSV or XLSX file into the sales table. Every sheet with a
+ * recognizable header is loaded. Throws SalesDataError when nothing in the
+ * file matches the schema.
+ */
+export async function loadSalesFile(fileName: string, bytes: Uint8Array, user: AuthUser): Promise<SalesLoad> {
+  const ext = fileName.split('.').pop()?.toLowerCase()
+  if (ext !== 'csv' && ext !== 'xlsx') throw new SalesDataError('Sales data must be a CSV or XLSX file', 400)
+  const sheets = readSpreadsheet(fileName, ext, bytes)
+
+  const loadedAt = new Date().toISOString()
+  // One record per territory + product + period, summing the rows that share it
+  const records = new Map<string, Record<string, SqlValue>>()
+  let rowsLoaded = 0
+  const errors: string[] = []
+  const mapped: Record<string, string> = {}
+  let skipped = 0
+
+  for (const sheet of sheets) {
+    const header = mapHeader(sheet.rows)
+    if (!header) continue
+    header.columns.forEach((index, column) => {
+      mapped[sheet.rows[header.headerRow][index]] = column.name
+    })
+
+    sheet.rows.slice(header.headerRow + 1).forEach((row, i) => {
+      if (row.every(cell => !cell.trim())) return
+      const where = `${sheets.length > 1 ? `${sheet.name} ` : ''}row ${header.headerRow + i + 2}`
+      const record: Record<string, SqlValue> = { source: fileName, loaded_at: loadedAt }
+      let problem = ''
+      header.columns.forEach((index, column) => {
+        const cell = row[index] ?? ''
+        if (column.type === 'TEXT') {
+          const text = column.name === 'period' ? normalizePeriod(cell) : cell.trim()
+          if (!text) problem ||= `${where}: ${column.name} is empty`
+          record[column.name] = text
+        } else {
+          const n = parseNumber(cell)
+          if (n === undefined) problem ||= `${where}: ${column.name} "${cell}" is not a number`
+          record[column.name] = n === undefined ? null : column.type === 'INTEGER' && n !== null ? Math.round(n) : n
+        }
+      })
+      if (problem) {
+        skipped++
+        if (errors.length < MAX_LOAD_ERRORS) errors.push(problem)
+      } else {
+        rowsLoaded++
+        const key = JSON.stringify(DIMENSIONS.map(d => record[d]))
+        const existing = records.get(key)
+        if (!existing) {
+          records.set(key, record)
+        } else {
+          header.columns.forEach((_, column) => {
+            if (column.type === 'TEXT' || record[column.name] === null) return
+            existing[column.name] = ((existing[column.name] as number | null) ?? 0) + (record[column.name] as number)
+          })
+        }
+      }
+    })
+  }
+
+  if (Object.keys(mapped).length === 0) {
+    throw new SalesDataError(
+      `No sheet in ${fileName} has territory, product and period columns plus at least one of revenue, quota, TRx or NRx`,
+      422
+    )
+  }
+
+  const load: SalesLoad = {
+    id: `load-${Date.now().toString(36)}`,
+    file: fileName,
+    loaded_at: loadedAt,
+    user_id: user.id,
+    user_name: user.name,
+    rows_loaded: rowsLoaded,
+    rows_skipped: skipped,
+    columns: mapped,
+    errors,
+  }
+
+  await withLock(DB_FILE, async () => {
+    const db = await database()
+    const names = SALES_COLUMNS.map(c => c.name)
+    // Columns missing from this file keep the values an earlier file loaded
+    const statement = db.prepare(
+      `INSERT INTO sales (${names.join(', ')}, source, loaded_at)
+       VALUES (${names.map(n => `$${n}`).join(', ')}, $source, $loaded_at)
+       ON CONFLICT (territory, product, period) DO UPDATE SET
+       ${names.filter(n => !DIMENSIONS.includes(n as SalesDimension)).map(n => `${n} = COALESCE(excluded.${n}, ${n})`).join(', ')},
+       source = excluded.source, loaded_at = excluded.loaded_at`
+    )
+    db.run('BEGIN')
+    try {
+      for (const record of Array.from(records.values())) {
+        statement.run(Object.fromEntries([...names, 'source', 'loaded_at'].map(n => [`$${n}`, record[n] ?? null])))
+      }
+      db.run('COMMIT')
+    } catch (error) {
+      db.run('ROLLBACK')
+      throw error
+    } finally {
+      statement.free()
+    }
+    await writeBinary(DB_FILE, db.export())
+  })
+  await appendJsonLine(LOADS_LOG, load)
+  return load
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** SQL for the metric, optionally over the rows matching `condition` only */
+function metricSql(metric: SalesMetric, condition?: string): string {
+  const col = (name: string) => (condition ? `CASE WHEN ${condition} THEN ${name} END` : name)
+  if (metric === 'attainment') {
+    return `ROUND(100.0 * SUM(${col('revenue')}) / NULLIF(SUM(${col('quota')}), 0), 1)`
+  }
+  return metric === 'revenue' || metric === 'quota' ? `ROUND(SUM(${col(metric)}), 2)` : `SUM(${col(metric)})`
+}
+
+function sqlLiteral(value: SqlValue): string {
+  if (value === null) return 'NULL'
+  return typeof value === 'number' ? String(value) : `'${String(value).replace(/'/g, "''")}'`
+}
+
+export function describeSalesQuery(query: SalesQuery): string {
+  const parts = [METRIC_LABELS[query.metric]]
+  if (query.group_by) parts.push(`by ${query.group_by}`)
+  const filters = Object.entries(query.filters || {})
+    .filter(([, values]) => values && values.length > 0)
+    .map(([dimension, values]) => `${dimension} ${values!.join(', ')}`)
+  if (filters.length > 0) parts.push(`for ${filters.join('; ')}`)
+  if (query.compare) parts.push(`comparing ${query.compare[0]} with ${query.compare[1]}`)
+  if (query.order) parts.push(`${query.order === 'desc' ? 'highest' : 'lowest'} first${query.limit ? `, top ${query.limit}` : ''}`)
+  return parts.join(' ')
+}
+
+/** Compile a SalesQuery to parameterized SQL. Throws SalesDataError for invalid queries. */
+export function buildSalesSql(query: SalesQuery): { sql: string; params: SqlValue[]; columns: string[] } {
+  if (typeof query.metric !== 'string' || !Object.hasOwn(METRIC_LABELS, query.metric)) {
+    throw new SalesDataError(`Unknown metric ${query.metric}`, 400)
+  }
+  if (query.group_by && !DIMENSIONS.includes(query.group_by)) throw new SalesDataError(`Cannot group by ${query.group_by}`, 400)
+  if (query.order != null && query.order !== 'asc' && query.order !== 'desc') {
+    throw new SalesDataError('order must be "asc" or "desc"', 400)
+  }
+  if (query.limit != null && (typeof query.limit !== 'number' || !Number.isFinite(query.limit))) {
+    throw new SalesDataError('limit must be a number', 400)
+  }
+  if (query.compare && (
+    !Array.isArray(query.compare) || query.compare.length !== 2 ||
+    query.compare.some(p => typeof p !== 'string') || query.compare[0] === query.compare[1]
+  )) {
+    throw new SalesDataError('compare needs two different periods', 400)
+  }
+
+  // Placeholders in SELECT come before those in WHERE
+  const selectParams: SqlValue[] = []
+  const whereParams: SqlValue[] = []
+  const where: string[] = []
+  for (const dimension of DIMENSIONS) {
+    const values = query.filters?.[dimension]
+    if (!values || values.length === 0) continue
+    if (!Array.isArray(values) || values.some(v => typeof v !== 'string')) throw new SalesDataError(`Invalid ${dimension} filter`, 400)
+    where.push(`${dimension} IN (${values.map(() => '?').join(', ')})`)
+    whereParams.push(...values)
+  }
+
+  const select: string[] = []
+  const columns: string[] = []
+  if (query.group_by) {
+    select.push(query.group_by)
+    columns.push(query.group_by)
+  }
+
+  let orderBy = query.group_by ? query.group_by : ''
+  if (query.compare) {
+    const [from, to] = query.compare
+    const inPeriod = (period: string) => {
+      selectParams.push(period)
+      return metricSql(query.metric, 'period = ?')
+    }
+    select.push(
+      `${inPeriod(from)} AS value_from`,
+      `${inPeriod(to)} AS value_to`,
+      `${inPeriod(to)} - ${inPeriod(from)} AS change`,
+      `ROUND(100.0 * (${inPeriod(to)} - ${inPeriod(from)}) / NULLIF(${inPeriod(from)}, 0), 1) AS change_pct`
+    )
+    where.push('period IN (?, ?)')
+    whereParams.push(from, to)
+    columns.push(`${METRIC_LABELS[query.metric]} ${from}`, `${METRIC_LABELS[query.metric]} ${to}`, 'Change', 'Change (%)')
+    if (query.order) orderBy = `change ${query.order.toUpperCase()}`
+  } else {
+    select.push(`${metricSql(query.metric)} AS value`)
+    columns.push(METRIC_LABELS[query.metric])
+    if (query.order) orderBy = `value ${query.order.toUpperCase()}`
+  }
+
+  const limit = query.limit && query.limit > 0 ? Math.min(Math.floor(query.limit), MAX_RESULT_ROWS) : MAX_RESULT_ROWS
+  const sql = [
+    `SELECT ${select.join(', ')}`,
+    'FROM sales',
+    where.length > 0 ? `WHERE ${where.join(' AND ')}` : '',
+    query.group_by ? `GROUP BY ${query.group_by}` : '',
+    orderBy ? `ORDER BY ${orderBy}` : '',
+    query.group_by ? `LIMIT ${limit}` : '',
+  ].filter(Boolean).join('\n')
+  return { sql, params: [...selectParams, ...whereParams], columns }
+}
+
+/** Run a structured query. Throws SalesDataError for invalid queries. */
+export async function runSalesQuery(query: SalesQuery): Promise<SalesComputation> {
+  const { sql, params, columns } = buildSalesSql(query)
+  const db = await database()
+  const result = select(db, sql, params)
+  let i = 0
+  return {
+    description: describeSalesQuery(query),
+    query,
+    sql: sql.replace(/\?/g, () => sqlLiteral(params[i++] ?? null)),
+    columns,
+    rows: result.rows.map(row => row.map(v => (v instanceof Uint8Array ? null : v))),
+    computed_at: new Date().toISOString(),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Question planning
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function mentioned(question: string, values: string[]): string[] {
+  return values.filter(v => new RegExp(`(^|[^a-z0-9])${escapeRegExp(v.toLowerCase())}([^a-z0-9]|$)`).test(question))
+}
+
+/** Periods named in the question, resolved against the loaded periods, oldest first */
+function mentionedPeriods(question: string, periods: string[]): string[] {
+  const found = new Set<string>(mentioned(question, periods))
+  const quarters = periods.filter(p => /^\d{4}-Q[1-4]$/.test(p))
+  for (const m of Array.from(question.matchAll(/\b(?:q([1-4])(?:\s*(?:of\s*)?(?:fy\s*)?'?(\d{4}|\d{2}))?|(\d{4})\s*q([1-4]))\b/g))) {
+    const q = m[1] || m[4]
+    const y = m[2] || m[3]
+    const candidates = quarters.filter(p => p.endsWith(`-Q${q}`) && (!y || p.startsWith(y.length === 2 ? `20${y}` : y)))
+    // Without a year, the latest loaded quarter of that name
+    if (candidates.length > 0) found.add(y ? candidates[0] : candidates[candidates.length - 1])
+  }
+  if (/\b(this|current|latest|most recent) (quarter|period)\b/.test(question) && periods.length > 0) found.add(periods[periods.length - 1])
+  if (/\b(last|previous|prior) (quarter|period)\b/.test(question) && periods.length > 1) found.add(periods[periods.length - 2])
+  if (found.size === 0) {
+    for (const m of Array.from(question.matchAll(/\b(20\d{2})\b/g))) {
+      periods.filter(p => p.startsWith(m[1])).forEach(p => found.add(p))
+    }
+  }
+  return Array.from(found).sort()
+}
+
+const GROUP_WORDS: Record<SalesDimension, string> = {
+  territory: 'territor(?:y|ies)|regions?|districts?|areas?',
+  product: 'products?|brands?|drugs?',
+  period: 'quarters?|months?|periods?',
+}
+
+/**
+ * A structured query for a sales question, or null when the question does
+ * not ask for a figure the sales table holds.
+ */
+export function planSalesQuery(question: string, catalog: SalesCatalog): SalesQuery | null {
+  const q = question.toLowerCase()
+  const metric: SalesMetric | null =
+    /attainment|% (of|to) (quota|target)|(against|vs\.?|versus) (quota|target)/.test(q) ? 'attainment'
+      : /\bnrx\b|new (rx|prescriptions?|scripts?)/.test(q) ? 'nrx'
+        : /\btrx\b|total (rx|prescriptions?)|prescriptions?|scripts?\b/.test(q) ? 'trx'
+          : /revenue|\bsales\b|\$|dollars?/.test(q) ? 'revenue'
+            : /\bquotas?\b|\btargets?\b/.test(q) ? 'quota'
+              : null
+  if (!metric) return null
+
+  const filters: Partial<Record<SalesDimension, string[]>> = {}
+  const territories = mentioned(q, catalog.territories)
+  const products = mentioned(q, catalog.products)
+  const periods = mentionedPeriods(q, catalog.periods)
+  if (territories.length > 0) filters.territory = territories
+  if (products.length > 0) filters.product = products
+
+  const compare = /\b(compare[ds]?|comparison|vs\.?|versus|growth|grew|change[ds]?|increase[ds]?|decrease[ds]?|declined?)\b/.test(q) && periods.length === 2
+    ? [periods[0], periods[1]] as [string, string]
+    : undefined
+  if (!compare && periods.length > 0) filters.period = periods
+
+  // "by territory", "which product", "top 3 regions"; otherwise a plural ("territories") groups
+  const cue = '(?:by|per|each|every|which|what|top\\s*\\d*|bottom\\s*\\d*|rank(?:ed|ing)?|best|worst|highest|lowest|leading|across)'
+  let group_by = DIMENSIONS.find(d => new RegExp(`\\b${cue}\\s+(?:\\w+\\s+)?(?:${GROUP_WORDS[d]})\\b`).test(q))
+  if (!group_by && /\b(trend|over time|quarterly|monthly)\b/.test(q)) group_by = 'period'
+  if (!group_by) {
+    group_by = DIMENSIONS.find(d => d !== 'period' && new RegExp(`\\b(?:${GROUP_WORDS[d].replace(/\?/g, '')})\\b`).test(q) && /s\b/.test(q.match(new RegExp(`\\b(?:${GROUP_WORDS[d]})\\b`))?.[0] || ''))
+  }
+  // A dimension narrowed to one value needs no grouping
+  if (group_by && filters[group_by]?.length === 1) group_by = undefined
+
+  const top = q.match(/\b(top|bottom)\s*(\d+)\b/)
+  let order: SalesQuery['order']
+  let limit: number | undefined
+  if (top) {
+    order = top[1] === 'top' ? 'desc' : 'asc'
+    limit = Number(top[2])
+  } else if (/\b(lowest|worst|least|bottom|weakest|under-?perform\w*)\b/.test(q)) {
+    order = 'asc'
+    limit = /\brank/.test(q) ? undefined : 1
+  } else if (/\b(highest|best|most|top|leading|strongest|largest|biggest)\b/.test(q)) {
+    order = 'desc'
+    limit = /\brank/.test(q) ? undefined : 1
+  } else if (/\brank/.test(q)) {
+    order = 'desc'
+  }
+  if (!group_by) {
+    order = undefined
+    limit = undefined
+  }
+
+  return {
+    metric,
+    ...(group_by ? { group_by } : {}),
+    ...(Object.keys(filters).length > 0 ? { filters } : {}),
+    ...(order ? { order } : {}),
+    ...(limit ? { limit } : {}),
+    ...(compare ? { compare } : {}),
+  }
+}
+
+/**
+ * Plan and run a sales question against the loaded data. Null when no data
+ * is loaded or the question does not map to a query; failures are logged
+ * and also give null, so the agent still answers from the knowledge base.
+ */
+export async function computeSalesAnswer(question: string): Promise<SalesComputation | null> {
+  try {
+    const catalog = await getSalesCatalog()
+    if (catalog.row_count === 0) return null
+    const query = planSalesQuery(question, catalog)
+    return query ? await runSalesQuery(query) : null
+  } catch (error) {
+    console.error('[sales-data] query failed', error)
+    return null
+  }
+}
+
+/** The computation as context for the agent: the figures as a table and the SQL behind them */
+export function salesContext(computation: SalesComputation): string {
+  const table = [
+    `| ${computation.columns.join(' | ')} |`,
+    `| ${computation.columns.map(() => '---').join(' | ')} |`,
+    ...computation.rows.map(row => `| ${row.map(v => (v === null ? '' : String(v))).join(' | ')} |`),
+  ].join('\n')
+  return [
+    `Exact figures from the structured sales database (${computation.description}). Use these numbers as given; do not recompute or estimate them.`,
+    computation.rows.length > 0 ? table : 'The query returned no rows.',
+    `SQL: ${computation.sql.replace(/\s*\n\s*/g, ' ')}`,
+  ].join('\n\n')
+}
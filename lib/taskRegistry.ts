@@ -0,0 +1,141 @@
+/**
+ * In-flight Agent Task Registry (server-side)
+ *
+ * Tracks every task submitted through /api/agent by session so a task can be
+ * cancelled and later polls for it short-circuit instead of reaching upstream.
+ * Kept in memory on globalThis; finished entries are pruned after an hour.
+ */
+
+import type { TraceTiming } from '@/lib/agentTrace'
+import type { PhiRedaction } from '@/lib/phiRedaction'
+import type { AdverseEventSignal } from '@/lib/adverseEvents'
+import type { SalesComputation } from '@/lib/salesData'
+
+export type RegisteredTaskStatus = 'processing' | 'completed' | 'failed' | 'cancelled'
+
+/** Client-supplied grouping for the audit log (see lib/auditStore) */
+export interface TaskAuditContext {
+  query_id: string
+  /** The user's question when the task message is not, e.g. a review prompt */
+  query?: string
+  orchestration_mode?: 'manager' | 'parallel'
+}
+
+export interface RegisteredTask {
+  task_id: string
+  agent_id: string
+  session_id: string
+  user_id: string
+  /** Display name of the signed-in user who submitted the task */
+  user_name?: string
+  /** The message as submitted upstream, after PHI redaction */
+  message: string
+  /** Identifiers masked in the message (tokens only, never values) */
+  redactions?: PhiRedaction[]
+  /** Possible adverse events found in the query or the answer */
+  adverse_events?: AdverseEventSignal[]
+  /** Figures computed from the structured sales data and sent with the message */
+  sales_computations?: SalesComputation[]
+  /**
+   * A retrieval agent's payload, kept for the review task that merges it
+   * (submitAgentTask with draft_task_ids). Only reviewers get it in a poll.
+   */
+  draft?: Record<string, any>
+  status: RegisteredTaskStatus
+  submitted_at: string
+  finished_at?: string
+  /** Sub-agent timings seen while polling, keyed by agent_id */
+  timeline?: Record<string, TraceTiming>
+  audit?: TaskAuditContext
+  /** Set once the task's audit record is written */
+  audited?: boolean
+}
+
+const RETENTION_MS = 60 * 60 * 1000 // 1 hour
+
+const globalForRegistry = globalThis as unknown as { __agentTaskRegistry?: Map<string, RegisteredTask> }
+
+function getRegistry(): Map<string, RegisteredTask> {
+  if (!globalForRegistry.__agentTaskRegistry) {
+    globalForRegistry.__agentTaskRegistry = new Map()
+  }
+  return globalForRegistry.__agentTaskRegistry
+}
+
+function prune(registry: Map<string, RegisteredTask>) {
+  const cutoff = Date.now() - RETENTION_MS
+  registry.forEach((task, id) => {
+    if (task.finished_at && new Date(task.finished_at).getTime() < cutoff) {
+      registry.delete(id)
+    }
+  })
+}
+
+export function registerTask(task: Omit<RegisteredTask, 'status' | 'submitted_at'>): RegisteredTask {
+  const registry = getRegistry()
+  prune(registry)
+  const entry: RegisteredTask = { ...task, status: 'processing', submitted_at: new Date().toISOString() }
+  registry.set(task.task_id, entry)
+  return entry
+}
+
+export function getRegisteredTask(taskId: string): RegisteredTask | undefined {
+  return getRegistry().get(taskId)
+}
+
+/**
+ * Fold a progress snapshot into the task's timeline: an agent's start is the
+ * first poll that saw it running, its end the first poll that saw it done.
+ */
+export function recordProgress(
+  taskId: string,
+  progress: { agent_id: string; agent_name?: string; status: TraceTiming['status'] }[]
+) {
+  const task = getRegistry().get(taskId)
+  if (!task) return
+  const now = new Date().toISOString()
+  const timeline = task.timeline || (task.timeline = {})
+  for (const p of progress) {
+    const entry = timeline[p.agent_id] || (timeline[p.agent_id] = { status: 'pending' })
+    entry.agent_name = entry.agent_name || p.agent_name
+    entry.status = p.status
+    if (p.status !== 'pending' && !entry.started_at) entry.started_at = now
+    if ((p.status === 'completed' || p.status === 'failed') && !entry.completed_at) entry.completed_at = now
+  }
+}
+
+/**
+ * Record a terminal status. A cancelled task stays cancelled even if the
+ * upstream later reports it finished.
+ */
+export function finishTask(taskId: string, status: Exclude<RegisteredTaskStatus, 'processing'>): RegisteredTask | undefined {
+  const task = getRegistry().get(taskId)
+  if (!task || task.status === 'cancelled') return task
+  task.status = status
+  task.finished_at = new Date().toISOString()
+  return task
+}
+
+/**
+ * Cancel one task, or every in-flight task of the session when taskId is omitted.
+ * Only tasks that the user submitted in the session are touched. Returns the
+ * cancelled tasks.
+ */
+export function cancelTasks(sessionId: string, userId: string, taskId?: string): RegisteredTask[] {
+  const cancelled: RegisteredTask[] = []
+  getRegistry().forEach(task => {
+    if (task.session_id !== sessionId || task.user_id !== userId || task.status !== 'processing') return
+    if (taskId && task.task_id !== taskId) return
+    task.status = 'cancelled'
+    task.finished_at = new Date().toISOString()
+    cancelled.push(task)
+  })
+  return cancelled
+}
+
+/** The user's tasks in the session, optionally only those with the given status */
+export function listSessionTasks(sessionId: string, userId: string, status?: RegisteredTaskStatus): RegisteredTask[] {
+  return Array.from(getRegistry().values()).filter(
+    task => task.session_id === sessionId && task.user_id === userId && (!status || task.status === status)
+  )
+}
@@ -0,0 +1,91 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff between a draft and its reviewed version, for showing what
+ * compliance review removed or added. Runs on the client and the server.
+ *
+ *   diffText('Our safest drug', 'Our drug')
+ *   → [{ type: 'equal', text: 'Our ' }, { type: 'removed', text: 'safest ' }, { type: 'equal', text: 'drug' }]
+ *
+ * A longest-common-subsequence over words and whitespace, after trimming the
+ * common prefix and suffix. Texts too long for a word table are compared
+ * line by line instead.
+ */
+
+export type DiffSegmentType = 'equal' | 'removed' | 'added'
+
+export interface DiffSegment {
+  type: DiffSegmentType
+  text: string
+}
+
+/** Cells in the LCS table before falling back to a coarser split */
+const MAX_TABLE_CELLS = 4_000_000
+
+function words(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || []
+}
+
+function lines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+function push(segments: DiffSegment[], type: DiffSegmentType, text: string) {
+  if (!text) return
+  const last = segments[segments.length - 1]
+  if (last?.type === type) last.text += text
+  else segments.push({ type, text })
+}
+
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+  const segments: DiffSegment[] = []
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  push(segments, 'equal', a.slice(0, start).join(''))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+
+  // lcs[i][j]: common tokens of midA[i..] and midB[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      push(segments, 'equal', midA[i++])
+      j++
+    } else if (j < m && (i === n || lcs[i][j + 1] > lcs[i + 1][j])) {
+      push(segments, 'added', midB[j++])
+    } else {
+      push(segments, 'removed', midA[i++])
+    }
+  }
+
+  push(segments, 'equal', a.slice(endA).join(''))
+  return segments
+}
+
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = words(before || '')
+  const b = words(after || '')
+  if (a.length * b.length <= MAX_TABLE_CELLS) return diffTokens(a, b)
+  return diffTokens(lines(before || ''), lines(after || ''))
+}
+
+export function hasChanges(segments: DiffSegment[]): boolean {
+  return segments.some(s => s.type !== 'equal')
+}
@@ -0,0 +1,29 @@
+import type { CSSProperties } from 'react'
+
+/** Dark amber theme shared by the app shell and the login page */
+export const THEME_VARS = {
+  '--background': '20 30% 4%',
+  '--foreground': '35 20% 90%',
+  '--card': '20 25% 7%',
+  '--card-foreground': '35 20% 90%',
+  '--popover': '20 25% 10%',
+  '--popover-foreground': '35 20% 90%',
+  '--primary': '35 20% 90%',
+  '--primary-foreground': '20 30% 8%',
+  '--secondary': '20 20% 12%',
+  '--secondary-foreground': '35 20% 90%',
+  '--accent': '36 60% 31%',
+  '--accent-foreground': '35 20% 95%',
+  '--destructive': '0 63% 31%',
+  '--muted': '20 18% 15%',
+  '--muted-foreground': '35 15% 55%',
+  '--border': '20 18% 16%',
+  '--input': '20 20% 20%',
+  '--ring': '36 60% 31%',
+  '--sidebar-background': '20 28% 6%',
+  '--sidebar-foreground': '35 20% 90%',
+  '--sidebar-border': '20 18% 12%',
+  '--sidebar-primary': '36 60% 31%',
+  '--sidebar-accent': '20 18% 12%',
+  '--radius': '0.5rem',
+} as CSSProperties
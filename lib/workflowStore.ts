@@ -0,0 +1,103 @@
+/**
+ * Versioned Workflow Store (server-side)
+ *
+ * The agent graph is versioned: workflow.json is version 0, and every save
+ * from the Workflow editor writes a new immutable file,
+ * DATA_DIR/workflows/v<N>.json. The latest version is the current workflow.
+ * Restoring an old version saves a copy of it as a new version, so history
+ * is never rewritten.
+ */
+
+import bundledWorkflow from '@/workflow.json'
+import { readConfigFile } from '@/lib/configFiles'
+import { createJson, listFiles, readJson, withLock } from '@/lib/dataStore'
+import type { WorkflowGraph } from '@/lib/agentRegistry'
+
+export interface WorkflowVersion extends WorkflowGraph {
+  version: number
+  saved_at?: string
+  saved_by?: string
+  note?: string
+  /** Set when this version was created by restoring an older one */
+  restored_from?: number
+}
+
+export type WorkflowVersionSummary = Omit<WorkflowVersion, 'nodes' | 'edges'>
+
+const VERSION_DIR = 'workflows'
+
+function versionFile(version: number): string {
+  return `${VERSION_DIR}/v${String(version).padStart(4, '0')}.json`
+}
+
+function versionNumbers(files: string[]): number[] {
+  return files
+    .map(f => f.match(/^v(\d+)\.json$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => Number(m[1]))
+    .sort((a, b) => a - b)
+}
+
+function toGraph(raw: any): WorkflowGraph {
+  return {
+    nodes: Array.isArray(raw?.nodes) ? raw.nodes : [],
+    edges: Array.isArray(raw?.edges) ? raw.edges : [],
+  }
+}
+
+async function loadBaseWorkflow(): Promise<WorkflowVersion> {
+  const base = await readConfigFile('workflow.json', bundledWorkflow)
+  return { version: 0, note: 'workflow.json', ...toGraph(base) }
+}
+
+export async function getWorkflowVersion(version: number): Promise<WorkflowVersion | null> {
+  if (version === 0) return loadBaseWorkflow()
+  const stored = await readJson<WorkflowVersion | null>(versionFile(version), null)
+  return stored ? { ...stored, ...toGraph(stored) } : null
+}
+
+export async function loadCurrentWorkflow(): Promise<WorkflowVersion> {
+  const versions = versionNumbers(await listFiles(VERSION_DIR))
+  const latest = versions[versions.length - 1]
+  return (latest && (await getWorkflowVersion(latest))) || loadBaseWorkflow()
+}
+
+/** Every version, newest first, without the graphs. */
+export async function listWorkflowVersions(): Promise<WorkflowVersionSummary[]> {
+  const summaries: WorkflowVersionSummary[] = []
+  for (const version of versionNumbers(await listFiles(VERSION_DIR)).reverse()) {
+    const stored = await getWorkflowVersion(version)
+    if (stored) {
+      const { nodes: _n, edges: _e, ...summary } = stored
+      summaries.push(summary)
+    }
+  }
+  const { nodes: _n, edges: _e, ...base } = await loadBaseWorkflow()
+  summaries.push(base)
+  return summaries
+}
+
+/**
+ * Save a graph as the next version. The caller validates it first.
+ */
+export async function saveWorkflowVersion(
+  graph: WorkflowGraph,
+  meta: { saved_by?: string; note?: string; restored_from?: number }
+): Promise<WorkflowVersion> {
+  return withLock('workflow-versions', async () => {
+    const versions = versionNumbers(await listFiles(VERSION_DIR))
+    let version = (versions[versions.length - 1] || 0) + 1
+    const entry = (v: number): WorkflowVersion => ({
+      version: v,
+      saved_at: new Date().toISOString(),
+      saved_by: meta.saved_by,
+      note: meta.note,
+      restored_from: meta.restored_from,
+      nodes: graph.nodes,
+      edges: graph.edges,
+    })
+    // createJson refuses to overwrite, so a concurrent writer in another process bumps us
+    while (!(await createJson(versionFile(version), entry(version)))) version++
+    return entry(version)
+  })
+}
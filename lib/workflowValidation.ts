@@ -0,0 +1,151 @@
+/**
+ * Workflow Graph Validation
+ *
+ * Structural rules for the agent graph in workflow.json, shared by the
+ * Workflow editor (live feedback) and POST /api/workflow (enforced on save):
+ *
+ *   - node ids are unique, edges join existing nodes, no duplicates or self-loops
+ *   - exactly one input node and one output node
+ *   - agent nodes refer to an agent in workflow_state.json
+ *   - the graph has no cycles
+ *   - every node is reachable from the input and can reach the output
+ *   - every path from the input to the output passes a compliance agent
+ */
+
+import type { RegistryAgent, WorkflowGraph } from '@/lib/agentRegistry'
+
+export interface WorkflowIssue {
+  code:
+    | 'duplicate_node'
+    | 'unknown_node'
+    | 'duplicate_edge'
+    | 'self_loop'
+    | 'input_count'
+    | 'output_count'
+    | 'unknown_agent'
+    | 'cycle'
+    | 'unreachable'
+    | 'dead_end'
+    | 'compliance_bypass'
+  message: string
+  node_id?: string
+  edge?: { source: string; target: string }
+}
+
+/** Agent keys whose nodes count as compliance checkpoints. */
+export function complianceAgentKeys(agents: Pick<RegistryAgent, 'key' | 'kind'>[]): Set<string> {
+  return new Set(agents.filter(a => a.kind === 'compliance').map(a => a.key))
+}
+
+function reachable(start: string[], next: Map<string, string[]>, blocked: Set<string> = new Set()): Set<string> {
+  const seen = new Set<string>()
+  const stack = start.filter(id => !blocked.has(id))
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (seen.has(id)) continue
+    seen.add(id)
+    for (const n of next.get(id) || []) {
+      if (!seen.has(n) && !blocked.has(n)) stack.push(n)
+    }
+  }
+  return seen
+}
+
+export function validateWorkflow(
+  graph: WorkflowGraph,
+  agents: Pick<RegistryAgent, 'key' | 'kind'>[]
+): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = []
+  const nodeIds = new Set<string>()
+
+  for (const node of graph.nodes) {
+    if (nodeIds.has(node.id)) {
+      issues.push({ code: 'duplicate_node', message: `Node id "${node.id}" is used more than once`, node_id: node.id })
+    }
+    nodeIds.add(node.id)
+    if (node.nodeCategory === 'agent' && !agents.some(a => a.key === node.agent)) {
+      issues.push({
+        code: 'unknown_agent',
+        message: `"${node.label || node.id}" does not refer to an agent in workflow_state.json`,
+        node_id: node.id,
+      })
+    }
+  }
+
+  const inputs = graph.nodes.filter(n => n.nodeCategory === 'input')
+  const outputs = graph.nodes.filter(n => n.nodeCategory === 'end')
+  if (inputs.length !== 1) {
+    issues.push({ code: 'input_count', message: `The workflow needs exactly one input node (found ${inputs.length})` })
+  }
+  if (outputs.length !== 1) {
+    issues.push({ code: 'output_count', message: `The workflow needs exactly one output node (found ${outputs.length})` })
+  }
+
+  const next = new Map<string, string[]>()
+  const prev = new Map<string, string[]>()
+  const edgeKeys = new Set<string>()
+  for (const edge of graph.edges) {
+    const key = `${edge.source}->${edge.target}`
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      issues.push({ code: 'unknown_node', message: `Edge ${edge.source} → ${edge.target} refers to a missing node`, edge })
+      continue
+    }
+    if (edge.source === edge.target) {
+      issues.push({ code: 'self_loop', message: `Node "${edge.source}" has an edge to itself`, edge })
+      continue
+    }
+    if (edgeKeys.has(key)) {
+      issues.push({ code: 'duplicate_edge', message: `Edge ${edge.source} → ${edge.target} appears more than once`, edge })
+      continue
+    }
+    edgeKeys.add(key)
+    next.set(edge.source, [...(next.get(edge.source) || []), edge.target])
+    prev.set(edge.target, [...(prev.get(edge.target) || []), edge.source])
+  }
+
+  // Cycle check (Kahn's algorithm): nodes left over sit on a cycle
+  const indegree = new Map(Array.from(nodeIds).map(id => [id, (prev.get(id) || []).length]))
+  const queue = Array.from(nodeIds).filter(id => indegree.get(id) === 0)
+  let visited = 0
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    visited++
+    for (const n of next.get(id) || []) {
+      indegree.set(n, indegree.get(n)! - 1)
+      if (indegree.get(n) === 0) queue.push(n)
+    }
+  }
+  if (visited < nodeIds.size) {
+    const onCycle = Array.from(nodeIds).filter(id => indegree.get(id)! > 0)
+    issues.push({ code: 'cycle', message: `The workflow has a cycle through: ${onCycle.join(', ')}`, node_id: onCycle[0] })
+  }
+
+  if (inputs.length !== 1 || outputs.length !== 1) return issues
+  const input = inputs[0].id
+  const output = outputs[0].id
+
+  const fromInput = reachable([input], next)
+  const toOutput = reachable([output], prev)
+  for (const node of graph.nodes) {
+    if (!fromInput.has(node.id)) {
+      issues.push({ code: 'unreachable', message: `"${node.label || node.id}" cannot be reached from the input`, node_id: node.id })
+    } else if (!toOutput.has(node.id)) {
+      issues.push({ code: 'dead_end', message: `"${node.label || node.id}" has no path to the output`, node_id: node.id })
+    }
+  }
+
+  // With compliance nodes removed, the output must be unreachable
+  const compliance = complianceAgentKeys(agents)
+  const checkpoints = new Set(graph.nodes.filter(n => n.agent && compliance.has(n.agent)).map(n => n.id))
+  if (reachable([input], next, checkpoints).has(output)) {
+    issues.push({
+      code: 'compliance_bypass',
+      message: checkpoints.size === 0
+        ? 'The workflow has no compliance agent; every path to the output must pass one'
+        : 'A path from the input reaches the output without passing a compliance agent',
+      node_id: output,
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,69 @@
+/**
+ * Workspace Settings (server-side)
+ *
+ * Preferences that apply to a whole workspace rather than a chat session or
+ * a user. A workspace is one deployment, named by NEXT_PUBLIC_WORKSPACE_ID;
+ * its defaults come from NEXT_PUBLIC_* env vars and changes are stored in
+ * DATA_DIR/workspaces/<id>/settings.json, so every user and browser of the
+ * workspace sees the same values. Served by /api/workspace.
+ */
+
+import { readJson, withLock, writeJson } from '@/lib/dataStore'
+import type { OrchestrationMode } from '@/lib/parallelOrchestrator'
+import type { AuthUser } from '@/lib/auth'
+
+export interface WorkspaceSettings {
+  /** 'manager' routes through the manager agent, 'parallel' calls sub-agents directly */
+  orchestrationMode: OrchestrationMode
+}
+
+export interface StoredWorkspaceSettings extends WorkspaceSettings {
+  workspace_id: string
+  updated_at?: string
+  updated_by?: string
+}
+
+export class WorkspaceSettingsError extends Error {
+  /** HTTP status for the route to answer with */
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'WorkspaceSettingsError'
+    this.status = status
+  }
+}
+
+export const WORKSPACE_ID = (process.env.NEXT_PUBLIC_WORKSPACE_ID || 'default').replace(/[^A-Za-z0-9_-]/g, '_')
+
+const ORCHESTRATION_MODES: OrchestrationMode[] = ['manager', 'parallel']
+
+function defaultSettings(): WorkspaceSettings {
+  return { orchestrationMode: process.env.NEXT_PUBLIC_ORCHESTRATION_MODE === 'parallel' ? 'parallel' : 'manager' }
+}
+
+function settingsFile(): string {
+  return `workspaces/${WORKSPACE_ID}/settings.json`
+}
+
+export async function getWorkspaceSettings(): Promise<StoredWorkspaceSettings> {
+  const stored = await readJson<Partial<StoredWorkspaceSettings>>(settingsFile(), {})
+  return { ...defaultSettings(), ...stored, workspace_id: WORKSPACE_ID }
+}
+
+/** Apply a partial change. Throws WorkspaceSettingsError for invalid values. */
+export async function updateWorkspaceSettings(patch: Partial<WorkspaceSettings>, user: AuthUser): Promise<StoredWorkspaceSettings> {
+  if (patch.orchestrationMode !== undefined && !ORCHESTRATION_MODES.includes(patch.orchestrationMode)) {
+    throw new WorkspaceSettingsError(`orchestrationMode must be one of ${ORCHESTRATION_MODES.join(', ')}`, 400)
+  }
+  return withLock(settingsFile(), async () => {
+    const next: StoredWorkspaceSettings = {
+      ...(await getWorkspaceSettings()),
+      ...(patch.orchestrationMode ? { orchestrationMode: patch.orchestrationMode } : {}),
+      updated_at: new Date().toISOString(),
+      updated_by: user.name,
+    }
+    await writeJson(settingsFile(), next)
+    return next
+  })
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Sends signed-out visitors to the login page. This only checks that a
+ * session cookie is present (the edge runtime cannot read the session
+ * store); routes still verify the session with authorize() from lib/auth.
+ */
+
+const SESSION_COOKIE = 'medrep_session' // keep in sync with lib/auth
+
+export function middleware(request: NextRequest) {
+  if (request.cookies.get(SESSION_COOKIE)?.value) return NextResponse.next()
+
+  const { pathname, search } = request.nextUrl
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+  }
+  const login = new URL('/login', request.url)
+  if (pathname + search !== '/') login.searchParams.set('next', pathname + search)
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  // Everything except the login page, sign-in routes, health checks and static assets
+  matcher: ['/((?!login|api/auth/|api/health|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+}
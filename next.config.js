@@ -27,6 +27,8 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: '50mb',
     },
+    // sql.js loads its wasm from node_modules at runtime; keep it out of the bundle
+    serverComponentsExternalPackages: ['sql.js'],
     // Optimize package imports for faster builds
     optimizePackageImports: [
       'lucide-react',
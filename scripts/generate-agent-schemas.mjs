@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Generates lib/agentSchemas.generated.ts from response_schemas/*.json:
+ * one zod validator and one inferred TypeScript type per agent, plus a
+ * lookup table by agent_id.
+ *
+ * Field notation in response_schema:
+ *   "string"                  → z.string()
+ *   "string (a|b|c)"          → z.enum(['a', 'b', 'c']), matched case-insensitively
+ *   "string[]" or ["string"]  → z.array(z.string()), an omitted array is []
+ *
+ * When two files describe the same agent_id, the one without
+ * "auto_generated": true wins.
+ *
+ * Usage:
+ *   node scripts/generate-agent-schemas.mjs           write the file
+ *   node scripts/generate-agent-schemas.mjs --check   exit 1 if it is out of date
+ */
+
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs'
+import { join, dirname, basename } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const schemaDir = join(root, 'response_schemas')
+const outFile = join(root, 'lib', 'agentSchemas.generated.ts')
+
+function camel(name) {
+  return name.replace(/[_-]+(\w)/g, (_, c) => c.toUpperCase())
+}
+
+function pascal(name) {
+  const c = camel(name)
+  return c.charAt(0).toUpperCase() + c.slice(1)
+}
+
+function fieldValidator(spec, where) {
+  if (Array.isArray(spec) && spec.length === 1 && spec[0] === 'string') return 'z.array(z.string()).default([])'
+  if (spec === 'string[]') return 'z.array(z.string()).default([])'
+  if (spec === 'string') return 'z.string()'
+  const enumMatch = typeof spec === 'string' && spec.match(/^string\s*\(([^)]+)\)$/)
+  if (enumMatch) {
+    const values = enumMatch[1].split('|').map(v => v.trim().toLowerCase()).filter(Boolean)
+    return `enumField([${values.map(v => `'${v}'`).join(', ')}])`
+  }
+  throw new Error(`${where}: unsupported field type ${JSON.stringify(spec)}`)
+}
+
+function loadSchemas() {
+  const byAgent = new Map()
+  for (const file of readdirSync(schemaDir).filter(f => f.endsWith('.json')).sort()) {
+    const json = JSON.parse(readFileSync(join(schemaDir, file), 'utf8'))
+    if (!json.agent_id || !json.response_schema) continue
+    const existing = byAgent.get(json.agent_id)
+    if (existing && !existing.json.auto_generated && json.auto_generated) continue
+    byAgent.set(json.agent_id, { key: basename(file, '.json'), file, json })
+  }
+  return Array.from(byAgent.values()).sort((a, b) => a.key.localeCompare(b.key))
+}
+
+function render(entries) {
+  const lines = [
+    '// Generated by scripts/generate-agent-schemas.mjs from response_schemas/*.json.',
+    '// Do not edit by hand; run `npm run generate:schemas` after changing a schema.',
+    '',
+    "import { z } from 'zod'",
+    '',
+    '/** Enum field, matched after trimming and lower-casing. Other values are errors, never defaults. */',
+    'function enumField<T extends [string, ...string[]]>(values: T) {',
+    "  return z.preprocess(v => (typeof v === 'string' ? v.trim().toLowerCase() : v), z.enum(values))",
+    '}',
+    '',
+  ]
+
+  for (const { key, file, json } of entries) {
+    const name = camel(key)
+    lines.push(`// ${json.agent_name} (response_schemas/${file})`)
+    lines.push(`export const ${name}Schema = z.object({`)
+    for (const [field, spec] of Object.entries(json.response_schema)) {
+      lines.push(`  ${field}: ${fieldValidator(spec, `${file}#${field}`)},`)
+    }
+    lines.push('})')
+    lines.push(`export type ${pascal(key)}Response = z.infer<typeof ${name}Schema>`)
+    lines.push('')
+  }
+
+  lines.push('export const AGENT_RESPONSE_SCHEMAS = {')
+  for (const { key, json } of entries) {
+    lines.push(`  '${json.agent_id}': { key: '${key}', agent_name: '${json.agent_name.replace(/'/g, "\\'")}', schema: ${camel(key)}Schema },`)
+  }
+  lines.push('} as const')
+  lines.push('')
+  lines.push('export type AgentSchemaKey =')
+  for (const { key } of entries) lines.push(`  | '${key}'`)
+  lines.push('')
+  lines.push('export interface AgentResponseByKey {')
+  for (const { key } of entries) {
+    lines.push(`  ${key}: ${pascal(key)}Response`)
+  }
+  lines.push('}')
+  lines.push('')
+  return lines.join('\n')
+}
+
+const output = render(loadSchemas())
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(outFile) ? readFileSync(outFile, 'utf8') : ''
+  if (current !== output) {
+    console.error('lib/agentSchemas.generated.ts is out of date; run `npm run generate:schemas`')
+    process.exit(1)
+  }
+  console.log('lib/agentSchemas.generated.ts is up to date')
+} else {
+  writeFileSync(outFile, output)
+  console.log(`Wrote ${outFile}`)
+}
@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+/**
+ * A local OpenID Connect IdP for trying out single sign-on (lib/oidc). It
+ * approves every sign-in as one configured user without a login page and
+ * signs ID tokens with a key generated at startup.
+ *
+ * Usage:
+ *   node scripts/mock-oidc.mjs [--port 4010] [--email rep@example.com]
+ *     [--name "Sam Rep"] [--role field_rep] [--sub mock-user-1]
+ *
+ * Then run the app with
+ *   OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=medrep
+ */
+
+import { createServer } from 'node:http'
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto'
+
+const args = process.argv.slice(2)
+const options = { port: '4010', email: 'rep@example.com', name: 'Sam Rep', role: 'field_rep', sub: 'mock-user-1' }
+for (let i = 0; i < args.length; i++) {
+  const key = args[i].replace(/^--/, '')
+  if (!(key in options) || args[i + 1] === undefined) {
+    console.error(`Unknown argument: ${args[i]}`)
+    process.exit(2)
+  }
+  options[key] = args[++i]
+}
+
+const issuer = `http://localhost:${options.port}`
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const kid = randomBytes(8).toString('hex')
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }
+
+/** Issued codes, each good for one token request */
+const codes = new Map()
+
+const b64url = value => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+function idToken(clientId, nonce) {
+  const now = Math.floor(Date.now() / 1000)
+  const header = b64url({ alg: 'RS256', typ: 'JWT', kid })
+  const claims = b64url({
+    iss: issuer,
+    sub: options.sub,
+    aud: clientId,
+    iat: now,
+    exp: now + 300,
+    nonce,
+    email: options.email,
+    name: options.name,
+    role: options.role,
+  })
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), privateKey).toString('base64url')
+  return `${header}.${claims}.${signature}`
+}
+
+function json(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readForm(req) {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return new URLSearchParams(body)
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, issuer)
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return json(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+    })
+  }
+
+  if (url.pathname === '/jwks') return json(res, 200, { keys: [jwk] })
+
+  if (url.pathname === '/authorize') {
+    const p = url.searchParams
+    const redirectUri = p.get('redirect_uri')
+    if (!redirectUri || !p.get('client_id')) return json(res, 400, { error: 'invalid_request' })
+    const code = randomBytes(16).toString('base64url')
+    codes.set(code, {
+      client_id: p.get('client_id'),
+      redirect_uri: redirectUri,
+      nonce: p.get('nonce'),
+      code_challenge: p.get('code_challenge'),
+    })
+    const back = new URL(redirectUri)
+    back.searchParams.set('code', code)
+    if (p.get('state')) back.searchParams.set('state', p.get('state'))
+    console.log(`authorize: signing in ${options.email} for ${p.get('client_id')}`)
+    res.writeHead(302, { Location: back.toString() })
+    return res.end()
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readForm(req)
+    const grant = codes.get(form.get('code'))
+    codes.delete(form.get('code'))
+    if (!grant || grant.redirect_uri !== form.get('redirect_uri') || grant.client_id !== form.get('client_id')) {
+      return json(res, 400, { error: 'invalid_grant' })
+    }
+    const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url')
+    if (grant.code_challenge && challenge !== grant.code_challenge) {
+      return json(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+    }
+    return json(res, 200, {
+      access_token: randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken(grant.client_id, grant.nonce),
+    })
+  }
+
+  json(res, 404, { error: 'not_found' })
+})
+
+server.listen(Number(options.port), () => {
+  console.log(`Mock OIDC IdP at ${issuer} signing in ${options.email} (${options.role})`)
+})
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * Copies a recorded agent task (DATA_DIR/recordings/<id>.json, written with
+ * LYZR_RECORD=1) into fixtures/agent-recordings/ so it is checked in and
+ * replayed with LYZR_BACKEND=replay. The user and session ids are dropped;
+ * the request message and raw response are kept verbatim.
+ *
+ * Usage:
+ *   node scripts/promote-recording.mjs <recording_id> [fixture-name]
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs'
+import { join, dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const dataDir = resolve(process.env.DATA_DIR || join(root, '.data'))
+const fixtureDir = join(root, 'fixtures', 'agent-recordings')
+
+const [recordingId, name] = process.argv.slice(2)
+if (!recordingId) {
+  console.error('Usage: node scripts/promote-recording.mjs <recording_id> [fixture-name]')
+  process.exit(1)
+}
+
+const source = join(dataDir, 'recordings', `${recordingId}.json`)
+if (!existsSync(source)) {
+  console.error(`No recording at ${source}`)
+  process.exit(1)
+}
+
+const recording = JSON.parse(readFileSync(source, 'utf8'))
+const { user_id: _user, session_id: _session, ...request } = recording.request
+const fixtureName = (name || recordingId).replace(/[^\w-]+/g, '-')
+const target = join(fixtureDir, `${fixtureName}.json`)
+if (existsSync(target)) {
+  console.error(`${target} already exists`)
+  process.exit(1)
+}
+
+mkdirSync(fixtureDir, { recursive: true })
+writeFileSync(target, JSON.stringify({ ...recording, recording_id: fixtureName, request }, null, 2) + '\n')
+console.log(`Wrote ${target}`)
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Runs the golden-question suite (eval/golden-questions.json) through a
+ * running app's POST /api/eval and prints the scored report with the diff
+ * against the previous run.
+ *
+ * Usage:
+ *   node scripts/run-eval.mjs [--emulator | --replay] [--case <id>]... [--url <base>]
+ *
+ *   --emulator   answer from the in-process emulator instead of the configured backend
+ *   --replay     answer from recorded responses and fixtures (lib/agentRecorder)
+ *   --case <id>  run only this case (repeatable)
+ *   --url <base> app URL (default: $EVAL_BASE_URL or http://localhost:3333)
+ *
+ * Signs in as $EVAL_EMAIL / $EVAL_PASSWORD (default $AUTH_ADMIN_EMAIL /
+ * $AUTH_ADMIN_PASSWORD), a user who may run evals.
+ *
+ * Exits 1 when a case regressed against the previous run, 2 when the run
+ * itself failed.
+ */
+
+const args = process.argv.slice(2)
+const caseIds = []
+let baseUrl = process.env.EVAL_BASE_URL || 'http://localhost:3333'
+let backend
+
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--emulator') backend = 'emulator'
+  else if (args[i] === '--replay') backend = 'replay'
+  else if (args[i] === '--case') caseIds.push(args[++i])
+  else if (args[i] === '--url') baseUrl = args[++i]
+  else {
+    console.error(`Unknown argument: ${args[i]}`)
+    process.exit(2)
+  }
+}
+
+const pct = value => `${Math.round(value * 100)}%`
+const signed = value => (value > 0 ? `+${pct(value)}` : value < 0 ? `-${pct(-value)}` : '±0%')
+
+baseUrl = baseUrl.replace(/\/$/, '')
+const email = process.env.EVAL_EMAIL || process.env.AUTH_ADMIN_EMAIL
+const password = process.env.EVAL_PASSWORD || process.env.AUTH_ADMIN_PASSWORD
+if (!email || !password) {
+  console.error('Set EVAL_EMAIL and EVAL_PASSWORD (or AUTH_ADMIN_EMAIL and AUTH_ADMIN_PASSWORD) to sign in')
+  process.exit(2)
+}
+
+const login = await fetch(`${baseUrl}/api/auth/login`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ email, password }),
+}).catch(error => {
+  console.error(`Could not reach ${baseUrl}: ${error.message}`)
+  process.exit(2)
+})
+const session = (login.headers.get('set-cookie') || '').match(/medrep_session=[^;]+/)?.[0]
+if (!login.ok || !session) {
+  const data = await login.json().catch(() => ({}))
+  console.error(`Sign-in failed: ${data.error || login.status}`)
+  process.exit(2)
+}
+
+const res = await fetch(`${baseUrl}/api/eval`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', cookie: session },
+  body: JSON.stringify({ backend, case_ids: caseIds.length ? caseIds : undefined }),
+}).catch(error => {
+  console.error(`Could not reach ${baseUrl}: ${error.message}`)
+  process.exit(2)
+})
+const data = await res.json().catch(() => ({}))
+if (!data.success) {
+  console.error(`Eval run failed: ${data.error || res.status}${data.details ? ` (${data.details})` : ''}`)
+  process.exit(2)
+}
+
+const { run } = data
+const changes = new Map((run.diff?.cases || []).map(c => [c.case_id, c]))
+
+console.log(`Run ${run.run_id} — suite ${run.suite}, agent ${run.agent_id}, backend ${run.backend}\n`)
+for (const r of run.results) {
+  const change = changes.get(r.case_id)
+  const tag = change && change.change !== 'unchanged' ? ` [${change.change} ${signed(change.score_delta)}]` : ''
+  console.log(`${r.passed ? 'PASS' : 'FAIL'}  ${r.case_id}  score ${pct(r.score)}${tag}`)
+  if (r.error) console.log(`      error: ${r.error}`)
+  if (r.facts.missing.length) console.log(`      missing facts: ${r.facts.missing.join('; ')}`)
+  if (!r.domains.correct) console.log(`      domains: expected [${r.domains.expected.join(', ')}], got [${r.domains.actual.join(', ')}]`)
+  if (!r.compliance.correct) console.log(`      compliance: expected ${r.compliance.expected}, got ${r.compliance.actual}`)
+}
+
+const s = run.summary
+const d = run.diff?.summary
+const withDelta = (label, key) => `${label} ${pct(s[key])}${d ? ` (${signed(d[key])})` : ''}`
+console.log(`\n${s.passed}/${s.cases} passed`)
+console.log([
+  withDelta('score', 'score'),
+  withDelta('fact recall', 'fact_recall'),
+  withDelta('domains', 'domain_accuracy'),
+  withDelta('compliance', 'compliance_accuracy'),
+].join(' · '))
+
+const regressed = (run.diff?.cases || []).filter(c => c.change === 'regressed')
+if (run.diff) console.log(`Compared with ${run.diff.previous_run_id}: ${regressed.length} regressed`)
+process.exit(regressed.length > 0 ? 1 : 0)
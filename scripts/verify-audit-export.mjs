@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Checks an audit CSV export (GET /api/audit?format=csv) without the server.
+ * Every record in the Records column must hash to the seq:hash listed beside
+ * it, records with consecutive seqs must link through prev_hash, and a record
+ * at the exported chain head must carry the head's hash. Records the filters
+ * left out of the extract are gaps, not failures; to prove nothing was cut
+ * from the end of the log, check the head against the server later
+ * (GET /api/audit/verify?seq=&hash=).
+ *
+ * Usage:
+ *   node scripts/verify-audit-export.mjs <audit_log.csv>
+ */
+
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+const [file] = process.argv.slice(2)
+if (!file) {
+  console.error('Usage: node scripts/verify-audit-export.mjs <audit_log.csv>')
+  process.exit(1)
+}
+
+/** RFC 4180 rows: quoted cells may hold commas, newlines and "" escapes */
+function parseCsv(text) {
+  const rows = []
+  let row = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        cell += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (c === '\n') {
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    } else if (c !== '\r') {
+      cell += c
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell])
+  return rows
+}
+
+const text = readFileSync(file, 'utf8')
+const [chainLine, ...rest] = text.split('\n')
+const headMatch = chainLine.match(/^# Audit chain head: seq (\d+) sha256 ([0-9a-f]{64})/)
+const head = headMatch ? { seq: Number(headMatch[1]), hash: headMatch[2] } : null
+
+const [header, ...rows] = parseCsv(rest.join('\n'))
+const hashesCol = header.indexOf('Record Hashes')
+const recordsCol = header.indexOf('Records')
+if (hashesCol < 0 || recordsCol < 0) {
+  console.error('Not an audit export with records: the Record Hashes and Records columns are missing')
+  process.exit(1)
+}
+
+const failures = []
+const bySeq = new Map()
+rows.forEach((row, i) => {
+  const listed = row[hashesCol].split(' ').filter(Boolean)
+  const contents = row[recordsCol].split('\n').filter(Boolean)
+  if (listed.length !== contents.length) {
+    failures.push(`Row ${i + 1}: ${listed.length} hashes but ${contents.length} records`)
+    return
+  }
+  listed.forEach((pair, j) => {
+    const [seq, hash] = pair.split(':')
+    const computed = createHash('sha256').update(contents[j]).digest('hex')
+    const record = JSON.parse(contents[j])
+    if (computed !== hash) failures.push(`Record ${seq}: content hashes to ${computed}, listed as ${hash}`)
+    else if (String(record.seq) !== seq) failures.push(`Record ${seq}: content is record ${record.seq}`)
+    else bySeq.set(record.seq, { ...record, hash })
+  })
+})
+
+const seqs = Array.from(bySeq.keys()).sort((a, b) => a - b)
+for (const seq of seqs) {
+  const prev = bySeq.get(seq - 1)
+  if (prev && bySeq.get(seq).prev_hash !== prev.hash) {
+    failures.push(`Record ${seq}: prev_hash does not match record ${seq - 1}`)
+  }
+}
+if (head && bySeq.has(head.seq) && bySeq.get(head.seq).hash !== head.hash) {
+  failures.push(`Record ${head.seq}: hash does not match the exported chain head`)
+}
+
+if (failures.length > 0) {
+  for (const failure of failures) console.error(failure)
+  process.exit(1)
+}
+console.log(`${bySeq.size} records in ${rows.length} entries verified${head ? `; chain head seq ${head.seq} sha256 ${head.hash}` : ''}`)
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { GET, POST } from '@/app/api/adverse-events/route'
+import { adverseEventFlag, detectAdverseEvent, fileAdverseEventReport, loadAdverseEventRules } from '@/lib/adverseEvents'
+import { pollAgentTask, submitAgentTask } from '@/lib/agentTasks'
+import type { AuthUser } from '@/lib/auth'
+import { queryAuditLog } from '@/lib/auditStore'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { apiRequest, MANAGER_AGENT_ID, signIn, sleep, type TestSession } from './helpers'
+
+const AE_QUERY = 'My patient broke out in a rash after the first dose. Is that in the label?'
+
+const report = (fields: Record<string, unknown> = {}) => ({
+  product: 'Cardiozen',
+  event: 'Rash after the first dose',
+  event_date: '2026-01-15',
+  reporter_type: 'hcp',
+  ...fields,
+})
+
+const file = (session: TestSession, body: unknown) =>
+  POST(apiRequest('/api/adverse-events', { method: 'POST', body, session }))
+
+/** Ask the manager agent a question as the user and wait for the answer */
+async function ask(message: string, queryId: string, user: AuthUser) {
+  const backend = getLyzrBackend()
+  const submitted = await submitAgentTask(
+    { message, agent_id: MANAGER_AGENT_ID, session_id: 'ae-session', audit: { query_id: queryId, query: message } },
+    backend,
+    user
+  )
+  for (let i = 0; i < 40; i++) {
+    const polled = await pollAgentTask(submitted.body.task_id, backend, user)
+    if (polled.body.status !== 'processing') return polled.body
+    await sleep(25)
+  }
+  throw new Error('task never finished')
+}
+
+describe('detectAdverseEvent', () => {
+  it('fires when one paragraph names a product, a symptom and a patient', async () => {
+    const rules = await loadAdverseEventRules()
+    const signal = detectAdverseEvent(AE_QUERY, 'query', rules)
+    expect(signal).toMatchObject({ source: 'query', products: ['dose'], symptoms: ['rash'], patient_context: ['My patient'] })
+    expect(adverseEventFlag(signal!)).toBe('AE_DETECTED: Possible adverse event in query (dose + rash + My patient)')
+  })
+
+  it('counts a masked patient name as a patient', async () => {
+    const rules = await loadAdverseEventRules()
+    const signal = detectAdverseEvent('[PATIENT_NAME_1] reported dizziness on the new medication', 'answer', rules)
+    expect(signal!.patient_context).toEqual(['[PATIENT_NAME_1]'])
+  })
+
+  it('ignores terms spread over separate paragraphs', async () => {
+    const rules = await loadAdverseEventRules()
+    expect(detectAdverseEvent('My patient asked about pricing.\n\nThe medication label lists rash.', 'query', rules)).toBeNull()
+    expect(detectAdverseEvent('What were Q2 sales of the medication?', 'query', rules)).toBeNull()
+  })
+})
+
+describe('/api/adverse-events', () => {
+  it('ties a report to the query it came up in and starts the window at detection', async () => {
+    const rep = await signIn('field_rep', 'Rita Rep')
+    const answer = await ask(AE_QUERY, 'ae-query-1', rep.user)
+    const [signal] = answer.adverse_events
+    expect(signal.source).toBe('query')
+
+    const response = await file(rep, report({ query_id: 'ae-query-1', session_id: 'ae-session', source: 'query' }))
+    expect(response.status).toBe(200)
+    const { report: filed } = await response.json()
+    expect(filed).toMatchObject({ query_id: 'ae-query-1', detected_at: signal.detected_at, late: false, user_name: 'Rita Rep' })
+    expect(new Date(filed.due_by).getTime() - new Date(signal.detected_at).getTime()).toBe(24 * 60 * 60 * 1000)
+
+    const [entry] = (await queryAuditLog({ q: AE_QUERY })).entries
+    expect(entry.flags).toContain(adverseEventFlag(signal))
+    expect(entry.ae_reports).toEqual([{ id: filed.id, created_at: filed.created_at, user_name: 'Rita Rep', late: false }])
+  })
+
+  it('keeps reports on a query to its user and to readers of AE reports', async () => {
+    const rep = await signIn('field_rep')
+    await ask(AE_QUERY, 'ae-query-2', rep.user)
+
+    const otherRep = await file(await signIn('field_rep'), report({ query_id: 'ae-query-2' }))
+    expect(otherRep.status).toBe(403)
+    expect((await otherRep.json()).error).toBe('You can only report adverse events from your own queries')
+    expect((await file(await signIn('compliance_officer'), report({ query_id: 'ae-query-2' }))).status).toBe(200)
+
+    const unknown = await file(rep, report({ query_id: 'ae-query-missing' }))
+    expect(unknown.status).toBe(404)
+    expect((await unknown.json()).error).toBe('No audit entry for query ae-query-missing')
+  })
+
+  it('rejects incomplete reports', async () => {
+    const rep = await signIn('field_rep')
+    const cases: [Record<string, unknown>, string][] = [
+      [{ product: ' ' }, 'The product is required'],
+      [{ event: '' }, 'The event is required'],
+      [{ event_date: '15/01/2026' }, 'The event date must be a YYYY-MM-DD date'],
+      [{ event_date: '2999-01-01' }, 'The event date is in the future'],
+      [{ reporter_type: 'pharmacist' }, 'The reporter type must be one of hcp, patient, caregiver, field_rep, other'],
+    ]
+    for (const [fields, error] of cases) {
+      const response = await file(rep, report(fields))
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe(error)
+    }
+  })
+
+  it('marks reports filed after the window as late and lists them newest first', async () => {
+    const officer = await signIn('compliance_officer')
+    const late = await fileAdverseEventReport(report(), officer.user, new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString())
+    expect(late.late).toBe(true)
+    // A detection time in the future cannot push the deadline out
+    const onTime = await fileAdverseEventReport(report(), officer.user, '2999-01-01T00:00:00.000Z')
+    expect(new Date(onTime.detected_at).getTime()).toBeLessThanOrEqual(Date.now())
+
+    const { reports } = await (await GET(apiRequest('/api/adverse-events', { session: officer }))).json()
+    expect(reports.slice(0, 2).map((r: any) => r.id)).toEqual([onTime.id, late.id])
+  })
+})
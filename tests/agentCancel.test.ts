@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GET, POST } from '@/app/api/agent/route'
+import { callAIAgent } from '@/lib/aiAgent'
+import { readAuditRecords } from '@/lib/auditStore'
+import { getRegisteredTask } from '@/lib/taskRegistry'
+import { apiRequest, MANAGER_AGENT_ID, signIn, type TestSession } from './helpers'
+
+async function submit(session: TestSession, sessionId: string): Promise<string> {
+  const response = await POST(apiRequest('/api/agent', {
+    method: 'POST',
+    session,
+    body: { message: 'Which HCPs are assigned to me?', agent_id: MANAGER_AGENT_ID, session_id: sessionId },
+  }))
+  return (await response.json()).task_id
+}
+
+function cancel(session: TestSession, body: Record<string, unknown>) {
+  return POST(apiRequest('/api/agent', { method: 'POST', session, body: { action: 'cancel', ...body } }))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('cancelling agent tasks', () => {
+  it('cancels only the signed-in user\'s tasks and audits the cancellation', async () => {
+    const rep = await signIn('field_rep')
+    const admin = await signIn('admin')
+    const taskId = await submit(rep, 'cancel-s1')
+
+    expect(await (await cancel(admin, { session_id: 'cancel-s1' })).json()).toMatchObject({ success: true, cancelled: [] })
+    const adminList = await (await GET(apiRequest('/api/agent?session_id=cancel-s1', { session: admin }))).json()
+    expect(adminList.tasks).toEqual([])
+
+    const repList = await (await GET(apiRequest('/api/agent?session_id=cancel-s1', { session: rep }))).json()
+    expect(repList.tasks).toEqual([expect.objectContaining({ task_id: taskId, status: 'processing' })])
+    expect(repList.tasks[0].message).toBeUndefined()
+
+    expect(await (await cancel(rep, { session_id: 'cancel-s1', task_id: taskId })).json()).toMatchObject({ cancelled: [taskId] })
+    const polled = await (await POST(apiRequest('/api/agent', { method: 'POST', session: rep, body: { task_id: taskId } }))).json()
+    expect(polled.status).toBe('cancelled')
+
+    const records = await readAuditRecords()
+    expect(records.find(r => r.task_id === taskId)).toMatchObject({ status: 'cancelled', user_id: rep.user.id })
+  })
+
+  it('requires a session id', async () => {
+    const rep = await signIn('field_rep')
+    expect((await cancel(rep, {})).status).toBe(400)
+  })
+
+  it('cancels a task whose submit was still in flight when the caller aborted', async () => {
+    const rep = await signIn('field_rep')
+    const controller = new AbortController()
+    let submittedTaskId = ''
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body))
+      const response = await POST(apiRequest(url, { method: 'POST', session: rep, body }))
+      if (body.message) {
+        submittedTaskId = (await response.clone().json()).task_id
+        controller.abort()
+      }
+      return response
+    })
+
+    const result = await callAIAgent('Which HCPs are assigned to me?', MANAGER_AGENT_ID, {
+      session_id: 'cancel-s2',
+      signal: controller.signal,
+    })
+    expect(result.status).toBe('cancelled')
+    expect(getRegisteredTask(submittedTaskId)?.status).toBe('cancelled')
+  })
+})
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { GET } from '@/app/api/recordings/route'
+import { getRecording, listRecordings, recordingMatchKey } from '@/lib/agentRecorder'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { resetEmulator } from '@/lib/lyzrEmulator'
+import { apiRequest, MANAGER_AGENT_ID, signIn, sleep } from './helpers'
+
+const MESSAGE = 'Summarize Q2 sales for the Northeast territory'
+
+async function runTask(backendName: 'emulator' | 'replay', message: string) {
+  const backend = getLyzrBackend(backendName)
+  const submitted = await backend.fetch(backend.taskUrl, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ message, agent_id: MANAGER_AGENT_ID, user_id: 'rep@example.com', session_id: 's-1' }),
+  })
+  if (!submitted.ok) return { submitted, body: null }
+  const { task_id } = await submitted.json()
+  for (let i = 0; i < 20; i++) {
+    const poll = await backend.fetch(`${backend.taskUrl}/${task_id}`)
+    const body = await poll.text()
+    if (JSON.parse(body).status !== 'processing') return { submitted, body }
+    await sleep(20)
+  }
+  throw new Error('task never finished')
+}
+
+beforeEach(() => resetEmulator())
+afterEach(() => {
+  delete process.env.LYZR_RECORD
+})
+
+describe('recording', () => {
+  it('stores nothing unless LYZR_RECORD is set', async () => {
+    const before = (await listRecordings()).filter(r => r.source === 'recording').length
+    await runTask('emulator', 'Unrecorded question')
+    expect((await listRecordings()).filter(r => r.source === 'recording')).toHaveLength(before)
+  })
+
+  it('stores the final poll verbatim with the request that started it', async () => {
+    process.env.LYZR_RECORD = '1'
+    const { body } = await runTask('emulator', MESSAGE)
+
+    const summary = (await listRecordings()).find(r => r.match_key === recordingMatchKey(MANAGER_AGENT_ID, MESSAGE))
+    expect(summary).toMatchObject({
+      source: 'recording',
+      backend: 'emulator',
+      status: 200,
+      request: { agent_id: MANAGER_AGENT_ID, message: MESSAGE, user_id: 'rep@example.com', session_id: 's-1' },
+    })
+    expect(summary).not.toHaveProperty('raw_response')
+
+    const recording = await getRecording(summary!.recording_id)
+    expect(recording!.raw_response).toBe(body)
+  })
+
+  it('lists checked-in fixtures after recordings', async () => {
+    const recordings = await listRecordings()
+    expect(recordings[recordings.length - 1].source).toBe('fixture')
+    expect(await getRecording('../escape')).toBeNull()
+  })
+})
+
+describe('replay', () => {
+  it('answers a recorded request with the recorded response', async () => {
+    process.env.LYZR_RECORD = '1'
+    const recorded = await runTask('emulator', MESSAGE)
+    delete process.env.LYZR_RECORD
+
+    // Matching ignores surrounding whitespace
+    const replayed = await runTask('replay', `  ${MESSAGE}\n`)
+    expect(replayed.body).toBe(recorded.body)
+  })
+
+  it('fails with 404 when nothing was recorded for the request', async () => {
+    const { submitted } = await runTask('replay', 'A question nobody recorded')
+    expect(submitted.status).toBe(404)
+  })
+})
+
+describe('/api/recordings', () => {
+  it('is limited to admins', async () => {
+    const rep = await signIn('field_rep')
+    expect((await GET(apiRequest('/api/recordings', { session: rep }))).status).toBe(403)
+    expect((await GET(apiRequest('/api/recordings'))).status).toBe(401)
+
+    const admin = await signIn('admin')
+    const response = await GET(apiRequest('/api/recordings', { session: admin }))
+    expect(response.status).toBe(200)
+    const data = await response.json()
+    expect(data.recording_enabled).toBe(false)
+    expect(Array.isArray(data.recordings)).toBe(true)
+  })
+
+  it('returns one recording by id, or 404', async () => {
+    const admin = await signIn('admin')
+    const [fixture] = (await listRecordings()).filter(r => r.source === 'fixture')
+    const found = await (await GET(apiRequest(`/api/recordings?id=${fixture.recording_id}`, { session: admin }))).json()
+    expect(typeof found.recording.raw_response).toBe('string')
+    expect((await GET(apiRequest('/api/recordings?id=missing', { session: admin }))).status).toBe(404)
+  })
+})
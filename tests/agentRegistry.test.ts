@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { GET } from '@/app/api/registry/route'
+import { agentRole, buildAgentRegistry, RegistryConfigError } from '@/lib/agentRegistry'
+import bundledState from '@/workflow_state.json'
+import bundledWorkflow from '@/workflow.json'
+import { apiRequest, signIn } from './helpers'
+
+describe('buildAgentRegistry', () => {
+  it('lists the configured agents, knowledge bases and graph', () => {
+    const registry = buildAgentRegistry(bundledState, bundledWorkflow)
+    expect(registry.agents.map(a => [a.key, agentRole(a)])).toEqual([
+      ['query_orchestrator_manager', 'manager'],
+      ['sales_territory_agent', 'retrieval'],
+      ['hcp_doctor_profile_agent', 'retrieval'],
+      ['compliance_guard_agent', 'compliance'],
+    ])
+    const salesKb = registry.knowledge_bases.find(kb => kb.rag_id === '69a00d98f572c99c0ffb7691')
+    expect(salesKb?.agent_key).toBe('sales_territory_agent')
+    expect(registry.workflow.nodes).toHaveLength(6)
+    expect(registry.workflow_version).toBe(0)
+  })
+
+  it.each([
+    ['an agent without an id', { agents: { a: { type: 'manager' } } }, {}, 'agent "a" has no agent_id'],
+    ['no manager', { agents: { a: { agent_id: '1' } } }, {}, 'exactly one manager agent'],
+    [
+      'an unknown knowledge base',
+      { agents: { m: { agent_id: '1', type: 'manager' }, s: { agent_id: '2', rag_id: 'missing' } } },
+      {},
+      'uses rag_id missing, which is not a listed knowledge base',
+    ],
+    [
+      'a node for an unknown agent',
+      { agents: { m: { agent_id: '1', type: 'manager' } } },
+      { nodes: [{ id: 'n', type: 'Agent', label: 'N', nodeCategory: 'agent', agent: 'ghost' }], edges: [] },
+      'node "n" refers to unknown agent "ghost"',
+    ],
+  ])('rejects %s', (_, state, workflow, message) => {
+    expect(() => buildAgentRegistry(state, workflow)).toThrow(RegistryConfigError)
+    expect(() => buildAgentRegistry(state, workflow)).toThrow(message)
+  })
+})
+
+describe('GET /api/registry', () => {
+  it('serves the registry to signed-in users only', async () => {
+    expect((await GET(apiRequest('/api/registry'))).status).toBe(401)
+    const rep = await signIn('field_rep')
+    const body = await (await GET(apiRequest('/api/registry', { session: rep }))).json()
+    expect(body.success).toBe(true)
+    expect(body.agents.find((a: any) => a.type === 'manager').agent_id).toBe('69a00df43dc260b752bd74d9')
+  })
+})
@@ -0,0 +1,51 @@
+import { execFileSync } from 'child_process'
+import { describe, expect, it } from 'vitest'
+import { formatValidationErrors, getAgentSchemaKey, validateAgentResponse } from '@/lib/agentSchemas'
+
+const MANAGER_AGENT_ID = '69a00df43dc260b752bd74d9'
+const COMPLIANCE_AGENT_ID = '69a00ddcfddac4fa01fac4e7'
+
+describe('validateAgentResponse', () => {
+  it('returns typed data, with enums matched case-insensitively and omitted arrays as []', () => {
+    const validation = validateAgentResponse(MANAGER_AGENT_ID, {
+      answer: 'Q2 revenue was $2.4M.',
+      compliance_status: ' Compliant ',
+      confidence: 'HIGH',
+    })
+    expect(validation).toMatchObject({
+      schema: 'query_orchestrator_manager',
+      valid: true,
+      errors: [],
+      data: { compliance_status: 'compliant', confidence: 'high', sources_consulted: [], domains_accessed: [], flags: [] },
+    })
+  })
+
+  it('reports each invalid field and never defaults the compliance status', () => {
+    const validation = validateAgentResponse(COMPLIANCE_AGENT_ID, { compliance_status: 'approved', reviewed_content: 42, review_notes: '' })
+    expect(validation?.valid).toBe(false)
+    expect(validation?.data).toBeNull()
+    expect(validation?.errors.map(e => e.path)).toEqual(['compliance_status', 'reviewed_content', 'domain'])
+  })
+
+  it('rejects payloads that are not objects and skips agents without a schema', () => {
+    expect(validateAgentResponse(MANAGER_AGENT_ID, ['a'])?.errors).toEqual([
+      { path: '', message: 'Expected a JSON object from Query Orchestrator Manager, got array' },
+    ])
+    expect(validateAgentResponse('unknown-agent', {})).toBeUndefined()
+    expect(getAgentSchemaKey(COMPLIANCE_AGENT_ID)).toBe('compliance_guard_agent')
+  })
+})
+
+describe('formatValidationErrors', () => {
+  it('joins errors with their paths', () => {
+    expect(formatValidationErrors([{ path: 'answer', message: 'Required' }, { path: '', message: 'Bad payload' }])).toBe(
+      'answer: Required; Bad payload'
+    )
+  })
+})
+
+describe('generated schemas', () => {
+  it('match response_schemas/', () => {
+    expect(() => execFileSync('node', ['scripts/generate-agent-schemas.mjs', '--check'], { stdio: 'pipe' })).not.toThrow()
+  })
+})
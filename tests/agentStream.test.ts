@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/agent/route'
+import { GET as stream } from '@/app/api/agent/stream/route'
+import { apiRequest, MANAGER_AGENT_ID, signIn } from './helpers'
+
+/** The events of a finished stream, in order */
+async function readEvents(response: Response): Promise<{ type: string; data: any }[]> {
+  const text = await response.text()
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const [eventLine, dataLine] = block.split('\n')
+    return { type: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) }
+  })
+}
+
+describe('GET /api/agent/stream', () => {
+  it('pushes status, sub-agent progress and the result for the submitting user', async () => {
+    const rep = await signIn('field_rep')
+    const submitted = await POST(apiRequest('/api/agent', {
+      method: 'POST',
+      session: rep,
+      body: { message: 'What was my Q2 sales performance in the Northeast territory?', agent_id: MANAGER_AGENT_ID, session_id: 'stream-s1' },
+    }))
+    const { task_id } = await submitted.json()
+
+    const response = await stream(apiRequest(`/api/agent/stream?task_id=${task_id}`, { session: rep }))
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    const events = await readEvents(response)
+
+    expect(events[0]).toEqual({ type: 'status', data: { status: 'processing' } })
+    expect(events.some(e => e.type === 'progress' && e.data.progress.length > 0)).toBe(true)
+    expect(events.slice(-2).map(e => e.type)).toEqual(['status', 'result'])
+    expect(events[events.length - 2].data.status).toBe('completed')
+    expect(events[events.length - 1].data.result).toMatchObject({ success: true, status: 'completed' })
+  })
+
+  it('refuses anyone but the submitting user', async () => {
+    const rep = await signIn('field_rep')
+    const admin = await signIn('admin')
+    const submitted = await POST(apiRequest('/api/agent', {
+      method: 'POST',
+      session: rep,
+      body: { message: 'Which HCPs are assigned to me?', agent_id: MANAGER_AGENT_ID, session_id: 'stream-s2' },
+    }))
+    const { task_id } = await submitted.json()
+
+    expect((await stream(apiRequest(`/api/agent/stream?task_id=${task_id}`))).status).toBe(401)
+    expect((await stream(apiRequest(`/api/agent/stream?task_id=${task_id}`, { session: admin }))).status).toBe(404)
+    expect((await stream(apiRequest('/api/agent/stream', { session: rep }))).status).toBe(400)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { buildAgentTrace, pickTraceOutput } from '@/lib/agentTrace'
+
+describe('pickTraceOutput', () => {
+  it('keeps the known structured fields', () => {
+    expect(pickTraceOutput('{"answer":"Q2 was strong","data_points":["$2.4M"],"internal":"x","flags":null}')).toEqual({
+      answer: 'Q2 was strong',
+      data_points: ['$2.4M'],
+    })
+  })
+
+  it('treats plain text as the answer', () => {
+    expect(pickTraceOutput('Just text')).toEqual({ answer: 'Just text' })
+    expect(pickTraceOutput('')).toBeUndefined()
+    expect(pickTraceOutput({ unrelated: true })).toBeUndefined()
+  })
+})
+
+describe('buildAgentTrace', () => {
+  const base = {
+    task_id: 'task-1',
+    agent_id: 'manager',
+    agent_name: 'Manager',
+    submitted_at: '2026-01-01T00:00:00.000Z',
+    completed_at: '2026-01-01T00:00:05.000Z',
+    manager_output: { answer: 'Combined answer', confidence: 'high' },
+  }
+
+  it('puts the manager first and one step per sub-agent output', () => {
+    const trace = buildAgentTrace({
+      ...base,
+      module_outputs: {
+        sub_agent_outputs: [
+          {
+            agent_id: 'sales',
+            agent_name: 'Sales Data Agent',
+            started_at: '2026-01-01T00:00:01.000Z',
+            completed_at: '2026-01-01T00:00:03.500Z',
+            response: JSON.stringify({ data_points: ['$2.4M'], confidence: 'medium' }),
+          },
+          { agent_id: 'hcp', status: 'failed', response: 'Upstream error' },
+        ],
+      },
+    })
+
+    expect(trace).toMatchObject({ task_id: 'task-1', duration_ms: 5000 })
+    expect(trace.steps.map(s => [s.agent_id, s.role, s.status])).toEqual([
+      ['manager', 'manager', 'completed'],
+      ['sales', 'sub-agent', 'completed'],
+      ['hcp', 'sub-agent', 'failed'],
+    ])
+    expect(trace.steps[0]).toMatchObject({ confidence: 'high', output: { answer: 'Combined answer' } })
+    expect(trace.steps[1]).toMatchObject({ duration_ms: 2500, confidence: 'medium', output: { data_points: ['$2.4M'] } })
+    expect(trace.steps[2].output).toEqual({ answer: 'Upstream error' })
+  })
+
+  it('accepts outputs keyed by agent id and fills timings from the polled timeline', () => {
+    const trace = buildAgentTrace({
+      ...base,
+      module_outputs: { agent_outputs: { sales: { response: '{"answer":"Sales"}' } } },
+      timeline: {
+        sales: { agent_name: 'Sales Data Agent', status: 'completed', started_at: '2026-01-01T00:00:01.000Z', completed_at: '2026-01-01T00:00:02.000Z' },
+        hcp: { agent_name: 'HCP Agent', status: 'running', started_at: '2026-01-01T00:00:01.000Z' },
+        manager: { status: 'completed' },
+      },
+    })
+
+    expect(trace.steps.map(s => s.agent_id)).toEqual(['manager', 'sales', 'hcp'])
+    expect(trace.steps[1]).toMatchObject({ agent_name: 'Sales Data Agent', duration_ms: 1000, output: { answer: 'Sales' } })
+    expect(trace.steps[2]).toMatchObject({ status: 'running', duration_ms: undefined })
+    expect(trace.steps[2].output).toBeUndefined()
+  })
+
+  it('marks a single agent without sub-agents as a sub-agent step', () => {
+    const trace = buildAgentTrace(base)
+    expect(trace.steps).toHaveLength(1)
+    expect(trace.steps[0].role).toBe('sub-agent')
+  })
+})
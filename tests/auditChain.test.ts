@@ -0,0 +1,149 @@
+import { execFileSync } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { GET as verifyRoute } from '@/app/api/audit/verify/route'
+import type { AuthUser } from '@/lib/auth'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { pollAgentTask, recordTaskAudit, submitAgentTask } from '@/lib/agentTasks'
+import { cancelTasks } from '@/lib/taskRegistry'
+import { exportAuditCsv, GENESIS_HASH, readAuditRecords, verifyAuditChain } from '@/lib/auditStore'
+import { dataPath } from '@/lib/dataStore'
+import { apiRequest, signIn } from './helpers'
+
+const MANAGER_AGENT_ID = '69a00df43dc260b752bd74d9'
+const AUDIT_LOG = dataPath('audit/audit-log.jsonl')
+
+function testUser(id: string, role: AuthUser['role']): AuthUser {
+  return { id, email: `${id}@example.com`, name: id, role, provider: 'local', created_at: new Date().toISOString() }
+}
+
+const rep = testUser('usr_rep', 'field_rep')
+const otherRep = testUser('usr_other', 'field_rep')
+
+async function waitForTask(taskId: string, user: AuthUser) {
+  const backend = getLyzrBackend()
+  for (let i = 0; i < 100; i++) {
+    const polled = await pollAgentTask(taskId, backend, user)
+    if (polled.body.status !== 'processing') return polled
+    await new Promise(r => setTimeout(r, 50))
+  }
+  throw new Error(`Task ${taskId} did not finish`)
+}
+
+/** Run scripts/verify-audit-export.mjs on an export; its exit status and output */
+async function verifyExport(csv: string) {
+  const file = dataPath('audit-export.csv')
+  await fs.writeFile(file, csv)
+  try {
+    const output = execFileSync('node', [path.join(process.cwd(), 'scripts/verify-audit-export.mjs'), file], { stdio: 'pipe' })
+    return { ok: true, output: output.toString() }
+  } catch (error: any) {
+    return { ok: false, output: error.stderr.toString() }
+  }
+}
+
+async function rewriteLog(edit: (lines: string[]) => string[]) {
+  const lines = (await fs.readFile(AUDIT_LOG, 'utf8')).split('\n').filter(Boolean)
+  await fs.writeFile(AUDIT_LOG, edit(lines).join('\n') + '\n')
+}
+
+describe('agent tasks on the emulator and the audit hash chain', () => {
+  it('runs a task, keeps PHI out of the audit and chains the records', async () => {
+    const backend = getLyzrBackend()
+    const submitted = await submitAgentTask(
+      { message: 'What was Q2 sales in the Northeast? Patient John Smith asked.', agent_id: MANAGER_AGENT_ID, session_id: 'audit-s1' },
+      backend,
+      rep
+    )
+    expect(submitted.status).toBe(200)
+    expect(submitted.body.redactions).toEqual([{ token: '[PATIENT_NAME_1]', category: 'patient_name' }])
+
+    // Only the user who submitted the task can read it
+    expect((await pollAgentTask(submitted.body.task_id, backend, otherRep)).status).toBe(404)
+    const completed = await waitForTask(submitted.body.task_id, rep)
+    expect(completed.body.status).toBe('completed')
+    // A rep gets no pre-review drafts
+    expect(completed.body.raw_response).toBeUndefined()
+    expect(completed.body.trace.steps.slice(1).every((s: any) => s.output === undefined)).toBe(true)
+
+    // A second task, cancelled before it finishes
+    const second = await submitAgentTask(
+      { message: 'Which HCPs are assigned to me?', agent_id: MANAGER_AGENT_ID, session_id: 'audit-s1' },
+      backend,
+      rep
+    )
+    expect(cancelTasks('audit-s1', otherRep.id)).toEqual([])
+    const [cancelled] = cancelTasks('audit-s1', rep.id, second.body.task_id)
+    await recordTaskAudit(cancelled, { status: 'cancelled', error: 'Cancelled by user before completion' })
+
+    const records = await readAuditRecords()
+    expect(records.map(r => r.status)).toEqual([expect.any(String), 'cancelled'])
+    expect(records[0].query).toContain('[PATIENT_NAME_1]')
+    expect(JSON.stringify(records)).not.toContain('John Smith')
+    expect(records[0].prev_hash).toBe(GENESIS_HASH)
+    expect(records[1].prev_hash).toBe(records[0].hash)
+
+    const verification = await verifyAuditChain({ seq: records[1].seq, hash: records[1].hash })
+    expect(verification).toMatchObject({ valid: true, checked: 2, total: 2, anchor: { found: true } })
+  })
+
+  it('reports the first edited record', async () => {
+    const original = await fs.readFile(AUDIT_LOG, 'utf8')
+    await rewriteLog(lines => lines.map((line, i) => (i === 0 ? JSON.stringify({ ...JSON.parse(line), status: 'compliant', flags: [] }) : line)))
+
+    const verification = await verifyAuditChain()
+    expect(verification.valid).toBe(false)
+    expect(verification.first_break).toMatchObject({ seq: 1, reason: 'hash_mismatch' })
+    await fs.writeFile(AUDIT_LOG, original)
+  })
+
+  it('reports a removed record and a head that is no longer in the log', async () => {
+    const original = await fs.readFile(AUDIT_LOG, 'utf8')
+    const [first] = await readAuditRecords()
+    await rewriteLog(lines => lines.slice(1))
+
+    const verification = await verifyAuditChain({ seq: first.seq, hash: first.hash })
+    expect(verification.valid).toBe(false)
+    expect(verification.first_break).toMatchObject({ seq: 2, reason: 'prev_hash_mismatch' })
+    expect(verification.anchor?.found).toBe(false)
+    await fs.writeFile(AUDIT_LOG, original)
+    expect((await verifyAuditChain()).valid).toBe(true)
+  })
+})
+
+describe('verifying an export offline', () => {
+  it('checks every exported record against its hash and the chain head', async () => {
+    const { csv, head } = await exportAuditCsv({})
+    const verified = await verifyExport(csv)
+    expect(verified.ok).toBe(true)
+    expect(verified.output).toContain(`2 records in 2 entries verified; chain head seq 2 sha256 ${head!.hash}`)
+  })
+
+  it('fails when an exported record was edited', async () => {
+    const { csv } = await exportAuditCsv({})
+    const verified = await verifyExport(csv.replace('""status"":""cancelled""', '""status"":""compliant""'))
+    expect(verified.ok).toBe(false)
+    expect(verified.output).toMatch(/^Record 2: content hashes to [0-9a-f]{64}/)
+  })
+
+  it('treats records left out by the filters as gaps', async () => {
+    const { csv } = await exportAuditCsv({ status: ['cancelled'] })
+    expect((await verifyExport(csv)).output).toContain('1 records in 1 entries verified')
+  })
+})
+
+describe('/api/audit/verify', () => {
+  it('needs audit.read and checks a head from an export', async () => {
+    const rep = await signIn('field_rep')
+    expect((await verifyRoute(apiRequest('/api/audit/verify', { session: rep }))).status).toBe(403)
+
+    const manager = await signIn('district_manager')
+    const [, second] = await readAuditRecords()
+    const found = await (await verifyRoute(apiRequest(`/api/audit/verify?seq=2&hash=${second.hash}`, { session: manager }))).json()
+    expect(found).toMatchObject({ success: true, valid: true, anchor: { seq: 2, found: true } })
+    const unknown = await (await verifyRoute(apiRequest(`/api/audit/verify?seq=2&hash=${GENESIS_HASH}`, { session: manager }))).json()
+    expect(unknown).toMatchObject({ valid: false, anchor: { found: false } })
+    expect((await verifyRoute(apiRequest('/api/audit/verify?seq=2', { session: manager }))).status).toBe(400)
+  })
+})
@@ -0,0 +1,168 @@
+import { promises as fs } from 'fs'
+import { describe, expect, it } from 'vitest'
+import { GET } from '@/app/api/audit/route'
+import { auditTask, exportAuditCsv, queryAuditLog, readAuditRecords, verifyAuditChain } from '@/lib/auditStore'
+import { dataPath } from '@/lib/dataStore'
+import type { RegisteredTask } from '@/lib/taskRegistry'
+import { apiRequest, MANAGER_AGENT_ID, signIn } from './helpers'
+
+const SALES_AGENT_ID = '69a00dc76fed800e9b9b52a9'
+const COMPLIANCE_AGENT_ID = '69a00ddcfddac4fa01fac4e7'
+
+let taskCount = 0
+
+function task(fields: Partial<RegisteredTask> = {}): RegisteredTask {
+  taskCount++
+  return {
+    task_id: `task-${taskCount}`,
+    agent_id: MANAGER_AGENT_ID,
+    session_id: 'session-a',
+    user_id: 'usr_rep',
+    user_name: 'Rita Rep',
+    message: `Question ${taskCount}`,
+    status: 'completed',
+    submitted_at: new Date(Date.now() - 1000).toISOString(),
+    finished_at: new Date().toISOString(),
+    ...fields,
+  }
+}
+
+const answer = (fields: Record<string, any> = {}) => ({
+  status: 'completed' as const,
+  payload: {
+    answer: 'Q2 Northeast sales were $2.4M.',
+    compliance_status: 'COMPLIANT',
+    domains_accessed: ['Sales Data'],
+    confidence: 'high',
+    sources_consulted: ['q2_sales.csv'],
+    flags: [],
+    ...fields,
+  },
+})
+
+describe('auditTask', () => {
+  it('records each task once, with its status, domains and duration', async () => {
+    const t = task()
+    const record = await auditTask(t, answer())
+    expect(record).toMatchObject({
+      task_id: t.task_id,
+      agent_role: 'manager',
+      orchestration_mode: 'manager',
+      status: 'compliant',
+      domains_accessed: ['Sales Data'],
+      sources_consulted: ['q2_sales.csv'],
+      response: 'Q2 Northeast sales were $2.4M.',
+      user_name: 'Rita Rep',
+    })
+    expect(record!.duration_ms).toBeGreaterThanOrEqual(1000)
+    expect(await auditTask(t, answer())).toBeNull()
+  })
+
+  it('flags invalid responses and keeps failures as failed', async () => {
+    const invalid = await auditTask(task(), {
+      ...answer(),
+      validation: { valid: false, data: null, errors: [{ path: 'compliance_status', message: 'Required' }] } as any,
+    })
+    expect(invalid!.status).toBe('unverified')
+    expect(invalid!.flags.some(f => f.startsWith('Response failed schema validation'))).toBe(true)
+
+    const failed = await auditTask(task(), { status: 'failed', error: 'Upstream timed out' })
+    expect(failed).toMatchObject({ status: 'failed', flags: ['Upstream timed out'] })
+  })
+
+  it('rereads the chain head when the log changed since the last append', async () => {
+    const before = await readAuditRecords()
+    await auditTask(task(), answer())
+    // The log is restored from a backup taken before that append
+    await fs.writeFile(dataPath('audit/audit-log.jsonl'), before.map(r => JSON.stringify(r)).join('\n') + '\n')
+
+    const next = await auditTask(task(), answer())
+    expect(next!.seq).toBe(before.length + 1)
+    expect((await verifyAuditChain()).valid).toBe(true)
+  })
+})
+
+describe('queryAuditLog', () => {
+  it('folds the tasks of a parallel query into one entry', async () => {
+    const audit = { query_id: 'query-parallel', query: 'Parallel question', orchestration_mode: 'parallel' as const }
+    await auditTask(task({ agent_id: SALES_AGENT_ID, audit }), {
+      status: 'completed',
+      payload: { answer: 'Sales draft', domain: 'Sales Data', confidence: 'medium', sources: ['q2_sales.csv'] },
+    })
+    await auditTask(task({ agent_id: COMPLIANCE_AGENT_ID, audit }), {
+      status: 'completed',
+      payload: { reviewed_content: 'Reviewed answer', compliance_status: 'FLAGGED', flags: ['Off-label mention'] },
+    })
+
+    const { entries } = await queryAuditLog({ q: 'Parallel question' })
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      status: 'flagged',
+      response: 'Reviewed answer',
+      domains_accessed: ['Sales Data'],
+      confidence: 'medium',
+      orchestration_mode: 'parallel',
+    })
+    expect(entries[0].steps.map(s => s.agent_role)).toEqual(['retrieval'])
+    expect(entries[0].trace!.steps.map(s => s.agent_id)).toEqual([SALES_AGENT_ID, COMPLIANCE_AGENT_ID])
+  })
+
+  it('filters by status, domain, session and date, and pages newest first', async () => {
+    for (let i = 0; i < 3; i++) await auditTask(task({ session_id: 'session-paged' }), answer())
+
+    const first = await queryAuditLog({ session_id: 'session-paged', page_size: 2 })
+    expect(first).toMatchObject({ total: 3, page: 1, page_size: 2 })
+    expect(first.entries).toHaveLength(2)
+    expect(first.entries[0].timestamp >= first.entries[1].timestamp).toBe(true)
+    expect((await queryAuditLog({ session_id: 'session-paged', page_size: 2, page: 2 })).entries).toHaveLength(1)
+
+    expect((await queryAuditLog({ status: ['flagged'] })).entries.every(e => e.status === 'flagged')).toBe(true)
+    expect((await queryAuditLog({ domain: 'hcp profiles' })).total).toBe(0)
+    expect((await queryAuditLog({ to: '2000-01-01' })).total).toBe(0)
+    expect((await queryAuditLog({ page_size: 1000 })).page_size).toBe(200)
+  })
+})
+
+describe('exportAuditCsv', () => {
+  it('neutralizes cells a spreadsheet would run as formulas', async () => {
+    await auditTask(task({ audit: { query_id: 'query-formula', query: '=HYPERLINK("http://evil.example","click")' } }), answer())
+    await auditTask(task({ audit: { query_id: 'query-at', query: '@SUM(A1:A2)' } }), answer())
+
+    const { csv } = await exportAuditCsv({})
+    expect(csv).toContain(`"'=HYPERLINK(""http://evil.example"",""click"")"`)
+    expect(csv).toContain(`"'@SUM(A1:A2)"`)
+    expect(csv).not.toMatch(/(^|,)"[=+\-@]/m)
+  })
+})
+
+describe('/api/audit', () => {
+  it('needs audit.read, and audit.export for the CSV', async () => {
+    expect((await GET(apiRequest('/api/audit'))).status).toBe(401)
+    const rep = await signIn('field_rep')
+    expect((await GET(apiRequest('/api/audit', { session: rep }))).status).toBe(403)
+
+    const manager = await signIn('district_manager')
+    expect((await GET(apiRequest('/api/audit?format=csv', { session: manager }))).status).toBe(403)
+    const page = await (await GET(apiRequest('/api/audit?page_size=5&status=compliant', { session: manager }))).json()
+    expect(page).toMatchObject({ success: true, page: 1, page_size: 5 })
+    expect(page.entries.every((e: any) => e.status === 'compliant')).toBe(true)
+
+    const officer = await signIn('compliance_officer')
+    const csv = await GET(apiRequest('/api/audit?format=csv', { session: officer }))
+    expect(csv.status).toBe(200)
+    expect(csv.headers.get('content-type')).toContain('text/csv')
+    expect(csv.headers.get('x-audit-chain-head')).toMatch(/^\d+:[0-9a-f]{64}$/)
+  })
+
+  it('returns pre-review drafts only to reviewers', async () => {
+    const review = { draft: 'Unreviewed draft', reviewed: 'Reviewed answer' }
+    await auditTask(task({ audit: { query_id: 'query-reviewed', query: 'Reviewed question' } }), { ...answer(), review })
+
+    const manager = await signIn('district_manager')
+    const officer = await signIn('compliance_officer')
+    const asManager = await (await GET(apiRequest('/api/audit?q=Reviewed%20question', { session: manager }))).json()
+    const asOfficer = await (await GET(apiRequest('/api/audit?q=Reviewed%20question', { session: officer }))).json()
+    expect(asManager.entries[0].review).toBeUndefined()
+    expect(asOfficer.entries[0].review).toEqual(review)
+  })
+})
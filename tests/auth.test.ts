@@ -0,0 +1,183 @@
+import { generateKeyPairSync, sign } from 'crypto'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { POST as login } from '@/app/api/auth/login/route'
+import { POST as logout } from '@/app/api/auth/logout/route'
+import { GET as oidcCallback } from '@/app/api/auth/oidc/callback/route'
+import { GET as oidcLogin } from '@/app/api/auth/oidc/login/route'
+import { GET as session } from '@/app/api/auth/session/route'
+import { POST as createUser } from '@/app/api/auth/users/route'
+import { createLocalUser, SESSION_COOKIE, upsertOidcUser } from '@/lib/auth'
+import { OIDC_STATE_COOKIE } from '@/lib/oidc'
+import { apiRequest, signIn } from './helpers'
+
+const PASSWORD = 'correct-horse-1'
+
+function sessionCookie(response: Response): string {
+  const value = (response as any).cookies.get(SESSION_COOKIE)?.value
+  return `${SESSION_COOKIE}=${value}`
+}
+
+const currentUser = async (cookie: string) =>
+  (await (await session(apiRequest('/api/auth/session', { headers: { cookie } }))).json()).user
+
+describe('local sign-in', () => {
+  it('starts a session for the right password and ends it on sign-out', async () => {
+    const user = await createLocalUser({ email: 'Rita@Example.com', name: 'Rita Rep', password: PASSWORD, role: 'field_rep' })
+    expect(user).not.toHaveProperty('password_hash')
+
+    const response = await login(apiRequest('/api/auth/login', { method: 'POST', body: { email: ' rita@example.com ', password: PASSWORD } }))
+    expect(response.status).toBe(200)
+    expect((await response.json()).user).toMatchObject({ id: user.id, role: 'field_rep', provider: 'local' })
+    const cookie = sessionCookie(response)
+    expect((await currentUser(cookie)).id).toBe(user.id)
+
+    const out = await logout(apiRequest('/api/auth/logout', { method: 'POST', headers: { cookie } }))
+    expect((out as any).cookies.get(SESSION_COOKIE)?.value).toBe('')
+    expect(await currentUser(cookie)).toBeNull()
+  })
+
+  it('gives the same 401 for a wrong password and an unknown email', async () => {
+    await createLocalUser({ email: 'dana@example.com', password: PASSWORD, role: 'district_manager' })
+
+    for (const body of [{ email: 'dana@example.com', password: 'wrong-pass-1' }, { email: 'nobody@example.com', password: PASSWORD }]) {
+      const response = await login(apiRequest('/api/auth/login', { method: 'POST', body }))
+      expect(response.status).toBe(401)
+      expect((await response.json()).error).toBe('Invalid email or password')
+    }
+  })
+
+  it('expires sessions after 12 hours', async () => {
+    const { cookie } = await signIn('field_rep')
+    expect(await currentUser(cookie)).not.toBeNull()
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(Date.now() + 12 * 60 * 60 * 1000 + 1000)
+    try {
+      expect(await currentUser(cookie)).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+    expect(await currentUser(cookie)).toBeNull()
+  })
+
+  it('lets admins add users, with a valid email, a long password and a new address', async () => {
+    const admin = await signIn('admin')
+    const add = (body: unknown) => createUser(apiRequest('/api/auth/users', { method: 'POST', body, session: admin }))
+
+    const created = await add({ email: 'olive@example.com', name: 'Olive Officer', password: PASSWORD, role: 'compliance_officer' })
+    expect(created.status).toBe(201)
+
+    const cases: [unknown, number, string][] = [
+      [{ email: 'olive@example.com', password: PASSWORD, role: 'field_rep' }, 409, 'A user with email olive@example.com already exists'],
+      [{ email: 'not-an-email', password: PASSWORD, role: 'field_rep' }, 400, 'A valid email is required'],
+      [{ email: 'sam@example.com', password: 'short', role: 'field_rep' }, 400, 'Passwords need at least 8 characters'],
+      [{ email: 'sam@example.com', password: PASSWORD, role: 'superuser' }, 400, 'role must be one of field_rep, district_manager, compliance_officer, admin'],
+    ]
+    for (const [body, status, error] of cases) {
+      const response = await add(body)
+      expect(response.status).toBe(status)
+      expect((await response.json()).error).toBe(error)
+    }
+  })
+})
+
+describe('OIDC sign-in', () => {
+  const ISSUER = 'http://idp.test'
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }
+  let claims: Record<string, unknown> = {}
+  let nonce = ''
+
+  const b64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  function idToken(): string {
+    const now = Math.floor(Date.now() / 1000)
+    const body = `${b64url({ alg: 'RS256', kid: 'key-1' })}.${b64url({ iss: ISSUER, aud: 'medrep', iat: now, exp: now + 300, nonce, ...claims })}`
+    return `${body}.${sign('sha256', Buffer.from(body), privateKey).toString('base64url')}`
+  }
+
+  /** The IdP's discovery, JWKS and token endpoints */
+  const idp = vi.fn(async (url: string) => {
+    const json = (value: unknown) => new Response(JSON.stringify(value), { headers: { 'content-type': 'application/json' } })
+    if (url === `${ISSUER}/.well-known/openid-configuration`) {
+      return json({ issuer: ISSUER, authorization_endpoint: `${ISSUER}/authorize`, token_endpoint: `${ISSUER}/token`, jwks_uri: `${ISSUER}/jwks` })
+    }
+    if (url === `${ISSUER}/jwks`) return json({ keys: [jwk] })
+    if (url === `${ISSUER}/token`) return json({ id_token: idToken(), token_type: 'Bearer' })
+    return new Response('Not found', { status: 404 })
+  })
+
+  beforeAll(() => {
+    vi.stubEnv('OIDC_ISSUER', ISSUER)
+    vi.stubEnv('OIDC_CLIENT_ID', 'medrep')
+    vi.stubGlobal('fetch', idp)
+  })
+
+  afterEach(() => {
+    claims = {}
+  })
+
+  /** Go through the login redirect and the IdP callback, as a browser would */
+  async function signInWithIdp(next?: string) {
+    const started = await oidcLogin(apiRequest(`/api/auth/oidc/login${next ? `?next=${encodeURIComponent(next)}` : ''}`))
+    const authorize = new URL(started.headers.get('location')!)
+    expect(authorize.origin + authorize.pathname).toBe(`${ISSUER}/authorize`)
+    expect(authorize.searchParams.get('code_challenge_method')).toBe('S256')
+    nonce = authorize.searchParams.get('nonce')!
+    const state = authorize.searchParams.get('state')!
+
+    return oidcCallback(
+      apiRequest(`/api/auth/oidc/callback?code=code-1&state=${state}`, { headers: { cookie: `${OIDC_STATE_COOKIE}=${state}` } })
+    )
+  }
+
+  it('creates the user on first sign-in and returns to the app path', async () => {
+    claims = { sub: 'idp-user-1', email: 'Sam@Example.com', name: 'Sam Rep', role: ['viewer', 'district_manager'] }
+    const response = await signInWithIdp('/?tab=audit')
+
+    expect(response.status).toBe(303)
+    expect(response.headers.get('location')).toBe('http://localhost:3333/?tab=audit')
+    expect(await currentUser(sessionCookie(response))).toMatchObject({
+      email: 'sam@example.com',
+      name: 'Sam Rep',
+      role: 'district_manager',
+      provider: 'oidc',
+      oidc_issuer: ISSUER,
+      oidc_subject: 'idp-user-1',
+    })
+  })
+
+  it('refuses redirects that would leave the app', async () => {
+    for (const next of ['//evil.example', '/\\evil.example', 'https://evil.example/', '/%0d%0aevil']) {
+      claims = { sub: 'idp-user-2' }
+      const response = await signInWithIdp(decodeURIComponent(next))
+      expect(response.headers.get('location')).toBe('http://localhost:3333/')
+    }
+  })
+
+  it('sends callbacks from another browser or with a bad token back to the login page', async () => {
+    const started = await oidcLogin(apiRequest('/api/auth/oidc/login'))
+    const state = new URL(started.headers.get('location')!).searchParams.get('state')
+    const foreign = await oidcCallback(
+      apiRequest(`/api/auth/oidc/callback?code=code-1&state=${state}`, { headers: { cookie: `${OIDC_STATE_COOKIE}=other` } })
+    )
+    expect(foreign.headers.get('location')).toBe(
+      `http://localhost:3333/login?error=${encodeURIComponent('Sign-in state does not match this browser')}`
+    )
+
+    claims = { sub: 'idp-user-3', aud: 'another-app' }
+    const response = await signInWithIdp()
+    expect(response.headers.get('location')).toContain(encodeURIComponent('ID token is for another client'))
+    expect((response as any).cookies.get(SESSION_COOKIE)).toBeUndefined()
+  })
+
+  it('matches returning users by issuer and subject and takes the role claim', async () => {
+    const first = await upsertOidcUser({ issuer: ISSUER, subject: 'idp-user-4', email: 'kim@example.com' })
+    expect(first).toMatchObject({ role: 'field_rep', name: 'kim@example.com' })
+
+    const again = await upsertOidcUser({ issuer: ISSUER, subject: 'idp-user-4', name: 'Kim Officer', role: 'compliance_officer' })
+    expect(again).toMatchObject({ id: first.id, email: 'kim@example.com', name: 'Kim Officer', role: 'compliance_officer' })
+
+    const otherIssuer = await upsertOidcUser({ issuer: 'http://other-idp.test', subject: 'idp-user-4' })
+    expect(otherIssuer.id).not.toBe(first.id)
+  })
+})
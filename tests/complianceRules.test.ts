@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { pollAgentTask, submitAgentTask } from '@/lib/agentTasks'
+import { readAuditRecords } from '@/lib/auditStore'
+import { escalateStatus, evaluateCompliance, findTerms, loadComplianceRules } from '@/lib/complianceRules'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { signIn, sleep } from './helpers'
+
+const COMPLIANCE_AGENT_ID = '69a00ddcfddac4fa01fac4e7'
+
+describe('escalateStatus', () => {
+  it('keeps the more severe status', () => {
+    expect(escalateStatus('compliant', 'redacted')).toBe('redacted')
+    expect(escalateStatus('flagged', 'redacted')).toBe('flagged')
+    expect(escalateStatus('Compliant', 'compliant')).toBe('compliant')
+  })
+
+  it('reads missing and unknown statuses as unverified', () => {
+    expect(escalateStatus('', 'compliant')).toBe('unverified')
+    expect(escalateStatus('approved', 'compliant')).toBe('unverified')
+    expect(escalateStatus('approved', 'flagged')).toBe('flagged')
+    expect(escalateStatus('compliant', 'constructor')).toBe('unverified')
+  })
+})
+
+describe('findTerms', () => {
+  it('matches whole words in any case', () => {
+    expect(findTerms('The BEST option; bestseller lists', ['best']).map(m => m.value)).toEqual(['BEST'])
+  })
+})
+
+describe('evaluateCompliance with the bundled rule packs', () => {
+  it('passes a clean answer through unchanged', async () => {
+    const result = evaluateCompliance('Q3 revenue was $2.4M, 112% of quota.', 'compliant', await loadComplianceRules())
+    expect(result).toMatchObject({ status: 'compliant', escalated: false, hits: [], flags: [] })
+    expect(result.text).toBe('Q3 revenue was $2.4M, 112% of quota.')
+  })
+
+  it('masks superlatives and marks the answer redacted', async () => {
+    const result = evaluateCompliance('Cardiolex is the safest choice for most patients.', 'compliant', await loadComplianceRules())
+    expect(result.status).toBe('redacted')
+    expect(result.escalated).toBe(true)
+    expect(result.text).toBe('Cardiolex is the [redacted: SUPERLATIVE_CLAIM] choice for most patients.')
+    expect(result.flags[0]).toMatch(/^SUPERLATIVE_CLAIM: .*"safest"/)
+  })
+
+  it('flags off-label use above a redaction', async () => {
+    const result = evaluateCompliance('It is the best option, even off-label.', 'compliant', await loadComplianceRules())
+    expect(result.status).toBe('flagged')
+    expect(result.hits.map(h => h.code).sort()).toEqual(['OFF_LABEL_INDICATION', 'SUPERLATIVE_CLAIM'])
+  })
+
+  it('flags competitor pricing only within one sentence', async () => {
+    const packs = await loadComplianceRules()
+    expect(evaluateCompliance("The competitor's price went up last quarter.", 'compliant', packs).status).toBe('flagged')
+    expect(evaluateCompliance('A competitor launched. Our price is unchanged.', 'compliant', packs).status).toBe('compliant')
+  })
+
+  it('flags gifts and meals over the state limit', async () => {
+    const packs = await loadComplianceRules()
+    expect(evaluateCompliance('Offer Dr. Chen a $150 dinner.', 'compliant', packs).status).toBe('flagged')
+    expect(evaluateCompliance('Offer Dr. Chen a $80 lunch.', 'compliant', packs).status).toBe('compliant')
+    expect(evaluateCompliance('In Minnesota, a $60 lunch for the office.', 'compliant', packs).status).toBe('flagged')
+  })
+
+  it('never lowers the agent status', async () => {
+    const result = evaluateCompliance('Q3 revenue was $2.4M.', 'flagged', await loadComplianceRules())
+    expect(result.status).toBe('flagged')
+  })
+})
+
+describe('answers from the Compliance Guard', () => {
+  it('are escalated by the local rules before anyone sees them', async () => {
+    const rep = (await signIn('field_rep')).user
+    const backend = getLyzrBackend()
+    const submitted = await submitAgentTask(
+      { message: 'Cardiolex is the safest choice for most patients.', agent_id: COMPLIANCE_AGENT_ID, session_id: 'rules-s1' },
+      backend,
+      rep
+    )
+    let polled = await pollAgentTask(submitted.body.task_id, backend, rep)
+    while (polled.body.status === 'processing') {
+      await sleep(25)
+      polled = await pollAgentTask(submitted.body.task_id, backend, rep)
+    }
+
+    const result = polled.body.response.result
+    expect(result.compliance_status).toBe('redacted')
+    expect(result.reviewed_content).toBe('Cardiolex is the [redacted: SUPERLATIVE_CLAIM] choice for most patients.')
+    expect(result.flags.some((f: string) => f.startsWith('SUPERLATIVE_CLAIM'))).toBe(true)
+
+    const [record] = (await readAuditRecords()).filter(r => r.task_id === submitted.body.task_id)
+    expect(record.status).toBe('redacted')
+  })
+})
@@ -0,0 +1,142 @@
+import { strToU8, zipSync } from 'fflate'
+import { describe, expect, it } from 'vitest'
+import { convertDocument, convertibleType, DocumentConversionError, documentText, originalName, readSpreadsheet } from '@/lib/documentConversion'
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+/** An Office Open XML package with the given parts */
+const office = (parts: Record<string, string>) =>
+  zipSync(Object.fromEntries(Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)])))
+
+const rels = (targets: Record<string, string>) =>
+  `<Relationships>${Object.entries(targets).map(([id, target]) => `<Relationship Id="${id}" Target="${target}"/>`).join('')}</Relationships>`
+
+describe('CSV parsing', () => {
+  it('reads quoted fields, doubled quotes and newlines inside quotes', () => {
+    const csv = 'name,notes\r\n"Chen, Sarah","Said ""call Tuesday""\nthen left"\r\nPatel,\r\n'
+    expect(readSpreadsheet('hcps.csv', 'csv', bytes(csv))).toEqual([
+      { name: 'hcps.csv', rows: [['name', 'notes'], ['Chen, Sarah', 'Said "call Tuesday"\nthen left'], ['Patel', '']] },
+    ])
+  })
+
+  it('detects a semicolon delimiter and drops the byte order mark', () => {
+    const [sheet] = readSpreadsheet('sales.csv', 'csv', bytes('\uFEFFRegion;Sales\nNortheast;1,5'))
+    expect(sheet.rows).toEqual([['Region', 'Sales'], ['Northeast', '1,5']])
+  })
+
+  it('keeps a last row without a line break', () => {
+    const [sheet] = readSpreadsheet('a.csv', 'csv', bytes('a,b\n1,2'))
+    expect(sheet.rows).toEqual([['a', 'b'], ['1', '2']])
+  })
+
+  it('converts to a Markdown table under the file name', () => {
+    expect(convertDocument('q2.csv', 'csv', bytes('Region,Sales\nNortheast,"1|2"\n'))).toBe(
+      '## q2.csv\n\n| Region | Sales |\n| --- | --- |\n| Northeast | 1\\|2 |'
+    )
+  })
+})
+
+describe('XLSX conversion', () => {
+  const workbook = office({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Q2" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': rels({ rId1: 'worksheets/sheet1.xml' }),
+    'xl/sharedStrings.xml': '<sst><si><t>Region</t></si><si><t>Northeast</t></si><si><r><t>Sales </t></r><r><t>($)</t></r></si></sst>',
+    'xl/worksheets/sheet1.xml':
+      '<worksheet><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+      '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2" t="b"><v>1</v></c><c r="C2"><v>2400000</v></c></row>' +
+      '</sheetData></worksheet>',
+  })
+
+  it('reads shared strings, booleans and numbers in their columns', () => {
+    expect(readSpreadsheet('q2.xlsx', 'xlsx', workbook)).toEqual([
+      { name: 'Q2', rows: [['Region', '', 'Sales ($)'], ['Northeast', 'TRUE', '2400000']] },
+    ])
+  })
+
+  it('converts each sheet to a table under the file and sheet name', () => {
+    expect(convertDocument('q2.xlsx', 'xlsx', workbook)).toBe(
+      '## q2.xlsx — Q2\n\n| Region |  | Sales ($) |\n| --- | --- | --- |\n| Northeast | TRUE | 2400000 |'
+    )
+  })
+
+  it('refuses files that are not Office documents', () => {
+    expect(() => convertDocument('fake.xlsx', 'xlsx', bytes('not a zip'))).toThrow(DocumentConversionError)
+    expect(() => convertDocument('fake.xlsx', 'xlsx', bytes('not a zip'))).toThrow('fake.xlsx is not a valid Office document')
+  })
+})
+
+describe('PPTX conversion', () => {
+  it('keeps slide text, tables and speaker notes in slide order', () => {
+    const deck = office({
+      'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': rels({ rId1: 'slides/slide2.xml', rId2: 'slides/slide1.xml' }),
+      'ppt/slides/slide1.xml': '<p:sld><a:p><a:r><a:t>Cardiozen launch</a:t></a:r></a:p></p:sld>',
+      'ppt/slides/_rels/slide1.xml.rels': rels({ rId1: '../notesSlides/notesSlide1.xml' }),
+      'ppt/notesSlides/notesSlide1.xml': '<p:notes><a:p><a:r><a:t>Mention the REMS program</a:t></a:r></a:p><a:p><a:r><a:t>1</a:t></a:r></a:p></p:notes>',
+      'ppt/slides/slide2.xml':
+        '<p:sld><a:p><a:r><a:t>Territory &amp; targets</a:t></a:r></a:p>' +
+        '<a:tbl><a:tr><a:tc><a:p><a:r><a:t>Region</a:t></a:r></a:p></a:tc><a:tc><a:p><a:r><a:t>Target</a:t></a:r></a:p></a:tc></a:tr>' +
+        '<a:tr><a:tc><a:p><a:r><a:t>Northeast</a:t></a:r></a:p></a:tc><a:tc><a:p><a:r><a:t>$2.5M</a:t></a:r></a:p></a:tc></a:tr></a:tbl></p:sld>',
+    })
+
+    expect(convertDocument('launch.pptx', 'pptx', deck)).toBe(
+      '## launch.pptx — Slide 1\n\nCardiozen launch\n\nSpeaker notes: Mention the REMS program\n\n' +
+        '## launch.pptx — Slide 2\n\nTerritory & targets\n\n' +
+        '### Slide 2 table 1\n\n| Region | Target |\n| --- | --- |\n| Northeast | $2.5M |'
+    )
+  })
+})
+
+describe('HTML conversion', () => {
+  it('keeps headings, lists and tables and drops scripts and styles', () => {
+    const html =
+      '<html><head><title>Formulary</title><style>p { color: red }</style></head><body>' +
+      '<h2>Coverage</h2><p>Updated <b>monthly</b>.</p><script>track()</script>' +
+      '<ul><li>Tier 2</li><li>Prior auth</li></ul>' +
+      '<table><caption>Plans</caption><tr><th>Plan</th><th>Tier</th></tr><tr><td>Aetna</td><td>2</td></tr></table></body></html>'
+    expect(convertDocument('formulary.html', 'html', bytes(html))).toBe(
+      '# Formulary\n\n## Coverage\nUpdated monthly.\n- Tier 2\n- Prior auth\n\n## Plans\n\n| Plan | Tier |\n| --- | --- |\n| Aetna | 2 |'
+    )
+  })
+
+  it('leaves code points past U+10FFFF undecoded', () => {
+    const html = '<p>Dose &amp; route &#8212; &#x1F600; &#99999999; &#x110000;</p>'
+    expect(convertDocument('page.html', 'html', bytes(html))).toBe('Dose & route — \u{1F600} &#99999999; &#x110000;')
+  })
+
+  it('refuses pages without text', () => {
+    expect(() => convertDocument('blank.html', 'html', bytes('<div><script>x()</script></div>'))).toThrow('No text found in blank.html')
+  })
+})
+
+describe('file names', () => {
+  it('picks the conversion by extension, then MIME type', () => {
+    expect(convertibleType('Q3 Sales.XLSX')).toBe('xlsx')
+    expect(convertibleType('notes.markdown')).toBe('md')
+    expect(convertibleType('export', 'text/csv')).toBe('csv')
+    expect(convertibleType('label.pdf', 'application/pdf')).toBeNull()
+  })
+
+  it('maps a trained name back to the uploaded one', () => {
+    expect(originalName('Q3 sales.xlsx.txt')).toEqual({ fileName: 'Q3 sales.xlsx', convertedFrom: 'xlsx' })
+    expect(originalName('minutes.txt')).toEqual({ fileName: 'minutes.txt', convertedFrom: null })
+  })
+})
+
+describe('documentText', () => {
+  it('has no headings naming the file', () => {
+    const csv = bytes('Region,Sales\nNortheast,100\n')
+    expect(convertDocument('q2.csv', 'csv', csv)).toContain('q2.csv')
+    expect(documentText('q2.csv', csv)).toBe('Region Sales\nNortheast 100')
+
+    const html = bytes('<html><head><title>Formulary</title></head><body><table><tr><td>Cardiolex</td><td>Tier 2</td></tr></table></body></html>')
+    const text = documentText('formulary.html', html)!
+    expect(text).not.toContain('formulary.html')
+    expect(text).toContain('Cardiolex Tier 2')
+  })
+
+  it('returns null for PDFs', () => {
+    expect(documentText('deck.pdf', bytes('%PDF-1.7'))).toBeNull()
+  })
+})
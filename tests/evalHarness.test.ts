@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { GET, POST } from '@/app/api/eval/route'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import {
+  diffEvalRuns,
+  loadEvalSuite,
+  runEvalSuite,
+  scoreEvalCase,
+  summarizeEvalResults,
+  type EvalCase,
+  type EvalCaseResult,
+  type EvalRun,
+} from '@/lib/evalHarness'
+import { apiRequest, MANAGER_AGENT_ID, signIn } from './helpers'
+
+const salesCase: EvalCase = {
+  id: 'sales',
+  question: 'What was my Q2 sales performance in the Northeast territory?',
+  expected_facts: ['$2.4M', '112%'],
+  expected_domains: ['Sales Data'],
+  expected_compliance: 'compliant',
+}
+
+function result(caseId: string, score: number, passed: boolean): EvalCaseResult {
+  return {
+    ...scoreEvalCase({ ...salesCase, id: caseId }, {}),
+    score,
+    passed,
+    duration_ms: 10,
+  }
+}
+
+function run(runId: string, results: EvalCaseResult[]): EvalRun {
+  return {
+    run_id: runId,
+    suite: 'golden-questions',
+    agent_id: MANAGER_AGENT_ID,
+    backend: 'emulator',
+    started_at: '2026-01-01T00:00:00.000Z',
+    completed_at: '2026-01-01T00:01:00.000Z',
+    summary: summarizeEvalResults(results),
+    results,
+  }
+}
+
+describe('scoreEvalCase', () => {
+  it('passes an answer with every fact, the right domains and status', () => {
+    const scored = scoreEvalCase(salesCase, {
+      answer: 'Q2 revenue was **$2.4M**, at 112% of quota.',
+      domains_accessed: ['sales data'],
+      compliance_status: 'COMPLIANT',
+    })
+    expect(scored).toMatchObject({ score: 1, passed: true, facts: { recall: 1, missing: [] } })
+  })
+
+  it('gives partial credit and names what is missing', () => {
+    const scored = scoreEvalCase(salesCase, {
+      answer: 'Q2 revenue was $2.4M.',
+      data_points: ['Attainment: 112%'],
+      domains_accessed: ['Sales Data', 'HCP Profiles'],
+      compliance_status: 'flagged',
+    })
+    expect(scored.facts.recall).toBe(1)
+    expect(scored.domains).toMatchObject({ unexpected: ['HCP Profiles'], correct: false })
+    expect(scored.compliance).toEqual({ expected: 'compliant', actual: 'flagged', correct: false })
+    expect(scored.score).toBe(0.333)
+    expect(scored.passed).toBe(false)
+  })
+
+  it('scores a failed call as zero', () => {
+    const scored = scoreEvalCase(salesCase, { domains_accessed: ['Sales Data'], compliance_status: 'compliant' }, 'Timed out')
+    expect(scored).toMatchObject({ error: 'Timed out', score: 0, passed: false })
+  })
+})
+
+describe('diffEvalRuns', () => {
+  const previous = run('run-1', [result('a', 1, true), result('b', 0.5, false), result('c', 1, true)])
+
+  it('classifies each case against the previous run', () => {
+    const current = run('run-2', [result('a', 0.667, false), result('b', 1, true), result('d', 1, true)])
+    const diff = diffEvalRuns(previous, current)
+    expect(diff.previous_run_id).toBe('run-1')
+    expect(diff.cases).toEqual([
+      { case_id: 'a', change: 'regressed', score_delta: -0.333, passed_before: true, passed_now: false },
+      { case_id: 'b', change: 'improved', score_delta: 0.5, passed_before: false, passed_now: true },
+      { case_id: 'd', change: 'added', score_delta: 1, passed_now: true },
+      { case_id: 'c', change: 'removed', score_delta: -1, passed_before: true },
+    ])
+  })
+
+  it('compares a partial run with the same cases only', () => {
+    const current = { ...run('run-2', [result('b', 0.5, false)]), partial: true }
+    const diff = diffEvalRuns(previous, current)
+    expect(diff.cases).toEqual([{ case_id: 'b', change: 'unchanged', score_delta: 0, passed_before: false, passed_now: false }])
+    expect(diff.summary).toMatchObject({ cases: 0, passed: 0, score: 0 })
+  })
+})
+
+describe('runEvalSuite', () => {
+  it('passes the bundled golden questions on the emulator', async () => {
+    const suite = await loadEvalSuite()
+    const evalRun = await runEvalSuite(suite, { agent_id: MANAGER_AGENT_ID, backend: getLyzrBackend() })
+    expect(evalRun.backend).toBe('emulator')
+    expect(evalRun.partial).toBeUndefined()
+    expect(evalRun.results.filter(r => !r.passed)).toEqual([])
+    expect(evalRun.summary.passed).toBe(suite.cases.length)
+  })
+})
+
+describe('/api/eval', () => {
+  it('stores runs and diffs each against the previous full run', async () => {
+    const admin = await signIn('admin')
+    const run = (body: Record<string, unknown>) => POST(apiRequest('/api/eval', { method: 'POST', session: admin, body }))
+
+    const full = (await (await run({})).json()).run
+    expect(full.partial).toBeUndefined()
+    expect(full.diff).toBeUndefined()
+    const partial = (await (await run({ case_ids: ['hcp-assigned-list'] })).json()).run
+    expect(partial).toMatchObject({ partial: true, summary: { cases: 1, passed: 1 } })
+    expect(partial.diff).toMatchObject({
+      previous_run_id: full.run_id,
+      summary: { score: 0 },
+      cases: [{ case_id: 'hcp-assigned-list', change: 'unchanged' }],
+    })
+
+    const listed = await (await GET(apiRequest('/api/eval', { session: admin }))).json()
+    expect(listed.runs.map((r: any) => r.run_id)).toEqual([partial.run_id, full.run_id])
+    const one = await (await GET(apiRequest(`/api/eval?run=${partial.run_id}`, { session: admin }))).json()
+    expect(one.run.results).toHaveLength(1)
+  })
+
+  it('rejects unknown cases and users without eval.run', async () => {
+    const admin = await signIn('admin')
+    const manager = await signIn('district_manager')
+    const unknown = await POST(apiRequest('/api/eval', { method: 'POST', session: admin, body: { case_ids: ['nope'] } }))
+    expect(unknown.status).toBe(400)
+    expect((await GET(apiRequest('/api/eval', { session: manager }))).status).toBe(403)
+    expect((await POST(apiRequest('/api/eval', { method: 'POST', session: manager, body: {} }))).status).toBe(403)
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Signed-in users and requests for calling route handlers directly.
+ */
+
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { createLocalUser, SESSION_COOKIE, startSession, type AuthUser } from '@/lib/auth'
+import type { UserRole } from '@/lib/roles'
+
+export const MANAGER_AGENT_ID = '69a00df43dc260b752bd74d9'
+
+export interface TestSession {
+  user: AuthUser
+  cookie: string
+}
+
+/** A new local user with the role, signed in */
+export async function signIn(role: UserRole, name: string = role): Promise<TestSession> {
+  const user = await createLocalUser({
+    email: `${role}-${randomBytes(4).toString('hex')}@example.com`,
+    name,
+    password: 'test-pass-1',
+    role,
+  })
+  const response = await startSession(NextResponse.json({}), user, 'local')
+  return { user, cookie: `${SESSION_COOKIE}=${response.cookies.get(SESSION_COOKIE)!.value}` }
+}
+
+/** A request to a route handler, as the session's user when one is given */
+export function apiRequest(
+  path: string,
+  options: { method?: string; body?: unknown; session?: TestSession; headers?: Record<string, string> } = {}
+): NextRequest {
+  const { method = 'GET', body, session, headers = {} } = options
+  return new NextRequest(`http://localhost:3333${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined && !(body instanceof FormData) ? { 'content-type': 'application/json' } : {}),
+      ...(session ? { cookie: session.cookie } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : body instanceof FormData ? body : JSON.stringify(body),
+  })
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/** A fetch that sends the browser's /api/agent calls to the route handler as the session's user */
+export function agentRouteFetch(session: TestSession) {
+  return async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const { POST } = await import('@/app/api/agent/route')
+    const body = init.body ? JSON.parse(String(init.body)) : undefined
+    return POST(apiRequest(url, { method: init.method || 'GET', session, body }))
+  }
+}
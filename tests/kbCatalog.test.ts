@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { POST as ragRoute } from '@/app/api/rag/route'
+import { GET as versionsGet, PATCH as versionsPatch, POST as versionsPost } from '@/app/api/rag/versions/route'
+import { contentHash, documentFingerprint, getCatalogEntry, normalizeText, publishDocument } from '@/lib/kbCatalog'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { apiRequest, signIn, type TestSession } from './helpers'
+
+const SALES_KB_ID = '69a00d98f572c99c0ffb7691'
+
+/** Set to make every training call the route sends fail upstream */
+const upstream = vi.hoisted(() => ({ failTraining: false }))
+
+vi.mock('@/lib/lyzrBackend', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/lyzrBackend')>()
+  return {
+    ...actual,
+    getLyzrBackend: () => {
+      const backend = actual.getLyzrBackend()
+      return {
+        ...backend,
+        fetch: (url: string, init?: RequestInit) =>
+          upstream.failTraining && url.includes('/train/')
+            ? Promise.resolve(new Response('{"detail":"parser crashed"}', { status: 500 }))
+            : backend.fetch(url, init),
+      }
+    },
+  }
+})
+
+afterEach(() => {
+  upstream.failTraining = false
+})
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+function upload(session: TestSession, name: string, content: string, fields: Record<string, string> = {}) {
+  const form = new FormData()
+  form.append('ragId', SALES_KB_ID)
+  form.append('file', new Blob([content], { type: 'text/plain' }), name)
+  for (const [key, value] of Object.entries(fields)) form.append(key, value)
+  return ragRoute(apiRequest('/api/rag', { method: 'POST', body: form, session }))
+}
+
+async function listedNames(session: TestSession): Promise<string[]> {
+  const listing = await (await ragRoute(apiRequest('/api/rag', { method: 'POST', body: { ragId: SALES_KB_ID }, session }))).json()
+  return listing.documents.map((d: any) => d.fileName)
+}
+
+async function history(session: TestSession, fileName: string) {
+  const response = await versionsGet(apiRequest(`/api/rag/versions?ragId=${SALES_KB_ID}&fileName=${encodeURIComponent(fileName)}`, { session }))
+  return (await response.json()).entry
+}
+
+describe('knowledge base versions', () => {
+  it('adds a version when a file name is uploaded again and skips identical bytes', async () => {
+    const manager = await signIn('district_manager', 'Dana Manager')
+    const first = await (await upload(manager, 'q2-plan.txt', 'Q2 plan: grow Cardiozen 10%', { tags: 'plan, Q2 ,plan' })).json()
+    expect(first).toMatchObject({ success: true, version: 1 })
+
+    const same = await (await upload(manager, 'q2-plan.txt', 'Q2 plan: grow Cardiozen 10%')).json()
+    expect(same).toMatchObject({ success: true, version: 1, unchanged: true, message: 'Unchanged: identical to version 1, nothing was trained' })
+
+    const second = await (await upload(manager, 'q2-plan.txt', 'Q2 plan: grow Cardiozen 12%')).json()
+    expect(second).toMatchObject({ version: 2, replacedVersion: 1, message: 'Uploaded as version 2, replacing version 1' })
+
+    const entry = await history(manager, 'q2-plan.txt')
+    expect(entry.tags).toEqual(['plan', 'q2'])
+    expect(entry.versions.map((v: any) => [v.version, v.user_name])).toEqual([[1, 'Dana Manager'], [2, 'Dana Manager']])
+    expect(entry.versions[0].sha256).not.toBe(entry.versions[1].sha256)
+
+    // One trained document, listed with its catalog metadata
+    const listing = await (await ragRoute(apiRequest('/api/rag', { method: 'POST', body: { ragId: SALES_KB_ID }, session: manager }))).json()
+    const listed = listing.documents.filter((d: any) => d.fileName === 'q2-plan.txt')
+    expect(listed).toHaveLength(1)
+    expect(listed[0]).toMatchObject({ version: 2, tags: ['plan', 'q2'] })
+  })
+
+  it('restores an earlier version as a new one', async () => {
+    const manager = await signIn('district_manager')
+    await upload(manager, 'targets.txt', 'Target: $2.0M')
+    await upload(manager, 'targets.txt', 'Target: $2.5M')
+    const restore = (version: unknown) =>
+      versionsPost(apiRequest('/api/rag/versions', { method: 'POST', body: { ragId: SALES_KB_ID, fileName: 'targets.txt', version }, session: manager }))
+
+    const restored = await restore(1)
+    expect(restored.status).toBe(200)
+    const { entry } = await restored.json()
+    expect(entry.current_version).toBe(3)
+    expect(entry.versions[2]).toMatchObject({ version: 3, restored_from: 1, sha256: entry.versions[0].sha256 })
+
+    const again = await restore(1)
+    expect(again.status).toBe(409)
+    expect((await again.json()).error).toBe('Version 1 of targets.txt is already current')
+    expect((await restore(9)).status).toBe(404)
+    expect((await restore('1')).status).toBe(400)
+  })
+
+  it('retrains the replaced version when training the new one fails', async () => {
+    const admin = await signIn('admin')
+    await upload(admin, 'formulary.txt', 'Tier 2 on Aetna')
+    const emulator = getLyzrBackend()
+    // Every parser fails on the new bytes; the replaced version trains again
+    const trained: string[] = []
+    const failingTrain = {
+      ...emulator,
+      fetch: async (url: string, init?: RequestInit) => {
+        if (!url.includes('/train/')) return emulator.fetch(url, init)
+        const text = await ((init!.body as FormData).get('file') as File).text()
+        trained.push(text)
+        return text === 'Tier 3 on Aetna' ? new Response('{"detail":"parser crashed"}', { status: 500 }) : emulator.fetch(url, init)
+      },
+    }
+
+    await expect(
+      publishDocument(failingTrain, SALES_KB_ID, { name: 'formulary.txt', mime: 'text/plain', bytes: bytes('Tier 3 on Aetna') }, admin.user)
+    ).rejects.toThrow('Failed to train document after trying multiple parsers')
+    expect(trained[trained.length - 1]).toBe('Tier 2 on Aetna')
+
+    expect((await getCatalogEntry(SALES_KB_ID, 'formulary.txt'))!.current_version).toBe(1)
+    const listing = await (await ragRoute(apiRequest('/api/rag', { method: 'POST', body: { ragId: SALES_KB_ID }, session: admin }))).json()
+    expect(listing.documents.some((d: any) => d.fileName === 'formulary.txt')).toBe(true)
+  })
+
+  it('tags files and answers 404 for files without history', async () => {
+    const manager = await signIn('district_manager')
+    await upload(manager, 'faq.txt', 'Dosing FAQ')
+    const tag = (body: unknown) => versionsPatch(apiRequest('/api/rag/versions', { method: 'PATCH', body, session: manager }))
+
+    const tagged = await (await tag({ ragId: SALES_KB_ID, fileName: 'faq.txt', tags: 'dosing, faq' })).json()
+    expect(tagged.entry.tags).toEqual(['dosing', 'faq'])
+    expect((await tag({ ragId: SALES_KB_ID, fileName: 'faq.txt' })).status).toBe(400)
+
+    const missing = await versionsGet(apiRequest(`/api/rag/versions?ragId=${SALES_KB_ID}&fileName=nope.txt`, { session: manager }))
+    expect(missing.status).toBe(404)
+    expect((await missing.json()).error).toBe('nope.txt has no version history')
+  })
+})
+
+describe('duplicate uploads', () => {
+  const FORMULARY = 'Cardiolex moves to Tier 2 on Aetna commercial plans from July 1.'
+
+  it('keeps the duplicate when the replacing upload fails to train', async () => {
+    const admin = await signIn('admin')
+    await upload(admin, 'formulary-july.txt', FORMULARY)
+
+    upstream.failTraining = true
+    const failed = await upload(admin, 'aetna-update.txt', FORMULARY, { duplicate: 'replace' })
+    expect(failed.status).not.toBe(200)
+    upstream.failTraining = false
+
+    expect((await getCatalogEntry(SALES_KB_ID, 'formulary-july.txt'))!.deleted_at).toBeUndefined()
+    expect(await listedNames(admin)).toContain('formulary-july.txt')
+  })
+
+  it('deletes the duplicate once the replacing upload has trained', async () => {
+    const admin = await signIn('admin')
+    await upload(admin, 'formulary-aug.txt', `${FORMULARY} Updated.`)
+
+    const replaced = await upload(admin, 'aetna-aug.txt', `${FORMULARY} Updated.`, { duplicate: 'replace' })
+    expect(replaced.status).toBe(200)
+
+    expect((await getCatalogEntry(SALES_KB_ID, 'formulary-aug.txt'))!.deleted_at).toBeDefined()
+    const names = await listedNames(admin)
+    expect(names).toContain('aetna-aug.txt')
+    expect(names).not.toContain('formulary-aug.txt')
+  })
+})
+
+describe('normalizeText', () => {
+  it('keeps lowercase letters and digits separated by single spaces', () => {
+    expect(normalizeText('  Café — RÉSUMÉ:\n\tQ2 *2026*  ')).toBe('cafe resume q2 2026')
+  })
+})
+
+describe('documentFingerprint', () => {
+  const rows = ['Territory,Product,Revenue', 'Northeast,Cardiolex,2400000', 'Southeast,Neurovia,1800000']
+
+  it('gives the same text hash for the same rows under another name and line ending', () => {
+    const lf = documentFingerprint('q2-sales.csv', bytes(rows.join('\n')))
+    const crlf = documentFingerprint('Q2 Sales (final).csv', bytes(rows.join('\r\n') + '\r\n'))
+    expect(lf.sha256).not.toBe(crlf.sha256)
+    expect(lf.text_hash).toBeDefined()
+    expect(lf.text_hash).toBe(crlf.text_hash)
+  })
+
+  it('gives the same text hash for Markdown and plain text with the same words', () => {
+    const markdown = documentFingerprint('guide.md', bytes('# Dosing guide\n\n**Cardiolex** is taken once daily with food.'))
+    const plain = documentFingerprint('guide.txt', bytes('Dosing guide. Cardiolex is taken once daily with food.'))
+    expect(markdown.text_hash).toBe(plain.text_hash)
+  })
+
+  it('hashes only the bytes of short or unreadable files', () => {
+    expect(documentFingerprint('note.txt', bytes('Call back'))).toEqual({ sha256: contentHash(bytes('Call back')) })
+    expect(documentFingerprint('deck.pptx', bytes('not a zip file at all, just some plain text here'))).toEqual({
+      sha256: contentHash(bytes('not a zip file at all, just some plain text here')),
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { resetEmulator } from '@/lib/lyzrEmulator'
+
+const MANAGER_AGENT_ID = '69a00df43dc260b752bd74d9'
+const SALES_KB_ID = '69a00d98f572c99c0ffb7691'
+
+const backend = getLyzrBackend()
+
+function post(url: string, body: unknown) {
+  return backend.fetch(url, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) })
+}
+
+beforeEach(() => resetEmulator())
+
+describe('getLyzrBackend', () => {
+  it('follows LYZR_BACKEND and accepts an explicit name', () => {
+    expect(backend.name).toBe('emulator')
+    expect(backend.taskUrl).toBe('http://agent.lyzr-emulator.local/v3/inference/chat/task')
+    expect(getLyzrBackend('lyzr').taskUrl).toBe('https://agent-prod.studio.lyzr.ai/v3/inference/chat/task')
+    expect(getLyzrBackend('replay').name).toBe('replay')
+  })
+})
+
+describe('emulated agent tasks', () => {
+  it('reports progress while processing, then the completed payload', async () => {
+    const submitted = await post(backend.taskUrl, { message: 'What was Q2 sales in the Northeast?', agent_id: MANAGER_AGENT_ID })
+    const { task_id } = await submitted.json()
+    expect(task_id).toMatch(/^[0-9a-f]{24}$/)
+
+    const processing = await (await backend.fetch(`${backend.taskUrl}/${task_id}`)).json()
+    expect(processing.status).toBe('processing')
+    expect(processing.progress.length).toBeGreaterThan(0)
+
+    await new Promise(r => setTimeout(r, 60))
+    const completed = await (await backend.fetch(`${backend.taskUrl}/${task_id}`)).json()
+    expect(completed.status).toBe('completed')
+    expect(JSON.parse(completed.response.response).compliance_status).toBeDefined()
+    expect(completed.response.module_outputs.sub_agent_outputs.every((s: any) => s.status === 'completed')).toBe(true)
+  })
+
+  it('rejects a task without a message and 404s unknown tasks', async () => {
+    expect((await post(backend.taskUrl, { agent_id: MANAGER_AGENT_ID })).status).toBe(422)
+    expect((await backend.fetch(`${backend.taskUrl}/missing`)).status).toBe(404)
+  })
+})
+
+describe('emulated knowledge bases', () => {
+  it('trains, lists and deletes documents', async () => {
+    const form = new FormData()
+    form.append('file', new File(['Cardiolex dosing guide'], 'guide.txt'))
+    const trained = await backend.fetch(`${backend.ragBaseUrl}/train/txt/?rag_id=${SALES_KB_ID}`, { method: 'POST', body: form })
+    expect(trained.status).toBe(200)
+
+    const listUrl = `${backend.ragBaseUrl}/rag/documents/${SALES_KB_ID}/`
+    expect(await (await backend.fetch(listUrl)).json()).toEqual(['storage/guide.txt'])
+
+    const remove = () => backend.fetch(`${backend.ragBaseUrl}/rag/${SALES_KB_ID}/docs/`, { method: 'DELETE', body: JSON.stringify(['guide.txt']) })
+    expect((await remove()).status).toBe(200)
+    expect((await remove()).status).toBe(404)
+    expect(await (await backend.fetch(listUrl)).json()).toEqual([])
+  })
+})
+
+describe('emulated scheduler', () => {
+  it('creates, triggers, pauses and deletes a schedule', async () => {
+    const base = backend.schedulerBaseUrl
+    const created = await post(`${base}/schedules/`, { agent_id: MANAGER_AGENT_ID, message: 'Weekly summary', cron_expression: '0 9 * * 1' })
+    expect(created.status).toBe(201)
+    const schedule = await created.json()
+
+    expect((await backend.fetch(`${base}/schedules/${schedule.id}/trigger`, { method: 'POST' })).status).toBe(202)
+    const logs = await (await backend.fetch(`${base}/schedules/${schedule.id}/logs`)).json()
+    expect(logs).toMatchObject({ total: 1, executions: [{ schedule_id: schedule.id, success: true }] })
+
+    const paused = await (await backend.fetch(`${base}/schedules/${schedule.id}/pause`, { method: 'POST' })).json()
+    expect(paused.is_active).toBe(false)
+    expect((await backend.fetch(`${base}/schedules/${schedule.id}`, { method: 'DELETE' })).status).toBe(204)
+    expect((await backend.fetch(`${base}/schedules/${schedule.id}`)).status).toBe(404)
+  })
+})
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GET, PATCH, POST } from '@/app/api/mir/route'
+import { loadAgentRegistry } from '@/lib/agentRegistry'
+import { pollAgentTask, submitAgentTask } from '@/lib/agentTasks'
+import type { AuthUser } from '@/lib/auth'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { runParallelOrchestration } from '@/lib/parallelOrchestrator'
+import { agentRouteFetch, apiRequest, MANAGER_AGENT_ID, signIn, sleep, type TestSession } from './helpers'
+
+const HCP_QUESTION = 'Which cardiology doctors should I see this week?'
+const CHEN = 'Dr. Sarah Chen - Cardiology, Mass General Hospital'
+
+const mir = (fields: Record<string, unknown> = {}) => ({
+  hcp: CHEN,
+  question: 'Can Cardiozen be used in pediatric patients?',
+  channel: 'email',
+  contact: 'schen@example.org',
+  ...fields,
+})
+
+const open = (session: TestSession, body: unknown) => POST(apiRequest('/api/mir', { method: 'POST', body, session }))
+const move = (session: TestSession, body: unknown) => PATCH(apiRequest('/api/mir', { method: 'PATCH', body, session }))
+
+async function ask(message: string, user: AuthUser) {
+  const backend = getLyzrBackend()
+  const submitted = await submitAgentTask({ message, agent_id: MANAGER_AGENT_ID, session_id: 'mir-session' }, backend, user)
+  for (let i = 0; i < 40; i++) {
+    const polled = await pollAgentTask(submitted.body.task_id, backend, user)
+    if (polled.body.status !== 'processing') return polled.body
+    await sleep(25)
+  }
+  throw new Error('task never finished')
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('HCP prefill', () => {
+  it('gives a rep the profiled HCPs without the sub-agent drafts', async () => {
+    const rep = await signIn('field_rep')
+    const answer = await ask(HCP_QUESTION, rep.user)
+
+    expect(answer.trace.steps.slice(1).every((step: any) => step.output === undefined)).toBe(true)
+    expect(answer.hcp_profiles).toContain(CHEN)
+  })
+
+  it('gives a rep the profiled HCPs in parallel mode', async () => {
+    const rep = await signIn('field_rep')
+    vi.stubGlobal('fetch', agentRouteFetch(rep))
+
+    const result = await runParallelOrchestration(HCP_QUESTION, await loadAgentRegistry(), { session_id: 'mir-parallel' })
+    expect(result.success).toBe(true)
+    expect(result.trace!.steps.every(step => !step.output?.profiles)).toBe(true)
+    expect(result.hcp_profiles).toContain(CHEN)
+  })
+})
+
+describe('/api/mir', () => {
+  it('opens a request for the HCP and shows reps only their own', async () => {
+    const rep = await signIn('field_rep', 'Rita Rep')
+    const otherRep = await signIn('field_rep')
+    const response = await open(rep, mir({ query_id: 'mir-query-1', session_id: 'mir-session' }))
+    expect(response.status).toBe(200)
+    const { request } = await response.json()
+    expect(request).toMatchObject({
+      status: 'open',
+      hcp: CHEN,
+      channel: 'email',
+      query_id: 'mir-query-1',
+      requested_by_name: 'Rita Rep',
+      history: [{ status: 'open', by_user_id: rep.user.id }],
+    })
+    await open(otherRep, mir())
+
+    const own = await (await GET(apiRequest('/api/mir', { session: rep }))).json()
+    expect(own.requests.map((r: any) => r.id)).toEqual([request.id])
+    const officer = await signIn('compliance_officer')
+    const all = await (await GET(apiRequest('/api/mir?status=open', { session: officer }))).json()
+    expect(all.requests.length).toBeGreaterThanOrEqual(2)
+    expect(all.requests[1].id).toBe(request.id)
+  })
+
+  it('rejects incomplete requests', async () => {
+    const rep = await signIn('field_rep')
+    const cases: [Record<string, unknown>, string][] = [
+      [{ hcp: '' }, 'The HCP is required'],
+      [{ question: ' ' }, "The HCP's question is required"],
+      [{ channel: 'fax' }, 'The response channel must be one of email, phone, letter, visit'],
+      [{ channel: 'phone', contact: '' }, 'Contact details are required to answer by phone'],
+    ]
+    for (const [fields, error] of cases) {
+      const response = await open(rep, mir(fields))
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe(error)
+    }
+    expect((await open(rep, mir({ channel: 'visit', contact: '' }))).status).toBe(200)
+  })
+
+  it('moves requests through the queue and keeps each change', async () => {
+    const rep = await signIn('field_rep')
+    const officer = await signIn('compliance_officer', 'Olive Officer')
+    const { request } = await (await open(rep, mir())).json()
+
+    for (const status of ['in_progress', 'answered', 'in_progress', 'answered', 'closed']) {
+      const response = await move(officer, { id: request.id, status, note: status === 'answered' ? 'Letter sent' : undefined })
+      expect(response.status).toBe(200)
+    }
+    const { requests } = await (await GET(apiRequest('/api/mir?status=closed', { session: rep }))).json()
+    const [closed] = requests
+    expect(closed.history.map((h: any) => h.status)).toEqual(['open', 'in_progress', 'answered', 'in_progress', 'answered', 'closed'])
+    expect(closed.history[2]).toMatchObject({ by_name: 'Olive Officer', note: 'Letter sent' })
+
+    const reopen = await move(officer, { id: request.id, status: 'open' })
+    expect(reopen.status).toBe(409)
+    expect((await reopen.json()).error).toBe(`Request ${request.id} is closed and cannot move to open`)
+  })
+
+  it('refuses moves that skip back, unknown requests and unknown statuses', async () => {
+    const rep = await signIn('field_rep')
+    const officer = await signIn('compliance_officer')
+    const { request } = await (await open(rep, mir())).json()
+    await move(officer, { id: request.id, status: 'in_progress' })
+
+    const back = await move(officer, { id: request.id, status: 'open' })
+    expect(back.status).toBe(409)
+    expect((await back.json()).error).toBe(`Request ${request.id} is in progress and cannot move to open`)
+    expect((await move(officer, { id: 'MIR-MISSING', status: 'closed' })).status).toBe(404)
+    expect((await move(officer, { id: request.id, status: 'escalated' })).status).toBe(400)
+    expect((await move(rep, { id: request.id, status: 'closed' })).status).toBe(403)
+  })
+})
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GET as auditRoute } from '@/app/api/audit/route'
+import { buildAgentRegistry, loadAgentRegistry } from '@/lib/agentRegistry'
+import { pollAgentTask, submitAgentTask } from '@/lib/agentTasks'
+import type { AuthUser } from '@/lib/auth'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { getParallelPlan, runParallelOrchestration, selectAgents } from '@/lib/parallelOrchestrator'
+import bundledState from '@/workflow_state.json'
+import { agentRouteFetch, apiRequest, MANAGER_AGENT_ID, signIn, sleep } from './helpers'
+
+const SALES_AGENT_ID = '69a00dc76fed800e9b9b52a9'
+const COMPLIANCE_AGENT_ID = '69a00ddcfddac4fa01fac4e7'
+const QUESTION = 'What was my Q2 sales performance in the Northeast territory?'
+
+async function finishedTask(message: string, agent_id: string, user: AuthUser, extra: Record<string, any> = {}) {
+  const backend = getLyzrBackend()
+  const submitted = await submitAgentTask({ message, agent_id, session_id: 'drafts-s1', ...extra }, backend, user)
+  let polled = await pollAgentTask(submitted.body.task_id, backend, user)
+  while (polled.body.status === 'processing') {
+    await sleep(25)
+    polled = await pollAgentTask(submitted.body.task_id, backend, user)
+  }
+  return { task_id: submitted.body.task_id as string, body: polled.body }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('getParallelPlan', () => {
+  it('reads the retrieval agents and the review agent from the workflow graph', async () => {
+    const plan = getParallelPlan(await loadAgentRegistry())
+    expect(plan.retrieval.map(a => a.node_id)).toEqual(['sales_agent', 'hcp_agent'])
+    expect(plan.review.node_id).toBe('compliance_agent')
+  })
+
+  it('refuses a graph without a single review agent before the output', () => {
+    const registry = buildAgentRegistry(bundledState, {
+      nodes: [
+        { id: 'sales_agent', type: 'Agent', label: 'Sales', nodeCategory: 'agent', agent: 'sales_territory_agent' },
+        { id: 'hcp_agent', type: 'Agent', label: 'HCP', nodeCategory: 'agent', agent: 'hcp_doctor_profile_agent' },
+        { id: 'output_node', type: 'Output', label: 'Output', nodeCategory: 'end' },
+      ],
+      edges: [
+        { source: 'sales_agent', target: 'output_node' },
+        { source: 'hcp_agent', target: 'output_node' },
+      ],
+    })
+    expect(() => getParallelPlan(registry)).toThrow('exactly one review agent')
+  })
+})
+
+describe('selectAgents', () => {
+  it('matches whole keywords and falls back to every agent', async () => {
+    const { retrieval } = getParallelPlan(await loadAgentRegistry())
+    expect(selectAgents('Q2 revenue in the Northeast', retrieval).map(a => a.node_id)).toEqual(['sales_agent'])
+    expect(selectAgents('Which doctors cover Q2 territory?', retrieval).map(a => a.node_id)).toEqual(['sales_agent', 'hcp_agent'])
+    expect(selectAgents('Hello there', retrieval)).toEqual(retrieval)
+  })
+})
+
+describe('runParallelOrchestration', () => {
+  it('answers through the selected agents and the review agent', async () => {
+    const admin = await signIn('admin')
+    vi.stubGlobal('fetch', agentRouteFetch(admin))
+    const registry = await loadAgentRegistry()
+    const statuses: string[] = []
+
+    const result = await runParallelOrchestration(QUESTION, registry, {
+      session_id: 'parallel-s1',
+      onStatus: status => statuses.push(status),
+    })
+
+    expect(result.success).toBe(true)
+    expect(statuses).toEqual(['processing', 'completed'])
+    expect(result.response.result).toMatchObject({ compliance_status: 'compliant', domains_accessed: ['Sales Data'] })
+    expect(result.response.result.answer).toContain('$2.4M')
+    expect(result.trace?.mode).toBe('parallel')
+    expect(result.trace?.steps.map(s => s.agent_name)).toEqual(['Sales & Territory Agent', 'Compliance Guard Agent'])
+    expect(result.trace?.steps[0].output?.answer).toContain('$2.4M')
+  })
+
+  it('gives a rep the released answer but no retrieval drafts', async () => {
+    const rep = await signIn('field_rep')
+    vi.stubGlobal('fetch', agentRouteFetch(rep))
+    const queryId = 'parallel-rep-query'
+
+    const result = await runParallelOrchestration(QUESTION, await loadAgentRegistry(), {
+      session_id: 'parallel-s3',
+      audit: { query_id: queryId, query: QUESTION, orchestration_mode: 'parallel' },
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.response.result.answer).toContain('$2.4M')
+    expect(result.response.result.domains_accessed).toEqual(['Sales Data'])
+    const [sales] = result.trace!.steps
+    expect(sales.output).toEqual({ domain: 'Sales Data', sources: expect.any(Array) })
+    expect(sales.confidence).toBeDefined()
+
+    // The audit log hides the drafts from a manager, not from a reviewer
+    const manager = await signIn('district_manager')
+    const officer = await signIn('compliance_officer')
+    const entryFor = async (session: typeof rep) =>
+      (await (await auditRoute(apiRequest(`/api/audit?q=${encodeURIComponent(QUESTION)}`, { session }))).json())
+        .entries.find((e: any) => e.query_id === queryId)
+    const asManager = await entryFor(manager)
+    expect(asManager.steps[0]).toMatchObject({ agent_role: 'retrieval', response: '' })
+    expect(asManager.trace.steps[0].output).toBeUndefined()
+    expect(asManager.review).toBeUndefined()
+    const asOfficer = await entryFor(officer)
+    expect(asOfficer.steps[0].response).toContain('$2.4M')
+    expect(asOfficer.review.draft).toContain('### Sales Data')
+  })
+
+  it('reports a broken workflow as a failure', async () => {
+    const registry = { ...(await loadAgentRegistry()), workflow: { nodes: [], edges: [] } }
+    const result = await runParallelOrchestration('Q2 sales', registry, { session_id: 'parallel-s2' })
+    expect(result).toMatchObject({ success: false, error: 'Workflow has no output node' })
+  })
+})
+
+describe('drafts held on the server', () => {
+  it('answers a rep polling a retrieval task with where it looked, not what it found', async () => {
+    const rep = (await signIn('field_rep')).user
+    const admin = (await signIn('admin')).user
+
+    const asRep = await finishedTask(QUESTION, SALES_AGENT_ID, rep)
+    expect(asRep.body.response.result).toEqual({ domain: 'Sales Data', confidence: expect.any(String), sources: expect.any(Array) })
+    expect(asRep.body.validation.data).toEqual(asRep.body.response.result)
+    expect(asRep.body.raw_response).toBeUndefined()
+    expect(JSON.stringify(asRep.body)).not.toContain('$2.4M')
+
+    const asAdmin = await finishedTask(QUESTION, SALES_AGENT_ID, admin)
+    expect(asAdmin.body.response.result.answer).toContain('$2.4M')
+  })
+
+  it('builds the review prompt only from finished retrieval tasks of the same user', async () => {
+    const rep = (await signIn('field_rep')).user
+    const otherRep = (await signIn('field_rep')).user
+    const backend = getLyzrBackend()
+    const draft = await finishedTask(QUESTION, SALES_AGENT_ID, rep)
+
+    const review = await finishedTask(QUESTION, COMPLIANCE_AGENT_ID, rep, { draft_task_ids: [draft.task_id] })
+    expect(review.body.released).toContain('$2.4M')
+
+    const cases: [string, Record<string, any>, AuthUser, string][] = [
+      [COMPLIANCE_AGENT_ID, { draft_task_ids: [draft.task_id] }, otherRep, `Task ${draft.task_id} is not a finished retrieval task of this user`],
+      [COMPLIANCE_AGENT_ID, { draft_task_ids: [review.task_id] }, rep, `Task ${review.task_id} is not a finished retrieval task of this user`],
+      [COMPLIANCE_AGENT_ID, { draft_task_ids: [] }, rep, 'draft_task_ids must be a non-empty array of task ids'],
+      [MANAGER_AGENT_ID, { draft_task_ids: [draft.task_id] }, rep, 'draft_task_ids can only be sent to a compliance review agent'],
+    ]
+    for (const [agent_id, extra, user, error] of cases) {
+      const submitted = await submitAgentTask({ message: QUESTION, agent_id, session_id: 'drafts-s1', ...extra }, backend, user)
+      expect(submitted).toMatchObject({ status: 400, body: { error } })
+    }
+  })
+})
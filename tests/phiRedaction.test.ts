@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { pollAgentTask, submitAgentTask } from '@/lib/agentTasks'
+import type { AuthUser } from '@/lib/auth'
+import { getLyzrBackend } from '@/lib/lyzrBackend'
+import { describeRedactions, loadRedactionRules, phiVaultId, redactText, restoreTokens } from '@/lib/phiRedaction'
+import { signIn, sleep } from './helpers'
+
+const COMPLIANCE_AGENT_ID = '69a00ddcfddac4fa01fac4e7'
+
+describe('PHI redaction', () => {
+  it('masks identifiers with per-category tokens', async () => {
+    const rules = await loadRedactionRules()
+    const { text, redactions } = redactText(
+      'Patient John Smith (MRN: A12345, DOB 04/12/1961) called from 555-867-5309, email jsmith@example.com, SSN 123-45-6789.',
+      'phi-mask',
+      rules
+    )
+    expect(text).toBe(
+      'Patient [PATIENT_NAME_1] (MRN: [MRN_1], DOB [DATE_OF_BIRTH_1]) called from [PHONE_1], email [EMAIL_1], SSN [SSN_1].'
+    )
+    expect(redactions.map(r => r.category).sort()).toEqual(['date_of_birth', 'email', 'mrn', 'patient_name', 'phone', 'ssn'])
+    expect(describeRedactions(redactions)).toContain('[EMAIL_1] (email address)')
+  })
+
+  it('reuses a token for the same value within a session', async () => {
+    const rules = await loadRedactionRules()
+    const first = redactText('Call (555) 867-5309 today', 'phi-reuse', rules)
+    const second = redactText('or +1 555.867.5309 tomorrow', 'phi-reuse', rules)
+    expect(first.text).toBe('Call [PHONE_1] today')
+    expect(second.text).toBe('or [PHONE_1] tomorrow')
+  })
+
+  it('tells NPIs from phone numbers by the check digit', async () => {
+    const rules = await loadRedactionRules()
+    expect(redactText('Prescriber 1234567893', 'phi-npi', rules).text).toBe('Prescriber [NPI_1]')
+    expect(redactText('Prescriber 1234567890', 'phi-npi', rules).text).toBe('Prescriber [PHONE_1]')
+  })
+
+  it('stops a patient name at an allowlisted word', async () => {
+    const rules = await loadRedactionRules()
+    expect(redactText('Enroll patient Maria Lopez Assistance Program', 'phi-allow', rules).text)
+      .toBe('Enroll patient [PATIENT_NAME_1] Assistance Program')
+  })
+
+  it('leaves text without identifiers alone', async () => {
+    const rules = await loadRedactionRules()
+    expect(redactText('What was Q3 revenue in the Northeast?', 'phi-none', rules)).toEqual({
+      text: 'What was Q3 revenue in the Northeast?',
+      redactions: [],
+    })
+  })
+
+  it('restores only the given tokens, from the same user and session', async () => {
+    const rules = await loadRedactionRules()
+    const vault = phiVaultId('usr_a', 'phi-restore')
+    const earlier = redactText('Call 555-867-5309', vault, rules)
+    const { text, redactions } = redactText('Follow up with jdoe@example.com', vault, rules)
+    const answer = {
+      answer: `Email sent to ${text.split(' ').pop()}`,
+      data_points: ['[EMAIL_1] confirmed', '[PHONE_1] from an earlier question', '[EMAIL_9] unknown'],
+    }
+
+    expect(earlier.text).toBe('Call [PHONE_1]')
+    expect(restoreTokens(answer, vault, redactions)).toEqual({
+      answer: 'Email sent to jdoe@example.com',
+      data_points: ['jdoe@example.com confirmed', '[PHONE_1] from an earlier question', '[EMAIL_9] unknown'],
+    })
+    expect(restoreTokens(answer, phiVaultId('usr_b', 'phi-restore'), redactions)).toBe(answer)
+    expect(restoreTokens(answer, vault, [])).toBe(answer)
+  })
+})
+
+describe('PHI in agent tasks', () => {
+  async function complianceAnswer(message: string, sessionId: string, user: AuthUser) {
+    const backend = getLyzrBackend()
+    const submitted = await submitAgentTask({ message, agent_id: COMPLIANCE_AGENT_ID, session_id: sessionId }, backend, user)
+    for (let i = 0; i < 40; i++) {
+      const polled = await pollAgentTask(submitted.body.task_id, backend, user)
+      if (polled.body.status !== 'processing') return JSON.stringify(polled.body.response)
+      await sleep(25)
+    }
+    throw new Error('task never finished')
+  }
+
+  it('gives values back only to the user and task that masked them', async () => {
+    const repA = (await signIn('field_rep')).user
+    const repB = (await signIn('field_rep')).user
+
+    const own = await complianceAnswer('Patient John Smith reported dizziness', 'shared-session', repA)
+    expect(own).toContain('John Smith')
+
+    // Another user sending the same session id, and a later task that only echoes the token
+    const other = await complianceAnswer('Who is [PATIENT_NAME_1]?', 'shared-session', repB)
+    const later = await complianceAnswer('Who is [PATIENT_NAME_1]?', 'shared-session', repA)
+    for (const answer of [other, later]) {
+      expect(answer).toContain('[PATIENT_NAME_1]')
+      expect(answer).not.toContain('John Smith')
+    }
+  })
+})
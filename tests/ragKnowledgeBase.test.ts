@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MAX_UPLOAD_BYTES, uploadAndTrainDocument, validateFile, type UploadProgress } from '@/lib/ragKnowledgeBase'
+
+const SALES_KB_ID = '69a00d98f572c99c0ffb7691'
+
+/** Stands in for the browser's XMLHttpRequest; `respond` plays the server's side */
+class FakeXhr {
+  static requests: FakeXhr[] = []
+  static respond: (xhr: FakeXhr) => void = () => {}
+
+  url = ''
+  body: FormData | null = null
+  status = 0
+  responseText = ''
+  upload: { onprogress?: (e: any) => void; onload?: (e: any) => void } = {}
+  onload?: () => void
+  onerror?: () => void
+  ontimeout?: () => void
+
+  open(_method: string, url: string) {
+    this.url = url
+  }
+
+  send(body: FormData) {
+    this.body = body
+    FakeXhr.requests.push(this)
+    setTimeout(() => FakeXhr.respond(this), 0)
+  }
+
+  /** Send the body in two halves, then answer */
+  reply(status: number, body: unknown) {
+    this.upload.onprogress?.({ lengthComputable: true, loaded: 5, total: 10 })
+    this.upload.onprogress?.({ lengthComputable: true, loaded: 10, total: 10 })
+    this.upload.onload?.({ total: 10 })
+    this.status = status
+    this.responseText = typeof body === 'string' ? body : JSON.stringify(body)
+    this.onload?.()
+  }
+}
+
+function file(name: string, content = 'Q2 sales', type = ''): File {
+  return new File([content], name, { type })
+}
+
+afterEach(() => {
+  FakeXhr.requests = []
+  vi.unstubAllGlobals()
+})
+
+describe('validateFile', () => {
+  it('accepts supported types by MIME type or extension', () => {
+    expect(validateFile(file('q2.pdf', 'x', 'application/pdf'))).toEqual({ valid: true })
+    expect(validateFile(file('Q2 Report.XLSX'))).toEqual({ valid: true })
+    expect(validateFile(file('notes.md'))).toEqual({ valid: true })
+  })
+
+  it('refuses unsupported, empty and oversized files before they are queued', () => {
+    expect(validateFile(file('setup.exe')).error).toBe(
+      'Unsupported file type: .exe. Supported: PDF, DOCX, TXT, CSV, XLSX, PPTX, Markdown, HTML'
+    )
+    expect(validateFile(file('README')).error).toContain('Unsupported file type: unknown')
+    expect(validateFile(file('empty.txt', ''))).toEqual({ valid: false, error: 'File is empty' })
+
+    const big = file('big.pdf', 'x', 'application/pdf')
+    Object.defineProperty(big, 'size', { value: MAX_UPLOAD_BYTES + 1 })
+    expect(validateFile(big)).toEqual({ valid: false, error: 'File too large. Maximum size is 50MB.' })
+  })
+})
+
+describe('uploadAndTrainDocument', () => {
+  it('reports the bytes sent, then training, then the server result', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr)
+    FakeXhr.respond = xhr => xhr.reply(200, { success: true, message: 'Trained', version: 1 })
+    const progress: UploadProgress[] = []
+
+    const result = await uploadAndTrainDocument(SALES_KB_ID, file('q2.csv'), p => progress.push(p))
+    expect(result).toMatchObject({ success: true, version: 1 })
+    expect(progress).toEqual([
+      { phase: 'uploading', loaded: 5, total: 10 },
+      { phase: 'uploading', loaded: 10, total: 10 },
+      { phase: 'training', loaded: 10, total: 10 },
+    ])
+
+    const [request] = FakeXhr.requests
+    expect(request.url).toBe('/api/rag')
+    expect(request.body!.get('ragId')).toBe(SALES_KB_ID)
+    // A file without a MIME type is sent with the one its extension implies
+    expect((request.body!.get('file') as File).type).toBe('text/csv')
+    expect(request.body!.has('duplicate')).toBe(false)
+  })
+
+  it('returns duplicates for the user to resolve and resends with their choice', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr)
+    const duplicates = [{ rag_id: SALES_KB_ID, document_name: 'q2.txt', kb_label: 'Sales' }]
+    FakeXhr.respond = xhr => xhr.reply(409, { success: false, error: 'Already in the knowledge base', duplicates })
+    expect(await uploadAndTrainDocument(SALES_KB_ID, file('q2 copy.txt'))).toMatchObject({ success: false, duplicates })
+
+    FakeXhr.respond = xhr => xhr.reply(200, { success: true })
+    await uploadAndTrainDocument(SALES_KB_ID, file('q2 copy.txt'), undefined, 'replace')
+    expect(FakeXhr.requests[1].body!.get('duplicate')).toBe('replace')
+  })
+
+  it('turns server and network failures into a failed result with the reason', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr)
+    const failures: [(xhr: FakeXhr) => void, string][] = [
+      [xhr => xhr.reply(500, { success: false, error: 'Training failed' }), 'Training failed'],
+      [xhr => xhr.reply(413, '<html>Payload Too Large</html>'), 'Upload failed with status 413. The file may be too large or the server timed out.'],
+      [xhr => xhr.reply(200, 'not json'), 'Unexpected response from server'],
+      [xhr => xhr.onerror?.(), 'Network error during upload'],
+      [xhr => xhr.ontimeout?.(), 'Upload timed out'],
+    ]
+    for (const [respond, error] of failures) {
+      FakeXhr.respond = respond
+      expect(await uploadAndTrainDocument(SALES_KB_ID, file('q2.txt'))).toEqual({ success: false, error })
+    }
+  })
+
+  it('does not send files of an unsupported type', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr)
+    const result = await uploadAndTrainDocument(SALES_KB_ID, file('setup.exe', 'x', 'application/x-msdownload'))
+    expect(result.success).toBe(false)
+    expect(FakeXhr.requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest'
+import * as adverseEvents from '@/app/api/adverse-events/route'
+import * as audit from '@/app/api/audit/route'
+import * as users from '@/app/api/auth/users/route'
+import * as evalRoute from '@/app/api/eval/route'
+import * as mir from '@/app/api/mir/route'
+import * as rag from '@/app/api/rag/route'
+import * as ragVersions from '@/app/api/rag/versions/route'
+import * as sales from '@/app/api/sales/route'
+import * as scheduler from '@/app/api/scheduler/route'
+import * as workflow from '@/app/api/workflow/route'
+import * as workspace from '@/app/api/workspace/route'
+import { hasPermission, permissionDeniedMessage, ROLE_PERMISSIONS, roleLabel, type UserRole } from '@/lib/roles'
+import { apiRequest, signIn, type TestSession } from './helpers'
+
+type Handler = (request: any) => Promise<Response>
+
+const SALES_KB_ID = '69a00d98f572c99c0ffb7691'
+
+function uploadForm(): FormData {
+  const form = new FormData()
+  form.append('ragId', SALES_KB_ID)
+  form.append('file', new Blob(['Q2 sales'], { type: 'text/plain' }), 'q2.txt')
+  return form
+}
+
+/** A protected action, the roles that must be refused, and the action their 403 names */
+interface ProtectedAction {
+  name: string
+  handler: Handler
+  method: string
+  path: string
+  body?: () => unknown
+  denied: UserRole[]
+  action: string
+}
+
+const CASES: ProtectedAction[] = [
+  {
+    name: 'delete KB documents',
+    handler: rag.DELETE,
+    method: 'DELETE',
+    path: '/api/rag',
+    body: () => ({ ragId: SALES_KB_ID, documentNames: ['q2.txt'] }),
+    denied: ['field_rep', 'district_manager', 'compliance_officer'],
+    action: 'delete knowledge base documents',
+  },
+  {
+    name: 'upload KB documents',
+    handler: rag.POST,
+    method: 'POST',
+    path: '/api/rag',
+    body: uploadForm,
+    denied: ['field_rep', 'compliance_officer'],
+    action: 'add documents to the knowledge base',
+  },
+  {
+    name: 'restore a KB document version',
+    handler: ragVersions.POST,
+    method: 'POST',
+    path: '/api/rag/versions',
+    body: () => ({}),
+    denied: ['field_rep', 'compliance_officer'],
+    action: 'add documents to the knowledge base',
+  },
+  {
+    name: 'load sales data',
+    handler: sales.POST,
+    method: 'POST',
+    path: '/api/sales',
+    body: () => ({}),
+    denied: ['field_rep', 'compliance_officer'],
+    action: 'add documents to the knowledge base',
+  },
+  {
+    name: 'read the audit log',
+    handler: audit.GET,
+    method: 'GET',
+    path: '/api/audit',
+    denied: ['field_rep'],
+    action: 'view the audit log',
+  },
+  {
+    name: 'export the audit log',
+    handler: audit.GET,
+    method: 'GET',
+    path: '/api/audit?format=csv',
+    denied: ['field_rep', 'district_manager'],
+    action: 'export the audit log',
+  },
+  {
+    name: 'create schedules',
+    handler: scheduler.POST,
+    method: 'POST',
+    path: '/api/scheduler',
+    body: () => ({ action: 'create' }),
+    denied: ['field_rep', 'compliance_officer'],
+    action: 'change schedules',
+  },
+  {
+    name: 'delete schedules',
+    handler: scheduler.DELETE,
+    method: 'DELETE',
+    path: '/api/scheduler?scheduleId=s1',
+    denied: ['field_rep', 'compliance_officer'],
+    action: 'change schedules',
+  },
+  {
+    name: 'save the workflow',
+    handler: workflow.POST,
+    method: 'POST',
+    path: '/api/workflow',
+    body: () => ({}),
+    denied: ['field_rep', 'district_manager', 'compliance_officer'],
+    action: 'edit the workflow',
+  },
+  {
+    name: 'switch orchestration mode',
+    handler: workspace.PATCH,
+    method: 'PATCH',
+    path: '/api/workspace',
+    body: () => ({ orchestrationMode: 'parallel' }),
+    denied: ['field_rep', 'district_manager', 'compliance_officer'],
+    action: 'edit the workflow',
+  },
+  {
+    name: 'run the eval suite',
+    handler: evalRoute.POST,
+    method: 'POST',
+    path: '/api/eval',
+    body: () => ({}),
+    denied: ['field_rep', 'district_manager', 'compliance_officer'],
+    action: 'run the eval suite',
+  },
+  {
+    name: 'list users',
+    handler: users.GET,
+    method: 'GET',
+    path: '/api/auth/users',
+    denied: ['field_rep', 'district_manager', 'compliance_officer'],
+    action: 'manage users',
+  },
+  {
+    name: 'read AE reports',
+    handler: adverseEvents.GET,
+    method: 'GET',
+    path: '/api/adverse-events',
+    denied: ['field_rep', 'district_manager'],
+    action: 'view adverse event reports',
+  },
+  {
+    name: 'work the MIR queue',
+    handler: mir.PATCH,
+    method: 'PATCH',
+    path: '/api/mir',
+    body: () => ({}),
+    denied: ['field_rep', 'district_manager'],
+    action: 'work the medical information queue',
+  },
+]
+
+describe('role permissions', () => {
+  it('grants admins everything and reps only reading and reporting', () => {
+    expect(ROLE_PERMISSIONS.field_rep).toEqual(['kb.read', 'schedules.read', 'adverse_events.report', 'mir.create'])
+    for (const role of ['field_rep', 'district_manager', 'compliance_officer'] as UserRole[]) {
+      expect(hasPermission(role, 'kb.delete')).toBe(false)
+      expect(hasPermission(role, 'users.manage')).toBe(false)
+    }
+    expect(hasPermission('admin', 'kb.delete')).toBe(true)
+    expect(hasPermission('compliance_officer', 'reviews.decide')).toBe(true)
+    expect(hasPermission('nobody' as UserRole, 'kb.read')).toBe(false)
+  })
+
+  it('names the role and the action in denials', () => {
+    expect(permissionDeniedMessage('field_rep', 'kb.delete')).toBe('Field Reps cannot delete knowledge base documents')
+  })
+})
+
+describe('protected routes', () => {
+  const sessions = new Map<UserRole, TestSession>()
+  const session = async (role: UserRole) => sessions.get(role) || sessions.set(role, await signIn(role)).get(role)!
+
+  for (const c of CASES) {
+    it(`refuse to ${c.name} without the permission`, async () => {
+      const request = (s?: TestSession) => apiRequest(c.path, { method: c.method, body: c.body?.(), session: s })
+
+      expect((await c.handler(request())).status).toBe(401)
+      for (const role of c.denied) {
+        const response = await c.handler(request(await session(role)))
+        expect(response.status).toBe(403)
+        expect((await response.json()).error).toBe(`${roleLabel(role)}s cannot ${c.action}`)
+      }
+    })
+  }
+
+  it('let the roles with the permission through', async () => {
+    const admin = await session('admin')
+    // Past the permission check, the request itself is what fails
+    const deleted = await rag.DELETE(apiRequest('/api/rag', { method: 'DELETE', body: {}, session: admin }))
+    expect(deleted.status).toBe(400)
+
+    const manager = await session('district_manager')
+    expect((await audit.GET(apiRequest('/api/audit', { session: manager }))).status).toBe(200)
+    const officer = await session('compliance_officer')
+    expect((await audit.GET(apiRequest('/api/audit?format=csv', { session: officer }))).status).toBe(200)
+    expect((await adverseEvents.GET(apiRequest('/api/adverse-events', { session: officer }))).status).toBe(200)
+    const rep = await session('field_rep')
+    expect((await scheduler.GET(apiRequest('/api/scheduler', { session: rep }))).status).not.toBe(403)
+  })
+})
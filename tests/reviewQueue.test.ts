@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { GET as outcomesRoute } from '@/app/api/reviews/outcomes/route'
+import { GET, POST } from '@/app/api/reviews/route'
+import { auditTask } from '@/lib/auditStore'
+import type { RegisteredTask } from '@/lib/taskRegistry'
+import { apiRequest, MANAGER_AGENT_ID, signIn, type TestSession } from './helpers'
+
+let taskCount = 0
+
+/** An audited manager answer with the given compliance status */
+async function answer(session: TestSession, compliance_status: string, sessionId = 'review-s1') {
+  taskCount++
+  const task: RegisteredTask = {
+    task_id: `review-task-${taskCount}`,
+    agent_id: MANAGER_AGENT_ID,
+    session_id: sessionId,
+    user_id: session.user.id,
+    user_name: session.user.name,
+    message: `Question ${taskCount}`,
+    status: 'completed',
+    submitted_at: new Date().toISOString(),
+    audit: { query_id: `review-query-${taskCount}`, query: `Question ${taskCount}` },
+  }
+  const record = await auditTask(task, {
+    status: 'completed',
+    payload: { answer: `Answer ${taskCount}`, compliance_status, flags: ['SUPERLATIVE_CLAIM: "best"'] },
+  })
+  return record!
+}
+
+const decide = (session: TestSession, body: unknown) => POST(apiRequest('/api/reviews', { method: 'POST', body, session }))
+
+describe('/api/reviews', () => {
+  it('lists flagged and redacted answers to compliance officers only', async () => {
+    const rep = await signIn('field_rep')
+    const flagged = await answer(rep, 'FLAGGED')
+    const redacted = await answer(rep, 'REDACTED')
+    await answer(rep, 'COMPLIANT')
+
+    expect((await GET(apiRequest('/api/reviews', { session: rep }))).status).toBe(403)
+    expect((await GET(apiRequest('/api/reviews', { session: await signIn('district_manager') }))).status).toBe(403)
+    expect((await GET(apiRequest('/api/reviews'))).status).toBe(401)
+
+    const officer = await signIn('compliance_officer')
+    const queue = await (await GET(apiRequest('/api/reviews', { session: officer }))).json()
+    expect(queue.state).toBe('pending')
+    const ids = queue.items.map((i: any) => i.entry.id)
+    expect(ids).toEqual(expect.arrayContaining([flagged.id, redacted.id]))
+    expect(queue.items.every((i: any) => ['flagged', 'redacted'].includes(i.entry.status) && i.decision === null)).toBe(true)
+  })
+
+  it('records one decision per answer and moves it out of the pending queue', async () => {
+    const rep = await signIn('field_rep')
+    const officer = await signIn('compliance_officer', 'Olive Officer')
+    const entry = await answer(rep, 'FLAGGED')
+
+    const response = await decide(officer, { entry_id: entry.id, decision: 'approved' })
+    expect(response.status).toBe(200)
+    expect((await response.json()).decision).toMatchObject({
+      entry_id: entry.id,
+      decision: 'approved',
+      original_status: 'flagged',
+      decided_by: 'compliance_officer',
+      decided_by_user_id: officer.user.id,
+      decided_by_name: 'Olive Officer',
+    })
+
+    const again = await decide(officer, { entry_id: entry.id, decision: 'rejected', reason: 'Changed my mind' })
+    expect(again.status).toBe(409)
+    expect((await again.json()).error).toBe(`Audit entry ${entry.id} was already approved`)
+
+    const pending = await (await GET(apiRequest('/api/reviews', { session: officer }))).json()
+    expect(pending.items.some((i: any) => i.entry.id === entry.id)).toBe(false)
+    const decided = await (await GET(apiRequest('/api/reviews?state=decided', { session: officer }))).json()
+    expect(decided.items.find((i: any) => i.entry.id === entry.id).decision.decision).toBe('approved')
+  })
+
+  it('rejects decisions that cannot be applied', async () => {
+    const rep = await signIn('field_rep')
+    const officer = await signIn('compliance_officer')
+    const flagged = await answer(rep, 'FLAGGED')
+    const compliant = await answer(rep, 'COMPLIANT')
+
+    const cases: [unknown, number, string][] = [
+      [{ entry_id: flagged.id, decision: 'rejected' }, 400, 'A reason is required to reject an answer'],
+      [{ entry_id: flagged.id, decision: 'released', answer: '  ' }, 400, 'The edited answer is required to release it'],
+      [{ entry_id: flagged.id, decision: 'escalated' }, 400, 'entry_id and decision (approved, rejected, released) are required'],
+      [{ entry_id: 'audit-missing', decision: 'approved' }, 404, 'Audit entry audit-missing not found'],
+      [{ entry_id: compliant.id, decision: 'approved' }, 409, `Audit entry ${compliant.id} is compliant, not awaiting review`],
+    ]
+    for (const [body, status, error] of cases) {
+      const response = await decide(officer, body)
+      expect(response.status).toBe(status)
+      expect((await response.json()).error).toBe(error)
+    }
+
+    expect((await decide(rep, { entry_id: flagged.id, decision: 'approved' })).status).toBe(403)
+  })
+})
+
+describe('/api/reviews/outcomes', () => {
+  it('shows the rep the outcome of their own answers in the session', async () => {
+    const rep = await signIn('field_rep')
+    const otherRep = await signIn('field_rep')
+    const officer = await signIn('compliance_officer')
+    const rejected = await answer(rep, 'FLAGGED', 'outcome-s1')
+    const released = await answer(rep, 'REDACTED', 'outcome-s1')
+    const pending = await answer(rep, 'FLAGGED', 'outcome-s1')
+    await decide(officer, { entry_id: rejected.id, decision: 'rejected', reason: 'Off-label claim' })
+    await decide(officer, { entry_id: released.id, decision: 'released', answer: 'Edited answer' })
+
+    const outcomes = await (await outcomesRoute(apiRequest('/api/reviews/outcomes?session_id=outcome-s1', { session: rep }))).json()
+    const byEntry = Object.fromEntries(outcomes.outcomes.map((o: any) => [o.entry_id, o]))
+    expect(byEntry[rejected.id]).toMatchObject({ status: 'rejected', reason: 'Off-label claim', query_id: rejected.query_id })
+    expect(byEntry[released.id]).toMatchObject({ status: 'released', released_answer: 'Edited answer' })
+    expect(byEntry[pending.id]).toEqual({ entry_id: pending.id, query_id: pending.query_id, status: 'pending' })
+
+    const others = await (await outcomesRoute(apiRequest('/api/reviews/outcomes?session_id=outcome-s1', { session: otherRep }))).json()
+    expect(others.outcomes).toEqual([])
+    expect((await outcomesRoute(apiRequest('/api/reviews/outcomes', { session: rep }))).status).toBe(400)
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest'
+import type { AuthUser } from '@/lib/auth'
+import {
+  buildSalesSql,
+  computeSalesAnswer,
+  loadSalesFile,
+  normalizePeriod,
+  planSalesQuery,
+  runSalesQuery,
+  SalesDataError,
+  type SalesCatalog,
+  type SalesQuery,
+} from '@/lib/salesData'
+
+const catalog: SalesCatalog = {
+  row_count: 8,
+  territories: ['Northeast', 'Southeast', 'Midwest'],
+  products: ['Cardiolex', 'Neurovia'],
+  periods: ['2025-Q1', '2025-Q2', '2026-Q1', '2026-Q2'],
+}
+
+const admin: AuthUser = {
+  id: 'usr_admin',
+  email: 'admin@example.com',
+  name: 'Admin',
+  role: 'admin',
+  provider: 'local',
+  created_at: '2026-01-01T00:00:00.000Z',
+}
+
+describe('normalizePeriod', () => {
+  it.each([
+    ['Q2 2026', '2026-Q2'],
+    ['q2-26', '2026-Q2'],
+    ["Q2 '26", '2026-Q2'],
+    ['FY26 Q2', '2026-Q2'],
+    ['2026Q2', '2026-Q2'],
+    ['2026-4', '2026-04'],
+    ['2026/04/15', '2026-04'],
+    ['April 2026', '2026-04'],
+    ['Apr-2026', '2026-04'],
+    ['46113', '2026-04'],
+    ['H1 2026', 'H1 2026'],
+  ])('%s → %s', (value, expected) => {
+    expect(normalizePeriod(value)).toBe(expected)
+  })
+})
+
+describe('planSalesQuery', () => {
+  it('filters by the territory and the latest quarter of that name', () => {
+    expect(planSalesQuery('What was my Q2 sales performance in the Northeast territory?', catalog)).toEqual({
+      metric: 'revenue',
+      filters: { territory: ['Northeast'], period: ['2026-Q2'] },
+    })
+  })
+
+  it('groups and ranks for "top N"', () => {
+    expect(planSalesQuery('Top 2 territories by TRx in Q1 2025', catalog)).toEqual({
+      metric: 'trx',
+      group_by: 'territory',
+      filters: { period: ['2025-Q1'] },
+      order: 'desc',
+      limit: 2,
+    })
+  })
+
+  it('compares two named periods', () => {
+    expect(planSalesQuery('How did Cardiolex revenue change from Q1 2026 to Q2 2026?', catalog)).toEqual({
+      metric: 'revenue',
+      filters: { product: ['Cardiolex'] },
+      compare: ['2026-Q1', '2026-Q2'],
+    })
+  })
+
+  it('picks attainment and the lowest group', () => {
+    expect(planSalesQuery('Which product has the lowest attainment against quota?', catalog)).toEqual({
+      metric: 'attainment',
+      group_by: 'product',
+      order: 'asc',
+      limit: 1,
+    })
+  })
+
+  it('returns null for questions without a sales figure', () => {
+    expect(planSalesQuery('Which HCPs are assigned to me?', catalog)).toBeNull()
+  })
+})
+
+describe('buildSalesSql', () => {
+  it('binds filter values as parameters', () => {
+    const { sql, params, columns } = buildSalesSql({
+      metric: 'revenue',
+      group_by: 'product',
+      filters: { territory: ["Northeast' OR 1=1 --"] },
+      order: 'desc',
+      limit: 3,
+    })
+    expect(sql).toBe([
+      'SELECT product, ROUND(SUM(revenue), 2) AS value',
+      'FROM sales',
+      'WHERE territory IN (?)',
+      'GROUP BY product',
+      'ORDER BY value DESC',
+      'LIMIT 3',
+    ].join('\n'))
+    expect(params).toEqual(["Northeast' OR 1=1 --"])
+    expect(columns).toEqual(['product', 'Revenue'])
+  })
+
+  it('orders SELECT parameters before WHERE parameters for a comparison', () => {
+    const { params } = buildSalesSql({ metric: 'trx', filters: { product: ['Cardiolex'] }, compare: ['2026-Q1', '2026-Q2'] })
+    expect(params).toEqual([
+      '2026-Q1', '2026-Q2', '2026-Q2', '2026-Q1', '2026-Q2', '2026-Q1', '2026-Q1',
+      'Cardiolex', '2026-Q1', '2026-Q2',
+    ])
+  })
+
+  it.each([
+    ['an unknown metric', { metric: 'revenue); DROP TABLE sales; --' }],
+    ['an inherited property as the metric', { metric: 'constructor' }],
+    ['an order that is not asc or desc', { metric: 'revenue', group_by: 'territory', order: 'DESC; DROP TABLE sales' }],
+    ['a limit that is not a number', { metric: 'revenue', group_by: 'territory', limit: '1; DROP TABLE sales' }],
+    ['an infinite limit', { metric: 'revenue', group_by: 'territory', limit: Infinity }],
+    ['a grouping that is not a dimension', { metric: 'revenue', group_by: 'source' }],
+    ['a comparison of one period', { metric: 'revenue', compare: ['2026-Q1', '2026-Q1'] }],
+    ['a filter value that is not a string', { metric: 'revenue', filters: { territory: [{ toString: () => "x' OR '1'='1" }] } }],
+  ])('rejects %s', (_, query) => {
+    expect(() => buildSalesSql(query as unknown as SalesQuery)).toThrow(SalesDataError)
+  })
+})
+
+describe('loaded sales data', () => {
+  const csv = [
+    'Region,Brand,Quarter,Net Sales,Target,TRx',
+    'Northeast,Cardiolex,Q1 2026,"$1,000.00",800,40',
+    'Northeast,Cardiolex,Q2 2026,"$1,500.00",1000,55',
+    'Southeast,Cardiolex,Q2 2026,$700,1000,20',
+    'Midwest,Neurovia,Q2 2026,not a number,500,10',
+  ].join('\n')
+
+  it('loads a CSV and answers from it with exact figures', async () => {
+    const load = await loadSalesFile('sales.csv', new TextEncoder().encode(csv), admin)
+    expect(load).toMatchObject({ rows_loaded: 3, rows_skipped: 1, user_id: admin.id })
+    expect(load.columns).toMatchObject({ Region: 'territory', Quarter: 'period', 'Net Sales': 'revenue' })
+
+    const answer = await computeSalesAnswer('How did Northeast revenue change from Q1 2026 to Q2 2026?')
+    expect(answer?.rows).toEqual([[1000, 1500, 500, 50]])
+    expect(answer?.sql).toContain("territory IN ('Northeast')")
+
+    const ranked = await runSalesQuery({ metric: 'attainment', group_by: 'territory', order: 'asc' })
+    expect(ranked.rows).toEqual([['Southeast', 70], ['Northeast', 138.9]])
+  })
+
+  it('sums dated rows that fall in the same month', async () => {
+    const daily = [
+      'Territory,Product,Date,Revenue,TRx,NRx',
+      'West,Pulmora,2026-04-06,"$1,200",12,',
+      'West,Pulmora,2026-04-20,$800,8,',
+      'West,Pulmora,2026-05-04,$500,5,2',
+    ].join('\n')
+    const load = await loadSalesFile('daily.csv', new TextEncoder().encode(daily), admin)
+    expect(load).toMatchObject({ rows_loaded: 3, rows_skipped: 0 })
+
+    const byMonth = await runSalesQuery({ metric: 'revenue', group_by: 'period', filters: { product: ['Pulmora'] }, order: 'asc' })
+    expect(byMonth.rows).toEqual([['2026-05', 500], ['2026-04', 2000]])
+    const trx = await runSalesQuery({ metric: 'trx', filters: { product: ['Pulmora'], period: ['2026-04'] } })
+    expect(trx.rows).toEqual([[20]])
+    // Empty cells add nothing, so a month without any NRx stays empty
+    const nrx = await runSalesQuery({ metric: 'nrx', group_by: 'period', filters: { product: ['Pulmora'] }, order: 'desc' })
+    expect(nrx.rows).toEqual([['2026-05', 2], ['2026-04', null]])
+
+    // Loading the file again replaces the month's figures rather than adding to them
+    await loadSalesFile('daily.csv', new TextEncoder().encode(daily), admin)
+    expect((await runSalesQuery({ metric: 'revenue', filters: { product: ['Pulmora'], period: ['2026-04'] } })).rows).toEqual([[2000]])
+  })
+})
@@ -0,0 +1,13 @@
+/**
+ * Every test file runs against the in-process Lyzr emulator with its own
+ * empty DATA_DIR, so nothing reaches the network or the developer's data.
+ */
+
+import { mkdtempSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+process.env.DATA_DIR = mkdtempSync(path.join(os.tmpdir(), 'medrep-test-'))
+process.env.LYZR_BACKEND = 'emulator'
+process.env.LYZR_EMULATOR_TASK_MS = '50'
+delete process.env.LYZR_RECORD
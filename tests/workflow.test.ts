@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { GET, POST } from '@/app/api/workflow/route'
+import { loadAgentRegistry } from '@/lib/agentRegistry'
+import { validateWorkflow } from '@/lib/workflowValidation'
+import bundledWorkflow from '@/workflow.json'
+import { apiRequest, signIn } from './helpers'
+
+const withoutCompliance = {
+  nodes: bundledWorkflow.nodes.filter(n => n.id !== 'compliance_agent'),
+  edges: [
+    ...bundledWorkflow.edges.filter(e => e.source !== 'compliance_agent' && e.target !== 'compliance_agent'),
+    { source: 'sales_agent', target: 'output_node' },
+    { source: 'hcp_agent', target: 'output_node' },
+  ],
+}
+
+describe('validateWorkflow', () => {
+  it('accepts workflow.json', async () => {
+    const { agents } = await loadAgentRegistry()
+    expect(validateWorkflow(bundledWorkflow, agents)).toEqual([])
+  })
+
+  it('reports a path that skips the compliance agent', async () => {
+    const { agents } = await loadAgentRegistry()
+    expect(validateWorkflow(withoutCompliance, agents).map(i => i.code)).toEqual(['compliance_bypass'])
+  })
+
+  it('reports structural problems', async () => {
+    const { agents } = await loadAgentRegistry()
+    const graph = {
+      nodes: [...bundledWorkflow.nodes, { id: 'orphan', type: 'Agent', label: 'Orphan', nodeCategory: 'agent', agent: 'sales_territory_agent' }],
+      edges: [
+        ...bundledWorkflow.edges,
+        { source: 'compliance_agent', target: 'manager_agent' },
+        { source: 'sales_agent', target: 'sales_agent' },
+        { source: 'sales_agent', target: 'nowhere' },
+      ],
+    }
+    const codes = validateWorkflow(graph, agents).map(i => i.code)
+    expect(codes).toEqual(expect.arrayContaining(['cycle', 'self_loop', 'unknown_node', 'unreachable']))
+  })
+})
+
+describe('/api/workflow', () => {
+  it('saves valid graphs as new versions and restores old ones', async () => {
+    const admin = await signIn('admin', 'Ada Admin')
+    const graph = {
+      nodes: bundledWorkflow.nodes.filter(n => n.id !== 'hcp_agent'),
+      edges: bundledWorkflow.edges.filter(e => e.source !== 'hcp_agent' && e.target !== 'hcp_agent'),
+      note: 'Sales only',
+    }
+    const saved = await (await POST(apiRequest('/api/workflow', { method: 'POST', session: admin, body: graph }))).json()
+    expect(saved.workflow).toMatchObject({ version: 1, saved_by: 'Ada Admin', note: 'Sales only' })
+
+    const restored = await (await POST(apiRequest('/api/workflow', { method: 'POST', session: admin, body: { action: 'restore', version: 0 } }))).json()
+    expect(restored.workflow).toMatchObject({ version: 2, restored_from: 0, note: 'Restored version 0' })
+
+    const current = await (await GET(apiRequest('/api/workflow', { session: admin }))).json()
+    expect(current.current_version).toBe(2)
+    expect(current.versions.map((v: any) => v.version)).toEqual([2, 1, 0])
+    expect(current.workflow.nodes).toHaveLength(bundledWorkflow.nodes.length)
+    expect((await GET(apiRequest('/api/workflow?version=1', { session: admin }))).status).toBe(200)
+    expect((await GET(apiRequest('/api/workflow?version=9', { session: admin }))).status).toBe(404)
+  })
+
+  it('rejects invalid graphs and users without workflow.edit', async () => {
+    const admin = await signIn('admin')
+    const manager = await signIn('district_manager')
+    const invalid = await POST(apiRequest('/api/workflow', { method: 'POST', session: admin, body: withoutCompliance }))
+    expect(invalid.status).toBe(422)
+    expect((await invalid.json()).issues[0].code).toBe('compliance_bypass')
+    expect((await POST(apiRequest('/api/workflow', { method: 'POST', session: admin, body: { nodes: 'x' } }))).status).toBe(400)
+    expect((await POST(apiRequest('/api/workflow', { method: 'POST', session: manager, body: bundledWorkflow }))).status).toBe(403)
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { GET, PATCH } from '@/app/api/workspace/route'
+import { apiRequest, signIn } from './helpers'
+
+describe('/api/workspace', () => {
+  it('starts in manager mode and lets an admin switch every user to parallel', async () => {
+    const admin = await signIn('admin', 'Ada Admin')
+    const rep = await signIn('field_rep')
+
+    const initial = await (await GET(apiRequest('/api/workspace', { session: rep }))).json()
+    expect(initial.settings).toEqual({ orchestrationMode: 'manager', workspace_id: 'default' })
+
+    const patched = await PATCH(apiRequest('/api/workspace', { method: 'PATCH', session: admin, body: { orchestrationMode: 'parallel' } }))
+    expect(patched.status).toBe(200)
+
+    const seenByRep = await (await GET(apiRequest('/api/workspace', { session: rep }))).json()
+    expect(seenByRep.settings).toMatchObject({ orchestrationMode: 'parallel', updated_by: 'Ada Admin' })
+  })
+
+  it('needs workflow.edit to change settings and rejects unknown modes', async () => {
+    const rep = await signIn('field_rep')
+    const admin = await signIn('admin')
+    expect((await GET(apiRequest('/api/workspace'))).status).toBe(401)
+    expect((await PATCH(apiRequest('/api/workspace', { method: 'PATCH', session: rep, body: { orchestrationMode: 'manager' } }))).status).toBe(403)
+    const invalid = await PATCH(apiRequest('/api/workspace', { method: 'PATCH', session: admin, body: { orchestrationMode: 'serial' } }))
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error).toBe('orchestrationMode must be one of manager, parallel')
+  })
+})